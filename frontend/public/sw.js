@@ -0,0 +1,67 @@
+/*
+ * Caches the app shell so Seatly opens without a connection. API responses
+ * are not cached here: React Query keeps its own offline copy of those.
+ *
+ * - Page loads: network first, falling back to the cached index.html.
+ * - Built assets (/assets/*, content-hashed): cache first, cached on use.
+ * - Everything else goes straight to the network.
+ */
+
+const CACHE_NAME = "seatly-shell-v1";
+
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/vite.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) =>
+        Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put("/index.html", response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/index.html");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirstAsset(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const {request} = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.pathname.startsWith("/assets/") || SHELL.includes(url.pathname)) {
+    event.respondWith(cacheFirstAsset(request));
+  }
+});
@@ -1,17 +1,44 @@
 import {Navigate, Route, Routes} from "react-router-dom";
 import SignupPage from "@/features/signup/SignupPage.tsx";
 import LoginPage from "@/features/login/LoginPage.tsx";
+import ForgotPasswordPage from "@/features/passwordReset/ForgotPasswordPage.tsx";
+import ResetPasswordPage from "@/features/passwordReset/ResetPasswordPage.tsx";
 import {RequireAuth} from "@/features/auth/RequireAuth.tsx";
+import {RequireRole} from "@/features/auth/RequireRole.tsx";
 import DeskDashboardPage from "@/features/desks/DeskDashboardPage.tsx";
+import MyBookingsPage from "@/features/bookings/MyBookingsPage.tsx";
+import SettingsPage from "@/features/preferences/SettingsPage.tsx";
+import DeskAdminPage from "@/features/desks/DeskAdminPage.tsx";
+import TeamBookingPage from "@/features/teamBooking/TeamBookingPage.tsx";
+import CheckInPage from "@/features/checkIn/CheckInPage.tsx";
+import DeskQrSheetPage from "@/features/checkIn/DeskQrSheetPage.tsx";
+import AppLayout from "@/app/AppLayout.tsx";
+import {useQueryCachePersistence} from "@/features/offline/useQueryCachePersistence";
 
 function App() {
+  useQueryCachePersistence();
+
   return (
     <Routes>
       <Route path="/" element={<Navigate to="/dashboard" replace/>}/>
       <Route path="/signup" element={<SignupPage/>}/>
       <Route path="/login" element={<LoginPage/>}/>
+      <Route path="/forgot-password" element={<ForgotPasswordPage/>}/>
+      <Route path="/reset-password" element={<ResetPasswordPage/>}/>
       <Route element={<RequireAuth/>}>
-        <Route path="/dashboard" element={<DeskDashboardPage/>}/>
+        <Route element={<AppLayout/>}>
+          <Route path="/dashboard" element={<DeskDashboardPage/>}/>
+          <Route path="/bookings" element={<MyBookingsPage/>}/>
+          <Route path="/settings" element={<SettingsPage/>}/>
+          <Route path="/desks/:deskId/checkin" element={<CheckInPage/>}/>
+          <Route element={<RequireRole roles={["admin", "member"]}/>}>
+            <Route path="/team-booking" element={<TeamBookingPage/>}/>
+          </Route>
+          <Route element={<RequireRole roles={["admin"]}/>}>
+            <Route path="/admin/desks" element={<DeskAdminPage/>}/>
+            <Route path="/admin/desks/qr-codes" element={<DeskQrSheetPage/>}/>
+          </Route>
+        </Route>
       </Route>
     </Routes>
   );
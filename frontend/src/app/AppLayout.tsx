@@ -0,0 +1,63 @@
+import React from "react";
+import {NavLink, Outlet} from "react-router-dom";
+import {Button} from "@/components/ui/Button";
+import {useAuth} from "@/features/auth/useAuth";
+import {useLiveAvailability} from "@/features/desks/hooks/useLiveAvailability";
+import {OfflineBanner} from "@/features/offline/OfflineBanner";
+import {WaitlistAlerts} from "@/features/waitlist/WaitlistAlerts";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const navLinkStyle = ({isActive}: { isActive: boolean }): React.CSSProperties => ({
+  fontWeight: isActive ? 700 : 500,
+});
+
+export const AppLayout: React.FC = () => {
+  const {user, logout, can} = useAuth();
+  const {t} = useI18n();
+  useLiveAvailability();
+
+  return (
+    <>
+      <nav
+        aria-label={t("nav.main")}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "1rem",
+          padding: "0.75rem 1rem",
+          borderBottom: "1px solid #d1d5db",
+          backgroundColor: "#fff",
+        }}
+      >
+        <NavLink to="/dashboard" style={navLinkStyle}>
+          {t("nav.dashboard")}
+        </NavLink>
+        <NavLink to="/bookings" style={navLinkStyle}>
+          {t("nav.myBookings")}
+        </NavLink>
+        {can("book") && (
+          <NavLink to="/team-booking" style={navLinkStyle}>
+            {t("nav.teamBooking")}
+          </NavLink>
+        )}
+        <NavLink to="/settings" style={navLinkStyle}>
+          {t("nav.settings")}
+        </NavLink>
+        {can("manageDesks") && (
+          <NavLink to="/admin/desks" style={navLinkStyle}>
+            {t("nav.manageDesks")}
+          </NavLink>
+        )}
+        <span style={{marginLeft: "auto", fontSize: "0.9rem"}}>
+          {user?.fullName || user?.email}
+        </span>
+        <Button onClick={logout}>{t("nav.logOut")}</Button>
+      </nav>
+      <OfflineBanner/>
+      <WaitlistAlerts/>
+      <Outlet/>
+    </>
+  );
+};
+
+export default AppLayout;
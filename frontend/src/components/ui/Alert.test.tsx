@@ -0,0 +1,31 @@
+import {describe, expect, it, vi} from "vitest";
+import {screen} from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {Alert} from "./Alert";
+
+describe("Alert", () => {
+  it("announces errors at once and other messages politely", () => {
+    renderWithProviders(
+      <>
+      <Alert tone="error">Could not save.</Alert>
+      <Alert tone="success">Saved.</Alert>
+      </>,
+    );
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Could not save.");
+    expect(screen.getByRole("status")).toHaveTextContent("Saved.");
+  });
+
+  it("can be dismissed from the keyboard", async () => {
+    const user = userEvent.setup();
+    const onDismiss = vi.fn();
+    renderWithProviders(<Alert tone="info" onDismiss={onDismiss}>Heads up.</Alert>);
+
+    await user.tab();
+    expect(screen.getByRole("button", {name: "Dismiss"})).toHaveFocus();
+    await user.keyboard("{Enter}");
+
+    expect(onDismiss).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import React from "react";
+import {Button} from "@/components/ui/Button";
+import {theme} from "@/components/ui/theme";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+export type AlertTone = "error" | "warning" | "success" | "info";
+
+type AlertProps = {
+  tone?: AlertTone;
+  children: React.ReactNode;
+  /** Adds a dismiss button. */
+  onDismiss?: () => void;
+  "aria-label"?: string;
+  style?: React.CSSProperties;
+};
+
+const TONE_STYLES: Record<AlertTone, React.CSSProperties> = {
+  error: {
+    color: theme.color.danger,
+    backgroundColor: theme.color.dangerSurface,
+    borderColor: theme.color.dangerBorder,
+  },
+  warning: {
+    color: theme.color.warning,
+    backgroundColor: theme.color.warningSurface,
+    borderColor: theme.color.warningBorder,
+  },
+  success: {
+    backgroundColor: theme.color.successSurface,
+    borderColor: theme.color.successBorder,
+  },
+  info: {
+    backgroundColor: theme.color.infoSurface,
+    borderColor: theme.color.infoBorder,
+  },
+};
+
+/**
+ * A message box. Errors and warnings are announced straight away
+ * (role="alert"); success and info messages wait their turn (role="status").
+ */
+export const Alert: React.FC<AlertProps> = ({
+                                              tone = "info",
+                                              children,
+                                              onDismiss,
+                                              "aria-label": ariaLabel,
+                                              style,
+                                            }) => {
+  const {t} = useI18n();
+
+  return (
+    <div
+      role={tone === "error" || tone === "warning" ? "alert" : "status"}
+      aria-label={ariaLabel}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.75rem",
+        padding: "0.5rem 0.75rem",
+        marginBottom: "0.75rem",
+        maxWidth: "800px",
+        border: "1px solid",
+        borderRadius: theme.radius,
+        ...TONE_STYLES[tone],
+        ...style,
+      }}
+    >
+      <div style={{flex: 1}}>{children}</div>
+      {onDismiss && (
+        <Button size="sm" onClick={onDismiss} style={{padding: "0.2rem 0.6rem"}}>
+          {t("common.dismiss")}
+        </Button>
+      )}
+    </div>
+  );
+};
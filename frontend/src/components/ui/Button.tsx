@@ -0,0 +1,59 @@
+import React from "react";
+import {theme} from "@/components/ui/theme";
+
+export type ButtonVariant = "primary" | "secondary" | "danger" | "link";
+
+export type ButtonSize = "sm" | "md" | "lg";
+
+type ButtonProps = React.ComponentPropsWithRef<"button"> & {
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+};
+
+const SIZE_STYLES: Record<ButtonSize, React.CSSProperties> = {
+  sm: {padding: "0.3rem 0.7rem"},
+  md: {padding: "0.4rem 0.8rem"},
+  lg: {padding: "0.5rem 1rem"},
+};
+
+// "secondary" keeps the global button look from index.css.
+const VARIANT_STYLES: Record<ButtonVariant, React.CSSProperties> = {
+  primary: {
+    backgroundColor: theme.color.primary,
+    borderColor: theme.color.primary,
+    color: theme.color.onPrimary,
+  },
+  secondary: {},
+  danger: {
+    backgroundColor: theme.color.danger,
+    borderColor: theme.color.danger,
+    color: theme.color.onPrimary,
+  },
+  link: {
+    padding: 0,
+    border: "none",
+    background: "none",
+    color: theme.color.primary,
+    font: "inherit",
+  },
+};
+
+/** A button that defaults to type="button", so it never submits a form by accident. */
+export const Button: React.FC<ButtonProps> = ({
+                                                variant = "secondary",
+                                                size = "sm",
+                                                type = "button",
+                                                style,
+                                                ...props
+                                              }) => (
+  <button
+    type={type}
+    style={{
+      ...SIZE_STYLES[size],
+      ...VARIANT_STYLES[variant],
+      cursor: props.disabled ? "not-allowed" : "pointer",
+      ...style,
+    }}
+    {...props}
+  />
+);
@@ -0,0 +1,107 @@
+import React from "react";
+import {theme} from "@/components/ui/theme";
+
+export type DataTableColumn<T> = {
+  key: string;
+  header: React.ReactNode;
+  render: (row: T, index: number) => React.ReactNode;
+  align?: "left" | "right";
+  /** Renders this column's cells as row headers, e.g. for the row's name. */
+  rowHeader?: boolean;
+  /** Extra attributes for the header cell, e.g. aria-sort. */
+  headerProps?: React.ThHTMLAttributes<HTMLTableCellElement>;
+};
+
+type DataTableProps<T> = {
+  columns: DataTableColumn<T>[];
+  rows: T[];
+  rowKey: (row: T, index: number) => React.Key;
+  /** Accessible name, for pages with more than one table. */
+  label?: string;
+  /** Extra attributes for a row, e.g. event handlers or a highlight. */
+  rowProps?: (row: T, index: number) => React.HTMLAttributes<HTMLTableRowElement>;
+  /** Content for a full-width row under a row, e.g. an edit form; null for none. */
+  renderExpanded?: (row: T, index: number) => React.ReactNode;
+  style?: React.CSSProperties;
+};
+
+/** A plain table of rows with one cell per column. */
+export function DataTable<T>({
+                               columns,
+                               rows,
+                               rowKey,
+                               label,
+                               rowProps,
+                               renderExpanded,
+                               style,
+                             }: DataTableProps<T>) {
+  return (
+    <table
+      aria-label={label}
+      style={{
+        width: "100%",
+        borderCollapse: "collapse",
+        maxWidth: "800px",
+        ...style,
+      }}
+    >
+      <thead>
+      <tr>
+        {columns.map((column) => (
+          <th
+            key={column.key}
+            scope="col"
+            {...column.headerProps}
+            style={{
+              borderBottom: `1px solid ${theme.color.headerBorder}`,
+              textAlign: column.align ?? "left",
+              padding: "0.5rem",
+              ...column.headerProps?.style,
+            }}
+          >
+            {column.header}
+          </th>
+        ))}
+      </tr>
+      </thead>
+      <tbody>
+      {rows.map((row, index) => {
+        const expanded = renderExpanded?.(row, index);
+        return (
+          <React.Fragment key={rowKey(row, index)}>
+            <tr {...rowProps?.(row, index)}>
+              {columns.map((column) => {
+                const Cell = column.rowHeader ? "th" : "td";
+                return (
+                  <Cell
+                    key={column.key}
+                    scope={column.rowHeader ? "row" : undefined}
+                    style={{
+                      borderBottom: `1px solid ${theme.color.rowBorder}`,
+                      textAlign: column.align ?? "left",
+                      padding: "0.5rem",
+                      fontWeight: column.rowHeader ? 500 : undefined,
+                    }}
+                  >
+                    {column.render(row, index)}
+                  </Cell>
+                );
+              })}
+            </tr>
+            {expanded != null && expanded !== false && (
+              <tr>
+                <td
+                  colSpan={columns.length}
+                  style={{borderBottom: `1px solid ${theme.color.rowBorder}`, padding: "0.5rem"}}
+                >
+                  {expanded}
+                </td>
+              </tr>
+            )}
+          </React.Fragment>
+        );
+      })}
+      </tbody>
+    </table>
+  );
+}
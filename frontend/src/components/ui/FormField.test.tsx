@@ -0,0 +1,30 @@
+import {describe, expect, it} from "vitest";
+import {render, screen} from "@testing-library/react";
+import {FormField} from "./FormField";
+
+describe("FormField", () => {
+  it("labels its control and reads out the hint", () => {
+    render(
+      <FormField label="Desk name" hint="Shown on the floor plan.">
+        <input type="text"/>
+      </FormField>,
+    );
+
+    const input = screen.getByRole("textbox", {name: "Desk name"});
+    expect(input).toHaveAccessibleDescription("Shown on the floor plan.");
+    expect(input).not.toHaveAttribute("aria-invalid");
+  });
+
+  it("marks the control invalid and describes it with the error", () => {
+    render(
+      <FormField label="Desk name" hint="Shown on the floor plan." error="Enter a name.">
+        <input id="desk-name" type="text"/>
+      </FormField>,
+    );
+
+    const input = screen.getByRole("textbox", {name: "Desk name"});
+    expect(input).toHaveAttribute("id", "desk-name");
+    expect(input).toBeInvalid();
+    expect(input).toHaveAccessibleDescription("Shown on the floor plan. Enter a name.");
+  });
+});
@@ -0,0 +1,78 @@
+import React from "react";
+import {theme} from "@/components/ui/theme";
+
+/** What FormField hands its control so the label, hint and error are tied to it. */
+type FieldControlProps = {
+  id?: string;
+  "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
+};
+
+type FormFieldProps = {
+  label: React.ReactNode;
+  /** Help shown under the control and read out with it. */
+  hint?: React.ReactNode;
+  /** Shown under the control, which is marked invalid while it's set. */
+  error?: React.ReactNode;
+  /** Puts the label beside the control instead of above it. */
+  inline?: boolean;
+  style?: React.CSSProperties;
+  /** A single input, select or textarea. */
+  children: React.ReactElement<FieldControlProps>;
+};
+
+/** A labelled form control with optional hint and error text. */
+export const FormField: React.FC<FormFieldProps> = ({
+                                                      label,
+                                                      hint,
+                                                      error,
+                                                      inline = false,
+                                                      style,
+                                                      children,
+                                                    }) => {
+  const generatedId = React.useId();
+  const id = children.props.id ?? generatedId;
+  const hintId = `${id}-hint`;
+  const errorId = `${id}-error`;
+  const describedBy = [
+    children.props["aria-describedby"],
+    hint ? hintId : null,
+    error ? errorId : null,
+  ].filter(Boolean).join(" ");
+
+  const control = React.cloneElement(children, {
+    id,
+    "aria-describedby": describedBy || undefined,
+    "aria-invalid": error ? true : children.props["aria-invalid"],
+  });
+
+  return (
+    <div style={{marginBottom: "0.75rem", ...style}}>
+      <div
+        style={
+          inline
+            ? {display: "flex", alignItems: "center", gap: "0.5rem"}
+            : undefined
+        }
+      >
+        <label
+          htmlFor={id}
+          style={inline ? {whiteSpace: "nowrap"} : {display: "block", marginBottom: "0.25rem"}}
+        >
+          {label}
+        </label>
+        {control}
+      </div>
+      {hint && (
+        <p id={hintId} style={{margin: "0.25rem 0 0", fontSize: "0.85rem", color: theme.color.mutedText}}>
+          {hint}
+        </p>
+      )}
+      {error && (
+        <p id={errorId} style={{margin: "0.25rem 0 0", fontSize: "0.85rem", color: theme.color.danger}}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
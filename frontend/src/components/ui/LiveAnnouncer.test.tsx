@@ -0,0 +1,42 @@
+import React from "react";
+import {describe, expect, it} from "vitest";
+import {render, screen} from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {LiveAnnouncerProvider} from "./LiveAnnouncer";
+import {useAnnounce} from "./useAnnounce";
+
+const AnnounceButton: React.FC = () => {
+  const announce = useAnnounce();
+  return (
+    <>
+    <button type="button" onClick={() => announce("Desk booked.")}>Book</button>
+    <button type="button" onClick={() => announce("Booking failed.", "assertive")}>Fail</button>
+    </>
+  );
+};
+
+describe("LiveAnnouncer", () => {
+  it("reads messages out from live regions that are there before them", async () => {
+    const user = userEvent.setup();
+    const {container} = render(
+      <LiveAnnouncerProvider>
+        <AnnounceButton/>
+      </LiveAnnouncerProvider>,
+    );
+    const polite = container.querySelector("[aria-live='polite']")!;
+    const assertive = container.querySelector("[aria-live='assertive']")!;
+    expect(polite).toBeEmptyDOMElement();
+
+    await user.click(screen.getByRole("button", {name: "Book"}));
+    const first = polite.firstElementChild;
+    expect(polite).toHaveTextContent("Desk booked.");
+
+    // The same message again replaces the node, so it's read out again.
+    await user.click(screen.getByRole("button", {name: "Book"}));
+    expect(polite).toHaveTextContent("Desk booked.");
+    expect(polite.firstElementChild).not.toBe(first);
+
+    await user.click(screen.getByRole("button", {name: "Fail"}));
+    expect(assertive).toHaveTextContent("Booking failed.");
+  });
+});
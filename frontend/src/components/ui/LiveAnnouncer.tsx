@@ -0,0 +1,49 @@
+import React, {type ReactNode, useCallback, useState} from "react";
+import {LiveAnnouncerContext, type Politeness} from "@/components/ui/useAnnounce";
+
+type Announcement = {
+  message: string;
+  /** Changes on every announcement so the same message is read out again. */
+  id: number;
+};
+
+const visuallyHiddenStyle: React.CSSProperties = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  margin: "-1px",
+  padding: 0,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
+
+/**
+ * Screen-reader announcements for changes that have no message box of their
+ * own, like "availability loaded". The live regions are rendered up front:
+ * screen readers often skip live regions that appear together with their text.
+ */
+export const LiveAnnouncerProvider: React.FC<{ children: ReactNode }> = ({children}) => {
+  const [polite, setPolite] = useState<Announcement | null>(null);
+  const [assertive, setAssertive] = useState<Announcement | null>(null);
+
+  const announce = useCallback((message: string, politeness: Politeness = "polite") => {
+    const setAnnouncement = politeness === "assertive" ? setAssertive : setPolite;
+    setAnnouncement((current) => ({message, id: (current?.id ?? 0) + 1}));
+  }, []);
+
+  const value = React.useMemo(() => ({announce}), [announce]);
+
+  return (
+    <LiveAnnouncerContext.Provider value={value}>
+      {children}
+      <div aria-live="polite" aria-atomic="true" style={visuallyHiddenStyle}>
+        {polite && <span key={polite.id}>{polite.message}</span>}
+      </div>
+      <div aria-live="assertive" aria-atomic="true" style={visuallyHiddenStyle}>
+        {assertive && <span key={assertive.id}>{assertive.message}</span>}
+      </div>
+    </LiveAnnouncerContext.Provider>
+  );
+};
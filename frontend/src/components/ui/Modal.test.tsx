@@ -0,0 +1,81 @@
+import React from "react";
+import {describe, expect, it, vi} from "vitest";
+import {render, screen} from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {Modal} from "./Modal";
+
+const ModalHarness: React.FC<{ onClose?: () => void; dismissible?: boolean }> = ({
+                                                                                   onClose,
+                                                                                   dismissible,
+                                                                                 }) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const close = () => {
+    onClose?.();
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+    <button type="button" onClick={() => setIsOpen(true)}>Open</button>
+    <Modal isOpen={isOpen} onClose={close} title="Edit desk" dismissible={dismissible}>
+      <input aria-label="Name"/>
+      <button type="button" onClick={close}>Done</button>
+    </Modal>
+    </>
+  );
+};
+
+describe("Modal", () => {
+  it("is a labelled modal dialog that takes focus and gives it back on close", async () => {
+    const user = userEvent.setup();
+    render(<ModalHarness/>);
+
+    const opener = screen.getByRole("button", {name: "Open"});
+    await user.click(opener);
+
+    const dialog = screen.getByRole("dialog", {name: "Edit desk"});
+    expect(dialog).toHaveAttribute("aria-modal", "true");
+    expect(screen.getByRole("textbox", {name: "Name"})).toHaveFocus();
+
+    await user.click(screen.getByRole("button", {name: "Done"}));
+
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(opener).toHaveFocus();
+  });
+
+  it("keeps Tab and Shift+Tab inside the dialog", async () => {
+    const user = userEvent.setup();
+    render(<ModalHarness/>);
+    await user.click(screen.getByRole("button", {name: "Open"}));
+
+    const name = screen.getByRole("textbox", {name: "Name"});
+    const done = screen.getByRole("button", {name: "Done"});
+
+    await user.tab();
+    expect(done).toHaveFocus();
+    await user.tab();
+    expect(name).toHaveFocus();
+    await user.tab({shift: true});
+    expect(done).toHaveFocus();
+  });
+
+  it("closes on Escape unless it isn't dismissible", async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const {unmount} = render(<ModalHarness onClose={onClose}/>);
+    await user.click(screen.getByRole("button", {name: "Open"}));
+
+    await user.keyboard("{Escape}");
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    unmount();
+
+    render(<ModalHarness onClose={onClose} dismissible={false}/>);
+    await user.click(screen.getByRole("button", {name: "Open"}));
+    await user.keyboard("{Escape}");
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole("dialog", {name: "Edit desk"})).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,129 @@
+import React from "react";
+import {createPortal} from "react-dom";
+import {theme} from "@/components/ui/theme";
+
+type ModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Heading of the dialog, which also names it for screen readers. */
+  title: React.ReactNode;
+  children: React.ReactNode;
+  /** While false, Escape and clicks outside leave it open, e.g. during a save. */
+  dismissible?: boolean;
+  maxWidth?: string;
+};
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+function focusableElements(container: HTMLElement): HTMLElement[] {
+  return [...container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)];
+}
+
+/**
+ * A modal dialog. Focus moves to its first control when it opens, Tab and
+ * Shift+Tab stay inside it, Escape closes it, and focus goes back to where it
+ * was on close.
+ */
+export const Modal: React.FC<ModalProps> = ({
+                                              isOpen,
+                                              onClose,
+                                              title,
+                                              children,
+                                              dismissible = true,
+                                              maxWidth = "400px",
+                                            }) => {
+  const titleId = React.useId();
+  const dialogRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const previouslyFocused =
+      document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    // Controls inside shouldn't use autoFocus: it would run before this and
+    // lose the element to return focus to.
+    const dialog = dialogRef.current;
+    if (dialog) (focusableElements(dialog)[0] ?? dialog).focus();
+
+    return () => {
+      if (previouslyFocused?.isConnected) previouslyFocused.focus();
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (e) => {
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      if (dismissible) onClose();
+      return;
+    }
+    if (e.key !== "Tab" || !dialogRef.current) return;
+
+    const focusable = focusableElements(dialogRef.current);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return createPortal(
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        backgroundColor: theme.color.overlay,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && dismissible) onClose();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        style={{
+          backgroundColor: theme.color.surface,
+          color: theme.color.text,
+          padding: "1.5rem",
+          borderRadius: theme.radius,
+          width: "100%",
+          maxWidth,
+          maxHeight: "100vh",
+          overflowY: "auto",
+          boxShadow: theme.shadow,
+        }}
+      >
+        <h2 id={titleId} style={{marginTop: 0, marginBottom: "0.75rem"}}>
+          {title}
+        </h2>
+        {children}
+      </div>
+    </div>,
+    document.body,
+  );
+};
@@ -0,0 +1,32 @@
+/**
+ * Design tokens for the shared UI components. Each one reads a CSS custom
+ * property and falls back to the default look, so a theme is a stylesheet
+ * that sets the `--seatly-*` variables (on :root or any container).
+ */
+export const theme = {
+  color: {
+    text: "var(--seatly-color-text, #111827)",
+    mutedText: "var(--seatly-color-muted-text, #4b5563)",
+    surface: "var(--seatly-color-surface, #fff)",
+    border: "var(--seatly-color-border, #d1d5db)",
+    headerBorder: "var(--seatly-color-header-border, #ccc)",
+    rowBorder: "var(--seatly-color-row-border, #eee)",
+    primary: "var(--seatly-color-primary, #2563eb)",
+    onPrimary: "var(--seatly-color-on-primary, #fff)",
+    selected: "var(--seatly-color-selected, #dbeafe)",
+    danger: "var(--seatly-color-danger, #b91c1c)",
+    dangerSurface: "var(--seatly-color-danger-surface, #fef2f2)",
+    dangerBorder: "var(--seatly-color-danger-border, #fecaca)",
+    success: "var(--seatly-color-success, #065f46)",
+    successSurface: "var(--seatly-color-success-surface, #ecfdf5)",
+    successBorder: "var(--seatly-color-success-border, #a7f3d0)",
+    warning: "var(--seatly-color-warning, #92400e)",
+    warningSurface: "var(--seatly-color-warning-surface, #fffbeb)",
+    warningBorder: "var(--seatly-color-warning-border, #fde68a)",
+    infoSurface: "var(--seatly-color-info-surface, #eff6ff)",
+    infoBorder: "var(--seatly-color-info-border, #bfdbfe)",
+    overlay: "var(--seatly-color-overlay, rgba(0,0,0,0.4))",
+  },
+  radius: "var(--seatly-radius, 4px)",
+  shadow: "var(--seatly-shadow, 0 4px 10px rgba(0,0,0,0.15))",
+} as const;
@@ -0,0 +1,17 @@
+import {createContext, useContext} from "react";
+
+export type Politeness = "polite" | "assertive";
+
+export type LiveAnnouncerContextValue = {
+  announce: (message: string, politeness?: Politeness) => void;
+};
+
+export const LiveAnnouncerContext = createContext<LiveAnnouncerContextValue | undefined>(undefined);
+
+export const useAnnounce = (): LiveAnnouncerContextValue["announce"] => {
+  const ctx = useContext(LiveAnnouncerContext);
+  if (!ctx) {
+    throw new Error("useAnnounce must be used within a LiveAnnouncerProvider");
+  }
+  return ctx.announce;
+};
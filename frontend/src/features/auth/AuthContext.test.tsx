@@ -0,0 +1,82 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {act, screen} from "@testing-library/react";
+import {Route, Routes} from "react-router-dom";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {createTestToken} from "@/test-utils/jwt";
+import {RequireAuth} from "./RequireAuth";
+
+const testUser = {
+  id: 1,
+  email: "test@example.com",
+  fullName: "Test User",
+};
+
+function tokenExpiringIn(ms: number): string {
+  return createTestToken({sub: "1", exp: Math.floor((Date.now() + ms) / 1000)});
+}
+
+function renderProtectedPage(accessToken: string) {
+  return renderWithProviders(
+    <Routes>
+      <Route path="/login" element={<h1>Login page</h1>}/>
+      <Route element={<RequireAuth/>}>
+        <Route path="/dashboard" element={<h1>Dashboard</h1>}/>
+      </Route>
+    </Routes>,
+    {
+      initialEntries: ["/dashboard"],
+      initialAuth: {user: testUser, accessToken},
+    },
+  );
+}
+
+describe("AuthProvider session handling", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("ignores a stored token that has already expired", () => {
+    renderProtectedPage(tokenExpiringIn(-60_000));
+
+    expect(screen.getByRole("heading", {name: /login page/i})).toBeInTheDocument();
+    expect(window.localStorage.getItem("auth")).toBeNull();
+  });
+
+  it("warns before the token expires and logs out when it does", () => {
+    vi.useFakeTimers({toFake: ["setTimeout", "clearTimeout", "Date"]});
+    renderProtectedPage(tokenExpiringIn(10 * 60_000));
+
+    expect(screen.getByRole("heading", {name: /dashboard/i})).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(6 * 60_000);
+    });
+    expect(screen.getByRole("alert")).toHaveTextContent(/your session expires at/i);
+
+    act(() => {
+      vi.advanceTimersByTime(4 * 60_000);
+    });
+    expect(screen.getByRole("heading", {name: /login page/i})).toBeInTheDocument();
+    expect(window.localStorage.getItem("auth")).toBeNull();
+  });
+
+  it("logs out when another tab clears the session", () => {
+    renderProtectedPage("abc123");
+    expect(screen.getByRole("heading", {name: /dashboard/i})).toBeInTheDocument();
+
+    act(() => {
+      window.localStorage.removeItem("auth");
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "auth",
+          oldValue: JSON.stringify({user: testUser, accessToken: "abc123"}),
+          newValue: null,
+          storageArea: window.localStorage,
+        }),
+      );
+    });
+
+    expect(screen.getByRole("heading", {name: /login page/i})).toBeInTheDocument();
+  });
+});
@@ -1,51 +1,56 @@
-import React, {createContext, type ReactNode, useContext, useEffect, useState,} from "react";
-
-type User = {
-  id: number;
-  email: string;
-  fullName: string;
-};
+import React, {type ReactNode, useCallback, useEffect, useMemo, useState} from "react";
+import {getTokenExpiry, isTokenExpired} from "@/features/auth/token";
+import {hasPermission, type Permission, resolveRole} from "@/features/auth/roles";
+import {AuthContext, type AuthContextValue, type LoginPayload, type User} from "@/features/auth/useAuth";
 
 type AuthData = {
   user: User | null;
   accessToken: string | null;
 };
 
-type LoginPayload = {
-  user: User;
-  accessToken: string;
-};
+const STORAGE_KEY = "auth";
 
-type AuthContextValue = {
-  user: User | null;
-  accessToken: string | null;
-  isAuthenticated: boolean;
-  login: (payload: LoginPayload) => void;
-  logout: () => void;
+const SESSION_WARNING_MS = 5 * 60 * 1000;
+
+// setTimeout overflows above this and would fire immediately.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const EMPTY_AUTH: AuthData = {
+  user: null,
+  accessToken: null,
 };
 
-const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+function parseStoredAuth(raw: string | null): AuthData {
+  if (!raw) return EMPTY_AUTH;
 
-const STORAGE_KEY = "auth";
+  try {
+    const parsed = JSON.parse(raw) as AuthData;
+    if (!parsed.accessToken || isTokenExpired(parsed.accessToken)) {
+      return EMPTY_AUTH;
+    }
+    // Sessions stored before roles existed have no role on the user.
+    const user = parsed.user && {
+      ...parsed.user,
+      role: resolveRole(parsed.user.role, parsed.accessToken),
+    };
+    return {...parsed, user};
+  } catch {
+    return EMPTY_AUTH;
+  }
+}
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({children}) => {
-  const [auth, setAuth] = useState<AuthData>({
-    user: null,
-    accessToken: null,
-  });
-
   // Load auth from localStorage on mount
-  useEffect(() => {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return;
+  const [auth, setAuth] = useState<AuthData>(() =>
+    parseStoredAuth(window.localStorage.getItem(STORAGE_KEY)),
+  );
+  const [warnedToken, setWarnedToken] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
-    try {
-      const parsed = JSON.parse(raw) as AuthData;
-      setAuth(parsed);
-    } catch {
-      window.localStorage.removeItem(STORAGE_KEY);
-    }
-  }, []);
+  const expiresAt = useMemo(
+    () => (auth.accessToken ? getTokenExpiry(auth.accessToken) : null),
+    [auth.accessToken],
+  );
 
   // Persist auth to localStorage when it changes
   useEffect(() => {
@@ -56,39 +61,79 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({children}) => {
     window.localStorage.setItem(STORAGE_KEY, JSON.stringify(auth));
   }, [auth]);
 
-  const login = (payload: LoginPayload) => {
+  // Warn shortly before the token expires, then log out once it has.
+  useEffect(() => {
+    const token = auth.accessToken;
+    if (!token || expiresAt == null) return;
+
+    const untilExpiry = expiresAt - Date.now();
+    if (untilExpiry > MAX_TIMEOUT_MS) return;
+
+    const warningTimer = window.setTimeout(
+      () => setWarnedToken(token),
+      Math.max(0, untilExpiry - SESSION_WARNING_MS),
+    );
+    const expiryTimer = window.setTimeout(() => {
+      setAuth(EMPTY_AUTH);
+      setSessionExpired(true);
+    }, Math.max(0, untilExpiry));
+
+    return () => {
+      window.clearTimeout(warningTimer);
+      window.clearTimeout(expiryTimer);
+    };
+  }, [auth.accessToken, expiresAt]);
+
+  // Keep other tabs in step: a login or logout elsewhere updates this tab.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage) return;
+      if (event.key !== STORAGE_KEY && event.key !== null) return;
+      setAuth(parseStoredAuth(event.newValue));
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const login = useCallback((payload: LoginPayload) => {
+    setSessionExpired(false);
     setAuth({
       user: payload.user,
       accessToken: payload.accessToken,
     });
-  };
+  }, []);
 
-  const logout = () => {
-    setAuth({
-      user: null,
-      accessToken: null,
-    });
-  };
+  const logout = useCallback(() => {
+    setAuth(EMPTY_AUTH);
+  }, []);
+
+  const role = auth.user?.role ?? null;
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role],
+  );
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      user: auth.user,
+      accessToken: auth.accessToken,
+      isAuthenticated: !!auth.accessToken,
+      role,
+      can,
+      expiresAt,
+      isExpiringSoon: !!auth.accessToken && warnedToken === auth.accessToken,
+      sessionExpired,
+      login,
+      logout,
+    }),
+    [auth, role, can, expiresAt, warnedToken, sessionExpired, login, logout],
+  );
 
   return (
-    <AuthContext.Provider
-      value={{
-        user: auth.user,
-        accessToken: auth.accessToken,
-        isAuthenticated: !!auth.accessToken,
-        login,
-        logout,
-      }}
-    >
+    <AuthContext.Provider value={value}>
       {children}
     </AuthContext.Provider>
   );
 };
-
-export const useAuth = (): AuthContextValue => {
-  const ctx = useContext(AuthContext);
-  if (!ctx) {
-    throw new Error("useAuth must be used within an AuthProvider");
-  }
-  return ctx;
-};
\ No newline at end of file
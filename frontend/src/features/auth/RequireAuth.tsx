@@ -1,6 +1,7 @@
 import React from "react";
 import {Navigate, Outlet, useLocation} from "react-router-dom";
-import {useAuth} from "@/features/auth/AuthContext";
+import {useAuth} from "@/features/auth/useAuth";
+import {SessionExpiryWarning} from "@/features/auth/SessionExpiryWarning";
 
 export const RequireAuth: React.FC = () => {
   const {isAuthenticated} = useAuth();
@@ -10,5 +11,10 @@ export const RequireAuth: React.FC = () => {
     return <Navigate to="/login" replace state={{from: location}}/>;
   }
 
-  return <Outlet/>;
-};
\ No newline at end of file
+  return (
+    <>
+      <SessionExpiryWarning/>
+      <Outlet/>
+    </>
+  );
+};
@@ -0,0 +1,60 @@
+import {describe, expect, it} from "vitest";
+import {screen} from "@testing-library/react";
+import {Route, Routes} from "react-router-dom";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {createTestToken} from "@/test-utils/jwt";
+import type {Role} from "./roles";
+import {RequireRole} from "./RequireRole";
+
+function renderAdminPage(auth: { role?: Role; accessToken: string } | null) {
+  return renderWithProviders(
+    <Routes>
+      <Route path="/login" element={<h1>Login page</h1>}/>
+      <Route element={<RequireRole roles={["admin"]}/>}>
+        <Route path="/admin" element={<h1>Admin page</h1>}/>
+      </Route>
+    </Routes>,
+    {
+      initialEntries: ["/admin"],
+      initialAuth: auth
+        ? {
+          user: {id: 1, email: "test@example.com", fullName: "Test User", role: auth.role},
+          accessToken: auth.accessToken,
+        }
+        : undefined,
+    },
+  );
+}
+
+describe("RequireRole", () => {
+  it("shows the page to users with an allowed role", () => {
+    renderAdminPage({role: "admin", accessToken: "abc123"});
+
+    expect(screen.getByRole("heading", {name: /admin page/i})).toBeInTheDocument();
+  });
+
+  it.each<Role>(["member", "viewer"])("turns away %s users", (role) => {
+    renderAdminPage({role, accessToken: "abc123"});
+
+    expect(screen.queryByRole("heading", {name: /admin page/i})).not.toBeInTheDocument();
+    expect(screen.getByRole("alert")).toHaveTextContent(/don't have access/i);
+  });
+
+  it("reads the role from the token claims when the user has none", () => {
+    renderAdminPage({accessToken: createTestToken({sub: "1", roles: ["admin"]})});
+
+    expect(screen.getByRole("heading", {name: /admin page/i})).toBeInTheDocument();
+  });
+
+  it("treats users without any role as members", () => {
+    renderAdminPage({accessToken: createTestToken({sub: "1"})});
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/don't have access/i);
+  });
+
+  it("sends logged-out users to the login page", () => {
+    renderAdminPage(null);
+
+    expect(screen.getByRole("heading", {name: /login page/i})).toBeInTheDocument();
+  });
+});
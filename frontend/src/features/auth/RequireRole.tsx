@@ -0,0 +1,29 @@
+import React from "react";
+import {Navigate, Outlet, useLocation} from "react-router-dom";
+import {useAuth} from "@/features/auth/useAuth";
+import type {Role} from "@/features/auth/roles";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type RequireRoleProps = {
+  roles: Role[];
+};
+
+export const RequireRole: React.FC<RequireRoleProps> = ({roles}) => {
+  const {isAuthenticated, role} = useAuth();
+  const {t} = useI18n();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{from: location}}/>;
+  }
+
+  if (!role || !roles.includes(role)) {
+    return (
+      <p role="alert" style={{padding: "1rem"}}>
+        {t("auth.forbidden")}
+      </p>
+    );
+  }
+
+  return <Outlet/>;
+};
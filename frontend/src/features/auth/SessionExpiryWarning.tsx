@@ -0,0 +1,39 @@
+import React from "react";
+import {useLocation, useNavigate} from "react-router-dom";
+import {Button} from "@/components/ui/Button";
+import {useAuth} from "@/features/auth/useAuth";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+export const SessionExpiryWarning: React.FC = () => {
+  const {isExpiringSoon, expiresAt, logout} = useAuth();
+  const {t, formatTime} = useI18n();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  if (!isExpiringSoon || expiresAt == null) return null;
+
+  const handleLogInAgain = () => {
+    logout();
+    navigate("/login", {replace: true, state: {from: location}});
+  };
+
+  return (
+    <div
+      role="alert"
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.75rem",
+        padding: "0.5rem 1rem",
+        backgroundColor: "#fef3c7",
+        borderBottom: "1px solid #f59e0b",
+        fontSize: "0.9rem",
+      }}
+    >
+      <span>{t("session.expiresAt", {time: formatTime(new Date(expiresAt))})}</span>
+      <Button onClick={handleLogInAgain} style={{marginLeft: "auto"}}>
+        {t("session.logInAgain")}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import {decodeJwtClaims} from "@/features/auth/token";
+
+export type Role = "admin" | "member" | "viewer";
+
+export const ROLES: Role[] = ["admin", "member", "viewer"];
+
+/** Given to users whose login response and token carry no known role. */
+export const DEFAULT_ROLE: Role = "member";
+
+/** What each role may do; anything not listed is allowed for every role. */
+const PERMISSIONS = {
+  manageDesks: ["admin"],
+  book: ["admin", "member"],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && ROLES.includes(value as Role);
+}
+
+/**
+ * The user's role: the login response's `role` if it has one, otherwise the
+ * token's `role` claim (or the first known entry of a `roles` claim).
+ */
+export function resolveRole(responseRole: unknown, accessToken: string): Role {
+  if (isRole(responseRole)) return responseRole;
+
+  const claims = decodeJwtClaims(accessToken);
+  if (isRole(claims?.role)) return claims.role;
+  if (Array.isArray(claims?.roles)) {
+    const role = claims.roles.find(isRole);
+    if (role) return role;
+  }
+  return DEFAULT_ROLE;
+}
+
+export function hasPermission(role: Role | null, permission: Permission): boolean {
+  return role != null && (PERMISSIONS[permission] as Role[]).includes(role);
+}
@@ -0,0 +1,39 @@
+export type JwtClaims = {
+  exp?: number;
+  [claim: string]: unknown;
+};
+
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+  const binary = window.atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Reads the claims of a JWT without verifying it. Returns null for anything
+ * that isn't a well-formed token; the server remains the source of truth.
+ */
+export function decodeJwtClaims(token: string): JwtClaims | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(payload)) as unknown;
+    return claims && typeof claims === "object" ? (claims as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry of the token in epoch milliseconds, or null if it has no `exp`. */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtClaims(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+export function isTokenExpired(token: string, now = Date.now()): boolean {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt != null && expiresAt <= now;
+}
@@ -0,0 +1,41 @@
+import {createContext, useContext} from "react";
+import type {Permission, Role} from "@/features/auth/roles";
+
+export type User = {
+  id: number;
+  email: string;
+  fullName: string | null;
+  role: Role;
+};
+
+export type LoginPayload = {
+  user: User;
+  accessToken: string;
+};
+
+export type AuthContextValue = {
+  user: User | null;
+  accessToken: string | null;
+  isAuthenticated: boolean;
+  role: Role | null;
+  /** Whether the user's role allows `permission`; false when logged out. */
+  can: (permission: Permission) => boolean;
+  /** Expiry of the access token in epoch milliseconds, if the token has one. */
+  expiresAt: number | null;
+  /** True once the token is within SESSION_WARNING_MS of expiring. */
+  isExpiringSoon: boolean;
+  /** True when the last session ended because the token expired. */
+  sessionExpired: boolean;
+  login: (payload: LoginPayload) => void;
+  logout: () => void;
+};
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const useAuth = (): AuthContextValue => {
+  const ctx = useContext(AuthContext);
+  if (!ctx) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return ctx;
+};
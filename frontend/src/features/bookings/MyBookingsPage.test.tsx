@@ -0,0 +1,177 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {screen, waitFor, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+import {apiUrl} from "@/lib/apiClient";
+import {toLocalDateTimeString} from "@/features/desks/utils/dateTime";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import MyBookingsPage from "./MyBookingsPage";
+
+describe("MyBookingsPage", () => {
+  let user: UserEvent;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+  });
+
+  const renderPage = () =>
+    renderWithProviders(<MyBookingsPage/>, {
+      initialEntries: ["/bookings"],
+      initialAuth: {
+        user: {
+          id: 1,
+          email: "test@example.com",
+          fullName: "Test User",
+        },
+        accessToken: "abc123",
+      },
+    });
+
+  it("lists upcoming and past bookings with desk names", async () => {
+    renderPage();
+
+    await screen.findByRole("heading", {name: /my bookings/i});
+
+    const [upcomingTable, pastTable] = await screen.findAllByRole("table");
+    expect(await within(upcomingTable).findByText("Desk B")).toBeInTheDocument();
+    expect(within(upcomingTable).getByText("10:00 AM – 12:00 PM")).toBeInTheDocument();
+    expect(within(pastTable).getByText("Desk A")).toBeInTheDocument();
+    expect(within(pastTable).getByText("9:00 AM – 12:00 PM")).toBeInTheDocument();
+    expect(
+      within(pastTable).queryByRole("button", {name: /cancel/i}),
+    ).not.toBeInTheDocument();
+  });
+
+  it("offers the upcoming bookings as a calendar file", async () => {
+    renderPage();
+
+    const [upcomingTable] = await screen.findAllByRole("table");
+    await within(upcomingTable).findByText("Desk B");
+
+    const link = screen.getByRole("link", {name: /add upcoming bookings to calendar/i});
+    expect(link).toHaveAttribute("download", "desk-bookings.ics");
+    const ics = decodeURIComponent(link.getAttribute("href")!.split(",")[1]);
+    expect(ics).toContain("UID:booking-2@seatly");
+    expect(ics).toContain("SUMMARY:Desk booking: Desk B");
+    expect(ics).not.toContain("UID:booking-1@seatly");
+  });
+
+  it("cancels an upcoming booking", async () => {
+    const {queryClient} = renderPage();
+    queryClient.setQueryData(["deskAvailability", 2, "start", "end"], []);
+
+    const [upcomingTable] = await screen.findAllByRole("table");
+    await user.click(within(upcomingTable).getByRole("button", {name: /cancel/i}));
+
+    expect(
+      await screen.findByText(/you have no upcoming bookings/i),
+    ).toBeInTheDocument();
+    await waitFor(() => {
+      expect(
+        queryClient.getQueryState(["deskAvailability", 2, "start", "end"])?.isInvalidated,
+      ).toBe(true);
+    });
+  });
+
+  it("shows who else is in a team booking", async () => {
+    server.use(
+      http.get("*/users/me/bookings", () =>
+        HttpResponse.json([
+          {
+            id: 7,
+            deskId: 1,
+            userId: 1,
+            startAt: "2099-01-05T09:00:00",
+            endAt: "2099-01-05T11:00:00",
+            groupId: 3,
+          },
+        ]),
+      ),
+      http.get("*/booking-groups/3", () =>
+        HttpResponse.json({
+          id: 3,
+          organizerId: 2,
+          startAt: "2099-01-05T09:00:00",
+          endAt: "2099-01-05T11:00:00",
+          members: [
+            {bookingId: 6, deskId: 2, userId: 2, fullName: "Alice Example"},
+            {bookingId: 7, deskId: 1, userId: 1, fullName: "Test User"},
+          ],
+        }),
+      ),
+    );
+    renderPage();
+
+    const [upcomingTable] = await screen.findAllByRole("table");
+    await within(upcomingTable).findByText("Desk A");
+    const toggle = within(upcomingTable).getByRole("button", {name: /team booking/i});
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+
+    await user.click(toggle);
+
+    const seating = await screen.findByRole("list", {name: /seating/i});
+    expect(within(seating).getAllByRole("listitem").map((item) => item.textContent)).toEqual([
+      "Alice Example: Desk B",
+      "Test User (you): Desk A",
+    ]);
+  });
+
+  it("offers check-in and moves released bookings to the past", async () => {
+    const minutesFromNow = (minutes: number) =>
+      toLocalDateTimeString(new Date(Date.now() + minutes * 60_000));
+    let checkedIn = false;
+    server.use(
+      http.get("*/users/me/bookings", () =>
+        HttpResponse.json([
+          {id: 7, deskId: 1, userId: 1, startAt: minutesFromNow(5), endAt: minutesFromNow(60)},
+          {id: 8, deskId: 2, userId: 1, startAt: minutesFromNow(-20), endAt: minutesFromNow(60)},
+        ]),
+      ),
+      http.post("*/desks/1/checkin", () => {
+        checkedIn = true;
+        return HttpResponse.json({id: 7});
+      }),
+    );
+    renderPage();
+
+    const [upcomingTable, pastTable] = await screen.findAllByRole("table");
+    expect(await within(upcomingTable).findByText("Desk A")).toBeInTheDocument();
+    expect(within(upcomingTable).getByText(/^check in by /i)).toBeInTheDocument();
+    expect(within(pastTable).getByText("Desk B")).toBeInTheDocument();
+    expect(within(pastTable).getByText("Released: not checked in")).toBeInTheDocument();
+
+    await user.click(within(upcomingTable).getByRole("button", {name: "Check in to Desk A"}));
+
+    await waitFor(() => expect(checkedIn).toBe(true));
+  });
+
+  it("lists waitlist entries and lets the user change or leave them", async () => {
+    await fetch(apiUrl("/desks/1/waitlist"), {
+      method: "POST",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify({startAt: "2099-01-05T09:00:00", endAt: "2099-01-05T09:30:00"}),
+    });
+    renderPage();
+
+    const waitlistTable = await screen.findByRole("table", {name: "Waitlist"});
+    expect(await within(waitlistTable).findByText("Desk A")).toBeInTheDocument();
+    expect(within(waitlistTable).getByText("9:00 AM – 9:30 AM")).toBeInTheDocument();
+    expect(await within(waitlistTable).findByText("Free now")).toBeInTheDocument();
+
+    const autoClaim = within(waitlistTable).getByRole("checkbox", {
+      name: /^claim desk a on .*, 9:00 AM – 9:30 AM automatically$/i,
+    });
+    expect(autoClaim).not.toBeChecked();
+    await user.click(autoClaim);
+    await waitFor(() => expect(autoClaim).toBeChecked());
+
+    await user.click(
+      within(waitlistTable).getByRole("button", {name: /^leave the waitlist for desk a/i}),
+    );
+
+    expect(
+      await screen.findByText(/you are not waiting for any desks/i),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,235 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import {theme} from "@/components/ui/theme";
+import type {Booking} from "@/features/desks/api/deskBookings";
+import {useDesksQuery} from "@/features/desks/api/desks";
+import {useCancelBookingMutation, useMyBookingsQuery} from "@/features/bookings/api/bookings";
+import {AddToCalendarLink} from "@/features/bookings/components/AddToCalendarLink";
+import {useCheckInMutation} from "@/features/checkIn/api/checkIn";
+import {
+  type CheckInStatus,
+  checkInDeadline,
+  checkInStatus,
+} from "@/features/checkIn/utils/checkIn";
+import {TeamBookingDetails} from "@/features/teamBooking/components/TeamBookingDetails";
+import {WaitlistSection} from "@/features/waitlist/components/WaitlistSection";
+import {toZonedDateTimeString} from "@/features/desks/utils/timeZone";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type BookingsTableProps = {
+  bookings: Booking[];
+  deskNames: Map<number, string>;
+  checkInStatuses: Map<number, CheckInStatus>;
+  renderActions?: (booking: Booking) => React.ReactNode;
+};
+
+const BookingsTable: React.FC<BookingsTableProps> = ({
+                                                       bookings,
+                                                       deskNames,
+                                                       checkInStatuses,
+                                                       renderActions,
+                                                     }) => {
+  const {t, formatDate, formatTime, formatTimeRange} = useI18n();
+
+  const describeCheckIn = (booking: Booking) => {
+    switch (checkInStatuses.get(booking.id)) {
+      case "open":
+        return t("myBookings.checkInBy", {time: formatTime(checkInDeadline(booking))});
+      case "checkedIn":
+        return t("myBookings.checkedIn");
+      case "released":
+        return t("myBookings.released");
+      default:
+        return null;
+    }
+  };
+
+  const columns: DataTableColumn<Booking>[] = [
+    {
+      key: "desk",
+      header: t("myBookings.column.desk"),
+      render: (booking) => (
+        <>
+        {deskNames.get(booking.deskId) ?? t("myBookings.unknownDesk", {id: booking.deskId})}
+        {booking.groupId != null && (
+          <TeamBookingDetails groupId={booking.groupId} deskNames={deskNames}/>
+        )}
+        {describeCheckIn(booking) && (
+          <div style={{fontSize: "0.85rem", color: theme.color.mutedText}}>
+            {describeCheckIn(booking)}
+          </div>
+        )}
+        </>
+      ),
+    },
+    {
+      key: "date",
+      header: t("myBookings.column.date"),
+      render: (booking) => formatDate(booking.startAt),
+    },
+    {
+      key: "time",
+      header: t("myBookings.column.time"),
+      render: (booking) => formatTimeRange(booking),
+    },
+  ];
+  if (renderActions) {
+    columns.push({
+      key: "actions",
+      header: t("myBookings.column.actions"),
+      align: "right",
+      render: renderActions,
+    });
+  }
+
+  return <DataTable columns={columns} rows={bookings} rowKey={(booking) => booking.id}/>;
+};
+
+export const MyBookingsPage: React.FC = () => {
+  const {data: bookings, isLoading, isError, error} = useMyBookingsQuery();
+  const {data: desks} = useDesksQuery();
+  const {timeZoneFor} = useLocationSettings();
+  const cancelBookingMutation = useCancelBookingMutation();
+  const checkInMutation = useCheckInMutation();
+  const {t} = useI18n();
+
+  const [cancellingId, setCancellingId] = React.useState<number | null>(null);
+  const [actionError, setActionError] = React.useState<string | null>(null);
+
+  const deskNames = React.useMemo(
+    () => new Map((desks ?? []).map((desk) => [desk.id, desk.name])),
+    [desks],
+  );
+
+  const {upcoming, past, checkInStatuses} = React.useMemo(() => {
+    // Booking times are offset-less times in the desk's office, so compare
+    // them as strings against the current time there.
+    const instant = new Date();
+    const locations = new Map((desks ?? []).map((desk) => [desk.id, desk.location]));
+    const nowAt = (booking: Booking) =>
+      toZonedDateTimeString(instant, timeZoneFor(locations.get(booking.deskId) ?? null));
+
+    const statuses = new Map(
+      (bookings ?? []).map((booking) => [booking.id, checkInStatus(booking, nowAt(booking))]),
+    );
+    // Released bookings are over for their owner even if the time isn't.
+    const isOver = (booking: Booking) =>
+      booking.endAt <= nowAt(booking) || statuses.get(booking.id) === "released";
+
+    const sorted = [...(bookings ?? [])].sort((a, b) =>
+      a.startAt.localeCompare(b.startAt),
+    );
+    return {
+      upcoming: sorted.filter((booking) => !isOver(booking)),
+      past: sorted.filter(isOver).reverse(),
+      checkInStatuses: statuses,
+    };
+  }, [bookings, desks, timeZoneFor]);
+
+  const handleCancel = async (booking: Booking) => {
+    setActionError(null);
+    setCancellingId(booking.id);
+    try {
+      await cancelBookingMutation.mutateAsync({
+        bookingId: booking.id,
+        deskId: booking.deskId,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setActionError(t("myBookings.cancelFailed", {message}));
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleCheckIn = async (booking: Booking) => {
+    setActionError(null);
+    try {
+      await checkInMutation.mutateAsync({deskId: booking.deskId});
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setActionError(t("myBookings.checkInFailed", {message}));
+    }
+  };
+
+  if (isLoading) {
+    return <p style={{padding: "1rem"}}>{t("myBookings.loading")}</p>;
+  }
+
+  if (isError) {
+    return (
+      <div style={{padding: "1rem"}}>
+        <Alert tone="error">
+          <p style={{margin: 0}}>{t("myBookings.loadFailed")}</p>
+          <p style={{margin: 0}}>{error.message}</p>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{padding: "1rem"}}>
+      <h1 style={{marginBottom: "1rem"}}>{t("myBookings.title")}</h1>
+
+      {actionError && <Alert tone="error">{actionError}</Alert>}
+
+      <h2>{t("myBookings.upcoming")}</h2>
+      {upcoming.length === 0 ? (
+        <p>{t("myBookings.noUpcoming")}</p>
+      ) : (
+        <>
+        <p style={{marginBottom: "0.75rem"}}>
+          <AddToCalendarLink
+            bookings={upcoming}
+            desks={desks ?? []}
+            fileName="desk-bookings.ics"
+          >
+            {t("myBookings.addAllToCalendar")}
+          </AddToCalendarLink>
+        </p>
+        <BookingsTable
+          bookings={upcoming}
+          deskNames={deskNames}
+          checkInStatuses={checkInStatuses}
+          renderActions={(booking) => (
+            <>
+            {checkInStatuses.get(booking.id) === "open" && (
+              <Button
+                aria-label={t("myBookings.checkInFor", {
+                  name: deskNames.get(booking.deskId) ?? t("myBookings.unknownDesk", {id: booking.deskId}),
+                })}
+                onClick={() => handleCheckIn(booking)}
+                style={{marginRight: "0.5rem"}}
+                disabled={checkInMutation.isPending}
+              >
+                {t("myBookings.checkIn")}
+              </Button>
+            )}
+            <Button
+              onClick={() => handleCancel(booking)}
+              disabled={cancelBookingMutation.isPending}
+            >
+              {cancellingId === booking.id ? t("myBookings.cancelling") : t("common.cancel")}
+            </Button>
+            </>
+          )}
+        />
+        </>
+      )}
+
+      <h2>{t("myBookings.past")}</h2>
+      {past.length === 0 ? (
+        <p>{t("myBookings.noPast")}</p>
+      ) : (
+        <BookingsTable bookings={past} deskNames={deskNames} checkInStatuses={checkInStatuses}/>
+      )}
+
+      <WaitlistSection deskNames={deskNames}/>
+    </div>
+  );
+};
+
+export default MyBookingsPage;
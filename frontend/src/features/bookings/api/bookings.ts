@@ -0,0 +1,54 @@
+import {useMutation, useQuery, useQueryClient} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {type Booking, bookingDecoder} from "@/features/desks/api/deskBookings";
+import {array} from "@/lib/decode";
+
+export type CancelBookingInput = {
+  bookingId: number;
+  deskId: number;
+};
+
+export const bookingEndpoints = {
+  mine: defineEndpoint<void, Booking[]>({
+    method: "GET",
+    path: () => "/users/me/bookings",
+    response: array(bookingDecoder),
+    errorMessages: {
+      401: "bookings.errors.listUnauthorized",
+      default: "bookings.errors.list",
+    },
+  }),
+  cancel: defineEndpoint<CancelBookingInput, void>({
+    method: "DELETE",
+    path: ({deskId, bookingId}) => `/desks/${deskId}/bookings/${bookingId}`,
+    errorMessages: {
+      401: "bookings.errors.cancelUnauthorized",
+      404: "bookings.errors.notFound",
+      default: "bookings.errors.cancel",
+    },
+  }),
+};
+
+export function useMyBookingsQuery() {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQuery<Booking[], ApiError>({
+    queryKey: ["myBookings"],
+    queryFn: () => request(bookingEndpoints.mine, undefined),
+    enabled: isAuthenticated,
+  });
+}
+
+export function useCancelBookingMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, ApiError, CancelBookingInput>({
+    mutationFn: (input) => request(bookingEndpoints.cancel, input),
+    onSuccess: (_data, {deskId}) =>
+      Promise.all([
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+        queryClient.invalidateQueries({queryKey: ["deskAvailability", deskId]}),
+      ]),
+  });
+}
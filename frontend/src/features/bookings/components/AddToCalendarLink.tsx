@@ -0,0 +1,56 @@
+import React from "react";
+import type {Booking} from "@/features/desks/api/deskBookings";
+import type {Desk} from "@/features/desks/api/desks";
+import {
+  bookingUid,
+  calendarDataUrl,
+  type CalendarEvent,
+  toICalendar,
+} from "@/features/bookings/utils/icalendar";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import {fromZonedDateTimeString} from "@/features/desks/utils/timeZone";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type AddToCalendarLinkProps = {
+  bookings: Booking[];
+  desks: Desk[];
+  /** Name of the downloaded file, e.g. "desk-booking.ics". */
+  fileName: string;
+  children: React.ReactNode;
+};
+
+/** A link that downloads `bookings` as an .ics file. */
+export const AddToCalendarLink: React.FC<AddToCalendarLinkProps> = ({
+                                                                      bookings,
+                                                                      desks,
+                                                                      fileName,
+                                                                      children,
+                                                                    }) => {
+  const {t} = useI18n();
+  const {timeZoneFor} = useLocationSettings();
+
+  const href = React.useMemo(() => {
+    const desksById = new Map(desks.map((desk) => [desk.id, desk]));
+    const events = bookings.map((booking): CalendarEvent => {
+      const desk = desksById.get(booking.deskId);
+      const deskName = desk?.name ?? t("myBookings.unknownDesk", {id: booking.deskId});
+      // Booking times are office times; the file needs real instants.
+      const timeZone = timeZoneFor(desk?.location ?? null);
+      return {
+        uid: bookingUid(booking.id),
+        start: fromZonedDateTimeString(booking.startAt, timeZone),
+        end: fromZonedDateTimeString(booking.endAt, timeZone),
+        summary: t("calendar.summary", {name: deskName}),
+        location: desk?.location,
+        description: t("calendar.description", {name: deskName}),
+      };
+    });
+    return calendarDataUrl(toICalendar(events));
+  }, [bookings, desks, t, timeZoneFor]);
+
+  return (
+    <a href={href} download={fileName}>
+      {children}
+    </a>
+  );
+};
@@ -0,0 +1,60 @@
+import {describe, expect, it} from "vitest";
+import {bookingUid, escapeText, foldLine, toICalendar} from "./icalendar";
+import {fromZonedDateTimeString} from "@/features/desks/utils/timeZone";
+
+const now = new Date(Date.UTC(2099, 0, 1, 8, 0, 0));
+
+describe("toICalendar", () => {
+  it("writes one UTC event per booking with a stable UID", () => {
+    const ics = toICalendar(
+      [
+        {
+          uid: bookingUid(7),
+          // 09:00–10:30 in New York is 14:00–15:30 UTC in January.
+          start: fromZonedDateTimeString("2099-01-05T09:00:00", "America/New_York"),
+          end: fromZonedDateTimeString("2099-01-05T10:30:00", "America/New_York"),
+          summary: "Desk booking: Desk A",
+          location: "New York",
+        },
+      ],
+      now,
+    );
+
+    expect(ics.split("\r\n")).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Seatly//Desk bookings//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "BEGIN:VEVENT",
+      "UID:booking-7@seatly",
+      "DTSTAMP:20990101T080000Z",
+      "DTSTART:20990105T140000Z",
+      "DTEND:20990105T153000Z",
+      "SUMMARY:Desk booking: Desk A",
+      "LOCATION:New York",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ]);
+  });
+
+  it("escapes text values", () => {
+    expect(escapeText("Desk, by the window; 2\\3\nnear the door")).toBe(
+      "Desk\\, by the window\\; 2\\\\3\\nnear the door",
+    );
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const line = `SUMMARY:${"ü".repeat(60)}`;
+    const folded = foldLine(line);
+    const lines = folded.split("\r\n");
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1].startsWith(" ")).toBe(true);
+    for (const piece of lines) {
+      expect(new TextEncoder().encode(piece).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+});
@@ -0,0 +1,101 @@
+/*
+ * Builds RFC 5545 iCalendar files for bookings. Events are written in UTC so
+ * the file doesn't need VTIMEZONE definitions; calendar apps show them in the
+ * user's own time.
+ */
+
+export type CalendarEvent = {
+  /** Stays the same across exports, so re-importing updates the event. */
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string | null;
+  description?: string | null;
+};
+
+const PRODUCT_ID = "-//Seatly//Desk bookings//EN";
+
+// Content lines longer than this many octets must be folded.
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/** A UID for a booking that is unique to this app and never changes. */
+export function bookingUid(bookingId: number): string {
+  return `booking-${bookingId}@seatly`;
+}
+
+/** An instant in iCalendar's UTC form, e.g. "20240102T093000Z". */
+export function formatUtcDateTime(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escapes backslashes, semicolons, commas and line breaks in a TEXT value. */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Splits a content line into 75-octet pieces joined by CRLF and a space,
+ * never cutting a multi-byte character in half.
+ */
+export function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let piece = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit.
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + charOctets > limit) {
+      pieces.push(piece);
+      piece = "";
+      octets = 0;
+    }
+    piece += char;
+    octets += charOctets;
+  }
+  pieces.push(piece);
+  return pieces.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtcDateTime(event.start)}`,
+    `DTEND:${formatUtcDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/** A complete VCALENDAR holding `events`, with CRLF line endings. */
+export function toICalendar(events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = formatUtcDateTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** A data URL for an .ics file, usable as a download link's href. */
+export function calendarDataUrl(ics: string): string {
+  return `data:text/calendar;charset=utf-8,${encodeURIComponent(ics)}`;
+}
@@ -0,0 +1,98 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {screen} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {Route, Routes} from "react-router-dom";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {RequireAuth} from "@/features/auth/RequireAuth";
+import LoginPage from "@/features/login/LoginPage";
+import type {Booking} from "@/features/desks/api/deskBookings";
+import {toLocalDateTimeString} from "@/features/desks/utils/dateTime";
+import CheckInPage from "./CheckInPage";
+
+const minutesFromNow = (minutes: number) =>
+  toLocalDateTimeString(new Date(Date.now() + minutes * 60_000));
+
+describe("CheckInPage", () => {
+  let user: UserEvent;
+  let booking: Booking;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+    server.use(
+      http.get("*/users/me/bookings", () => HttpResponse.json([booking])),
+      http.post("*/desks/1/checkin", () => {
+        booking = {...booking, checkedInAt: minutesFromNow(0)};
+        return HttpResponse.json(booking);
+      }),
+    );
+  });
+
+  const renderPage = () =>
+    renderWithProviders(
+      <Routes>
+        <Route path="/desks/:deskId/checkin" element={<CheckInPage/>}/>
+      </Routes>,
+      {
+        initialEntries: ["/desks/1/checkin"],
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+
+  it("comes back to the scanned desk after logging in", async () => {
+    booking = {id: 7, deskId: 1, userId: 1, startAt: minutesFromNow(-5), endAt: minutesFromNow(120)};
+    renderWithProviders(
+      <Routes>
+        <Route path="/login" element={<LoginPage/>}/>
+        <Route element={<RequireAuth/>}>
+          <Route path="/desks/:deskId/checkin" element={<CheckInPage/>}/>
+        </Route>
+      </Routes>,
+      {initialEntries: ["/desks/1/checkin"]},
+    );
+
+    await user.type(await screen.findByLabelText(/email/i), "test@example.com");
+    await user.type(screen.getByLabelText(/password/i), "Password123!");
+    await user.click(screen.getByRole("button", {name: /log in/i}));
+
+    expect(
+      await screen.findByRole("heading", {name: "Check in to Desk A"}),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", {name: "Check in"})).toBeInTheDocument();
+  });
+
+  it("checks in to the current booking of the scanned desk", async () => {
+    booking = {id: 7, deskId: 1, userId: 1, startAt: minutesFromNow(-5), endAt: minutesFromNow(120)};
+    renderPage();
+
+    expect(
+      await screen.findByRole("heading", {name: "Check in to Desk A"}),
+    ).toBeInTheDocument();
+    expect(screen.getByText(/^check in by .* or the desk is released/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", {name: "Check in"}));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      /^you are checked in at desk a until .*\.$/i,
+    );
+    expect(screen.queryByRole("button", {name: "Check in"})).not.toBeInTheDocument();
+  });
+
+  it("shows a booking nobody checked in to as released", async () => {
+    booking = {id: 7, deskId: 1, userId: 1, startAt: minutesFromNow(-30), endAt: minutesFromNow(90)};
+    renderPage();
+
+    expect(
+      await screen.findByText(/^your booking for .* was released because you did not check in/i),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("link", {name: "Book a desk again"})).toHaveAttribute(
+      "href",
+      "/dashboard",
+    );
+    expect(screen.queryByRole("button", {name: "Check in"})).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,144 @@
+import React from "react";
+import {Link, useParams} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {theme} from "@/components/ui/theme";
+import {useMyBookingsQuery} from "@/features/bookings/api/bookings";
+import {useCheckInMutation} from "@/features/checkIn/api/checkIn";
+import {
+  checkInDeadline,
+  checkInOpensAt,
+  checkInStatus,
+} from "@/features/checkIn/utils/checkIn";
+import type {Booking} from "@/features/desks/api/deskBookings";
+import {useDesksQuery} from "@/features/desks/api/desks";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import {toZonedDateTimeString} from "@/features/desks/utils/timeZone";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const boxStyle: React.CSSProperties = {
+  maxWidth: "480px",
+  padding: "1rem",
+  border: `1px solid ${theme.color.border}`,
+  borderRadius: theme.radius,
+  backgroundColor: theme.color.surface,
+};
+
+/** Where a desk's QR code leads: checks the user in to their current booking of it. */
+export const CheckInPage: React.FC = () => {
+  const {deskId: deskIdParam} = useParams();
+  const deskId = Number(deskIdParam);
+  const {t, formatDate, formatTime, formatTimeRange} = useI18n();
+  const isOnline = useOnlineStatus();
+  const {timeZoneFor} = useLocationSettings();
+  const desksQuery = useDesksQuery();
+  const bookingsQuery = useMyBookingsQuery();
+  const checkInMutation = useCheckInMutation();
+  const [error, setError] = React.useState<string | null>(null);
+
+  const desk = desksQuery.data?.find((candidate) => candidate.id === deskId);
+  const now = toZonedDateTimeString(new Date(), timeZoneFor(desk?.location ?? null));
+
+  // The booking of this desk that check-in is about right now, preferring
+  // one that can still be checked in to over an earlier released one.
+  const current = (bookingsQuery.data ?? [])
+    .filter(
+      (booking) =>
+        booking.deskId === deskId && checkInOpensAt(booking) <= now && now < booking.endAt,
+    )
+    .sort((a, b) => a.startAt.localeCompare(b.startAt))
+    .reduce<Booking | null>(
+      (best, booking) =>
+        best && checkInStatus(best, now) !== "released" ? best : booking,
+      null,
+    );
+
+  const handleCheckIn = async () => {
+    setError(null);
+    try {
+      await checkInMutation.mutateAsync({deskId});
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setError(t("checkIn.failed", {message}));
+    }
+  };
+
+  if (desksQuery.isLoading || bookingsQuery.isLoading) {
+    return <p style={{padding: "1rem"}}>{t("checkIn.loading")}</p>;
+  }
+
+  if (desksQuery.isError || bookingsQuery.isError) {
+    return (
+      <div style={{padding: "1rem"}}>
+        <Alert tone="error">
+          <p style={{margin: 0}}>{t("checkIn.loadFailed")}</p>
+          <p style={{margin: 0}}>{(desksQuery.error ?? bookingsQuery.error)?.message}</p>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!desk) {
+    return <p style={{padding: "1rem"}}>{t("checkIn.unknownDesk")}</p>;
+  }
+
+  const status = current ? checkInStatus(current, now) : null;
+
+  return (
+    <div style={{padding: "1rem"}}>
+      <h1 style={{marginBottom: "1rem"}}>{t("checkIn.title", {name: desk.name})}</h1>
+
+      <div style={boxStyle}>
+        {!current && (
+          <>
+          <p>{t("checkIn.noBooking", {name: desk.name})}</p>
+          <Link to="/dashboard">{t("checkIn.findDesk")}</Link>
+          </>
+        )}
+
+        {current && status === "checkedIn" && (
+          <p role="status">
+            {t("checkIn.checkedIn", {name: desk.name, time: formatTime(current.endAt)})}
+          </p>
+        )}
+
+        {current && status === "released" && (
+          <>
+          <p>
+            {t("checkIn.released", {
+              time: formatTimeRange(current),
+              deadline: formatTime(checkInDeadline(current)),
+            })}
+          </p>
+          <Link to="/dashboard">{t("checkIn.bookAgain")}</Link>
+          </>
+        )}
+
+        {current && status === "open" && (
+          <>
+          <p style={{marginTop: 0}}>
+            {t("checkIn.booking", {
+              date: formatDate(current.startAt),
+              time: formatTimeRange(current),
+            })}
+          </p>
+          <p>{t("checkIn.deadline", {deadline: formatTime(checkInDeadline(current))})}</p>
+          {error && <Alert tone="error">{error}</Alert>}
+          <Button
+            variant="primary"
+            size="lg"
+            onClick={handleCheckIn}
+            disabled={!isOnline || checkInMutation.isPending}
+          >
+            {checkInMutation.isPending ? t("checkIn.checkingIn") : t("checkIn.checkIn")}
+          </Button>
+          {!isOnline && <p>{t("checkIn.offline")}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckInPage;
@@ -0,0 +1,36 @@
+import {describe, expect, it} from "vitest";
+import {screen} from "@testing-library/react";
+import {http, HttpResponse} from "msw";
+import {createTestDesk} from "@/test-utils/desks";
+import {server} from "@/test-utils/msw/server";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import DeskQrSheetPage from "./DeskQrSheetPage";
+
+describe("DeskQrSheetPage", () => {
+  it("prints a check-in QR code for every active desk", async () => {
+    server.use(
+      http.get("*/desks", () =>
+        HttpResponse.json([
+          createTestDesk(),
+          createTestDesk({id: 2, name: "Desk B", location: null}),
+          createTestDesk({id: 3, name: "Desk C", location: null, active: false}),
+        ]),
+      ),
+    );
+    renderWithProviders(<DeskQrSheetPage/>, {
+      initialEntries: ["/admin/desks/qr-codes"],
+      initialAuth: {
+        user: {id: 1, email: "admin@example.com", fullName: "Admin", role: "admin"},
+        accessToken: "abc123",
+      },
+    });
+
+    const codes = await screen.findAllByRole("img", {name: /^check-in qr code for/i});
+    expect(codes.map((code) => code.getAttribute("aria-label"))).toEqual([
+      "Check-in QR code for Desk B",
+      "Check-in QR code for Desk A",
+    ]);
+    expect(codes[0].querySelector("path")?.getAttribute("d")).toMatch(/^M\d+ \d+h1v1h-1z/);
+    expect(screen.getByRole("button", {name: "Print"})).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,90 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {theme} from "@/components/ui/theme";
+import {isDeskActive, useDesksQuery} from "@/features/desks/api/desks";
+import {QrCode} from "@/features/checkIn/components/QrCode";
+import {checkInUrl} from "@/features/checkIn/utils/checkIn";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const cardStyle: React.CSSProperties = {
+  margin: 0,
+  padding: "0.75rem",
+  border: `1px dashed ${theme.color.border}`,
+  borderRadius: theme.radius,
+  backgroundColor: theme.color.surface,
+  textAlign: "center",
+  breakInside: "avoid",
+};
+
+/** A printable sheet with one check-in QR code per desk, to stick on the desks. */
+export const DeskQrSheetPage: React.FC = () => {
+  const {t} = useI18n();
+  const {data: desks, isLoading, isError, error} = useDesksQuery();
+
+  const sortedDesks = React.useMemo(
+    () =>
+      (desks ?? [])
+        .filter(isDeskActive)
+        .sort(
+          (a, b) =>
+            (a.location ?? "").localeCompare(b.location ?? "") || a.name.localeCompare(b.name),
+        ),
+    [desks],
+  );
+
+  if (isLoading) {
+    return <p style={{padding: "1rem"}}>{t("dashboard.loading")}</p>;
+  }
+
+  if (isError) {
+    return (
+      <div style={{padding: "1rem"}}>
+        <Alert tone="error">
+          <p style={{margin: 0}}>{t("dashboard.loadFailed")}</p>
+          <p style={{margin: 0}}>{error.message}</p>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{padding: "1rem"}}>
+      <div data-print="hide">
+        <h1 style={{marginBottom: "1rem"}}>{t("qrSheet.title")}</h1>
+        <p>{t("qrSheet.hint")}</p>
+        <Button size="lg" onClick={() => window.print()} style={{marginBottom: "1rem"}}>
+          {t("qrSheet.print")}
+        </Button>
+      </div>
+
+      {sortedDesks.length === 0 ? (
+        <p>{t("dashboard.noDesks")}</p>
+      ) : (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+            gap: "1rem",
+          }}
+        >
+          {sortedDesks.map((desk) => (
+            <figure key={desk.id} style={cardStyle}>
+              <QrCode
+                value={checkInUrl(desk.id)}
+                label={t("qrSheet.codeFor", {name: desk.name})}
+              />
+              <figcaption>
+                <strong>{desk.name}</strong>
+                {desk.location && <div style={{fontSize: "0.85rem"}}>{desk.location}</div>}
+                <div style={{fontSize: "0.75rem", color: theme.color.mutedText}}>{t("qrSheet.scanToCheckIn")}</div>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeskQrSheetPage;
@@ -0,0 +1,36 @@
+import {useMutation, useQueryClient} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {type Booking, bookingDecoder} from "@/features/desks/api/deskBookings";
+
+export type CheckInInput = {
+  deskId: number;
+};
+
+export const checkInEndpoints = {
+  // The server picks the signed-in user's current booking of the desk.
+  checkIn: defineEndpoint<CheckInInput, Booking>({
+    method: "POST",
+    path: ({deskId}) => `/desks/${deskId}/checkin`,
+    response: bookingDecoder,
+    errorMessages: {
+      401: "checkIn.errors.unauthorized",
+      404: "checkIn.errors.noBooking",
+      409: "checkIn.errors.released",
+      default: "checkIn.errors.checkIn",
+    },
+  }),
+};
+
+export function useCheckInMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<Booking, ApiError, CheckInInput>({
+    mutationFn: (input) => request(checkInEndpoints.checkIn, input),
+    onSettled: (_booking, _error, {deskId}) =>
+      Promise.all([
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+        queryClient.invalidateQueries({queryKey: ["deskAvailability", deskId]}),
+      ]),
+  });
+}
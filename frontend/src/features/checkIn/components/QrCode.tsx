@@ -0,0 +1,43 @@
+import React from "react";
+import {create} from "qrcode";
+
+type QrCodeProps = {
+  value: string;
+  /** Accessible name of the image. */
+  label: string;
+  /** Rendered width and height, in CSS pixels. */
+  size?: number;
+};
+
+// Blank modules around the code; scanners need at least four.
+const QUIET_ZONE = 4;
+
+/** A QR code for `value`, drawn as an SVG so it prints sharply at any size. */
+export const QrCode: React.FC<QrCodeProps> = ({value, label, size = 160}) => {
+  const {path, dimension} = React.useMemo(() => {
+    const {modules} = create(value, {errorCorrectionLevel: "M"});
+    const commands: string[] = [];
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          commands.push(`M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`);
+        }
+      }
+    }
+    return {path: commands.join(""), dimension: modules.size + QUIET_ZONE * 2};
+  }, [value]);
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+    >
+      <rect width={dimension} height={dimension} fill="#fff"/>
+      <path d={path} fill="#000"/>
+    </svg>
+  );
+};
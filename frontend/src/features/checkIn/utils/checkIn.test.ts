@@ -0,0 +1,32 @@
+import {describe, expect, it} from "vitest";
+import {checkInDeadline, checkInStatus, checkInUrl} from "./checkIn";
+
+const booking = {startAt: "2099-01-05T09:00:00", endAt: "2099-01-05T11:00:00"};
+
+describe("checkInStatus", () => {
+  it("opens check-in shortly before the start and releases no-shows after the grace period", () => {
+    expect(checkInStatus(booking, "2099-01-05T08:44:59")).toBe("upcoming");
+    expect(checkInStatus(booking, "2099-01-05T08:45:00")).toBe("open");
+    expect(checkInStatus(booking, "2099-01-05T09:14:59")).toBe("open");
+    expect(checkInStatus(booking, "2099-01-05T09:15:00")).toBe("released");
+  });
+
+  it("keeps checked-in bookings", () => {
+    expect(
+      checkInStatus({...booking, checkedInAt: "2099-01-05T09:05:00"}, "2099-01-05T10:00:00"),
+    ).toBe("checkedIn");
+  });
+
+  it("never holds a short booking past its end", () => {
+    const short = {startAt: "2099-01-05T23:50:00", endAt: "2099-01-06T00:00:00"};
+
+    expect(checkInDeadline(short)).toBe("2099-01-06T00:00:00");
+    expect(checkInDeadline(booking)).toBe("2099-01-05T09:15:00");
+  });
+});
+
+describe("checkInUrl", () => {
+  it("points at the desk's check-in page", () => {
+    expect(checkInUrl(7, "https://seatly.example")).toBe("https://seatly.example/desks/7/checkin");
+  });
+});
@@ -0,0 +1,51 @@
+import type {Booking} from "@/features/desks/api/deskBookings";
+
+/** How long before a booking starts its desk can be checked in to. */
+export const CHECK_IN_OPENS_MINUTES = 15;
+
+/** How long a booking is held for someone who hasn't checked in. */
+export const CHECK_IN_GRACE_MINUTES = 15;
+
+/**
+ * Where a booking stands with check-in: "upcoming" before check-in opens,
+ * "open" while it can be checked in to, then "checkedIn" or, for no-shows,
+ * "released" (the desk can be booked again by anyone).
+ */
+export type CheckInStatus = "upcoming" | "open" | "checkedIn" | "released";
+
+/** Shifts an offset-less local datetime string by whole minutes. */
+function addMinutes(value: string, minutes: number): string {
+  // Treat the wall-clock time as UTC so the arithmetic can't trip over DST.
+  const shifted = new Date(Date.parse(`${value.slice(0, 19)}Z`) + minutes * 60_000);
+  return shifted.toISOString().slice(0, 19);
+}
+
+/** When check-in opens for a booking. */
+export function checkInOpensAt(booking: Pick<Booking, "startAt">): string {
+  return addMinutes(booking.startAt, -CHECK_IN_OPENS_MINUTES);
+}
+
+/** The last moment to check in before the booking is released; never past its end. */
+export function checkInDeadline(booking: Pick<Booking, "startAt" | "endAt">): string {
+  const deadline = addMinutes(booking.startAt, CHECK_IN_GRACE_MINUTES);
+  return deadline < booking.endAt ? deadline : booking.endAt;
+}
+
+/**
+ * A booking's check-in status at `now`, the current wall-clock time in the
+ * desk's office as a local datetime string.
+ */
+export function checkInStatus(
+  booking: Pick<Booking, "startAt" | "endAt" | "checkedInAt">,
+  now: string,
+): CheckInStatus {
+  if (booking.checkedInAt) return "checkedIn";
+  if (now < checkInOpensAt(booking)) return "upcoming";
+  if (now < checkInDeadline(booking)) return "open";
+  return "released";
+}
+
+/** The address a desk's QR code points at. */
+export function checkInUrl(deskId: number, origin: string = window.location.origin): string {
+  return new URL(`/desks/${deskId}/checkin`, origin).toString();
+}
@@ -0,0 +1,127 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {screen, waitFor, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import DeskAdminPage from "./DeskAdminPage";
+
+describe("DeskAdminPage", () => {
+  let user: UserEvent;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+    renderWithProviders(<DeskAdminPage/>, {
+      initialEntries: ["/admin/desks"],
+      initialAuth: {
+        user: {
+          id: 1,
+          email: "test@example.com",
+          fullName: "Test User",
+          role: "admin",
+        },
+        accessToken: "abc123",
+      },
+    });
+  });
+
+  const deskRow = (name: string) => screen.getByRole("cell", {name}).closest("tr")!;
+
+  it("edits a desk's name and amenities inline", async () => {
+    await user.click(await screen.findByRole("button", {name: "Edit Desk A"}));
+
+    const nameInput = screen.getByRole("textbox", {name: /^name$/i});
+    await user.clear(nameInput);
+    await user.type(nameInput, "Desk Alpha");
+    await user.click(screen.getByRole("checkbox", {name: /dual monitor/i}));
+    await user.click(screen.getByRole("checkbox", {name: /quiet zone/i}));
+    await user.click(screen.getByRole("button", {name: /^save$/i}));
+
+    expect(await screen.findByRole("cell", {name: "Desk Alpha"})).toBeInTheDocument();
+    expect(screen.queryByRole("cell", {name: "Desk A"})).not.toBeInTheDocument();
+    expect(within(deskRow("Desk Alpha")).getByRole("list", {name: /amenities/i})).toHaveTextContent(
+      /^Docking stationQuiet zone$/,
+    );
+  });
+
+  it("checks a renamed desk's name like a new desk's", async () => {
+    await user.click(await screen.findByRole("button", {name: "Edit Desk B"}));
+
+    const nameInput = screen.getByRole("textbox", {name: /^name$/i});
+    await user.clear(nameInput);
+    await user.type(nameInput, "D".repeat(51));
+    await user.tab();
+    expect(nameInput).toHaveAccessibleDescription("Use at most 50 characters.");
+
+    await user.clear(nameInput);
+    await user.type(nameInput, "desk a");
+    await user.type(screen.getByRole("textbox", {name: /^location$/i}), "1st Floor");
+    expect(nameInput).toHaveAccessibleDescription(
+      "A desk called desk a already exists at this location.",
+    );
+    expect(screen.getByRole("button", {name: /^save$/i})).toBeDisabled();
+  });
+
+  it("deactivates and reactivates a desk", async () => {
+    await user.click(await screen.findByRole("button", {name: "Deactivate Desk A"}));
+
+    await waitFor(() => {
+      expect(within(deskRow("Desk A")).getByText("Inactive")).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByRole("button", {name: "Reactivate Desk A"}));
+    await waitFor(() => {
+      expect(within(deskRow("Desk A")).getByText("Active")).toBeInTheDocument();
+    });
+  });
+
+  it("warns before deleting a desk with upcoming bookings", async () => {
+    await user.click(await screen.findByRole("button", {name: "Delete Desk B"}));
+
+    const dialog = screen.getByRole("alertdialog", {name: "Delete Desk B"});
+    expect(
+      await within(dialog).findByText(/desk b has 1 upcoming booking/i),
+    ).toBeInTheDocument();
+
+    await user.click(within(dialog).getByRole("button", {name: /delete desk/i}));
+
+    await waitFor(() => {
+      expect(screen.queryByRole("cell", {name: "Desk B"})).not.toBeInTheDocument();
+    });
+  });
+
+  it("only asks for confirmation when a desk has no upcoming bookings", async () => {
+    await user.click(await screen.findByRole("button", {name: "Delete Desk A"}));
+
+    const dialog = screen.getByRole("alertdialog", {name: "Delete Desk A"});
+    expect(
+      await within(dialog).findByText(/delete desk a\? this can't be undone/i),
+    ).toBeInTheDocument();
+
+    await user.click(within(dialog).getByRole("button", {name: /cancel/i}));
+    expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+  });
+
+  it("previews a CSV file and imports only the valid rows", async () => {
+    await screen.findByRole("cell", {name: "Desk A"});
+
+    const csv = [
+      "name,location,x,y",
+      "Desk C,2nd Floor,10,20",
+      "Desk A,1st Floor,,",
+      ",2nd Floor,,",
+    ].join("\n");
+    await user.upload(
+      screen.getByLabelText(/csv file/i),
+      new File([csv], "desks.csv", {type: "text/csv"}),
+    );
+
+    const preview = await screen.findByRole("table", {name: /import preview/i});
+    expect(within(preview).getByText(/desk a already exists/i)).toBeInTheDocument();
+    expect(within(preview).getByText(/name is required/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", {name: /import 1, skip 2 with errors/i}));
+
+    expect(await screen.findByRole("status")).toHaveTextContent("Created 1 of 1 desk.");
+    expect(await screen.findByRole("cell", {name: "Desk C"})).toBeInTheDocument();
+    expect(screen.queryByRole("table", {name: /import preview/i})).not.toBeInTheDocument();
+  });
+});
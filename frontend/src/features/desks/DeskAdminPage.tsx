@@ -0,0 +1,173 @@
+import React from "react";
+import {Link} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import {theme} from "@/components/ui/theme";
+import {type Desk, isDeskActive, useDesksQuery, useUpdateDeskMutation} from "@/features/desks/api/desks";
+import {AmenityBadges} from "@/features/desks/components/AmenityBadges";
+import {DeskCsvImport} from "@/features/desks/components/DeskCsvImport";
+import {DeskDeleteConfirmation} from "@/features/desks/components/DeskDeleteConfirmation";
+import {DeskEditForm} from "@/features/desks/components/DeskEditForm";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+/** What's open under a desk's row: its edit form or the delete confirmation. */
+type OpenPanel = {
+  deskId: number;
+  panel: "edit" | "confirmDelete";
+};
+
+export const DeskAdminPage: React.FC = () => {
+  const {data: desks, isLoading, isError, error} = useDesksQuery();
+  const updateDeskMutation = useUpdateDeskMutation();
+  const {t} = useI18n();
+
+  const [openPanel, setOpenPanel] = React.useState<OpenPanel | null>(null);
+  const [toggleError, setToggleError] = React.useState<{ deskId: number; message: string } | null>(
+    null,
+  );
+
+  const sortedDesks = React.useMemo(
+    () =>
+      [...(desks ?? [])].sort(
+        (a, b) =>
+          (a.location ?? "").localeCompare(b.location ?? "") || a.name.localeCompare(b.name),
+      ),
+    [desks],
+  );
+
+  const open = (desk: Desk, panel: OpenPanel["panel"]) => {
+    setToggleError(null);
+    setOpenPanel({deskId: desk.id, panel});
+  };
+
+  const close = () => setOpenPanel(null);
+
+  const handleToggleActive = async (desk: Desk) => {
+    setToggleError(null);
+    try {
+      await updateDeskMutation.mutateAsync({id: desk.id, active: !isDeskActive(desk)});
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setToggleError({deskId: desk.id, message: t("deskAdmin.saveFailed", {message})});
+    }
+  };
+
+  const isToggling = (desk: Desk) =>
+    updateDeskMutation.isPending && updateDeskMutation.variables?.id === desk.id;
+
+  const columns: DataTableColumn<Desk>[] = [
+    {key: "name", header: t("dashboard.column.name"), render: (desk) => desk.name},
+    {
+      key: "location",
+      header: t("dashboard.column.location"),
+      render: (desk) => desk.location ?? "-",
+    },
+    {
+      key: "amenities",
+      header: t("dashboard.column.amenities"),
+      render: (desk) => <AmenityBadges amenities={desk.amenities}/>,
+    },
+    {
+      key: "status",
+      header: t("deskAdmin.column.status"),
+      render: (desk) => (isDeskActive(desk) ? t("deskAdmin.active") : t("deskAdmin.inactive")),
+    },
+    {
+      key: "actions",
+      header: t("dashboard.column.actions"),
+      align: "right",
+      render: (desk) => (
+        <span style={{display: "inline-flex", gap: "0.4rem", whiteSpace: "nowrap"}}>
+          <Button
+            aria-label={t("deskAdmin.editDesk", {name: desk.name})}
+            onClick={() => open(desk, "edit")}
+            disabled={isToggling(desk)}
+          >
+            {t("deskAdmin.edit")}
+          </Button>
+          <Button
+            aria-label={
+              isDeskActive(desk)
+                ? t("deskAdmin.deactivateDesk", {name: desk.name})
+                : t("deskAdmin.reactivateDesk", {name: desk.name})
+            }
+            onClick={() => handleToggleActive(desk)}
+            disabled={isToggling(desk)}
+          >
+            {isDeskActive(desk) ? t("deskAdmin.deactivate") : t("deskAdmin.reactivate")}
+          </Button>
+          <Button
+            aria-label={t("deskAdmin.deleteDesk", {name: desk.name})}
+            onClick={() => open(desk, "confirmDelete")}
+            disabled={
+              isToggling(desk) ||
+              (openPanel?.deskId === desk.id && openPanel.panel === "confirmDelete")
+            }
+          >
+            {t("deskAdmin.delete")}
+          </Button>
+        </span>
+      ),
+    },
+  ];
+
+  const renderPanel = (desk: Desk) => {
+    if (openPanel?.deskId === desk.id) {
+      return openPanel.panel === "edit"
+        ? <DeskEditForm desk={desk} desks={sortedDesks} onClose={close}/>
+        : <DeskDeleteConfirmation desk={desk} onCancel={close}/>;
+    }
+    if (toggleError?.deskId === desk.id) {
+      return (
+        <Alert tone="error" style={{marginBottom: 0}}>
+          {toggleError.message}
+        </Alert>
+      );
+    }
+    return null;
+  };
+
+  if (isLoading) {
+    return <p style={{padding: "1rem"}}>{t("dashboard.loading")}</p>;
+  }
+
+  if (isError) {
+    return (
+      <div style={{padding: "1rem"}}>
+        <Alert tone="error">
+          <p style={{margin: 0}}>{t("dashboard.loadFailed")}</p>
+          <p style={{margin: 0}}>{error.message}</p>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{padding: "1rem"}}>
+      <h1 style={{marginBottom: "1rem"}}>{t("deskAdmin.title")}</h1>
+      <p>
+        <Link to="/admin/desks/qr-codes">{t("deskAdmin.printQrCodes")}</Link>
+      </p>
+
+      {sortedDesks.length === 0 ? (
+        <p>{t("dashboard.noDesks")}</p>
+      ) : (
+        <DataTable
+          columns={columns}
+          rows={sortedDesks}
+          rowKey={(desk) => desk.id}
+          rowProps={(desk) => ({
+            style: {color: isDeskActive(desk) ? undefined : theme.color.mutedText},
+          })}
+          renderExpanded={renderPanel}
+          style={{marginBottom: "2rem"}}
+        />
+      )}
+
+      <DeskCsvImport desks={sortedDesks}/>
+    </div>
+  );
+};
+
+export default DeskAdminPage;
@@ -1,9 +1,44 @@
 import {beforeEach, describe, expect, it} from "vitest";
-import {screen, waitFor, within} from "@testing-library/react";
+import {act, screen, waitFor, within} from "@testing-library/react";
 import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {useLocation} from "react-router-dom";
+import {onlineManager} from "@tanstack/react-query";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+import {goOffline} from "@/test-utils/network";
 import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import type {Role} from "@/features/auth/roles";
 import DeskDashboardPage from "./DeskDashboardPage";
 
+const LocationProbe = () => <output aria-label="url">{useLocation().search}</output>;
+
+function renderDashboardAt(url: string, role: Role = "admin") {
+  return renderWithProviders(
+    <>
+      <DeskDashboardPage/>
+      <LocationProbe/>
+    </>,
+    {
+      initialEntries: [url],
+      initialAuth: {
+        user: {
+          id: 1,
+          email: "test@example.com",
+          fullName: "Test User",
+          role,
+        },
+        accessToken: "abc123",
+      },
+    },
+  );
+}
+
+const deskNamesInTable = () =>
+  within(screen.getByRole("table"))
+    .getAllByRole("row")
+    .slice(1)
+    .map((row) => within(row).getAllByRole("cell")[1].textContent);
+
 describe("DeskDashboardPage", () => {
 
   let user: UserEvent;
@@ -17,6 +52,7 @@ describe("DeskDashboardPage", () => {
           id: 1,
           email: "test@example.com",
           fullName: "Test User",
+          role: "admin",
         },
         accessToken: "abc123",
       },
@@ -27,12 +63,13 @@ describe("DeskDashboardPage", () => {
     await screen.findByRole("heading", {name: /dashboard/i});
 
     expect(await screen.findByText("Desk A")).toBeInTheDocument();
-    expect(screen.getByText("1")).toBeInTheDocument();
-    expect(screen.getByText("1st Floor")).toBeInTheDocument();
+    const table = within(screen.getByRole("table"));
+    expect(table.getByText("1")).toBeInTheDocument();
+    expect(table.getByText("1st Floor")).toBeInTheDocument();
 
     expect(await screen.findByText("Desk B")).toBeInTheDocument();
-    expect(screen.getByText("2")).toBeInTheDocument();
-    expect(screen.getByText("-")).toBeInTheDocument();
+    expect(table.getByText("2")).toBeInTheDocument();
+    expect(table.getByText("-")).toBeInTheDocument();
 
     expect(
       screen.getAllByRole("button", {name: /book/i}).length,
@@ -46,15 +83,11 @@ describe("DeskDashboardPage", () => {
       name: /create desk/i,
     });
     await user.click(openCreateButton);
-    const modalHeading = await screen.findByRole("heading", {
-      name: /create desk/i,
-    });
-    const modal = modalHeading.closest("div");
-    if (!modal) {
-      throw new Error("Create desk modal container not found");
-    }
+    const modal = await screen.findByRole("dialog", {name: /create desk/i});
+    expect(modal).toHaveAttribute("aria-modal", "true");
 
     const modalUtils = within(modal);
+    expect(modalUtils.getByLabelText(/name/i)).toHaveFocus();
     await user.type(modalUtils.getByLabelText(/name/i), "Desk C");
     await user.type(modalUtils.getByLabelText(/location/i), "3rd Floor");
 
@@ -67,7 +100,67 @@ describe("DeskDashboardPage", () => {
     });
 
     expect(await screen.findByText("Desk C")).toBeInTheDocument();
-    expect(screen.getByText("3rd Floor")).toBeInTheDocument();
+    expect(within(screen.getByRole("table")).getByText("3rd Floor")).toBeInTheDocument();
+  });
+
+  it("checks the new desk as it's typed and shows server errors on the fields", async () => {
+    await screen.findByText("Desk A");
+    await user.click(screen.getByRole("button", {name: /create desk/i}));
+    const modal = within(await screen.findByRole("dialog", {name: /create desk/i}));
+    const nameInput = modal.getByLabelText(/name/i);
+    const submitButton = modal.getByRole("button", {name: /create desk/i});
+    expect(submitButton).toBeDisabled();
+
+    await user.type(nameInput, "desk a");
+    await user.type(modal.getByLabelText(/location/i), "1st floor");
+    expect(nameInput).toHaveAccessibleDescription(
+      "A desk called desk a already exists at this location.",
+    );
+    expect(submitButton).toBeDisabled();
+
+    await user.type(modal.getByLabelText(/^x$/i), "140");
+    await user.tab();
+    const yInput = modal.getByLabelText(/^y$/i);
+    await user.tab();
+    expect(modal.getByLabelText(/^x$/i)).toHaveAccessibleDescription(
+      "Enter a number from 0 to 100.",
+    );
+    expect(yInput).toHaveAccessibleDescription("Enter both X and Y, or neither.");
+
+    await user.clear(modal.getByLabelText(/^x$/i));
+    await user.clear(modal.getByLabelText(/location/i));
+    expect(nameInput).not.toHaveAttribute("aria-invalid");
+    expect(submitButton).toBeEnabled();
+
+    server.use(
+      http.post("*/desks", () =>
+        HttpResponse.json(
+          {
+            message: "Bad Request",
+            _embedded: {errors: [{message: "request.name: is reserved", path: "/name"}]},
+          },
+          {status: 400},
+        ),
+      ),
+    );
+    await user.click(submitButton);
+
+    await waitFor(() => expect(nameInput).toHaveAccessibleDescription("is reserved"));
+    expect(modal.queryByRole("alert")).not.toBeInTheDocument();
+    expect(submitButton).toBeDisabled();
+  });
+
+  it("closes the create desk dialog with Escape and returns focus", async () => {
+    await screen.findByRole("heading", {name: /dashboard/i});
+
+    const openCreateButton = screen.getByRole("button", {name: /create desk/i});
+    await user.click(openCreateButton);
+    await screen.findByRole("dialog", {name: /create desk/i});
+
+    await user.keyboard("{Escape}");
+
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(openCreateButton).toHaveFocus();
   });
 
   it("allows booking a desk from the booking modal", async () => {
@@ -77,27 +170,283 @@ describe("DeskDashboardPage", () => {
     const bookButtons = screen.getAllByRole("button", {name: /^book$/i});
     await user.click(bookButtons[0]);
 
-    const modalHeading = await screen.findByRole("heading", {
-      name: /book desk: desk a/i,
-    });
-    const modal = modalHeading.closest("div");
-    if (!modal) {
-      throw new Error("Booking modal container not found");
-    }
+    const modal = await screen.findByRole("dialog", {name: /book desk: desk a/i});
     const modalUtils = within(modal);
 
-    await modalUtils.findByText(/showing availability 09:00 – 17:00/i);
+    await modalUtils.findByText(/showing availability 9:00 AM – 5:00 PM/i);
 
-    const slotBookButtons = await modalUtils.findAllByRole("button", {
-      name: /^book$/i,
-    });
+    const [firstSlot] = await modalUtils.findAllByRole("option", {name: /available$/i});
 
-    await user.click(slotBookButtons[0]);
+    await user.click(firstSlot);
+    await user.click(
+      modalUtils.getByRole("button", {name: /^book 9:00 AM – 9:30 AM$/i}),
+    );
 
     await waitFor(() => {
       expect(
         screen.queryByRole("heading", {name: /book desk: desk a/i}),
       ).not.toBeInTheDocument();
     });
+
+    const status = screen.getByRole("status");
+    expect(status).toHaveTextContent(/booked desk a on .*, 9:00 AM – 9:30 AM/i);
+    const link = within(status).getByRole("link", {name: /add to calendar/i});
+    expect(link).toHaveAttribute("download", "desk-booking.ics");
+    expect(decodeURIComponent(link.getAttribute("href")!)).toContain(
+      "SUMMARY:Desk booking: Desk A",
+    );
+  });
+
+  it("keeps showing saved desks, marked as such, when offline or a refresh fails", async () => {
+    await screen.findByText("Desk A");
+
+    goOffline();
+
+    expect(await screen.findByText(/offline: showing data saved/i)).toBeInTheDocument();
+    expect(screen.getByText("Desk A")).toBeInTheDocument();
+
+    // Back on a connection that drops requests, the refresh fails.
+    act(() => onlineManager.setOnline(true));
+
+    expect(await screen.findByText(/could not refresh: showing data saved/i)).toBeInTheDocument();
+    expect(screen.getByText("Desk A")).toBeInTheDocument();
+  });
+
+  it("shows desks on the floor plan coloured by availability", async () => {
+    await screen.findByText("Desk A");
+
+    await user.click(screen.getByRole("button", {name: /floor plan/i}));
+
+    expect(
+      screen.getByRole("group", {name: /floor plan: 1st floor/i}),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("group", {name: /floor plan: unassigned/i}),
+    ).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText(/time/i), "09:00");
+    expect(
+      await screen.findByRole("button", {name: /^desk a, available$/i}),
+    ).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText(/time/i), "12:00");
+    expect(
+      await screen.findByRole("button", {name: /^desk a, booked$/i}),
+    ).toBeInTheDocument();
+  });
+
+  it("opens the booking modal when a desk on the floor plan is clicked", async () => {
+    await screen.findByText("Desk A");
+    await user.click(screen.getByRole("button", {name: /floor plan/i}));
+
+    await user.click(await screen.findByRole("button", {name: /^desk b, /i}));
+
+    expect(
+      await screen.findByRole("heading", {name: /book desk: desk b/i}),
+    ).toBeInTheDocument();
+  });
+
+  // The half-hour grid has hundreds of cells to compute accessible names for.
+  it("shows a week of availability per desk and books from a cell", async () => {
+    await screen.findByText("Desk A");
+    await user.click(screen.getByRole("button", {name: /^week$/i}));
+
+    // Every mock day has the 12:00 slot booked.
+    const cells = await screen.findAllByRole("button", {
+      name: /^desk a, .*: partly available$/i,
+    });
+    expect(cells).toHaveLength(7);
+
+    const weekHeading = screen.getByText(/^week of /i).textContent;
+    await user.click(screen.getByRole("button", {name: /next week/i}));
+    expect(screen.getByText(/^week of /i).textContent).not.toBe(weekHeading);
+
+    await user.click(screen.getByRole("button", {name: /half hours/i}));
+    expect(
+      (await screen.findAllByRole("button", {name: /^desk a, .* 12:00 PM: booked$/i})),
+    ).toHaveLength(7);
+
+    await user.click(
+      screen.getAllByRole("button", {name: /^desk b, .* 9:30 AM: available$/i})[0],
+    );
+    expect(
+      await screen.findByRole("heading", {name: /book desk: desk b/i}),
+    ).toBeInTheDocument();
+    expect(
+      await screen.findByRole("option", {name: /^9:30 AM – 10:00 AM/}),
+    ).toHaveAttribute("aria-selected", "true");
+  }, 15_000);
+});
+
+describe("DeskDashboardPage filters", () => {
+  it("filters by search text and sorts by column, storing both in the URL", async () => {
+    const user = userEvent.setup();
+    renderDashboardAt("/desks");
+    await screen.findByText("Desk A");
+
+    await user.click(screen.getByRole("button", {name: /^name/i}));
+    await user.click(screen.getByRole("button", {name: /^name/i}));
+    expect(deskNamesInTable()).toEqual(["Desk B", "Desk A"]);
+    expect(screen.getByRole("columnheader", {name: /^name/i})).toHaveAttribute(
+      "aria-sort",
+      "descending",
+    );
+
+    await user.type(screen.getByLabelText(/search/i), "desk a");
+    expect(deskNamesInTable()).toEqual(["Desk A"]);
+
+    const search = new URLSearchParams(screen.getByLabelText("url").textContent!);
+    expect(search.get("q")).toBe("desk a");
+    expect(search.get("sort")).toBe("-name");
+  });
+
+  it("restores the location filter and view from the URL", async () => {
+    renderDashboardAt("/desks?location=1st%20Floor&view=floorPlan");
+
+    expect(
+      await screen.findByRole("group", {name: /floor plan: 1st floor/i}),
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole("group", {name: /floor plan: unassigned/i}),
+    ).not.toBeInTheDocument();
+    expect(screen.getByLabelText(/^location$/i)).toHaveValue("1st Floor");
+  });
+
+  it("keeps desks without a location apart from a location named Unassigned", async () => {
+    server.use(
+      http.get("*/desks", () =>
+        HttpResponse.json([
+          {id: 1, name: "Desk A", location: "Unassigned"},
+          {id: 2, name: "Desk B", location: null},
+        ]),
+      ),
+    );
+
+    renderDashboardAt("/desks?view=floorPlan");
+
+    await waitFor(() =>
+      expect(screen.getAllByRole("group", {name: /floor plan: unassigned/i})).toHaveLength(2),
+    );
+  });
+
+  it("lists desks the server sends without an active flag and hides deactivated ones", async () => {
+    server.use(
+      http.get("*/desks", () =>
+        HttpResponse.json([
+          {id: 1, name: "Desk A", location: "1st Floor"},
+          {id: 2, name: "Desk B", location: null, active: false},
+          {id: 3, name: "Desk C", location: null},
+        ]),
+      ),
+    );
+
+    renderDashboardAt("/desks");
+
+    await waitFor(() => expect(deskNamesInTable()).toEqual(["Desk A", "Desk C"]));
+  });
+
+  it("shows only desks with free time on the chosen date", async () => {
+    server.use(
+      http.get("*/desks/:deskId/availability", ({params, request}) => {
+        const url = new URL(request.url);
+        return HttpResponse.json([
+          {
+            startAt: url.searchParams.get("startAt"),
+            endAt: url.searchParams.get("endAt"),
+            status: params.deskId === "2" ? "BOOKED" : "AVAILABLE",
+          },
+        ]);
+      }),
+    );
+
+    renderDashboardAt("/desks?available=2099-01-05");
+
+    await waitFor(() => expect(deskNamesInTable()).toEqual(["Desk A"]));
+    expect(screen.getByLabelText(/free on date/i)).toHaveValue("2099-01-05");
+  });
+
+  it("shows amenities as badges and filters by required amenities", async () => {
+    const user = userEvent.setup();
+    renderDashboardAt("/desks");
+    await screen.findByText("Desk A");
+
+    const deskARow = screen.getByRole("row", {name: /desk a/i});
+    const badges = within(deskARow).getByRole("list", {name: /amenities/i});
+    expect(within(badges).getAllByRole("listitem").map((item) => item.textContent)).toEqual([
+      "Dual monitor",
+      "Docking station",
+    ]);
+
+    await user.click(screen.getByRole("checkbox", {name: /quiet zone/i}));
+    expect(deskNamesInTable()).toEqual(["Desk B"]);
+    expect(new URLSearchParams(screen.getByLabelText("url").textContent!).get("amenities")).toBe(
+      "quietZone",
+    );
+
+    await user.click(screen.getByRole("checkbox", {name: /dual monitor/i}));
+    expect(screen.getByText(/no desks match/i)).toBeInTheDocument();
+  });
+
+  it("finds desks with the required amenities free for a whole time range", async () => {
+    const user = userEvent.setup();
+    // Desk A is booked over lunch; Desk B is free all day.
+    server.use(
+      http.get("*/desks/:deskId/availability", ({params, request}) => {
+        const url = new URL(request.url);
+        const startAt = url.searchParams.get("startAt")!;
+        const endAt = url.searchParams.get("endAt")!;
+        const coversLunch = startAt <= "2099-01-05T12:00:00" && endAt > "2099-01-05T12:00:00";
+        return HttpResponse.json([
+          {startAt, endAt, status: params.deskId === "1" && coversLunch ? "BOOKED" : "AVAILABLE"},
+        ]);
+      }),
+    );
+
+    renderDashboardAt("/desks?available=2099-01-05&time=11:00-13:00");
+
+    await waitFor(() => expect(deskNamesInTable()).toEqual(["Desk B"]));
+    expect(screen.getByLabelText(/^from$/i)).toHaveValue("11:00");
+
+    await user.selectOptions(screen.getByLabelText(/^from$/i), "09:00");
+    await user.selectOptions(screen.getByLabelText(/^until$/i), "11:00");
+    await waitFor(() => expect(deskNamesInTable()).toEqual(["Desk A", "Desk B"]));
+
+    await user.click(screen.getByRole("checkbox", {name: /docking station/i}));
+    await waitFor(() => expect(deskNamesInTable()).toEqual(["Desk A"]));
+
+    const search = new URLSearchParams(screen.getByLabelText("url").textContent!);
+    expect(search.get("time")).toBe("09:00-11:00");
+    expect(search.get("amenities")).toBe("dockingStation");
+  });
+});
+
+describe("DeskDashboardPage roles", () => {
+  it("lets admins create and book desks", async () => {
+    renderDashboardAt("/desks", "admin");
+
+    await screen.findByText("Desk A");
+    expect(screen.getByRole("button", {name: /create desk/i})).toBeInTheDocument();
+    expect(screen.getAllByRole("button", {name: /^book$/i})).not.toHaveLength(0);
+  });
+
+  it("lets members book desks but hides desk management", async () => {
+    renderDashboardAt("/desks", "member");
+
+    await screen.findByText("Desk A");
+    expect(screen.queryByRole("button", {name: /create desk/i})).not.toBeInTheDocument();
+    expect(screen.getAllByRole("button", {name: /^book$/i})).not.toHaveLength(0);
+  });
+
+  it("shows viewers desks and availability without booking actions", async () => {
+    const user = userEvent.setup();
+    renderDashboardAt("/desks?view=floorPlan", "viewer");
+
+    expect(await screen.findByRole("img", {name: /^desk a, /i})).toBeInTheDocument();
+    expect(screen.queryByRole("button", {name: /^desk a,/i})).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", {name: /create desk/i})).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", {name: /^table$/i}));
+    expect(screen.queryByRole("button", {name: /^book$/i})).not.toBeInTheDocument();
+    expect(screen.queryByRole("columnheader", {name: /actions/i})).not.toBeInTheDocument();
   });
-});
\ No newline at end of file
+});
@@ -1,23 +1,168 @@
 import React from "react";
+import {useSearchParams} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import {FormField} from "@/components/ui/FormField";
+import {Modal} from "@/components/ui/Modal";
+import {useAuth} from "@/features/auth/useAuth";
 import type {Desk} from "@/features/desks/api/desks";
-import {useCreateDeskMutation, useDesksQuery} from "@/features/desks/api/desks";
+import {isDeskActive, useCreateDeskMutation, useDesksQuery} from "@/features/desks/api/desks";
+import type {Booking} from "@/features/desks/api/deskBookings";
+import {AddToCalendarLink} from "@/features/bookings/components/AddToCalendarLink";
+import {StaleDataNotice} from "@/features/offline/StaleDataNotice";
 import {DeskBookingModal} from "@/features/desks/components/DeskBookingModal";
+import {DeskFloorPlan} from "@/features/desks/components/DeskFloorPlan";
+import {DeskWeekGrid} from "@/features/desks/components/DeskWeekGrid";
+import {DeskFilterBar} from "@/features/desks/components/DeskFilterBar";
+import {AmenityBadges} from "@/features/desks/components/AmenityBadges";
+import {AmenityCheckboxes} from "@/features/desks/components/AmenityCheckboxes";
+import {useDeskAvailabilityFilter, useDeskFilters} from "@/features/desks/hooks/useDeskFilters";
+import {
+  type DeskSortField,
+  matchesDeskFilters,
+  sortDesks,
+  toggleSort,
+} from "@/features/desks/utils/deskFilters";
+import {parseDeskPosition} from "@/features/desks/utils/deskPosition";
+import {deskNameRules} from "@/features/desks/utils/deskName";
+import {type Amenity, hasAmenities} from "@/features/desks/utils/amenities";
+import {useForm} from "@/lib/forms/useForm";
+import {type FormRules, numberBetween, type Rule} from "@/lib/forms/validation";
+import type {MessageKey} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DashboardView = "table" | "floorPlan" | "week";
+
+const DASHBOARD_VIEWS: DashboardView[] = ["table", "floorPlan", "week"];
+
+const VIEW_LABELS: Record<DashboardView, MessageKey> = {
+  table: "dashboard.view.table",
+  floorPlan: "dashboard.view.floorPlan",
+  week: "dashboard.view.week",
+};
+
+const textInputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "0.4rem 0.5rem",
+  boxSizing: "border-box",
+};
+
+const positionInputStyle: React.CSSProperties = {width: "5rem", padding: "0.4rem 0.5rem"};
+
+const SORTABLE_COLUMNS: { field: DeskSortField; label: MessageKey }[] = [
+  {field: "id", label: "dashboard.column.id"},
+  {field: "name", label: "dashboard.column.name"},
+  {field: "location", label: "dashboard.column.location"},
+];
+
+type CreateDeskValues = {
+  name: string;
+  location: string;
+  positionX: string;
+  positionY: string;
+};
+
+const EMPTY_DESK_FORM: CreateDeskValues = {name: "", location: "", positionX: "", positionY: ""};
+
+function createDeskRules(existingDesks: Desk[]): FormRules<CreateDeskValues> {
+  // A position needs both coordinates; the empty one gets the error.
+  const pairedWith = (other: "positionX" | "positionY"): Rule<string, CreateDeskValues> =>
+    (value, values) =>
+      !value.trim() && values[other].trim() ? {key: "createDesk.errors.positionPair"} : null;
+
+  return {
+    name: deskNameRules(existingDesks),
+    positionX: [numberBetween(0, 100), pairedWith("positionY")],
+    positionY: [numberBetween(0, 100), pairedWith("positionX")],
+  };
+}
+
+type BookingTarget = {
+  desk: Desk;
+  date?: Date;
+  slotStartAt?: string;
+};
+
+type CompletedBooking = {
+  booking: Booking;
+  desk: Desk;
+};
 
 export const DeskDashboardPage: React.FC = () => {
-  const {data: desks, isLoading, isError, error, refetch} = useDesksQuery();
+  const {data: desks, isLoading, isError, error, refetch, dataUpdatedAt} = useDesksQuery();
   const createDeskMutation = useCreateDeskMutation();
+  const {t, formatDate, formatTimeRange} = useI18n();
+  const {can} = useAuth();
+  const canManageDesks = can("manageDesks");
+  const canBook = can("book");
 
   const [isCreateModalOpen, setIsCreateModalOpen] = React.useState(false);
-  const [name, setName] = React.useState("");
-  const [location, setLocation] = React.useState("");
+  const deskForm = useForm({
+    initialValues: EMPTY_DESK_FORM,
+    rules: createDeskRules(desks ?? []),
+  });
+  const [amenities, setAmenities] = React.useState<Amenity[]>([]);
   const [formError, setFormError] = React.useState<string | null>(null);
 
-  const [selectedDeskForBooking, setSelectedDeskForBooking] =
-    React.useState<(Desk & { id: number }) | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewParam = searchParams.get("view") as DashboardView | null;
+  const view: DashboardView =
+    viewParam && DASHBOARD_VIEWS.includes(viewParam) ? viewParam : "table";
+
+  const setView = (next: DashboardView) => {
+    setSearchParams((current) => {
+      const params = new URLSearchParams(current);
+      if (next === "table") {
+        params.delete("view");
+      } else {
+        params.set("view", next);
+      }
+      return params;
+    });
+  };
+
+  const {filters, setFilters} = useDeskFilters();
+  // Deactivated desks can't be booked, so they're left off the dashboard.
+  const allDesks = React.useMemo(() => (desks ?? []).filter(isDeskActive), [desks]);
+  // Only desks with the required amenities are worth an availability check.
+  const desksWithAmenities = React.useMemo(
+    () => allDesks.filter((desk) => hasAmenities(desk.amenities, filters.amenities)),
+    [allDesks, filters.amenities],
+  );
+  const {matchingIds, isChecking} = useDeskAvailabilityFilter(
+    desksWithAmenities,
+    filters.available,
+    filters.timeRange,
+  );
+
+  const locations = React.useMemo(
+    () =>
+      [...new Set(allDesks.map((desk) => desk.location).filter((l): l is string => !!l))]
+        .sort((a, b) => a.localeCompare(b)),
+    [allDesks],
+  );
+
+  const visibleDesks = React.useMemo(
+    () =>
+      sortDesks(
+        allDesks.filter(
+          (desk) =>
+            matchesDeskFilters(desk, filters) &&
+            (matchingIds == null || isChecking || matchingIds.has(desk.id)),
+        ),
+        filters.sort,
+      ),
+    [allDesks, filters, matchingIds, isChecking],
+  );
+
+  const [bookingTarget, setBookingTarget] = React.useState<BookingTarget | null>(null);
+  // The most recent single booking, offered as a calendar download.
+  const [lastBooking, setLastBooking] = React.useState<CompletedBooking | null>(null);
 
   const resetForm = () => {
-    setName("");
-    setLocation("");
+    deskForm.reset();
+    setAmenities([]);
     setFormError(null);
   };
 
@@ -36,304 +181,307 @@ export const DeskDashboardPage: React.FC = () => {
     e,
   ) => {
     e.preventDefault();
+    if (!deskForm.isValid) return;
     setFormError(null);
 
-    if (!name.trim()) {
-      setFormError("Name is required.");
-      return;
-    }
-
-    const locationValue = location.trim().length > 0 ? location.trim() : null;
-
+    const {name, location, positionX, positionY} = deskForm.values;
     try {
       await createDeskMutation.mutateAsync({
         name: name.trim(),
-        location: locationValue,
+        location: location.trim() || null,
+        position: parseDeskPosition(positionX, positionY) ?? null,
+        amenities,
       });
       await refetch();
       setIsCreateModalOpen(false);
       resetForm();
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      setFormError(`Could not create desk: ${message}`);
+      if (deskForm.showServerErrors(err)) return;
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setFormError(t("createDesk.errors.failed", {message}));
     }
   };
 
-  const handleOpenBookingModal = (desk: Desk) => {
-    if (desk.id == null) return;
-    setSelectedDeskForBooking(desk as Desk & { id: number });
+  const handleOpenBookingModal = (desk: Desk, date?: Date, slotStartAt?: string) => {
+    setBookingTarget({desk, date, slotStartAt});
   };
 
   const handleCloseBookingModal = () => {
-    setSelectedDeskForBooking(null);
+    setBookingTarget(null);
+  };
+
+  const handleBooked = (booking: Booking) => {
+    if (bookingTarget) setLastBooking({booking, desk: bookingTarget.desk});
   };
 
   if (isLoading) {
-    return <p style={{padding: "1rem"}}>Loading desks...</p>;
+    return <p style={{padding: "1rem"}}>{t("dashboard.loading")}</p>;
   }
 
-  if (isError) {
+  // With saved desks to fall back on, a failed refresh only gets a notice.
+  if (isError && !desks) {
     return (
-      <div style={{padding: "1rem", color: "red"}}>
-        <p>Failed to load desks.</p>
-        <p>{error.message}</p>
+      <div style={{padding: "1rem"}}>
+        <Alert tone="error">
+          <p style={{margin: 0}}>{t("dashboard.loadFailed")}</p>
+          <p style={{margin: 0}}>{error.message}</p>
+        </Alert>
       </div>
     );
   }
 
-  const renderCreateDeskModal = () => {
-    if (!isCreateModalOpen) return null;
-
-    return (
-      <div
-        style={{
-          position: "fixed",
-          inset: 0,
-          backgroundColor: "rgba(0,0,0,0.4)",
-          display: "flex",
-          alignItems: "center",
-          justifyContent: "center",
-          zIndex: 1000,
-        }}
-        onClick={handleCloseCreateModal}
-      >
-        <div
+  const renderCreateDeskModal = () => (
+    <Modal
+      isOpen={isCreateModalOpen && canManageDesks}
+      onClose={handleCloseCreateModal}
+      title={t("createDesk.title")}
+      dismissible={!createDeskMutation.isPending}
+    >
+      <form onSubmit={handleSubmitCreateDesk}>
+        <FormField label={t("createDesk.name")} error={deskForm.errorFor("name")}>
+          <input
+            id="desk-name"
+            type="text"
+            {...deskForm.inputProps("name")}
+            style={textInputStyle}
+          />
+        </FormField>
+        <FormField label={t("createDesk.location")} error={deskForm.errorFor("location")}>
+          <input
+            id="desk-location"
+            type="text"
+            {...deskForm.inputProps("location")}
+            style={textInputStyle}
+          />
+        </FormField>
+        <fieldset
           style={{
-            backgroundColor: "#fff",
-            padding: "1.5rem",
-            borderRadius: "4px",
-            width: "100%",
-            maxWidth: "400px",
-            boxShadow: "0 4px 10px rgba(0,0,0,0.15)",
+            display: "flex",
+            gap: "0.5rem",
+            marginBottom: "0.75rem",
+            border: "none",
+            padding: 0,
           }}
-          onClick={(e) => e.stopPropagation()}
         >
-          <h2 style={{marginTop: 0, marginBottom: "1rem"}}>Create desk</h2>
-          <form onSubmit={handleSubmitCreateDesk}>
-            <div style={{marginBottom: "0.75rem"}}>
-              <label
-                htmlFor="desk-name"
-                style={{display: "block", marginBottom: "0.25rem"}}
-              >
-                Name
-              </label>
-              <input
-                id="desk-name"
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                style={{
-                  width: "100%",
-                  padding: "0.4rem 0.5rem",
-                  boxSizing: "border-box",
-                }}
-                autoFocus
-              />
-            </div>
-            <div style={{marginBottom: "0.75rem"}}>
-              <label
-                htmlFor="desk-location"
-                style={{display: "block", marginBottom: "0.25rem"}}
-              >
-                Location (optional)
-              </label>
-              <input
-                id="desk-location"
-                type="text"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                style={{
-                  width: "100%",
-                  padding: "0.4rem 0.5rem",
-                  boxSizing: "border-box",
-                }}
-              />
-            </div>
-            {formError && (
-              <p style={{color: "red", marginBottom: "0.75rem"}}>{formError}</p>
-            )}
-            <div
-              style={{
-                display: "flex",
-                justifyContent: "flex-end",
-                gap: "0.5rem",
-                marginTop: "0.5rem",
-              }}
-            >
-              <button
-                type="button"
-                onClick={handleCloseCreateModal}
-                style={{padding: "0.4rem 0.8rem", cursor: "pointer"}}
-                disabled={createDeskMutation.isPending}
-              >
-                Cancel
-              </button>
-              <button
-                type="submit"
-                style={{padding: "0.4rem 0.8rem", cursor: "pointer"}}
-                disabled={createDeskMutation.isPending}
-              >
-                {createDeskMutation.isPending ? "Creating..." : "Create desk"}
-              </button>
-            </div>
-          </form>
-        </div>
-      </div>
-    );
-  };
-
-  if (!desks || desks.length === 0) {
-    return (
-      <div style={{padding: "1rem"}}>
+          <legend style={{marginBottom: "0.25rem"}}>
+            {t("createDesk.position")}
+          </legend>
+          <FormField
+            label={t("createDesk.x")}
+            error={deskForm.errorFor("positionX")}
+            inline
+            style={{marginBottom: 0}}
+          >
+            <input
+              id="desk-position-x"
+              type="number"
+              min={0}
+              max={100}
+              {...deskForm.inputProps("positionX")}
+              style={positionInputStyle}
+            />
+          </FormField>
+          <FormField
+            label={t("createDesk.y")}
+            error={deskForm.errorFor("positionY")}
+            inline
+            style={{marginBottom: 0}}
+          >
+            <input
+              id="desk-position-y"
+              type="number"
+              min={0}
+              max={100}
+              {...deskForm.inputProps("positionY")}
+              style={positionInputStyle}
+            />
+          </FormField>
+        </fieldset>
+        <AmenityCheckboxes
+          legend={t("createDesk.amenities")}
+          value={amenities}
+          onChange={setAmenities}
+          style={{marginBottom: "0.75rem"}}
+        />
+        {formError && <Alert tone="error">{formError}</Alert>}
         <div
           style={{
             display: "flex",
-            justifyContent: "space-between",
-            alignItems: "center",
+            justifyContent: "flex-end",
+            gap: "0.5rem",
+            marginTop: "0.5rem",
           }}
         >
-          <h1 style={{marginBottom: "1rem"}}>Dashboard</h1>
-          <button
-            type="button"
-            onClick={handleOpenCreateModal}
-            style={{padding: "0.5rem 1rem", cursor: "pointer"}}
+          <Button
+            size="md"
+            onClick={handleCloseCreateModal}
             disabled={createDeskMutation.isPending}
           >
-            Create desk
-          </button>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            size="md"
+            disabled={!deskForm.isValid || createDeskMutation.isPending}
+          >
+            {createDeskMutation.isPending
+              ? t("createDesk.submitting")
+              : t("createDesk.submit")}
+          </Button>
         </div>
-        <p>No desks found.</p>
+      </form>
+    </Modal>
+  );
+
+  const header = (
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+      }}
+    >
+      <h1 style={{marginBottom: "1rem"}}>{t("dashboard.title")}</h1>
+      {canManageDesks && (
+        <Button
+          size="lg"
+          onClick={handleOpenCreateModal}
+          disabled={createDeskMutation.isPending}
+        >
+          {t("createDesk.open")}
+        </Button>
+      )}
+    </div>
+  );
+
+  if (!desks || desks.length === 0) {
+    return (
+      <div style={{padding: "1rem"}}>
+        {header}
+        <p>{t("dashboard.noDesks")}</p>
         {renderCreateDeskModal()}
       </div>
     );
   }
 
+  const columns: DataTableColumn<Desk>[] = [
+    ...SORTABLE_COLUMNS.map(({field, label}): DataTableColumn<Desk> => {
+      const isSorted = filters.sort.field === field;
+      return {
+        key: field,
+        headerProps: {
+          "aria-sort": isSorted
+            ? filters.sort.direction === "asc" ? "ascending" : "descending"
+            : "none",
+        },
+        header: (
+          <Button
+            variant="link"
+            onClick={() => setFilters({sort: toggleSort(filters.sort, field)})}
+            style={{color: "inherit", fontWeight: "inherit"}}
+          >
+            {t(label)}
+            <span aria-hidden="true">
+              {isSorted ? (filters.sort.direction === "asc" ? " ▲" : " ▼") : ""}
+            </span>
+          </Button>
+        ),
+        render: (desk) => (field === "location" ? desk.location ?? "-" : desk[field]),
+      };
+    }),
+    {
+      key: "amenities",
+      header: t("dashboard.column.amenities"),
+      render: (desk) => <AmenityBadges amenities={desk.amenities}/>,
+    },
+  ];
+  if (canBook) {
+    columns.push({
+      key: "actions",
+      header: t("dashboard.column.actions"),
+      align: "right",
+      render: (desk) => (
+        <Button onClick={() => handleOpenBookingModal(desk)}>
+          {t("dashboard.book")}
+        </Button>
+      ),
+    });
+  }
+
   return (
     <div style={{padding: "1rem"}}>
+      {header}
+
+      <StaleDataNotice updatedAt={dataUpdatedAt} refreshFailed={isError}/>
+
       <div
-        style={{
-          display: "flex",
-          justifyContent: "space-between",
-          alignItems: "center",
-        }}
+        role="group"
+        aria-label={t("dashboard.view")}
+        style={{display: "flex", gap: "0.5rem", marginBottom: "1rem"}}
       >
-        <h1 style={{marginBottom: "1rem"}}>Dashboard</h1>
-        <button
-          type="button"
-          onClick={handleOpenCreateModal}
-          style={{padding: "0.5rem 1rem", cursor: "pointer"}}
-          disabled={createDeskMutation.isPending}
-        >
-          Create desk
-        </button>
+        {DASHBOARD_VIEWS.map((option) => (
+          <Button key={option} aria-pressed={view === option} onClick={() => setView(option)}>
+            {t(VIEW_LABELS[option])}
+          </Button>
+        ))}
       </div>
 
-      <table
-        style={{
-          width: "100%",
-          borderCollapse: "collapse",
-          maxWidth: "800px",
-        }}
-      >
-        <thead>
-        <tr>
-          <th
-            style={{
-              borderBottom: "1px solid #ccc",
-              textAlign: "left",
-              padding: "0.5rem",
-            }}
+      {lastBooking && (
+        <Alert tone="success" onDismiss={() => setLastBooking(null)}>
+          {t("booking.booked", {
+            name: lastBooking.desk.name,
+            date: formatDate(lastBooking.booking.startAt),
+            time: formatTimeRange(lastBooking.booking),
+          })}{" "}
+          <AddToCalendarLink
+            bookings={[lastBooking.booking]}
+            desks={[lastBooking.desk]}
+            fileName="desk-booking.ics"
           >
-            ID
-          </th>
-          <th
-            style={{
-              borderBottom: "1px solid #ccc",
-              textAlign: "left",
-              padding: "0.5rem",
-            }}
-          >
-            Name
-          </th>
-          <th
-            style={{
-              borderBottom: "1px solid #ccc",
-              textAlign: "left",
-              padding: "0.5rem",
-            }}
-          >
-            Location
-          </th>
-          <th
-            style={{
-              borderBottom: "1px solid #ccc",
-              textAlign: "right",
-              padding: "0.5rem",
-            }}
-          >
-            Actions
-          </th>
-        </tr>
-        </thead>
-        <tbody>
-        {desks.map((desk) => (
-          <tr key={desk.id}>
-            <td
-              style={{
-                borderBottom: "1px solid #eee",
-                padding: "0.5rem",
-              }}
-            >
-              {desk.id}
-            </td>
-            <td
-              style={{
-                borderBottom: "1px solid #eee",
-                padding: "0.5rem",
-              }}
-            >
-              {desk.name}
-            </td>
-            <td
-              style={{
-                borderBottom: "1px solid #eee",
-                padding: "0.5rem",
-              }}
-            >
-              {desk.location ?? "-"}
-            </td>
-            <td
-              style={{
-                borderBottom: "1px solid #eee",
-                padding: "0.5rem",
-                textAlign: "right",
-              }}
-            >
-              <button
-                type="button"
-                onClick={() => handleOpenBookingModal(desk)}
-                style={{padding: "0.3rem 0.7rem", cursor: "pointer"}}
-                disabled={desk.id == null}
-              >
-                Book
-              </button>
-            </td>
-          </tr>
-        ))}
-        </tbody>
-      </table>
+            {t("booking.addToCalendar")}
+          </AddToCalendarLink>
+        </Alert>
+      )}
+
+      <DeskFilterBar filters={filters} locations={locations} onChange={setFilters}/>
+
+      {isChecking && <p>{t("dashboard.checkingAvailability")}</p>}
+
+      {visibleDesks.length === 0 && <p>{t("dashboard.noMatches")}</p>}
+
+      {view === "floorPlan" && (
+        <DeskFloorPlan
+          desks={visibleDesks}
+          onSelectDesk={canBook ? handleOpenBookingModal : undefined}
+        />
+      )}
+
+      {view === "week" && (
+        <DeskWeekGrid
+          desks={visibleDesks}
+          onBookCell={canBook ? handleOpenBookingModal : undefined}
+        />
+      )}
+
+      {view === "table" && (
+        <DataTable columns={columns} rows={visibleDesks} rowKey={(desk) => desk.id}/>
+      )}
 
       {renderCreateDeskModal()}
 
-      {selectedDeskForBooking && (
+      {bookingTarget && (
         <DeskBookingModal
-          desk={selectedDeskForBooking}
-          isOpen={!!selectedDeskForBooking}
+          desk={bookingTarget.desk}
+          isOpen={!!bookingTarget}
           onClose={handleCloseBookingModal}
+          onBooked={handleBooked}
+          initialDate={bookingTarget.date}
+          initialSlotStartAt={bookingTarget.slotStartAt}
         />
       )}
     </div>
   );
 };
 
-export default DeskDashboardPage;
\ No newline at end of file
+export default DeskDashboardPage;
@@ -0,0 +1,68 @@
+import type {QueryClient} from "@tanstack/react-query";
+import {type AvailabilitySlot, type Booking, bookingDecoder} from "@/features/desks/api/deskBookings";
+import {decode, number, object} from "@/lib/decode";
+import type {ServerSentEvent} from "@/lib/eventStream";
+
+/** Server-sent events about bookings and desks, for everyone's changes. */
+export const BOOKING_EVENTS_PATH = "/events/bookings";
+
+export type BookingEvent =
+  | { type: "booking.created" | "booking.cancelled"; booking: Booking }
+  | { type: "desk.created" | "desk.updated" | "desk.deleted"; deskId: number };
+
+const BOOKING_EVENT_TYPES = new Set(["booking.created", "booking.cancelled"]);
+const DESK_EVENT_TYPES = new Set(["desk.created", "desk.updated", "desk.deleted"]);
+
+const bookingPayloadDecoder = object({booking: bookingDecoder});
+const deskPayloadDecoder = object({deskId: number});
+
+/** The event's payload, or null for event types this client doesn't know. */
+export function parseBookingEvent({type, data}: ServerSentEvent): BookingEvent | null {
+  try {
+    if (BOOKING_EVENT_TYPES.has(type)) {
+      const {booking} = decode(bookingPayloadDecoder, JSON.parse(data));
+      return {type, booking} as BookingEvent;
+    }
+    if (DESK_EVENT_TYPES.has(type)) {
+      const {deskId} = decode(deskPayloadDecoder, JSON.parse(data));
+      return {type, deskId} as BookingEvent;
+    }
+  } catch {
+    // Malformed or unexpected events are ignored; the next refetch catches up.
+  }
+  return null;
+}
+
+function overlaps(slot: AvailabilitySlot, booking: Booking): boolean {
+  return slot.startAt < booking.endAt && booking.startAt < slot.endAt;
+}
+
+/**
+ * Brings cached queries up to date with an event. A new booking marks its
+ * slots booked straight away; a cancellation refetches instead, since other
+ * bookings may still cover those slots.
+ */
+export function applyBookingEvent(queryClient: QueryClient, event: BookingEvent): Promise<void> {
+  switch (event.type) {
+    case "booking.created": {
+      const {booking} = event;
+      queryClient.setQueriesData<AvailabilitySlot[]>(
+        {queryKey: ["deskAvailability", booking.deskId]},
+        (slots) =>
+          slots?.map((slot) => (overlaps(slot, booking) ? {...slot, status: "BOOKED"} : slot)),
+      );
+      return queryClient.invalidateQueries({queryKey: ["deskBookings", booking.deskId]});
+    }
+    case "booking.cancelled":
+      return Promise.all([
+        queryClient.invalidateQueries({queryKey: ["deskAvailability", event.booking.deskId]}),
+        queryClient.invalidateQueries({queryKey: ["deskBookings", event.booking.deskId]}),
+      ]).then(() => undefined);
+    case "desk.created":
+    case "desk.updated":
+      return queryClient.invalidateQueries({queryKey: ["desks"]});
+    case "desk.deleted":
+      queryClient.removeQueries({queryKey: ["deskAvailability", event.deskId]});
+      return queryClient.invalidateQueries({queryKey: ["desks"]});
+  }
+}
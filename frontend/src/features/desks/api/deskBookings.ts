@@ -1,135 +1,231 @@
-import {useAuth} from "@/features/auth/AuthContext";
-import {useMutation, useQuery} from "@tanstack/react-query";
+import {useMutation, useQueries, useQuery, useQueryClient} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {array, type Infer, nullable, number, object, oneOf, optional, string} from "@/lib/decode";
+import {isSlotAvailable} from "@/features/desks/utils/slotSelection";
+import type {TimeRange} from "@/features/desks/utils/dateTime";
+
+export const availabilitySlotDecoder = object({
+  startAt: string, // ISO-like string
+  endAt: string,
+  status: oneOf(["AVAILABLE", "BOOKED"]),
+});
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "";
+export type AvailabilitySlot = Infer<typeof availabilitySlotDecoder>;
 
-export type AvailabilityStatus = "AVAILABLE" | "BOOKED";
+export type AvailabilityStatus = AvailabilitySlot["status"];
 
-export type AvailabilitySlot = {
-  startAt: string; // ISO-like string
-  endAt: string;
-  status: AvailabilityStatus;
-};
+export const bookingDecoder = object({
+  id: number,
+  deskId: number,
+  userId: number,
+  startAt: string,
+  endAt: string,
+  /** Set when the booking was made as part of a team booking. */
+  groupId: optional(nullable(number)),
+  /** When the user checked in at the desk; bookings nobody checks in to are released. */
+  checkedInAt: optional(nullable(string)),
+});
 
-export type CreateBookingInput = {
+export type Booking = Infer<typeof bookingDecoder>;
+
+export type DeskAvailabilityInput = {
   deskId: number;
   startAt: string;
   endAt: string;
 };
 
-type ApiError = {
-  message?: string;
+export type DeskBookingsInput = {
+  deskId: number;
+  /** Only bookings that end after this local datetime. */
+  from: string;
 };
 
-async function fetchDeskAvailability(
-  accessToken: string | null,
-  deskId: number,
-  startAt: string,
-  endAt: string,
-): Promise<AvailabilitySlot[]> {
-  if (!accessToken) {
-    throw new Error("Not authenticated");
-  }
-
-  const params = new URLSearchParams({
-    startAt,
-    endAt,
-  });
+export type CreateBookingInput = {
+  deskId: number;
+  startAt: string;
+  endAt: string;
+  /** Book for this user instead of the signed-in one, e.g. for a teammate. */
+  userId?: number;
+  groupId?: number;
+};
 
-  const response = await fetch(
-    `${API_BASE_URL}/desks/${deskId}/availability?${params.toString()}`,
-    {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
+export const deskBookingEndpoints = {
+  availability: defineEndpoint<DeskAvailabilityInput, AvailabilitySlot[]>({
+    method: "GET",
+    path: ({deskId}) => `/desks/${deskId}/availability`,
+    query: ({startAt, endAt}) => ({startAt, endAt}),
+    response: array(availabilitySlotDecoder),
+    errorMessages: {
+      401: "availability.errors.unauthorized",
+      default: "availability.errors.load",
     },
-  );
-
-  if (!response.ok) {
-    let errorBody: ApiError | undefined;
-    try {
-      errorBody = (await response.json()) as ApiError;
-    } catch {
-      // ignore parse error
-    }
-
-    const message =
-      errorBody?.message ||
-      (response.status === 401
-        ? "You are not authorized to view desk availability."
-        : "Failed to load desk availability.");
-
-    throw new Error(message);
-  }
-
-  return (await response.json()) as AvailabilitySlot[];
-}
+  }),
+  list: defineEndpoint<DeskBookingsInput, Booking[]>({
+    method: "GET",
+    path: ({deskId}) => `/desks/${deskId}/bookings`,
+    query: ({from}) => ({from}),
+    response: array(bookingDecoder),
+    errorMessages: {
+      401: "bookings.errors.deskListUnauthorized",
+      default: "bookings.errors.deskList",
+    },
+  }),
+  create: defineEndpoint<CreateBookingInput, Booking>({
+    method: "POST",
+    path: ({deskId}) => `/desks/${deskId}/bookings`,
+    body: ({startAt, endAt, userId, groupId}) => ({startAt, endAt, userId, groupId}),
+    response: bookingDecoder,
+    errorMessages: {
+      401: "bookings.errors.createUnauthorized",
+      default: "bookings.errors.create",
+    },
+  }),
+};
 
 export function useDeskAvailabilityQuery(
   deskId: number | null | undefined,
   startAt: string | null,
   endAt: string | null,
 ) {
-  const {accessToken} = useAuth();
+  const {request, isAuthenticated} = useApiClient();
 
-  return useQuery<AvailabilitySlot[], Error>({
+  return useQuery<AvailabilitySlot[], ApiError>({
     queryKey: ["deskAvailability", deskId, startAt, endAt],
     queryFn: () =>
-      fetchDeskAvailability(
-        accessToken,
-        deskId as number,
-        startAt as string,
-        endAt as string,
-      ),
-    enabled: !!accessToken && !!deskId && !!startAt && !!endAt,
+      request(deskBookingEndpoints.availability, {
+        deskId: deskId as number,
+        startAt: startAt as string,
+        endAt: endAt as string,
+      }),
+    enabled: isAuthenticated && !!deskId && !!startAt && !!endAt,
   });
 }
 
-async function createBooking(
-  accessToken: string | null,
-  input: CreateBookingInput,
-) {
-  if (!accessToken) {
-    throw new Error("Not authenticated");
-  }
+/** Everyone's bookings of a desk that haven't ended yet at `from`. */
+export function useDeskBookingsQuery(deskId: number | null, from: string) {
+  const {request, isAuthenticated} = useApiClient();
 
-  const {deskId, startAt, endAt} = input;
-
-  const response = await fetch(`${API_BASE_URL}/desks/${deskId}/bookings`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify({startAt, endAt}),
+  return useQuery<Booking[], ApiError>({
+    queryKey: ["deskBookings", deskId, from],
+    queryFn: () => request(deskBookingEndpoints.list, {deskId: deskId as number, from}),
+    enabled: isAuthenticated && deskId != null,
   });
+}
+
+export type CreateBookingSeriesInput = {
+  deskId: number;
+  occurrences: TimeRange[];
+};
 
-  if (!response.ok) {
-    let errorBody: ApiError | undefined;
-    try {
-      errorBody = (await response.json()) as ApiError;
-    } catch {
-      // ignore parse error
-    }
+export type SeriesOccurrenceResult =
+  | { occurrence: TimeRange; status: "booked"; booking: Booking }
+  | { occurrence: TimeRange; status: "failed"; error: Error };
 
-    const message =
-      errorBody?.message ||
-      (response.status === 401
-        ? "You are not authorized to create bookings."
-        : "Failed to create booking.");
+export type DeskAvailabilitySummary = "available" | "booked" | "unknown";
 
-    throw new Error(message);
-  }
+export function summarizeAvailability(
+  slots: AvailabilitySlot[] | undefined,
+): DeskAvailabilitySummary {
+  if (!slots || slots.length === 0) return "unknown";
+  return slots.every(isSlotAvailable) ? "available" : "booked";
+}
+
+/**
+ * Availability of several desks, each over its own window (desks in offices
+ * in different timezones see "now" at different local times). Shares its
+ * cache entries with useDeskAvailabilityQuery.
+ */
+export function useDesksAvailability(windows: DeskAvailabilityInput[]) {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQueries({
+    queries: windows.map(({deskId, startAt, endAt}) => ({
+      queryKey: ["deskAvailability", deskId, startAt, endAt],
+      queryFn: () => request(deskBookingEndpoints.availability, {deskId, startAt, endAt}),
+      enabled: isAuthenticated,
+    })),
+    combine: (results) => {
+      const slotsByDesk = new Map<number, AvailabilitySlot[] | undefined>();
+      const summaries = new Map<number, DeskAvailabilitySummary>();
+      results.forEach((result, index) => {
+        slotsByDesk.set(windows[index].deskId, result.data);
+        summaries.set(windows[index].deskId, summarizeAvailability(result.data));
+      });
+      return {
+        slotsByDesk,
+        summaries,
+        isLoading: results.some((result) => result.isLoading),
+        isError: results.some((result) => result.isError),
+      };
+    },
+  });
+}
 
-  return await response.json();
+/**
+ * Availability of one desk over several windows, e.g. each occurrence of a
+ * recurring booking. Shares its cache entries with useDeskAvailabilityQuery.
+ */
+export function useDeskAvailabilityForRanges(deskId: number, ranges: TimeRange[]) {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQueries({
+    queries: ranges.map(({startAt, endAt}) => ({
+      queryKey: ["deskAvailability", deskId, startAt, endAt],
+      queryFn: () =>
+        request(deskBookingEndpoints.availability, {deskId, startAt, endAt}),
+      enabled: isAuthenticated,
+    })),
+  });
 }
 
 export function useCreateBookingMutation() {
-  const {accessToken} = useAuth();
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<Booking, ApiError, CreateBookingInput>({
+    mutationFn: (input) => request(deskBookingEndpoints.create, input),
+    // Refresh availability and the user's bookings whenever the server has
+    // answered: a conflict means the slot was taken, and a reply we can't
+    // read may still mean it was booked.
+    onSettled: (_booking, _error, input) =>
+      Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: ["deskAvailability", input.deskId],
+        }),
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+      ]),
+  });
+}
 
-  return useMutation({
-    mutationFn: (input: CreateBookingInput) => createBooking(accessToken, input),
+/**
+ * Books each occurrence in turn. A failed occurrence doesn't stop the series;
+ * every outcome is reported back so the user can see what was booked.
+ */
+export function useCreateBookingSeriesMutation() {
+  const {request, toError} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<SeriesOccurrenceResult[], ApiError, CreateBookingSeriesInput>({
+    mutationFn: async ({deskId, occurrences}) => {
+      const results: SeriesOccurrenceResult[] = [];
+      for (const occurrence of occurrences) {
+        try {
+          const booking = await request(deskBookingEndpoints.create, {
+            deskId,
+            ...occurrence,
+          });
+          results.push({occurrence, status: "booked", booking});
+        } catch (err) {
+          const error = toError(err);
+          results.push({occurrence, status: "failed", error});
+        }
+      }
+      return results;
+    },
+    onSuccess: (_results, {deskId}) =>
+      Promise.all([
+        queryClient.invalidateQueries({queryKey: ["deskAvailability", deskId]}),
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+      ]),
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import {describe, expect, it} from "vitest";
+import {decode} from "@/lib/decode";
+import {deskDecoder} from "./desks";
+
+describe("deskDecoder", () => {
+  it("accepts the server's DeskResponse, which only has id, name and location", () => {
+    expect(decode(deskDecoder, {id: 3, name: "Desk C", location: null})).toEqual({
+      id: 3,
+      name: "Desk C",
+      location: null,
+      position: null,
+      amenities: [],
+    });
+  });
+
+  it("keeps the fields the server may add later", () => {
+    expect(
+      decode(deskDecoder, {
+        id: 1,
+        name: "Desk A",
+        location: "1st Floor",
+        position: {x: 20, y: 30},
+        amenities: ["dualMonitor", "holodeck"],
+        active: false,
+      }),
+    ).toEqual({
+      id: 1,
+      name: "Desk A",
+      location: "1st Floor",
+      position: {x: 20, y: 30},
+      amenities: ["dualMonitor"],
+      active: false,
+    });
+  });
+});
@@ -1,107 +1,172 @@
-import {useMutation, useQuery} from "@tanstack/react-query";
-import {useAuth} from "@/features/auth/AuthContext";
+import {useMutation, useQuery, useQueryClient} from "@tanstack/react-query";
+import {type Amenity, normalizeAmenities} from "@/features/desks/utils/amenities";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {
+  array,
+  boolean,
+  type Infer,
+  map,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+} from "@/lib/decode";
+
+/** Position on the location's floor plan, in percent of its width/height. */
+const deskPositionDecoder = object({x: number, y: number});
+
+export type DeskPosition = Infer<typeof deskPositionDecoder>;
+
+// The server only sends id, name and location so far; the rest is filled in
+// as if the desk had no position or amenities and was active.
+export const deskDecoder = object({
+  id: number,
+  name: string,
+  location: nullable(string),
+  position: map(optional(nullable(deskPositionDecoder)), (position) => position ?? null),
+  // Amenities added on the server before this client knows them are left out.
+  amenities: map(optional(array(string)), (amenities) => normalizeAmenities(amenities ?? [])),
+  /** Deactivated desks stay in the system but can't be booked. Missing means active. */
+  active: optional(boolean),
+});
+
+export type Desk = Infer<typeof deskDecoder>;
+
+/** Until the server sends `active`, every desk it sends is in use. */
+export function isDeskActive(desk: Desk): boolean {
+  return desk.active !== false;
+}
 
-export type Desk = {
-  id: number;
+export type CreateDeskInput = {
   name: string;
   location: string | null;
+  position?: DeskPosition | null;
+  amenities?: Amenity[];
 };
 
-type ApiError = {
-  message?: string;
+export type UpdateDeskInput = {
+  id: number;
+  name?: string;
+  location?: string | null;
+  amenities?: Amenity[];
+  active?: boolean;
 };
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "";
-
-async function fetchDesks(accessToken: string | null): Promise<Desk[]> {
-  if (!accessToken) {
-    throw new Error("Not authenticated");
-  }
+export type DeskImportResult =
+  | { input: CreateDeskInput; status: "created"; desk: Desk }
+  | { input: CreateDeskInput; status: "failed"; error: Error };
 
-  const response = await fetch(`${API_BASE_URL}/desks`, {
+export const deskEndpoints = {
+  list: defineEndpoint<void, Desk[]>({
     method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
+    path: () => "/desks",
+    response: array(deskDecoder),
+    errorMessages: {
+      401: "desks.errors.listUnauthorized",
+      default: "desks.errors.list",
     },
-  });
-
-  if (!response.ok) {
-    let errorBody: ApiError | undefined;
-    try {
-      errorBody = (await response.json()) as ApiError;
-    } catch {
-      // ignore parse error; we'll fall back to generic message
-    }
-
-    const message =
-      errorBody?.message ||
-      (response.status === 401
-        ? "You are not authorized to view desks."
-        : "Failed to load desks.");
-
-    throw new Error(message);
-  }
-
-  return (await response.json()) as Desk[];
-}
+  }),
+  create: defineEndpoint<CreateDeskInput, Desk>({
+    method: "POST",
+    path: () => "/desks",
+    body: (input) => input,
+    response: deskDecoder,
+    errorMessages: {
+      401: "desks.errors.createUnauthorized",
+      default: "desks.errors.create",
+    },
+  }),
+  update: defineEndpoint<UpdateDeskInput, Desk>({
+    method: "PATCH",
+    path: ({id}) => `/desks/${id}`,
+    // Fields left undefined are dropped from the JSON and keep their value.
+    body: ({name, location, amenities, active}) => ({name, location, amenities, active}),
+    response: deskDecoder,
+    errorMessages: {
+      401: "desks.errors.updateUnauthorized",
+      404: "desks.errors.notFound",
+      default: "desks.errors.update",
+    },
+  }),
+  remove: defineEndpoint<{ id: number }, void>({
+    method: "DELETE",
+    path: ({id}) => `/desks/${id}`,
+    errorMessages: {
+      401: "desks.errors.deleteUnauthorized",
+      404: "desks.errors.notFound",
+      default: "desks.errors.delete",
+    },
+  }),
+};
 
 export function useDesksQuery() {
-  const {accessToken} = useAuth();
+  const {request, isAuthenticated} = useApiClient();
 
-  return useQuery<Desk[], Error>({
+  return useQuery<Desk[], ApiError>({
     queryKey: ["desks"],
-    queryFn: () => fetchDesks(accessToken),
-    enabled: !!accessToken,
+    queryFn: () => request(deskEndpoints.list, undefined),
+    enabled: isAuthenticated,
   });
 }
 
-export type CreateDeskInput = {
-  name: string;
-  location: string | null;
-};
-
-async function createDesk(
-  accessToken: string | null,
-  input: CreateDeskInput,
-): Promise<Desk> {
-  if (!accessToken) {
-    throw new Error("Not authenticated");
-  }
+export function useCreateDeskMutation() {
+  const {request} = useApiClient();
 
-  const response = await fetch(`${API_BASE_URL}/desks`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(input),
+  return useMutation<Desk, ApiError, CreateDeskInput>({
+    mutationFn: (input) => request(deskEndpoints.create, input),
   });
+}
 
-  if (!response.ok) {
-    let errorBody: ApiError | undefined;
-    try {
-      errorBody = (await response.json()) as ApiError;
-    } catch {
-      // ignore parse error; we'll fall back to generic message
-    }
-
-    const message =
-      errorBody?.message ||
-      (response.status === 401
-        ? "You are not authorized to create desks."
-        : "Failed to create desk.");
-
-    throw new Error(message);
-  }
+export function useUpdateDeskMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
 
-  return (await response.json()) as Desk;
+  return useMutation<Desk, ApiError, UpdateDeskInput>({
+    mutationFn: (input) => request(deskEndpoints.update, input),
+    onSuccess: () => queryClient.invalidateQueries({queryKey: ["desks"]}),
+  });
 }
 
-export function useCreateDeskMutation() {
-  const {accessToken} = useAuth();
+export function useDeleteDeskMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, ApiError, { id: number }>({
+    mutationFn: (input) => request(deskEndpoints.remove, input),
+    // Deleting a desk cancels its bookings.
+    onSuccess: (_data, {id}) =>
+      Promise.all([
+        queryClient.invalidateQueries({queryKey: ["desks"]}),
+        queryClient.invalidateQueries({queryKey: ["deskAvailability", id]}),
+        queryClient.invalidateQueries({queryKey: ["deskBookings", id]}),
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+      ]),
+  });
+}
 
-  return useMutation<Desk, Error, CreateDeskInput>({
-    mutationFn: (input) => createDesk(accessToken, input),
+/**
+ * Creates each desk in turn, like a booking series: a failed row doesn't stop
+ * the import, and every outcome is reported back.
+ */
+export function useImportDesksMutation() {
+  const {request, toError} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<DeskImportResult[], ApiError, CreateDeskInput[]>({
+    mutationFn: async (inputs) => {
+      const results: DeskImportResult[] = [];
+      for (const input of inputs) {
+        try {
+          const desk = await request(deskEndpoints.create, input);
+          results.push({input, status: "created", desk});
+        } catch (err) {
+          const error = toError(err);
+          results.push({input, status: "failed", error});
+        }
+      }
+      return results;
+    },
+    onSuccess: () => queryClient.invalidateQueries({queryKey: ["desks"]}),
   });
-}
\ No newline at end of file
+}
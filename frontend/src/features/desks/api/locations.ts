@@ -0,0 +1,37 @@
+import {useQuery} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {array, type Infer, object, string} from "@/lib/decode";
+
+/** Office-wide settings for a desk location, keyed by the desks' `location`. */
+const locationSettingsDecoder = object({
+  name: string,
+  workingHours: object({start: string, end: string}),
+  /** IANA timezone the office's booking times are in, e.g. "Europe/London". */
+  timeZone: string,
+});
+
+export type LocationSettings = Infer<typeof locationSettingsDecoder>;
+
+export const locationEndpoints = {
+  list: defineEndpoint<void, LocationSettings[]>({
+    method: "GET",
+    path: () => "/locations",
+    response: array(locationSettingsDecoder),
+    errorMessages: {
+      401: "locations.errors.listUnauthorized",
+      default: "locations.errors.list",
+    },
+  }),
+};
+
+export function useLocationsQuery() {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQuery<LocationSettings[], ApiError>({
+    queryKey: ["locations"],
+    queryFn: () => request(locationEndpoints.list, undefined),
+    enabled: isAuthenticated,
+    // Office settings rarely change during a session.
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,37 @@
+import React from "react";
+import {AMENITY_LABELS, type Amenity} from "@/features/desks/utils/amenities";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type AmenityBadgesProps = {
+  amenities: Amenity[];
+};
+
+export const AmenityBadges: React.FC<AmenityBadgesProps> = ({amenities}) => {
+  const {t} = useI18n();
+
+  if (amenities.length === 0) return <>-</>;
+
+  return (
+    <ul
+      aria-label={t("amenities.title")}
+      style={{display: "flex", flexWrap: "wrap", gap: "0.25rem", margin: 0, padding: 0}}
+    >
+      {amenities.map((amenity) => (
+        <li
+          key={amenity}
+          style={{
+            listStyle: "none",
+            padding: "0.1rem 0.45rem",
+            fontSize: "0.8rem",
+            backgroundColor: "#eef2ff",
+            border: "1px solid #c7d2fe",
+            borderRadius: "999px",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {t(AMENITY_LABELS[amenity])}
+        </li>
+      ))}
+    </ul>
+  );
+};
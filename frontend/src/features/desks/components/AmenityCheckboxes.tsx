@@ -0,0 +1,59 @@
+import React from "react";
+import {
+  AMENITIES,
+  AMENITY_LABELS,
+  type Amenity,
+  normalizeAmenities,
+} from "@/features/desks/utils/amenities";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type AmenityCheckboxesProps = {
+  legend: string;
+  value: Amenity[];
+  onChange: (amenities: Amenity[]) => void;
+  style?: React.CSSProperties;
+};
+
+/** A checkbox per amenity, for picking a desk's amenities or the ones to require. */
+export const AmenityCheckboxes: React.FC<AmenityCheckboxesProps> = ({
+                                                                      legend,
+                                                                      value,
+                                                                      onChange,
+                                                                      style,
+                                                                    }) => {
+  const {t} = useI18n();
+
+  const handleToggle = (amenity: Amenity, checked: boolean) => {
+    onChange(
+      normalizeAmenities(
+        checked ? [...value, amenity] : value.filter((selected) => selected !== amenity),
+      ),
+    );
+  };
+
+  return (
+    <fieldset
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: "0.25rem 0.75rem",
+        border: "none",
+        padding: 0,
+        margin: 0,
+        ...style,
+      }}
+    >
+      <legend style={{marginBottom: "0.25rem"}}>{legend}</legend>
+      {AMENITIES.map((amenity) => (
+        <label key={amenity} style={{display: "inline-flex", gap: "0.3rem"}}>
+          <input
+            type="checkbox"
+            checked={value.includes(amenity)}
+            onChange={(e) => handleToggle(amenity, e.target.checked)}
+          />
+          {t(AMENITY_LABELS[amenity])}
+        </label>
+      ))}
+    </fieldset>
+  );
+};
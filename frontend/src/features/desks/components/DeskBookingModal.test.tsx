@@ -0,0 +1,406 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {fireEvent, screen, waitFor, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {http, HttpResponse} from "msw";
+import {createTestDesk} from "@/test-utils/desks";
+import {server} from "@/test-utils/msw/server";
+import {emitMockEvent, openEventStreamCount} from "@/test-utils/msw/handlers";
+import {axeViolations} from "@/test-utils/axe";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {useLiveAvailability} from "@/features/desks/hooks/useLiveAvailability";
+import {toLocalDateTimeString} from "@/features/desks/utils/dateTime";
+import {DeskBookingModal} from "./DeskBookingModal";
+
+const desk = createTestDesk();
+
+describe("DeskBookingModal range selection", () => {
+  let user: UserEvent;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    user = userEvent.setup();
+    onClose = vi.fn();
+    renderWithProviders(
+      <DeskBookingModal desk={desk} isOpen onClose={onClose}/>,
+      {
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+    await screen.findAllByRole("option");
+  });
+
+  const slotOptions = () => screen.getAllByRole("option");
+
+  it("is a modal dialog named after the desk that closes on Escape", async () => {
+    const dialog = screen.getByRole("dialog", {name: /book desk: desk a/i});
+    expect(dialog).toHaveAttribute("aria-modal", "true");
+    expect(dialog).toContainElement(document.activeElement as HTMLElement);
+
+    await user.keyboard("{Escape}");
+
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("books a range of consecutive slots in a single request", async () => {
+    let bookedRange: unknown = null;
+    server.use(
+      http.post("*/desks/:deskId/bookings", async ({request}) => {
+        bookedRange = await request.json();
+        return HttpResponse.json(
+          {id: 99, deskId: 1, userId: 1, ...(bookedRange as object)},
+          {status: 201},
+        );
+      }),
+    );
+
+    await user.click(slotOptions()[0]);
+    await user.click(slotOptions()[3]);
+
+    for (const option of slotOptions().slice(0, 4)) {
+      expect(option).toHaveAttribute("aria-selected", "true");
+      expect(option).toHaveTextContent("Selected");
+    }
+
+    await user.click(screen.getByRole("button", {name: /^book 9:00 AM – 11:00 AM$/i}));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(bookedRange).toMatchObject({
+      startAt: expect.stringMatching(/T09:00:00$/),
+      endAt: expect.stringMatching(/T11:00:00$/),
+    });
+  });
+
+  it("rejects a selection that crosses a booked slot", async () => {
+    await user.click(slotOptions()[4]);
+    await user.click(slotOptions()[8]);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      /12:00 PM – 12:30 PM is already booked/i,
+    );
+    expect(screen.getByRole("button", {name: /^book 11:00 AM – 11:30 AM$/i})).toBeEnabled();
+  });
+
+  it("selects a range by dragging across slots", async () => {
+    const rows = slotOptions();
+
+    fireEvent.mouseDown(rows[1]);
+    fireEvent.mouseEnter(rows[2]);
+    fireEvent.mouseEnter(rows[3]);
+    fireEvent.mouseUp(rows[3]);
+
+    expect(
+      screen.getByRole("button", {name: /^book 9:30 AM – 11:00 AM$/i}),
+    ).toBeEnabled();
+  });
+});
+
+describe("DeskBookingModal keyboard and screen reader use", () => {
+  let user: UserEvent;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+    onClose = vi.fn();
+    renderWithProviders(
+      <DeskBookingModal desk={desk} isOpen onClose={onClose}/>,
+      {
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+  });
+
+  const activeOption = (listbox: HTMLElement) =>
+    document.getElementById(listbox.getAttribute("aria-activedescendant")!);
+
+  it("announces the day's availability and describes each slot in words", async () => {
+    expect(
+      await screen.findByText(/^15 of 16 time slots are free on .+\.$/),
+    ).toBeInTheDocument();
+
+    const listbox = screen.getByRole("listbox", {name: /^time slots on /i});
+    expect(listbox).toHaveAttribute("aria-multiselectable", "true");
+    expect(listbox).toHaveAccessibleDescription(/use the arrow keys to move/i);
+    expect(
+      within(listbox).getByRole("option", {name: "12:00 PM – 12:30 PM Booked"}),
+    ).toHaveAttribute("aria-disabled", "true");
+    expect(
+      within(listbox).getByRole("option", {name: "9:00 AM – 9:30 AM Available"}),
+    ).toHaveAttribute("aria-selected", "false");
+  });
+
+  it("moves with the arrow keys and selects a range with Shift", async () => {
+    const listbox = await screen.findByRole("listbox");
+    await user.click(listbox);
+    expect(listbox).toHaveFocus();
+    expect(activeOption(listbox)).toHaveTextContent("9:00 AM – 9:30 AM");
+
+    await user.keyboard("{End}");
+    expect(activeOption(listbox)).toHaveTextContent("4:30 PM – 5:00 PM");
+    await user.keyboard("{Home}{ArrowDown}");
+    expect(activeOption(listbox)).toHaveTextContent("9:30 AM – 10:00 AM");
+
+    await user.keyboard(" ");
+    expect(activeOption(listbox)).toHaveAttribute("aria-selected", "true");
+
+    await user.keyboard("{Shift>}{ArrowDown}{ArrowDown}{/Shift}");
+    expect(screen.getByText("Selected 9:30 AM – 11:00 AM.")).toBeInTheDocument();
+    const selected = within(listbox).getAllByRole("option", {selected: true});
+    expect(selected).toHaveLength(3);
+    expect(selected[0]).toHaveTextContent("9:30 AM – 10:00 AM");
+    expect(selected[2]).toHaveTextContent("10:30 AM – 11:00 AM");
+
+    await user.click(screen.getByRole("button", {name: /^book 9:30 AM – 11:00 AM$/i}));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(
+      screen.getByText(/^booked desk a on .+, 9:30 AM – 11:00 AM\.$/i),
+    ).toBeInTheDocument();
+  });
+
+  it("offers the waitlist for a booked slot reached from the keyboard", async () => {
+    const listbox = await screen.findByRole("listbox");
+    await user.click(listbox);
+    await user.keyboard("{ArrowDown>6/}{Enter}");
+
+    expect(activeOption(listbox)).toHaveTextContent("12:00 PM – 12:30 PM");
+    expect(within(listbox).queryAllByRole("option", {selected: true})).toHaveLength(0);
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+
+    await user.click(
+      screen.getByRole("button", {name: "Join waitlist for 12:00 PM – 12:30 PM"}),
+    );
+
+    expect(await within(listbox).findByText("On your waitlist")).toBeInTheDocument();
+    expect(screen.getByText("Added 12:00 PM – 12:30 PM to your waitlist.")).toBeInTheDocument();
+    expect(listbox).toHaveFocus();
+  });
+
+  it("has no detectable accessibility violations", async () => {
+    const listbox = await screen.findByRole("listbox");
+    await user.click(listbox);
+    await user.keyboard(" {Shift>}{ArrowDown}{/Shift}{ArrowDown>4/}");
+
+    expect(await axeViolations(screen.getByRole("dialog"))).toEqual([]);
+  });
+});
+
+describe("DeskBookingModal recurring bookings", () => {
+  it("previews conflicts and books the remaining occurrences", async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const bookedStarts: string[] = [];
+
+    server.use(
+      // Wednesday 7 January is fully booked; every other day is free.
+      http.get("*/desks/:deskId/availability", ({request}) => {
+        const url = new URL(request.url);
+        const startAt = url.searchParams.get("startAt")!;
+        const endAt = url.searchParams.get("endAt")!;
+        return HttpResponse.json([
+          {
+            startAt,
+            endAt,
+            status: startAt.startsWith("2099-01-07") ? "BOOKED" : "AVAILABLE",
+          },
+        ]);
+      }),
+      http.post("*/desks/:deskId/bookings", async ({request}) => {
+        const body = (await request.json()) as { startAt: string; endAt: string };
+        bookedStarts.push(body.startAt);
+        return HttpResponse.json({id: bookedStarts.length, deskId: 1, userId: 1, ...body}, {status: 201});
+      }),
+    );
+
+    renderWithProviders(
+      <DeskBookingModal desk={desk} isOpen onClose={onClose}/>,
+      {
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+
+    await user.click(screen.getByRole("button", {name: /^repeat$/i}));
+    fireEvent.change(screen.getByLabelText(/starting/i), {target: {value: "2099-01-05"}});
+
+    for (const checkbox of screen.getAllByRole("checkbox")) {
+      const wanted = ["Mon", "Wed"].includes(checkbox.parentElement!.textContent!);
+      if ((checkbox as HTMLInputElement).checked !== wanted) {
+        await user.click(checkbox);
+      }
+    }
+    const weeks = screen.getByLabelText(/^for$/i);
+    await user.clear(weeks);
+    await user.type(weeks, "2");
+
+    const occurrences = screen.getByRole("table", {name: /occurrences/i});
+    await within(occurrences).findAllByText(/^conflict: /i);
+    expect(within(occurrences).getAllByRole("row")).toHaveLength(5);
+    expect(within(occurrences).getAllByText("Available")).toHaveLength(3);
+
+    await user.click(
+      screen.getByRole("button", {name: /^book 3, skip 1 with conflicts$/i}),
+    );
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      /booked 3 of 3 occurrences; skipped 1 with conflicts/i,
+    );
+    expect(bookedStarts).toEqual([
+      "2099-01-05T09:00:00",
+      "2099-01-12T09:00:00",
+      "2099-01-14T09:00:00",
+    ]);
+
+    await user.click(screen.getByRole("button", {name: /^done$/i}));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
+
+describe("DeskBookingModal working hours", () => {
+  const renderModal = (modalDesk: typeof desk) =>
+    renderWithProviders(
+      <DeskBookingModal desk={modalDesk} isOpen onClose={vi.fn()}/>,
+      {
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+
+  afterEach(() => {
+    window.localStorage.removeItem("preferences:1");
+  });
+
+  it("requests and shows the desk location's working hours", async () => {
+    let requested: string | null = null;
+    server.use(
+      http.get("*/desks/:deskId/availability", ({request}) => {
+        const url = new URL(request.url);
+        requested = `${url.searchParams.get("startAt")}/${url.searchParams.get("endAt")}`;
+        return HttpResponse.json([
+          {startAt: url.searchParams.get("startAt"), endAt: url.searchParams.get("endAt"), status: "AVAILABLE"},
+        ]);
+      }),
+    );
+
+    renderModal({...desk, location: "Evening Wing"});
+
+    expect(
+      await screen.findByText(/showing availability 2:00 PM – 10:00 PM/i),
+    ).toBeInTheDocument();
+    await screen.findByRole("option");
+    expect(requested).toMatch(/T14:00:00\/.*T22:00:00$/);
+  });
+
+  it("prefers the user's own working hours over the location's", async () => {
+    window.localStorage.setItem(
+      "preferences:1",
+      JSON.stringify({workingHours: {start: "07:00", end: "19:00"}}),
+    );
+
+    renderModal(desk);
+
+    expect(
+      await screen.findByText(/showing availability 7:00 AM – 7:00 PM/i),
+    ).toBeInTheDocument();
+    expect(await screen.findAllByRole("option", {name: /available$/i})).toHaveLength(23);
+  });
+});
+
+describe("DeskBookingModal office timezone", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("books in the office's time and can show the viewer's own time", async () => {
+    // 22:00 on 9 March in New York (already on summer time), 02:00 on 10 March in UTC.
+    vi.useFakeTimers({toFake: ["Date"]});
+    vi.setSystemTime(new Date("2026-03-10T02:00:00Z"));
+
+    let requestedStart: string | null = null;
+    server.use(
+      http.get("*/desks/:deskId/availability", ({request}) => {
+        const url = new URL(request.url);
+        requestedStart = url.searchParams.get("startAt");
+        return HttpResponse.json([
+          {startAt: "2026-03-09T09:00:00", endAt: "2026-03-09T09:30:00", status: "AVAILABLE"},
+        ]);
+      }),
+    );
+
+    const user = userEvent.setup();
+    renderWithProviders(
+      <DeskBookingModal desk={{...desk, location: "New York"}} isOpen onClose={vi.fn()}/>,
+      {
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+
+    await screen.findByRole("option");
+    expect(screen.getByLabelText(/^date:/i)).toHaveValue("2026-03-09");
+    expect(requestedStart).toBe("2026-03-09T09:00:00");
+    expect(screen.queryByText(/your time/i)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("checkbox", {name: /show my local time/i}));
+
+    expect(screen.getByText("1:00 PM – 1:30 PM your time")).toBeInTheDocument();
+  });
+});
+
+describe("DeskBookingModal live updates", () => {
+  const LiveAvailability = () => {
+    useLiveAvailability();
+    return null;
+  };
+
+  it("marks slots booked by someone else and blocks booking them", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(
+      <>
+        <LiveAvailability/>
+        <DeskBookingModal desk={desk} isOpen onClose={vi.fn()}/>
+      </>,
+      {
+        initialAuth: {
+          user: {id: 1, email: "test@example.com", fullName: "Test User"},
+          accessToken: "abc123",
+        },
+      },
+    );
+    const [firstSlot] = await screen.findAllByRole("option", {name: /available$/i});
+    await user.click(firstSlot);
+    await waitFor(() => expect(openEventStreamCount()).toBe(1));
+
+    const startAt = new Date();
+    startAt.setHours(9, 0, 0, 0);
+    const endAt = new Date(startAt);
+    endAt.setMinutes(30);
+    emitMockEvent("booking.created", {
+      booking: {
+        id: 50,
+        deskId: desk.id,
+        userId: 2,
+        startAt: toLocalDateTimeString(startAt),
+        endAt: toLocalDateTimeString(endAt),
+      },
+    });
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "9:00 AM – 9:30 AM was just booked by someone else.",
+    );
+    expect(firstSlot).toHaveTextContent("Booked");
+    expect(firstSlot).toHaveAttribute("aria-disabled", "true");
+    expect(screen.getByRole("button", {name: /^book 9:00 AM – 9:30 AM$/i})).toBeDisabled();
+  });
+});
@@ -1,130 +1,289 @@
 import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {useAnnounce} from "@/components/ui/useAnnounce";
+import {Modal} from "@/components/ui/Modal";
+import {theme} from "@/components/ui/theme";
 import {
-  type AvailabilitySlot,
+  type Booking,
   useCreateBookingMutation,
   useDeskAvailabilityQuery,
 } from "@/features/desks/api/deskBookings";
 import type {Desk} from "@/features/desks/api/desks";
-import {useQueryClient} from "@tanstack/react-query";
+import {
+  findRangeConflict,
+  isSlotAvailable,
+  rangeBetween,
+  rangeBounds,
+  type SlotRange,
+  type SlotRangeConflict,
+} from "@/features/desks/utils/slotSelection";
+import {type TimeRange, toDateInputValue} from "@/features/desks/utils/dateTime";
+import {formatWorkingHours, workingDayRange} from "@/features/desks/utils/workingHours";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import {
+  browserTimeZone,
+  fromZonedDateTimeString,
+  isSameWallClock,
+  nowInTimeZone,
+  timeZoneAbbreviation,
+  viewerTimeRange,
+} from "@/features/desks/utils/timeZone";
+import {RecurringBookingPanel} from "@/features/desks/components/RecurringBookingPanel";
+import {SlotPicker} from "@/features/desks/components/SlotPicker";
+import {useBookingQueue} from "@/features/offline/useBookingQueue";
+import {StaleDataNotice} from "@/features/offline/StaleDataNotice";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {useJoinWaitlistMutation, useWaitlistQuery} from "@/features/waitlist/api/waitlist";
+import {ApiError, UnexpectedResponseError} from "@/lib/apiClient";
+import type {Message} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type BookingMode = "single" | "repeat";
 
 type DeskBookingModalProps = {
-  desk: Desk & { id: number };
+  desk: Desk;
   isOpen: boolean;
   onClose: () => void;
+  /** Called with the new booking after a single booking succeeds. */
+  onBooked?: (booking: Booking) => void;
+  /** Day to show when the modal opens; defaults to today. */
+  initialDate?: Date;
+  /** Start of a slot on that day to select when the modal opens, if it's free. */
+  initialSlotStartAt?: string;
 };
 
-function toLocalDateTimeString(date: Date): string {
-  const pad = (n: number) => n.toString().padStart(2, "0");
-
-  const year = date.getFullYear();
-  const month = pad(date.getMonth() + 1); // 1-based
-  const day = pad(date.getDate());
-  const hours = pad(date.getHours());
-  const minutes = pad(date.getMinutes());
-  const seconds = pad(date.getSeconds());
-
-  // Local datetime without timezone/offset, matches Micronaut LocalDateTime
-  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
-}
-
-function toDateInputValue(date: Date): string {
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
-function formatTimeRange(slot: AvailabilitySlot): string {
-  const start = new Date(slot.startAt);
-  const end = new Date(slot.endAt);
-
-  const pad = (n: number) => n.toString().padStart(2, "0");
-
-  const startHours = pad(start.getHours());
-  const startMinutes = pad(start.getMinutes());
-  const endHours = pad(end.getHours());
-  const endMinutes = pad(end.getMinutes());
-
-  return `${startHours}:${startMinutes} – ${endHours}:${endMinutes}`;
+function describeConflict(
+  conflict: SlotRangeConflict,
+  formatTimeRange: (range: TimeRange) => string,
+): Message {
+  const time = formatTimeRange(conflict.slot);
+  if (conflict.reason === "booked") {
+    return {key: "booking.conflict.booked", params: {time}};
+  }
+  return {key: "booking.conflict.gap", params: {time}};
 }
 
 export const DeskBookingModal: React.FC<DeskBookingModalProps> = ({
                                                                     desk,
                                                                     isOpen,
                                                                     onClose,
+                                                                    onBooked,
+                                                                    initialDate,
+                                                                    initialSlotStartAt,
                                                                   }) => {
-  const queryClient = useQueryClient();
-  const [selectedDate, setSelectedDate] = React.useState<Date>(() => new Date());
-
-  const start = React.useMemo(
-    () =>
-      new Date(
-        selectedDate.getFullYear(),
-        selectedDate.getMonth(),
-        selectedDate.getDate(),
-        9,
-        0,
-        0,
-        0,
-      ),
-    [selectedDate],
-  );
+  const {t, locale, formatDate, formatTimeRange} = useI18n();
+  const announce = useAnnounce();
+  const instructionsId = React.useId();
 
-  const end = React.useMemo(
-    () =>
-      new Date(
-        selectedDate.getFullYear(),
-        selectedDate.getMonth(),
-        selectedDate.getDate(),
-        17,
-        0,
-        0,
-        0,
-      ),
-    [selectedDate],
+  // null until the user picks a date: today, in the office's timezone.
+  const [pickedDate, setPickedDate] = React.useState<Date | null>(initialDate ?? null);
+
+  const {hoursFor, timeZoneFor, isLoading: isLoadingHours} = useLocationSettings();
+  const workingHours = hoursFor(desk.location);
+  const timeZone = timeZoneFor(desk.location);
+  const selectedDate = React.useMemo(
+    () => pickedDate ?? nowInTimeZone(timeZone),
+    [pickedDate, timeZone],
   );
+  const {startAt, endAt} = workingDayRange(selectedDate, workingHours);
 
-  const startAt = toLocalDateTimeString(start);
-  const endAt = toLocalDateTimeString(end);
+  // Slot times are office times; offer the viewer's own time when it differs.
+  const dayStart = fromZonedDateTimeString(startAt, timeZone);
+  const canShowLocalTime = !isSameWallClock(timeZone, browserTimeZone(), dayStart);
+  const [showLocalTime, setShowLocalTime] = React.useState(false);
 
   const {
     data: availability,
-    isLoading,
+    isLoading: isLoadingAvailability,
     isError,
     error,
-  } = useDeskAvailabilityQuery(desk.id, startAt, endAt);
+    dataUpdatedAt,
+  } = useDeskAvailabilityQuery(
+    desk.id,
+    isLoadingHours ? null : startAt,
+    isLoadingHours ? null : endAt,
+  );
+  const isLoading = isLoadingHours || isLoadingAvailability;
   
   const bookingMutation = useCreateBookingMutation();
+  const isOnline = useOnlineStatus();
+  const {enqueue} = useBookingQueue();
+  const {data: waitlist} = useWaitlistQuery();
+  const joinWaitlistMutation = useJoinWaitlistMutation();
+  const [mode, setMode] = React.useState<BookingMode>("single");
   const [bookingError, setBookingError] = React.useState<string | null>(null);
+  const [selection, setSelection] = React.useState<SlotRange | null>(null);
+  const [anchorIndex, setAnchorIndex] = React.useState<number | null>(null);
+  const [selectionError, setSelectionError] = React.useState<Message | null>(null);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const slotPickerRef = React.useRef<HTMLDivElement>(null);
+  // The day whose availability was last announced, so refetches stay quiet.
+  const announcedDayRef = React.useRef<string | null>(null);
+  // Selected once the first day's availability arrives.
+  const initialSlotRef = React.useRef(initialSlotStartAt);
 
-  const handleBackgroundClick: React.MouseEventHandler<HTMLDivElement> = (e) => {
-    if (bookingMutation.isPending) return;
-    e.stopPropagation();
-    onClose();
-  };
+  // Drag state lives in refs: it changes on every mouse move and never renders.
+  const dragStartRef = React.useRef<number | null>(null);
+  const didDragRef = React.useRef(false);
 
-  const handleInnerClick: React.MouseEventHandler<HTMLDivElement> = (e) => {
-    e.stopPropagation();
-  };
+  const slots = React.useMemo(() => availability ?? [], [availability]);
+  const selectedBounds = selection ? rangeBounds(slots, selection) : null;
+  // Live updates can book part of the selection out from under the user.
+  const takenConflict = selection && selectedBounds ? findRangeConflict(slots, selection) : null;
+  const activeSlot = slots.length > 0 ? slots[Math.min(activeIndex, slots.length - 1)] : null;
+
+  const isOnWaitlist = (slot: TimeRange) =>
+    (waitlist ?? []).some(
+      (entry) =>
+        entry.deskId === desk.id && entry.startAt < slot.endAt && slot.startAt < entry.endAt,
+    );
 
-  const handleBookSlot = async (slot: AvailabilitySlot) => {
+  const handleJoinWaitlist = async (slot: TimeRange) => {
     setBookingError(null);
     try {
-      await bookingMutation.mutateAsync({
+      await joinWaitlistMutation.mutateAsync({
         deskId: desk.id,
         startAt: slot.startAt,
         endAt: slot.endAt,
       });
+      announce(t("booking.slot.joinedWaitlist", {time: formatTimeRange(slot)}));
+      // The button that was used is gone now that the slot is on the waitlist.
+      slotPickerRef.current?.focus();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setBookingError(t("waitlist.joinFailed", {message}));
+    }
+  };
+
+  const clearSelection = () => {
+    setSelection(null);
+    setAnchorIndex(null);
+    setSelectionError(null);
+  };
+
+  const trySelect = (range: SlotRange) => {
+    const conflict = findRangeConflict(slots, range);
+    if (conflict) {
+      setSelectionError(describeConflict(conflict, formatTimeRange));
+      return false;
+    }
+    setSelection(range);
+    setSelectionError(null);
+    setBookingError(null);
+    const bounds = rangeBounds(slots, range);
+    if (bounds) announce(t("booking.slot.selectedRange", {time: formatTimeRange(bounds)}));
+    return true;
+  };
+
+  const handleSlotClick = (index: number, extend: boolean) => {
+    if (didDragRef.current) {
+      didDragRef.current = false;
+      return;
+    }
+    // A booked slot on its own only becomes active, which offers its waitlist.
+    if (!extend && !isSlotAvailable(slots[index])) return;
+
+    const isSingleSelection = selection && selection.start === selection.end;
+    if (anchorIndex != null && (extend || (isSingleSelection && anchorIndex !== index))) {
+      trySelect(rangeBetween(anchorIndex, index));
+      return;
+    }
+
+    if (isSingleSelection && anchorIndex === index) {
+      clearSelection();
+      return;
+    }
+
+    if (trySelect({start: index, end: index})) {
+      setAnchorIndex(index);
+    }
+  };
+
+  const handleSlotExtend = (from: number, to: number) => {
+    const anchor = anchorIndex ?? from;
+    if (trySelect(rangeBetween(anchor, to))) {
+      setAnchorIndex(anchor);
+    }
+  };
+
+  const handleSlotMouseDown = (index: number) => {
+    dragStartRef.current = index;
+    didDragRef.current = false;
+  };
+
+  const handleSlotMouseEnter = (index: number) => {
+    const dragStart = dragStartRef.current;
+    if (dragStart == null || dragStart === index) return;
+    didDragRef.current = true;
+    if (trySelect(rangeBetween(dragStart, index))) {
+      setAnchorIndex(dragStart);
+    }
+  };
+
+  React.useEffect(() => {
+    const endDrag = () => {
+      dragStartRef.current = null;
+    };
+    window.addEventListener("mouseup", endDrag);
+    return () => window.removeEventListener("mouseup", endDrag);
+  }, []);
+
+  const handleBookSelection = async () => {
+    if (!selectedBounds) return;
+    setBookingError(null);
+
+    const queueBooking = () => {
+      enqueue({
+        deskId: desk.id,
+        deskName: desk.name,
+        startAt: selectedBounds.startAt,
+        endAt: selectedBounds.endAt,
+      });
+      onClose();
+    };
+    if (!isOnline) {
+      queueBooking();
+      return;
+    }
 
-      // Refresh availability after successful booking
-      await queryClient.invalidateQueries({
-        queryKey: ["deskAvailability", desk.id, startAt, endAt],
+    try {
+      const booking = await bookingMutation.mutateAsync({
+        deskId: desk.id,
+        startAt: selectedBounds.startAt,
+        endAt: selectedBounds.endAt,
       });
 
+      announce(t("booking.booked", {
+        name: desk.name,
+        date: formatDate(booking.startAt),
+        time: formatTimeRange(booking),
+      }));
+      onBooked?.(booking);
       onClose();
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      setBookingError(`Could not create booking: ${message}`);
+      // The server accepted the booking; only its reply couldn't be read.
+      if (err instanceof UnexpectedResponseError) {
+        announce(t("booking.booked", {
+          name: desk.name,
+          date: formatDate(selectedBounds.startAt),
+          time: formatTimeRange(selectedBounds),
+        }));
+        onClose();
+        return;
+      }
+      if (err instanceof ApiError) {
+        setBookingError(t("booking.failed", {message: err.message}));
+        return;
+      }
+      // fetch throws a TypeError when the request never reached the server;
+      // send it once we're reconnected.
+      if (err instanceof TypeError || !navigator.onLine) {
+        queueBooking();
+        return;
+      }
+      setBookingError(t("booking.failed", {message: t("common.unknownError")}));
     }
   };
 
@@ -132,62 +291,88 @@ export const DeskBookingModal: React.FC<DeskBookingModalProps> = ({
     const value = e.target.value; // "yyyy-MM-dd"
     if (!value) return;
     const [year, month, day] = value.split("-").map(Number);
-    // Keep local time; hours/mins defined by start/end memos.
+    // Keep local time; the working hours supply the time of day.
     const newDate = new Date(year, (month ?? 1) - 1, day ?? 1);
     if (!Number.isNaN(newDate.getTime())) {
-      setSelectedDate(newDate);
+      setPickedDate(newDate);
+      clearSelection();
     }
   };
 
   React.useEffect(() => {
     if (isOpen) {
-      setSelectedDate(new Date());
+      setPickedDate(initialDate ?? null);
+      setMode("single");
       setBookingError(null);
+      setSelection(null);
+      setAnchorIndex(null);
+      setSelectionError(null);
+      setActiveIndex(0);
+      announcedDayRef.current = null;
+      initialSlotRef.current = initialSlotStartAt;
     }
-  }, [isOpen]);
+  }, [isOpen, initialDate, initialSlotStartAt]);
 
-  if (!isOpen) return null;
+  React.useEffect(() => {
+    if (!isOpen || mode !== "single" || !availability || availability.length === 0) return;
+    const day = `${desk.id}/${startAt}`;
+    if (announcedDayRef.current === day) return;
+    announcedDayRef.current = day;
+
+    const freeCount = availability.filter(isSlotAvailable).length;
+    const initialIndex = availability.findIndex(
+      (slot) => slot.startAt === initialSlotRef.current && isSlotAvailable(slot),
+    );
+    initialSlotRef.current = undefined;
+    if (initialIndex >= 0) {
+      setSelection({start: initialIndex, end: initialIndex});
+      setAnchorIndex(initialIndex);
+    }
+    setActiveIndex(
+      initialIndex >= 0 ? initialIndex : Math.max(availability.findIndex(isSlotAvailable), 0),
+    );
+    announce(t("booking.announce.loaded", {
+      count: freeCount,
+      total: availability.length,
+      date: formatDate(selectedDate),
+    }));
+  }, [isOpen, mode, availability, desk.id, startAt, selectedDate, announce, t, formatDate]);
 
   return (
-    <div
-      style={{
-        position: "fixed",
-        inset: 0,
-        backgroundColor: "rgba(0,0,0,0.4)",
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "center",
-        zIndex: 1000,
-      }}
-      onClick={handleBackgroundClick}
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("booking.title", {name: desk.name})}
+      dismissible={!bookingMutation.isPending}
+      maxWidth="500px"
     >
+      <div
+        role="group"
+        aria-label={t("booking.type")}
+        style={{display: "flex", gap: "0.5rem", marginBottom: "0.75rem"}}
+      >
+        <Button aria-pressed={mode === "single"} onClick={() => setMode("single")}>
+          {t("booking.single")}
+        </Button>
+        <Button aria-pressed={mode === "repeat"} onClick={() => setMode("repeat")}>
+          {t("booking.repeat")}
+        </Button>
+      </div>
+
       <div
         style={{
-          backgroundColor: "#fff",
-          padding: "1.5rem",
-          borderRadius: "4px",
-          width: "100%",
-          maxWidth: "500px",
-          boxShadow: "0 4px 10px rgba(0,0,0,0.15)",
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          marginBottom: "0.75rem",
+          fontSize: "0.9rem",
         }}
-        onClick={handleInnerClick}
       >
-        <h2 style={{marginTop: 0, marginBottom: "0.75rem"}}>
-          Book desk: {desk.name}
-        </h2>
-
-        <div
-          style={{
-            display: "flex",
-            alignItems: "center",
-            gap: "0.75rem",
-            marginBottom: "0.75rem",
-            fontSize: "0.9rem",
-          }}
+        <FormField
+          label={mode === "repeat" ? t("booking.startingDate") : t("booking.date")}
+          inline
+          style={{marginBottom: 0}}
         >
-          <label htmlFor="booking-date" style={{whiteSpace: "nowrap"}}>
-            Date:
-          </label>
           <input
             id="booking-date"
             type="date"
@@ -195,126 +380,122 @@ export const DeskBookingModal: React.FC<DeskBookingModalProps> = ({
             onChange={handleDateChange}
             style={{padding: "0.25rem 0.4rem"}}
           />
+        </FormField>
+        {mode === "single" && (
           <span style={{marginLeft: "auto"}}>
-            Showing availability 09:00 – 17:00
+            {t("booking.showingHours", {
+              hours: formatWorkingHours(locale, workingHours),
+              timeZone: timeZoneAbbreviation(locale, timeZone, dayStart),
+            })}
           </span>
-        </div>
+        )}
+      </div>
 
-        {isLoading && <p>Loading availability...</p>}
+      {mode === "single" && canShowLocalTime && (
+        <label
+          style={{
+            display: "inline-flex",
+            gap: "0.4rem",
+            marginBottom: "0.75rem",
+            fontSize: "0.9rem",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={showLocalTime}
+            onChange={(e) => setShowLocalTime(e.target.checked)}
+          />
+          {t("booking.showLocalTime")}
+        </label>
+      )}
 
-        {isError && (
-          <p style={{color: "red"}}>
-            Failed to load availability: {error?.message}
-          </p>
+      {mode === "repeat" && (
+        <RecurringBookingPanel
+          desk={desk}
+          startDate={selectedDate}
+          workingHours={workingHours}
+          timeZone={timeZone}
+          onDone={onClose}
+        />
+      )}
+
+      {mode === "single" && (
+        <>
+        {isLoading && <p>{t("booking.loading")}</p>}
+
+        {!isLoading && availability && (
+          <StaleDataNotice updatedAt={dataUpdatedAt} refreshFailed={isError}/>
+        )}
+
+        {isError && !availability && (
+          <Alert tone="error">
+            {t("booking.loadFailed", {message: error?.message ?? ""})}
+          </Alert>
         )}
 
         {!isLoading && !isError && (!availability || availability.length === 0) && (
-          <p>No availability data for this period.</p>
+          <p>{t("booking.noData")}</p>
         )}
 
-        {!isLoading && !isError && availability && availability.length > 0 && (
-          <div
-            style={{
-              maxHeight: "300px",
-              overflowY: "auto",
-              border: "1px solid #ddd",
-              borderRadius: "4px",
-            }}
-          >
-            <table
-              style={{
-                width: "100%",
-                borderCollapse: "collapse",
-                fontSize: "0.9rem",
-              }}
+        {!isLoading && slots.length > 0 && (
+          <>
+          <SlotPicker
+            ref={slotPickerRef}
+            slots={slots}
+            selection={selection}
+            activeIndex={Math.min(activeIndex, slots.length - 1)}
+            onActiveChange={setActiveIndex}
+            onSelect={handleSlotClick}
+            onExtend={handleSlotExtend}
+            onDragStart={handleSlotMouseDown}
+            onDragOver={handleSlotMouseEnter}
+            renderTimeHint={showLocalTime && canShowLocalTime
+              ? (slot) => {
+                const localRange = viewerTimeRange(slot, timeZone);
+                return localRange && t("booking.localTimeHint", {time: formatTimeRange(localRange)});
+              }
+              : undefined}
+            isOnWaitlist={isOnWaitlist}
+            disabled={bookingMutation.isPending}
+            aria-label={t("booking.slotsOn", {date: formatDate(selectedDate)})}
+            aria-describedby={instructionsId}
+          />
+
+          {activeSlot && !isSlotAvailable(activeSlot) && !isOnWaitlist(activeSlot) && (
+            <Button
+              onClick={() => handleJoinWaitlist(activeSlot)}
+              disabled={!isOnline || joinWaitlistMutation.isPending}
+              style={{marginTop: "0.5rem"}}
             >
-              <thead>
-              <tr>
-                <th
-                  style={{
-                    textAlign: "left",
-                    padding: "0.5rem",
-                    borderBottom: "1px solid #ddd",
-                  }}
-                >
-                  Time
-                </th>
-                <th
-                  style={{
-                    textAlign: "left",
-                    padding: "0.5rem",
-                    borderBottom: "1px solid #ddd",
-                  }}
-                >
-                  Status
-                </th>
-                <th
-                  style={{
-                    textAlign: "right",
-                    padding: "0.5rem",
-                    borderBottom: "1px solid #ddd",
-                  }}
-                >
-                  Action
-                </th>
-              </tr>
-              </thead>
-              <tbody>
-              {availability.map((slot, index) => {
-                const isAvailable =
-                  String(slot.status).toUpperCase() === "AVAILABLE";
-
-                return (
-                  <tr key={`${slot.startAt}-${slot.endAt}-${index}`}>
-                    <td
-                      style={{
-                        padding: "0.5rem",
-                        borderBottom: "1px solid #eee",
-                      }}
-                    >
-                      {formatTimeRange(slot)}
-                    </td>
-                    <td
-                      style={{
-                        padding: "0.5rem",
-                        borderBottom: "1px solid #eee",
-                        textTransform: "capitalize",
-                      }}
-                    >
-                      {slot.status.toLowerCase()}
-                    </td>
-                    <td
-                      style={{
-                        padding: "0.5rem",
-                        borderBottom: "1px solid #eee",
-                        textAlign: "right",
-                      }}
-                    >
-                      <button
-                        type="button"
-                        onClick={() => handleBookSlot(slot)}
-                        disabled={!isAvailable || bookingMutation.isPending}
-                        style={{
-                          padding: "0.3rem 0.7rem",
-                          cursor:
-                            isAvailable && !bookingMutation.isPending
-                              ? "pointer"
-                              : "not-allowed",
-                        }}
-                      >
-                        {isAvailable ? "Book" : "Unavailable"}
-                      </button>
-                    </td>
-                  </tr>
-                );
-              })}
-              </tbody>
-            </table>
-          </div>
+              {t("booking.slot.joinWaitlistFor", {time: formatTimeRange(activeSlot)})}
+            </Button>
+          )}
+
+          <p
+            id={instructionsId}
+            style={{fontSize: "0.85rem", color: theme.color.mutedText, marginBottom: 0}}
+          >
+            {t("booking.instructions")}
+          </p>
+          </>
+        )}
+
+        {selectionError && (
+          <Alert tone="error" style={{marginTop: "0.75rem"}}>
+            {t(selectionError)}
+          </Alert>
+        )}
+
+        {takenConflict && !selectionError && (
+          <Alert tone="error" style={{marginTop: "0.75rem"}}>
+            {t("booking.conflict.taken", {time: formatTimeRange(takenConflict.slot)})}
+          </Alert>
         )}
 
         {bookingError && (
-          <p style={{color: "red", marginTop: "0.75rem"}}>{bookingError}</p>
+          <Alert tone="error" style={{marginTop: "0.75rem"}}>
+            {bookingError}
+          </Alert>
         )}
 
         <div
@@ -325,16 +506,31 @@ export const DeskBookingModal: React.FC<DeskBookingModalProps> = ({
             marginTop: "1rem",
           }}
         >
-          <button
-            type="button"
-            onClick={onClose}
-            style={{padding: "0.4rem 0.8rem", cursor: "pointer"}}
-            disabled={bookingMutation.isPending}
+          {selectedBounds && (
+            <Button size="md" onClick={clearSelection} disabled={bookingMutation.isPending}>
+              {t("booking.clearSelection")}
+            </Button>
+          )}
+          <Button size="md" onClick={onClose} disabled={bookingMutation.isPending}>
+            {t("common.close")}
+          </Button>
+          <Button
+            variant="primary"
+            size="md"
+            onClick={handleBookSelection}
+            disabled={!selectedBounds || !!takenConflict || bookingMutation.isPending}
           >
-            Close
-          </button>
+            {bookingMutation.isPending
+              ? t("booking.submitting")
+              : selectedBounds
+                ? t(isOnline ? "booking.submitRange" : "booking.submitOffline", {
+                  time: formatTimeRange(selectedBounds),
+                })
+                : t("booking.submit")}
+          </Button>
         </div>
-      </div>
-    </div>
+        </>
+      )}
+    </Modal>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,203 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import {FormField} from "@/components/ui/FormField";
+import {theme} from "@/components/ui/theme";
+import {
+  type Desk,
+  type DeskImportResult,
+  useImportDesksMutation,
+} from "@/features/desks/api/desks";
+import {
+  type DeskCsvParseResult,
+  type DeskCsvRow,
+  parseDeskCsv,
+} from "@/features/desks/utils/deskCsv";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DeskCsvImportProps = {
+  /** Desks that already exist, so duplicates are caught in the preview. */
+  desks: Desk[];
+};
+
+// FileReader rather than Blob#text(), which jsdom doesn't implement.
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+export const DeskCsvImport: React.FC<DeskCsvImportProps> = ({desks}) => {
+  const {t} = useI18n();
+  const importMutation = useImportDesksMutation();
+
+  const [parsed, setParsed] = React.useState<DeskCsvParseResult | null>(null);
+  const [results, setResults] = React.useState<DeskImportResult[] | null>(null);
+  const [readError, setReadError] = React.useState(false);
+  // Remounting the input is the only way to clear a chosen file.
+  const [inputKey, setInputKey] = React.useState(0);
+
+  const rows = parsed?.ok ? parsed.rows : [];
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+
+  const columns: DataTableColumn<DeskCsvRow>[] = [
+    {key: "line", header: t("deskCsv.column.row"), render: (row) => row.line},
+    {key: "name", header: t("dashboard.column.name"), render: (row) => row.input.name},
+    {
+      key: "location",
+      header: t("dashboard.column.location"),
+      render: (row) => row.input.location ?? "-",
+    },
+    {
+      key: "position",
+      header: t("deskCsv.column.position"),
+      render: (row) =>
+        row.input.position ? `${row.input.position.x}, ${row.input.position.y}` : "-",
+    },
+    {
+      key: "status",
+      header: t("deskCsv.column.status"),
+      render: (row) =>
+        row.errors.length > 0 ? (
+          <span style={{color: theme.color.danger}}>
+            {row.errors.map((error) => t(error)).join(" ")}
+          </span>
+        ) : (
+          t("deskCsv.ready")
+        ),
+    },
+  ];
+
+  const handleFileChange: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    setResults(null);
+    setReadError(false);
+    if (!file) {
+      setParsed(null);
+      return;
+    }
+    try {
+      setParsed(parseDeskCsv(await readFileText(file), desks));
+    } catch {
+      setParsed(null);
+      setReadError(true);
+    }
+  };
+
+  const handleClear = () => {
+    setParsed(null);
+    setResults(null);
+    setReadError(false);
+    setInputKey((key) => key + 1);
+  };
+
+  const handleImport = async () => {
+    const importResults = await importMutation.mutateAsync(validRows.map((row) => row.input));
+    setResults(importResults);
+    setParsed(null);
+    setInputKey((key) => key + 1);
+  };
+
+  return (
+    <section style={{maxWidth: "800px"}}>
+      <h2>{t("deskCsv.title")}</h2>
+      <p style={{fontSize: "0.9rem"}}>{t("deskCsv.help")}</p>
+
+      <FormField label={t("deskCsv.file")} inline>
+        <input
+          key={inputKey}
+          id="desk-csv-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+        />
+      </FormField>
+
+      {readError && <Alert tone="error">{t("deskCsv.readFailed")}</Alert>}
+
+      {parsed && !parsed.ok && <Alert tone="error">{t(parsed.error)}</Alert>}
+
+      {rows.length > 0 && (
+        <>
+          <div
+            style={{
+              maxHeight: "320px",
+              overflowY: "auto",
+              border: `1px solid ${theme.color.border}`,
+              borderRadius: theme.radius,
+              marginTop: "0.75rem",
+            }}
+          >
+            <DataTable
+              label={t("deskCsv.preview")}
+              columns={columns}
+              rows={rows}
+              rowKey={(row) => row.line}
+              style={{maxWidth: "none", fontSize: "0.9rem"}}
+            />
+          </div>
+
+          {importMutation.isError && (
+            <Alert tone="error" style={{marginTop: "0.75rem"}}>{importMutation.error.message}</Alert>
+          )}
+
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "flex-end",
+              gap: "0.5rem",
+              marginTop: "0.75rem",
+            }}
+          >
+            <Button size="md" onClick={handleClear} disabled={importMutation.isPending}>
+              {t("deskCsv.clear")}
+            </Button>
+            <Button
+              variant="primary"
+              size="md"
+              onClick={handleImport}
+              disabled={validRows.length === 0 || importMutation.isPending}
+            >
+              {importMutation.isPending
+                ? t("deskCsv.importing")
+                : invalidCount > 0
+                  ? t("deskCsv.importSkipping", {count: validRows.length, skipped: invalidCount})
+                  : t("deskCsv.import", {count: validRows.length})}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {results && (
+        <Alert
+          tone={results.every((result) => result.status === "created") ? "success" : "warning"}
+          style={{marginTop: "0.75rem"}}
+        >
+          <p style={{margin: 0}}>
+            {t("deskCsv.summary", {
+              created: results.filter((result) => result.status === "created").length,
+              count: results.length,
+            })}
+          </p>
+          <ul style={{margin: 0, paddingLeft: "1.25rem", fontSize: "0.9rem"}}>
+            {results.map((result, index) =>
+              result.status === "failed" ? (
+                <li key={index}>
+                  {t("deskCsv.failed", {
+                    name: result.input.name,
+                    message: result.error.message,
+                  })}
+                </li>
+              ) : null,
+            )}
+          </ul>
+        </Alert>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,92 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {theme} from "@/components/ui/theme";
+import {checkInStatus} from "@/features/checkIn/utils/checkIn";
+import {type Desk, useDeleteDeskMutation} from "@/features/desks/api/desks";
+import {useDeskBookingsQuery} from "@/features/desks/api/deskBookings";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import {toZonedDateTimeString} from "@/features/desks/utils/timeZone";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DeskDeleteConfirmationProps = {
+  desk: Desk;
+  onCancel: () => void;
+};
+
+/** Asks before deleting a desk, warning about bookings it still has. */
+export const DeskDeleteConfirmation: React.FC<DeskDeleteConfirmationProps> = ({
+                                                                                desk,
+                                                                                onCancel,
+                                                                              }) => {
+  const {t} = useI18n();
+  const {timeZoneFor} = useLocationSettings();
+  const deleteDeskMutation = useDeleteDeskMutation();
+  const [error, setError] = React.useState<string | null>(null);
+  // Fixed when the confirmation opens, so the query key doesn't tick with the clock.
+  const [bookingsFrom] = React.useState(() =>
+    toZonedDateTimeString(new Date(), timeZoneFor(desk.location)),
+  );
+  const upcomingBookings = useDeskBookingsQuery(desk.id, bookingsFrom);
+
+  const handleDelete = async () => {
+    setError(null);
+    try {
+      await deleteDeskMutation.mutateAsync({id: desk.id});
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setError(t("deskAdmin.deleteFailed", {message}));
+    }
+  };
+
+  const renderWarning = () => {
+    if (upcomingBookings.isLoading) return t("deskAdmin.checkingBookings");
+    if (upcomingBookings.isError) {
+      return t("deskAdmin.bookingsCheckFailed", {message: upcomingBookings.error.message});
+    }
+    // Released no-shows no longer hold the desk, so they don't count.
+    const count = (upcomingBookings.data ?? []).filter(
+      (booking) => checkInStatus(booking, bookingsFrom) !== "released",
+    ).length;
+    return count > 0
+      ? t("deskAdmin.deleteWarning", {name: desk.name, count})
+      : t("deskAdmin.confirmDelete", {name: desk.name});
+  };
+
+  return (
+    <div
+      role="alertdialog"
+      aria-label={t("deskAdmin.deleteDesk", {name: desk.name})}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.5rem",
+        flexWrap: "wrap",
+        padding: "0.5rem",
+        backgroundColor: theme.color.dangerSurface,
+        borderRadius: theme.radius,
+      }}
+    >
+      <span>{renderWarning()}</span>
+      <span style={{marginLeft: "auto", display: "inline-flex", gap: "0.4rem"}}>
+        <Button
+          variant="danger"
+          onClick={handleDelete}
+          disabled={deleteDeskMutation.isPending || upcomingBookings.isLoading}
+        >
+          {deleteDeskMutation.isPending
+            ? t("deskAdmin.deleting")
+            : t("deskAdmin.confirmDeleteButton")}
+        </Button>
+        <Button onClick={onCancel} disabled={deleteDeskMutation.isPending}>
+          {t("common.cancel")}
+        </Button>
+      </span>
+      {error && (
+        <Alert tone="error" style={{flexBasis: "100%", marginBottom: 0}}>
+          {error}
+        </Alert>
+      )}
+    </div>
+  );
+};
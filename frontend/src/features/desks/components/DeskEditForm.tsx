@@ -0,0 +1,90 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {type Desk, useUpdateDeskMutation} from "@/features/desks/api/desks";
+import {AmenityCheckboxes} from "@/features/desks/components/AmenityCheckboxes";
+import type {Amenity} from "@/features/desks/utils/amenities";
+import {deskNameRules} from "@/features/desks/utils/deskName";
+import {useForm} from "@/lib/forms/useForm";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DeskEditFormProps = {
+  desk: Desk;
+  /** Every desk, for checking the new name isn't taken. */
+  desks: Desk[];
+  /** Called after saving or cancelling. */
+  onClose: () => void;
+};
+
+/** Edits a desk's name, location and amenities in place on the admin page. */
+export const DeskEditForm: React.FC<DeskEditFormProps> = ({desk, desks, onClose}) => {
+  const {t} = useI18n();
+  const updateDeskMutation = useUpdateDeskMutation();
+
+  const form = useForm({
+    initialValues: {name: desk.name, location: desk.location ?? ""},
+    rules: {name: deskNameRules(desks.filter((other) => other.id !== desk.id))},
+  });
+  const [amenities, setAmenities] = React.useState<Amenity[]>(desk.amenities);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleSave: React.FormEventHandler<HTMLFormElement> = async (e) => {
+    e.preventDefault();
+    if (!form.isValid) return;
+    setError(null);
+
+    const {name, location} = form.values;
+    try {
+      await updateDeskMutation.mutateAsync({
+        id: desk.id,
+        name: name.trim(),
+        location: location.trim() || null,
+        amenities,
+      });
+      onClose();
+    } catch (err) {
+      if (form.showServerErrors(err)) return;
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setError(t("deskAdmin.saveFailed", {message}));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} style={{display: "flex", gap: "0.5rem", flexWrap: "wrap"}}>
+      <FormField
+        label={t("dashboard.column.name")}
+        error={form.errorFor("name")}
+        inline
+        style={{marginBottom: 0}}
+      >
+        <input {...form.inputProps("name")} style={{padding: "0.3rem 0.4rem"}} autoFocus/>
+      </FormField>
+      <FormField
+        label={t("dashboard.column.location")}
+        error={form.errorFor("location")}
+        inline
+        style={{marginBottom: 0}}
+      >
+        <input {...form.inputProps("location")} style={{padding: "0.3rem 0.4rem"}}/>
+      </FormField>
+      <AmenityCheckboxes
+        legend={t("dashboard.column.amenities")}
+        value={amenities}
+        onChange={setAmenities}
+        style={{flexBasis: "100%"}}
+      />
+      <Button type="submit" disabled={!form.isValid || updateDeskMutation.isPending}>
+        {updateDeskMutation.isPending ? t("deskAdmin.saving") : t("common.save")}
+      </Button>
+      <Button onClick={onClose} disabled={updateDeskMutation.isPending}>
+        {t("common.cancel")}
+      </Button>
+      {error && (
+        <Alert tone="error" style={{flexBasis: "100%", marginBottom: 0}}>
+          {error}
+        </Alert>
+      )}
+    </form>
+  );
+};
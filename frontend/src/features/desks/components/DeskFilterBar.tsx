@@ -0,0 +1,180 @@
+import React from "react";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import type {DeskFilters} from "@/features/desks/utils/deskFilters";
+import {NO_LOCATION} from "@/features/desks/utils/deskFilters";
+import {SLOT_START_TIMES, toDateInputValue} from "@/features/desks/utils/dateTime";
+import {SLOT_END_TIMES} from "@/features/desks/utils/workingHours";
+import {AmenityCheckboxes} from "@/features/desks/components/AmenityCheckboxes";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DeskFilterBarProps = {
+  filters: DeskFilters;
+  locations: string[];
+  onChange: (update: Partial<DeskFilters>) => void;
+};
+
+type AvailabilityMode = "any" | "now" | "date";
+
+const controlStyle: React.CSSProperties = {padding: "0.3rem 0.4rem"};
+
+const fieldStyle: React.CSSProperties = {marginBottom: 0};
+
+export const DeskFilterBar: React.FC<DeskFilterBarProps> = ({
+                                                              filters,
+                                                              locations,
+                                                              onChange,
+                                                            }) => {
+  const {t, formatTime} = useI18n();
+  const {timeRange} = filters;
+  const availabilityMode: AvailabilityMode =
+    filters.available == null ? "any" : filters.available === "now" ? "now" : "date";
+
+  const handleAvailabilityModeChange: React.ChangeEventHandler<HTMLSelectElement> = (e) => {
+    const mode = e.target.value as AvailabilityMode;
+    onChange({
+      available:
+        mode === "any" ? null : mode === "now" ? "now" : toDateInputValue(new Date()),
+    });
+  };
+
+  const handleTimeRangeStartChange: React.ChangeEventHandler<HTMLSelectElement> = (e) => {
+    const start = e.target.value;
+    if (!start) {
+      onChange({timeRange: null});
+      return;
+    }
+    // Keep the end time if it still comes after the start, else one slot on.
+    const end =
+      timeRange && timeRange.end > start
+        ? timeRange.end
+        : SLOT_END_TIMES[SLOT_START_TIMES.indexOf(start)];
+    onChange({timeRange: {start, end}});
+  };
+
+  const hasFilters =
+    !!filters.query ||
+    !!filters.location ||
+    filters.available != null ||
+    filters.amenities.length > 0;
+
+  return (
+    <div
+      role="search"
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.5rem",
+        marginBottom: "1rem",
+        fontSize: "0.9rem",
+        flexWrap: "wrap",
+      }}
+    >
+      <FormField label={t("filters.search")} inline style={fieldStyle}>
+        <input
+          id="desk-search"
+          type="search"
+          value={filters.query}
+          placeholder={t("filters.searchPlaceholder")}
+          onChange={(e) => onChange({query: e.target.value})}
+          style={controlStyle}
+        />
+      </FormField>
+
+      <FormField label={t("filters.location")} inline style={fieldStyle}>
+        <select
+          id="desk-location-filter"
+          value={filters.location ?? ""}
+          onChange={(e) => onChange({location: e.target.value || null})}
+          style={controlStyle}
+        >
+          <option value="">{t("filters.allLocations")}</option>
+          {locations.map((location) => (
+            <option key={location} value={location}>
+              {location}
+            </option>
+          ))}
+          <option value={NO_LOCATION}>{t("filters.noLocation")}</option>
+        </select>
+      </FormField>
+
+      <FormField label={t("filters.availability")} inline style={fieldStyle}>
+        <select
+          id="desk-availability-filter"
+          value={availabilityMode}
+          onChange={handleAvailabilityModeChange}
+          style={controlStyle}
+        >
+          <option value="any">{t("filters.any")}</option>
+          <option value="now">{t("filters.availableNow")}</option>
+          <option value="date">{t("filters.freeOnDate")}</option>
+        </select>
+      </FormField>
+      {availabilityMode === "date" && (
+        <input
+          type="date"
+          aria-label={t("filters.freeOnDate")}
+          value={filters.available ?? ""}
+          onChange={(e) => e.target.value && onChange({available: e.target.value})}
+          style={controlStyle}
+        />
+      )}
+      {availabilityMode === "date" && (
+        <FormField label={t("filters.from")} inline style={fieldStyle}>
+          <select
+            id="desk-time-from"
+            value={timeRange?.start ?? ""}
+            onChange={handleTimeRangeStartChange}
+            style={controlStyle}
+          >
+            <option value="">{t("filters.allDay")}</option>
+            {SLOT_START_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+      )}
+      {availabilityMode === "date" && timeRange && (
+        <FormField label={t("filters.until")} inline style={fieldStyle}>
+          <select
+            id="desk-time-until"
+            value={timeRange.end}
+            onChange={(e) => onChange({timeRange: {...timeRange, end: e.target.value}})}
+            style={controlStyle}
+          >
+            {SLOT_END_TIMES.filter((time) => time > timeRange.start).map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+      )}
+
+      <AmenityCheckboxes
+        legend={t("filters.amenities")}
+        value={filters.amenities}
+        onChange={(amenities) => onChange({amenities})}
+        style={{display: "inline-flex", alignItems: "center"}}
+      />
+
+      {hasFilters && (
+        <Button
+          onClick={() =>
+            onChange({
+              query: "",
+              location: null,
+              available: null,
+              timeRange: null,
+              amenities: [],
+            })
+          }
+        >
+          {t("filters.clear")}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React from "react";
+import {FormField} from "@/components/ui/FormField";
+import {theme} from "@/components/ui/theme";
+import type {Desk, DeskPosition} from "@/features/desks/api/desks";
+import {type DeskAvailabilitySummary, useDesksAvailability} from "@/features/desks/api/deskBookings";
+import {
+  parseTimeOfDay,
+  SLOT_MINUTES,
+  SLOT_START_TIMES,
+  toDateInputValue,
+  toLocalDateTimeString,
+} from "@/features/desks/utils/dateTime";
+import type {MessageKey} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DeskFloorPlanProps = {
+  desks: Desk[];
+  /** Leave out to show the plan read-only, e.g. for users who can't book. */
+  onSelectDesk?: (desk: Desk, date: Date) => void;
+};
+
+// The SVG is drawn in a 100 x 60 coordinate space; positions are percentages.
+const MAP_WIDTH = 100;
+const MAP_HEIGHT = 60;
+const DESK_WIDTH = 9;
+const DESK_HEIGHT = 6;
+
+const STATUS_COLORS: Record<DeskAvailabilitySummary, string> = {
+  available: "#22c55e",
+  booked: "#ef4444",
+  unknown: "#9ca3af",
+};
+
+const STATUS_LABELS: Record<DeskAvailabilitySummary, MessageKey> = {
+  available: "floorPlan.status.available",
+  booked: "floorPlan.status.booked",
+  unknown: "floorPlan.status.unknown",
+};
+
+function roundDownToSlot(date: Date): Date {
+  const rounded = new Date(date);
+  rounded.setMinutes(rounded.getMinutes() - (rounded.getMinutes() % SLOT_MINUTES), 0, 0);
+  return rounded;
+}
+
+// Desks without a location are grouped under null, which no location name can
+// clash with, and listed last.
+function groupByLocation(desks: Desk[]): [string | null, Desk[]][] {
+  const groups = new Map<string | null, Desk[]>();
+  for (const desk of desks) {
+    groups.set(desk.location, [...(groups.get(desk.location) ?? []), desk]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => {
+    if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+    return a.localeCompare(b);
+  });
+}
+
+// Desks without stored coordinates are lined up along the bottom of the map.
+function layoutDesks(desks: Desk[]): [Desk, DeskPosition][] {
+  const perRow = Math.floor(MAP_WIDTH / (DESK_WIDTH + 2));
+  let unplaced = 0;
+
+  return desks.map((desk) => {
+    if (desk.position) return [desk, desk.position];
+    const column = unplaced % perRow;
+    const row = Math.floor(unplaced / perRow);
+    unplaced += 1;
+    return [
+      desk,
+      {
+        x: ((column + 0.5) * (DESK_WIDTH + 2) * 100) / MAP_WIDTH,
+        y: 100 - ((row + 0.5) * (DESK_HEIGHT + 6) * 100) / MAP_HEIGHT,
+      },
+    ];
+  });
+}
+
+export const DeskFloorPlan: React.FC<DeskFloorPlanProps> = ({desks, onSelectDesk}) => {
+  const {t, formatTime} = useI18n();
+  const [selectedTime, setSelectedTime] = React.useState<Date>(() =>
+    roundDownToSlot(new Date()),
+  );
+
+  const startAt = toLocalDateTimeString(selectedTime);
+  const endAt = toLocalDateTimeString(
+    new Date(selectedTime.getTime() + SLOT_MINUTES * 60_000),
+  );
+
+  // The chosen time is read as each office's own local time.
+  const windows = React.useMemo(
+    () => desks.map((desk) => ({deskId: desk.id, startAt, endAt})),
+    [desks, startAt, endAt],
+  );
+  const {summaries} = useDesksAvailability(windows);
+
+  const handleDateChange: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const value = e.target.value; // "yyyy-MM-dd"
+    if (!value) return;
+    const [year, month, day] = value.split("-").map(Number);
+    const next = new Date(selectedTime);
+    next.setFullYear(year, (month ?? 1) - 1, day ?? 1);
+    if (!Number.isNaN(next.getTime())) {
+      setSelectedTime(next);
+    }
+  };
+
+  const handleTimeChange: React.ChangeEventHandler<HTMLSelectElement> = (e) => {
+    const {hours, minutes} = parseTimeOfDay(e.target.value);
+    const next = new Date(selectedTime);
+    next.setHours(hours, minutes, 0, 0);
+    setSelectedTime(next);
+  };
+
+  const handleDeskKeyDown = (desk: Desk) => (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onSelectDesk?.(desk, selectedTime);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          marginBottom: "1rem",
+          fontSize: "0.9rem",
+          flexWrap: "wrap",
+        }}
+      >
+        <FormField label={t("floorPlan.date")} inline style={{marginBottom: 0}}>
+          <input
+            id="floor-plan-date"
+            type="date"
+            value={toDateInputValue(selectedTime)}
+            onChange={handleDateChange}
+            style={{padding: "0.25rem 0.4rem"}}
+          />
+        </FormField>
+        <FormField label={t("floorPlan.time")} inline style={{marginBottom: 0}}>
+          <select
+            id="floor-plan-time"
+            value={startAt.slice(11, 16)}
+            onChange={handleTimeChange}
+            style={{padding: "0.25rem 0.4rem"}}
+          >
+            {SLOT_START_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <span style={{color: theme.color.mutedText}}>{t("floorPlan.officeTime")}</span>
+        <span style={{marginLeft: "auto", display: "flex", gap: "0.75rem"}}>
+          {(Object.keys(STATUS_COLORS) as DeskAvailabilitySummary[]).map((status) => (
+            <span key={status} style={{display: "inline-flex", alignItems: "center", gap: "0.25rem"}}>
+              <span
+                aria-hidden="true"
+                style={{
+                  width: "0.75rem",
+                  height: "0.75rem",
+                  borderRadius: "2px",
+                  backgroundColor: STATUS_COLORS[status],
+                }}
+              />
+              {t(STATUS_LABELS[status])}
+            </span>
+          ))}
+        </span>
+      </div>
+
+      {groupByLocation(desks).map(([location, locationDesks]) => {
+        const locationLabel = location ?? t("floorPlan.unassigned");
+        return (
+        <section key={location ?? ""} style={{marginBottom: "1.5rem", maxWidth: "800px"}}>
+          <h2 style={{fontSize: "1.1rem", marginBottom: "0.5rem"}}>{locationLabel}</h2>
+          <svg
+            role="group"
+            aria-label={t("floorPlan.label", {location: locationLabel})}
+            viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+            style={{
+              width: "100%",
+              backgroundColor: "#fff",
+              border: "1px solid #d1d5db",
+              borderRadius: "4px",
+            }}
+          >
+            {layoutDesks(locationDesks).map(([desk, position]) => {
+              const status = summaries.get(desk.id) ?? "unknown";
+              const statusLabel = t(STATUS_LABELS[status]);
+              const x = (position.x / 100) * MAP_WIDTH - DESK_WIDTH / 2;
+              const y = (position.y / 100) * MAP_HEIGHT - DESK_HEIGHT / 2;
+
+              return (
+                <g
+                  key={desk.id}
+                  role={onSelectDesk ? "button" : "img"}
+                  tabIndex={onSelectDesk ? 0 : undefined}
+                  aria-label={t("floorPlan.desk", {name: desk.name, status: statusLabel})}
+                  onClick={() => onSelectDesk?.(desk, selectedTime)}
+                  onKeyDown={onSelectDesk ? handleDeskKeyDown(desk) : undefined}
+                  style={{cursor: onSelectDesk ? "pointer" : "default"}}
+                >
+                  <title>{t("floorPlan.deskTitle", {name: desk.name, status: statusLabel})}</title>
+                  <rect
+                    x={x}
+                    y={y}
+                    width={DESK_WIDTH}
+                    height={DESK_HEIGHT}
+                    rx={1}
+                    fill={STATUS_COLORS[status]}
+                    stroke="#1f2937"
+                    strokeWidth={0.2}
+                  />
+                  <text
+                    x={x + DESK_WIDTH / 2}
+                    y={y + DESK_HEIGHT / 2}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fontSize={1.8}
+                    fill="#fff"
+                  >
+                    {desk.name}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React from "react";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import type {Desk} from "@/features/desks/api/desks";
+import {type AvailabilitySlot, useDesksAvailability} from "@/features/desks/api/deskBookings";
+import {isSlotAvailable} from "@/features/desks/utils/slotSelection";
+import {
+  addDays,
+  atTimeOfDay,
+  parseTimeOfDay,
+  SLOT_MINUTES,
+  startOfWeek,
+  toLocalDateTimeString,
+} from "@/features/desks/utils/dateTime";
+import {
+  spanWorkingHours,
+  type WorkingHours,
+  workingDayRange,
+  workingSlotStartTimes,
+} from "@/features/desks/utils/workingHours";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import type {MessageKey} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type DeskWeekGridProps = {
+  desks: Desk[];
+  /**
+   * Leave out to show the grid read-only, e.g. for users who can't book.
+   * Half-hour cells also pass their slot's start.
+   */
+  onBookCell?: (desk: Desk, date: Date, slotStartAt?: string) => void;
+};
+
+type Resolution = "day" | "halfHour";
+
+type CellStatus = "available" | "partial" | "booked" | "unknown" | "closed";
+
+const DAYS_PER_WEEK = 7;
+
+const CELL_COLORS: Record<CellStatus, string> = {
+  available: "#bbf7d0",
+  partial: "#fde68a",
+  booked: "#fecaca",
+  unknown: "#e5e7eb",
+  closed: "#f9fafb",
+};
+
+const CELL_LABELS: Record<CellStatus, MessageKey> = {
+  available: "weekGrid.status.available",
+  partial: "weekGrid.status.partial",
+  booked: "weekGrid.status.booked",
+  unknown: "weekGrid.status.unknown",
+  closed: "weekGrid.status.closed",
+};
+
+// Short text shown in day cells so status isn't conveyed by colour alone.
+const CELL_SHORT_LABELS: Record<CellStatus, MessageKey> = {
+  available: "weekGrid.short.available",
+  partial: "weekGrid.short.partial",
+  booked: "weekGrid.short.booked",
+  unknown: "weekGrid.short.unknown",
+  closed: "weekGrid.short.closed",
+};
+
+const DAY_HEADER_OPTIONS: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+};
+
+function slotStart(day: Date, time: string): Date {
+  const {hours, minutes} = parseTimeOfDay(time);
+  return atTimeOfDay(day, hours, minutes);
+}
+
+function isWithinHours(time: string, hours: WorkingHours): boolean {
+  return time >= hours.start && time < hours.end;
+}
+
+function statusOf(slots: AvailabilitySlot[]): CellStatus {
+  if (slots.length === 0) return "unknown";
+  const availableCount = slots.filter(isSlotAvailable).length;
+  if (availableCount === slots.length) return "available";
+  return availableCount === 0 ? "booked" : "partial";
+}
+
+function slotsWithin(
+  slots: AvailabilitySlot[] | undefined,
+  startAt: string,
+  endAt: string,
+): AvailabilitySlot[] {
+  // Offset-less local times compare correctly as strings.
+  return (slots ?? []).filter((slot) => slot.startAt >= startAt && slot.endAt <= endAt);
+}
+
+export const DeskWeekGrid: React.FC<DeskWeekGridProps> = ({desks, onBookCell}) => {
+  const {t, formatTime, formatDate} = useI18n();
+  const formatDayHeader = (date: Date) => formatDate(date, DAY_HEADER_OPTIONS);
+  const [weekStart, setWeekStart] = React.useState<Date>(() => startOfWeek(new Date()));
+  const [resolution, setResolution] = React.useState<Resolution>("day");
+
+  const days = React.useMemo(
+    () => Array.from({length: DAYS_PER_WEEK}, (_, index) => addDays(weekStart, index)),
+    [weekStart],
+  );
+
+  const {hoursFor, isLoading: isLoadingHours} = useLocationSettings();
+  // Columns cover every shown desk's hours; cells outside a desk's own hours are closed.
+  const span = spanWorkingHours(desks.map((desk) => hoursFor(desk.location)));
+  const slotStartTimes = workingSlotStartTimes(span);
+
+  const windows = React.useMemo(() => {
+    if (isLoadingHours) return [];
+    return desks.map((desk) => {
+      const hours = hoursFor(desk.location);
+      return {
+        deskId: desk.id,
+        startAt: workingDayRange(days[0], hours).startAt,
+        endAt: workingDayRange(days[DAYS_PER_WEEK - 1], hours).endAt,
+      };
+    });
+  }, [desks, days, hoursFor, isLoadingHours]);
+
+  const {slotsByDesk, isLoading: isLoadingAvailability} = useDesksAvailability(windows);
+  const isLoading = isLoadingHours || isLoadingAvailability;
+
+  const renderCell = (
+    desk: Desk,
+    day: Date,
+    label: string,
+    status: CellStatus,
+    content: React.ReactNode,
+    slotStartAt?: string,
+  ) => (
+    <button
+      key={label}
+      type="button"
+      aria-label={t("weekGrid.cell", {desk: desk.name, label, status: t(CELL_LABELS[status])})}
+      title={t("weekGrid.cellTitle", {label, status: t(CELL_LABELS[status])})}
+      onClick={() => onBookCell?.(desk, day, slotStartAt)}
+      disabled={status === "closed" || !onBookCell}
+      style={{
+        width: "100%",
+        minWidth: resolution === "day" ? "4rem" : "0.75rem",
+        padding: resolution === "day" ? "0.3rem" : "0.6rem 0",
+        fontSize: "0.8rem",
+        borderRadius: "2px",
+        border: "none",
+        backgroundColor: CELL_COLORS[status],
+        cursor: status === "closed" || !onBookCell ? "default" : "pointer",
+      }}
+    >
+      {content}
+    </button>
+  );
+
+  const renderDay = (desk: Desk, day: Date) => {
+    const slots = slotsByDesk.get(desk.id);
+    const deskHours = hoursFor(desk.location);
+    const dayLabel = formatDayHeader(day);
+
+    if (resolution === "day") {
+      const {startAt: dayStartAt, endAt: dayEndAt} = workingDayRange(day, deskHours);
+      const status = statusOf(slotsWithin(slots, dayStartAt, dayEndAt));
+      return renderCell(desk, day, dayLabel, status, t(CELL_SHORT_LABELS[status]));
+    }
+
+    return (
+      <div style={{display: "flex", gap: "1px"}}>
+        {slotStartTimes.map((time) => {
+          const start = slotStart(day, time);
+          const slotStartAt = toLocalDateTimeString(start);
+          const slotEndAt = toLocalDateTimeString(
+            new Date(start.getTime() + SLOT_MINUTES * 60_000),
+          );
+          const status = isWithinHours(time, deskHours)
+            ? statusOf(slotsWithin(slots, slotStartAt, slotEndAt))
+            : "closed";
+          return renderCell(
+            desk,
+            day,
+            `${dayLabel} ${formatTime(time)}`,
+            status,
+            null,
+            slotStartAt,
+          );
+        })}
+      </div>
+    );
+  };
+
+  const columns: DataTableColumn<Desk>[] = [
+    {key: "desk", header: t("weekGrid.desk"), rowHeader: true, render: (desk) => desk.name},
+    ...days.map((day): DataTableColumn<Desk> => ({
+      key: day.toISOString(),
+      header: formatDayHeader(day),
+      headerProps: {style: {whiteSpace: "nowrap"}},
+      render: (desk) => renderDay(desk, day),
+    })),
+  ];
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          marginBottom: "1rem",
+          fontSize: "0.9rem",
+          flexWrap: "wrap",
+        }}
+      >
+        <Button onClick={() => setWeekStart(addDays(weekStart, -DAYS_PER_WEEK))}>
+          {t("weekGrid.previous")}
+        </Button>
+        <Button onClick={() => setWeekStart(startOfWeek(new Date()))}>
+          {t("weekGrid.current")}
+        </Button>
+        <Button onClick={() => setWeekStart(addDays(weekStart, DAYS_PER_WEEK))}>
+          {t("weekGrid.next")}
+        </Button>
+        <strong aria-live="polite">
+          {t("weekGrid.weekOf", {date: formatDayHeader(weekStart)})}
+        </strong>
+        <span role="group" aria-label={t("weekGrid.columns")} style={{marginLeft: "auto", display: "flex", gap: "0.5rem"}}>
+          <Button aria-pressed={resolution === "day"} onClick={() => setResolution("day")}>
+            {t("weekGrid.days")}
+          </Button>
+          <Button aria-pressed={resolution === "halfHour"} onClick={() => setResolution("halfHour")}>
+            {t("weekGrid.halfHours")}
+          </Button>
+        </span>
+      </div>
+
+      {isLoading && <p>{t("weekGrid.loading")}</p>}
+
+      <div style={{overflowX: "auto"}}>
+        <DataTable
+          columns={columns}
+          rows={desks}
+          rowKey={(desk) => desk.id}
+          style={{width: "auto", maxWidth: "none", fontSize: "0.85rem"}}
+        />
+      </div>
+    </div>
+  );
+};
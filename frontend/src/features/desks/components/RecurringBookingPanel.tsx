@@ -0,0 +1,315 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import {FormField} from "@/components/ui/FormField";
+import {theme} from "@/components/ui/theme";
+import type {Desk} from "@/features/desks/api/desks";
+import {
+  type SeriesOccurrenceResult,
+  useCreateBookingSeriesMutation,
+  useDeskAvailabilityForRanges,
+} from "@/features/desks/api/deskBookings";
+import {findRangeConflict} from "@/features/desks/utils/slotSelection";
+import {
+  expandRecurrence,
+  MAX_RECURRENCE_WEEKS,
+  type Occurrence,
+  validateRecurrence,
+  WEEKDAYS,
+} from "@/features/desks/utils/recurrence";
+import {SLOT_START_TIMES} from "@/features/desks/utils/dateTime";
+import {SLOT_END_TIMES, type WorkingHours} from "@/features/desks/utils/workingHours";
+import {nowInTimeZone} from "@/features/desks/utils/timeZone";
+import type {Message} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type RecurringBookingPanelProps = {
+  desk: Desk;
+  startDate: Date;
+  /** Initial time range of each occurrence. */
+  workingHours: WorkingHours;
+  /** The office's timezone, used to skip occurrences that have already started. */
+  timeZone: string;
+  onDone: () => void;
+};
+
+type OccurrenceStatus =
+  | { kind: "checking" }
+  | { kind: "available" }
+  | { kind: "conflict"; reason: Message };
+
+function occurrenceKey(occurrence: Occurrence): string {
+  return `${occurrence.startAt}-${occurrence.endAt}`;
+}
+
+export const RecurringBookingPanel: React.FC<RecurringBookingPanelProps> = ({
+                                                                              desk,
+                                                                              startDate,
+                                                                              workingHours,
+                                                                              timeZone,
+                                                                              onDone,
+                                                                            }) => {
+  const {t, formatTime, formatTimeRange, formatDate, formatWeekday} = useI18n();
+  const [weekdays, setWeekdays] = React.useState<number[]>(() => [startDate.getDay()]);
+  const [startTime, setStartTime] = React.useState(workingHours.start);
+  const [endTime, setEndTime] = React.useState(workingHours.end);
+  const [weeks, setWeeks] = React.useState(8);
+  const [results, setResults] = React.useState<SeriesOccurrenceResult[] | null>(null);
+
+  const seriesMutation = useCreateBookingSeriesMutation();
+
+  const validationError = validateRecurrence({
+    weekdays,
+    startTime,
+    endTime,
+    startDate,
+    weeks,
+  });
+  const occurrences = React.useMemo(
+    () =>
+      expandRecurrence(
+        {weekdays, startTime, endTime, startDate, weeks},
+        nowInTimeZone(timeZone),
+      ),
+    [weekdays, startTime, endTime, startDate, weeks, timeZone],
+  );
+
+  const availabilityQueries = useDeskAvailabilityForRanges(desk.id, occurrences);
+
+  const statuses: OccurrenceStatus[] = occurrences.map((_occurrence, index) => {
+    const query = availabilityQueries[index];
+    if (!query || query.isLoading) return {kind: "checking"};
+    if (query.isError) {
+      return {kind: "conflict", reason: {key: "recurring.reason.checkFailed"}};
+    }
+    const slots = query.data ?? [];
+    if (slots.length === 0) {
+      return {kind: "conflict", reason: {key: "recurring.reason.noData"}};
+    }
+
+    const conflict = findRangeConflict(slots, {start: 0, end: slots.length - 1});
+    if (!conflict) return {kind: "available"};
+    return {
+      kind: "conflict",
+      reason: {
+        key: conflict.reason === "booked" ? "recurring.reason.booked" : "recurring.reason.gap",
+        params: {time: formatTimeRange(conflict.slot)},
+      },
+    };
+  });
+
+  const isChecking = statuses.some((status) => status.kind === "checking");
+  const bookable = occurrences.filter((_, index) => statuses[index].kind === "available");
+  const conflictCount = statuses.filter((status) => status.kind === "conflict").length;
+
+  const columns: DataTableColumn<Occurrence>[] = [
+    {
+      key: "date",
+      header: t("recurring.column.date"),
+      render: (occurrence) => formatDate(occurrence.startAt),
+    },
+    {
+      key: "time",
+      header: t("recurring.column.time"),
+      render: (occurrence) => formatTimeRange(occurrence),
+    },
+    {
+      key: "status",
+      header: t("recurring.column.status"),
+      render: (_occurrence, index) => {
+        const status = statuses[index];
+        if (status.kind === "checking") return t("recurring.checking");
+        if (status.kind === "available") return t("recurring.available");
+        return (
+          <span style={{color: theme.color.danger}}>
+            {t("recurring.conflict", {reason: t(status.reason)})}
+          </span>
+        );
+      },
+    },
+  ];
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((current) =>
+      current.includes(day) ? current.filter((d) => d !== day) : [...current, day],
+    );
+  };
+
+  const handleBookSeries = async () => {
+    const seriesResults = await seriesMutation.mutateAsync({
+      deskId: desk.id,
+      occurrences: bookable.map(({startAt, endAt}) => ({startAt, endAt})),
+    });
+    setResults(seriesResults);
+  };
+
+  if (results) {
+    const bookedCount = results.filter((result) => result.status === "booked").length;
+
+    return (
+      <div>
+        <Alert tone={bookedCount === results.length ? "success" : "info"}>
+          {t(conflictCount > 0 ? "recurring.summarySkipped" : "recurring.summary", {
+            booked: bookedCount,
+            count: results.length,
+            skipped: conflictCount,
+          })}
+        </Alert>
+        <ul style={{paddingLeft: "1.25rem", fontSize: "0.9rem"}}>
+          {results.map((result) => (
+            <li key={`${result.occurrence.startAt}-${result.occurrence.endAt}`}>
+              {t("recurring.result", {
+                date: formatDate(result.occurrence.startAt),
+                time: formatTimeRange(result.occurrence),
+              })}{" "}
+              {result.status === "booked" ? (
+                t("recurring.result.booked")
+              ) : (
+                <span style={{color: theme.color.danger}}>
+                  {t("recurring.result.failed", {message: result.error.message})}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div style={{display: "flex", justifyContent: "flex-end"}}>
+          <Button size="md" onClick={onDone}>
+            {t("common.done")}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <fieldset style={{border: "none", padding: 0, margin: "0 0 0.75rem"}}>
+        <legend style={{marginBottom: "0.25rem"}}>{t("recurring.repeatOn")}</legend>
+        <div style={{display: "flex", gap: "0.5rem", flexWrap: "wrap"}}>
+          {WEEKDAYS.map((day) => (
+            <label key={day} style={{display: "inline-flex", gap: "0.2rem"}}>
+              <input
+                type="checkbox"
+                checked={weekdays.includes(day)}
+                onChange={() => toggleWeekday(day)}
+              />
+              {formatWeekday(day)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          marginBottom: "0.75rem",
+          fontSize: "0.9rem",
+          flexWrap: "wrap",
+        }}
+      >
+        <FormField label={t("recurring.from")} inline style={{marginBottom: 0}}>
+          <select
+            id="recurrence-start"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+          >
+            {SLOT_START_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label={t("recurring.to")} inline style={{marginBottom: 0}}>
+          <select
+            id="recurrence-end"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+          >
+            {SLOT_END_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label={t("recurring.for")} inline style={{marginBottom: 0}}>
+          <input
+            id="recurrence-weeks"
+            type="number"
+            min={1}
+            max={MAX_RECURRENCE_WEEKS}
+            value={weeks}
+            onChange={(e) => setWeeks(Number(e.target.value))}
+            style={{width: "4rem", padding: "0.25rem 0.4rem"}}
+          />
+        </FormField>
+        <span>{t("recurring.weeksStarting", {date: formatDate(startDate)})}</span>
+      </div>
+
+      {validationError && <Alert tone="error">{t(validationError)}</Alert>}
+
+      {!validationError && occurrences.length === 0 && (
+        <p>{t("recurring.noOccurrences")}</p>
+      )}
+
+      {!validationError && occurrences.length > 0 && (
+        <div
+          style={{
+            maxHeight: "240px",
+            overflowY: "auto",
+            border: `1px solid ${theme.color.border}`,
+            borderRadius: theme.radius,
+          }}
+        >
+          <DataTable
+            label={t("recurring.occurrences")}
+            columns={columns}
+            rows={occurrences}
+            rowKey={occurrenceKey}
+            style={{maxWidth: "none", fontSize: "0.9rem"}}
+          />
+        </div>
+      )}
+
+      {seriesMutation.isError && (
+        <Alert tone="error" style={{marginTop: "0.75rem"}}>
+          {t("recurring.failed", {message: seriesMutation.error.message})}
+        </Alert>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "flex-end",
+          gap: "0.5rem",
+          marginTop: "1rem",
+        }}
+      >
+        <Button size="md" onClick={onDone} disabled={seriesMutation.isPending}>
+          {t("recurring.abort")}
+        </Button>
+        <Button
+          variant="primary"
+          size="md"
+          onClick={handleBookSeries}
+          disabled={
+            !!validationError ||
+            isChecking ||
+            bookable.length === 0 ||
+            seriesMutation.isPending
+          }
+        >
+          {seriesMutation.isPending
+            ? t("booking.submitting")
+            : conflictCount > 0
+              ? t("recurring.bookSkipping", {count: bookable.length, skipped: conflictCount})
+              : t("recurring.bookAll", {count: bookable.length})}
+        </Button>
+      </div>
+    </div>
+  );
+};
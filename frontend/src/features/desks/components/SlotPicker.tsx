@@ -0,0 +1,174 @@
+import React from "react";
+import {theme} from "@/components/ui/theme";
+import type {AvailabilitySlot} from "@/features/desks/api/deskBookings";
+import {isInRange, isSlotAvailable, type SlotRange} from "@/features/desks/utils/slotSelection";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type SlotPickerProps = {
+  ref?: React.Ref<HTMLDivElement>;
+  slots: AvailabilitySlot[];
+  selection: SlotRange | null;
+  /** The slot the keyboard is on. */
+  activeIndex: number;
+  onActiveChange: (index: number) => void;
+  /** A click, Space or Enter on a slot; `extend` is true with Shift held. */
+  onSelect: (index: number, extend: boolean) => void;
+  /** Shift+arrow keys, moving from one slot to the next. */
+  onExtend: (from: number, to: number) => void;
+  onDragStart: (index: number) => void;
+  onDragOver: (index: number) => void;
+  /** Extra line under a slot's time, e.g. the viewer's own time. */
+  renderTimeHint?: (slot: AvailabilitySlot) => React.ReactNode;
+  isOnWaitlist: (slot: AvailabilitySlot) => boolean;
+  /** Keeps the selection as it is, e.g. while it's being booked. */
+  disabled?: boolean;
+  "aria-label": string;
+  "aria-describedby"?: string;
+};
+
+const hintStyle: React.CSSProperties = {
+  display: "block",
+  fontSize: "0.8rem",
+  color: theme.color.mutedText,
+};
+
+/**
+ * The time slots of a day as a multi-select listbox. Focus stays on the list
+ * and the arrow keys move between slots, so screen readers read each slot's
+ * time and status as the user goes. Status is spelled out and marked with a
+ * symbol, never shown by colour alone.
+ */
+export const SlotPicker: React.FC<SlotPickerProps> = ({
+                                                        ref,
+                                                        slots,
+                                                        selection,
+                                                        activeIndex,
+                                                        onActiveChange,
+                                                        onSelect,
+                                                        onExtend,
+                                                        onDragStart,
+                                                        onDragOver,
+                                                        renderTimeHint,
+                                                        isOnWaitlist,
+                                                        disabled = false,
+                                                        "aria-label": ariaLabel,
+                                                        "aria-describedby": ariaDescribedBy,
+                                                      }) => {
+  const {t, formatTimeRange} = useI18n();
+  const baseId = React.useId();
+  const [hasFocus, setHasFocus] = React.useState(false);
+
+  const optionId = (index: number) => `${baseId}-slot-${index}`;
+
+  React.useEffect(() => {
+    if (!hasFocus) return;
+    // jsdom has no scrollIntoView.
+    document.getElementById(`${baseId}-slot-${activeIndex}`)?.scrollIntoView?.({block: "nearest"});
+  }, [baseId, activeIndex, hasFocus]);
+
+  const handleKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (e) => {
+    const lastIndex = slots.length - 1;
+    let target: number | null = null;
+    switch (e.key) {
+      case "ArrowDown":
+        target = Math.min(activeIndex + 1, lastIndex);
+        break;
+      case "ArrowUp":
+        target = Math.max(activeIndex - 1, 0);
+        break;
+      case "Home":
+        target = 0;
+        break;
+      case "End":
+        target = lastIndex;
+        break;
+      case " ":
+      case "Enter":
+        e.preventDefault();
+        if (!disabled) onSelect(activeIndex, e.shiftKey);
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (target === activeIndex) return;
+    onActiveChange(target);
+    if (e.shiftKey && !disabled) onExtend(activeIndex, target);
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="listbox"
+      aria-label={ariaLabel}
+      aria-describedby={ariaDescribedBy}
+      aria-multiselectable="true"
+      aria-activedescendant={slots.length > 0 ? optionId(activeIndex) : undefined}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setHasFocus(true)}
+      onBlur={() => setHasFocus(false)}
+      style={{
+        maxHeight: "300px",
+        overflowY: "auto",
+        border: `1px solid ${theme.color.border}`,
+        borderRadius: theme.radius,
+        fontSize: "0.9rem",
+        userSelect: "none",
+      }}
+    >
+      {slots.map((slot, index) => {
+        const isAvailable = isSlotAvailable(slot);
+        const isSelected = isInRange(selection, index);
+        const isActive = hasFocus && index === activeIndex;
+        const timeHint = renderTimeHint?.(slot);
+
+        return (
+          <div
+            key={`${slot.startAt}-${slot.endAt}-${index}`}
+            id={optionId(index)}
+            role="option"
+            aria-selected={isSelected}
+            aria-disabled={!isAvailable || undefined}
+            onMouseDown={() => onDragStart(index)}
+            onMouseEnter={() => onDragOver(index)}
+            onClick={(e) => {
+              onActiveChange(index);
+              if (!disabled) onSelect(index, e.shiftKey);
+            }}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.75rem",
+              padding: "0.4rem 0.6rem",
+              borderBottom: index < slots.length - 1 ? `1px solid ${theme.color.rowBorder}` : undefined,
+              backgroundColor: isSelected ? theme.color.selected : undefined,
+              color: isAvailable ? undefined : theme.color.mutedText,
+              outline: isActive ? `2px solid ${theme.color.primary}` : undefined,
+              outlineOffset: "-2px",
+              cursor: isAvailable && !disabled ? "pointer" : "not-allowed",
+            }}
+          >
+            <span style={{flex: 1}}>
+              {formatTimeRange(slot)}
+              {timeHint && <> <span style={hintStyle}>{timeHint}</span></>}
+            </span>
+            {" "}
+            <span style={{textAlign: "right", fontWeight: isSelected ? 600 : undefined}}>
+              <span aria-hidden="true">{!isAvailable ? "✕" : isSelected ? "✓" : "○"} </span>
+              {!isAvailable
+                ? t("booking.status.booked")
+                : isSelected
+                  ? t("booking.slot.selected")
+                  : t("booking.status.available")}
+              {!isAvailable && isOnWaitlist(slot) && (
+                <> <span style={hintStyle}>{t("booking.slot.onWaitlist")}</span></>
+              )}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
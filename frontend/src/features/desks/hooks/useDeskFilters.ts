@@ -0,0 +1,91 @@
+import React from "react";
+import {useSearchParams} from "react-router-dom";
+import type {Desk} from "@/features/desks/api/desks";
+import {useDesksAvailability} from "@/features/desks/api/deskBookings";
+import {
+  applyDeskFilters,
+  type AvailabilityFilter,
+  type DeskFilters,
+  parseDeskFilters,
+} from "@/features/desks/utils/deskFilters";
+import {
+  fromDateInputValue,
+  SLOT_MINUTES,
+  type TimeRange,
+  toLocalDateTimeString,
+} from "@/features/desks/utils/dateTime";
+import {isSlotAvailable} from "@/features/desks/utils/slotSelection";
+import {type WorkingHours, workingDayRange} from "@/features/desks/utils/workingHours";
+import {nowInTimeZone} from "@/features/desks/utils/timeZone";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+
+/** Desk filters stored in the URL query string, so views can be shared. */
+export function useDeskFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = React.useMemo(() => parseDeskFilters(searchParams), [searchParams]);
+
+  const setFilters = React.useCallback(
+    (update: Partial<DeskFilters>) => {
+      setSearchParams(
+        (current) => applyDeskFilters(current, {...parseDeskFilters(current), ...update}),
+        {replace: true},
+      );
+    },
+    [setSearchParams],
+  );
+
+  return {filters, setFilters};
+}
+
+function currentSlot(timeZone: string): TimeRange {
+  const start = nowInTimeZone(timeZone);
+  start.setMinutes(start.getMinutes() - (start.getMinutes() % SLOT_MINUTES), 0, 0);
+  return {
+    startAt: toLocalDateTimeString(start),
+    endAt: toLocalDateTimeString(new Date(start.getTime() + SLOT_MINUTES * 60_000)),
+  };
+}
+
+/**
+ * Ids of desks matching the availability filter: free for the current slot
+ * in their office's timezone ("now"), free for the whole `timeRange` on a
+ * date, or otherwise with at least one free slot during their location's
+ * working hours on that date. `matchingIds` is null when no availability
+ * filter is set.
+ */
+export function useDeskAvailabilityFilter(
+  desks: Desk[],
+  available: AvailabilityFilter | null,
+  timeRange: WorkingHours | null = null,
+) {
+  const {hoursFor, timeZoneFor, isLoading: isLoadingSettings} = useLocationSettings();
+
+  const windows = React.useMemo(() => {
+    if (!available || isLoadingSettings) return [];
+    return desks.map((desk) => ({
+      deskId: desk.id,
+      ...(available === "now"
+        ? currentSlot(timeZoneFor(desk.location))
+        : workingDayRange(fromDateInputValue(available), timeRange ?? hoursFor(desk.location))),
+    }));
+  }, [available, timeRange, desks, hoursFor, timeZoneFor, isLoadingSettings]);
+
+  const {slotsByDesk, isLoading} = useDesksAvailability(windows);
+
+  const matchingIds = React.useMemo(() => {
+    if (!available) return null;
+    const ids = new Set<number>();
+    for (const [deskId, slots] of slotsByDesk) {
+      if (!slots || slots.length === 0) continue;
+      const matches =
+        available === "now" || timeRange
+          ? slots.every(isSlotAvailable)
+          : slots.some(isSlotAvailable);
+      if (matches) ids.add(deskId);
+    }
+    return ids;
+  }, [available, timeRange, slotsByDesk]);
+
+  return {matchingIds, isChecking: !!available && (isLoadingSettings || isLoading)};
+}
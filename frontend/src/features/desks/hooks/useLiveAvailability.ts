@@ -0,0 +1,44 @@
+import {useEffect} from "react";
+import {useQueryClient} from "@tanstack/react-query";
+import {useAuth} from "@/features/auth/useAuth";
+import {
+  applyBookingEvent,
+  BOOKING_EVENTS_PATH,
+  parseBookingEvent,
+} from "@/features/desks/api/bookingEvents";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {apiUrl} from "@/lib/apiClient";
+import {connectEventStream} from "@/lib/eventStream";
+
+/**
+ * Keeps cached availability and desks in step with other people's changes
+ * by listening to the booking event stream while signed in and online.
+ */
+export function useLiveAvailability() {
+  const {accessToken, logout} = useAuth();
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (!accessToken || !isOnline) return;
+
+    return connectEventStream({
+      url: apiUrl(BOOKING_EVENTS_PATH),
+      headers: {Authorization: `Bearer ${accessToken}`},
+      onEvent: (serverEvent) => {
+        const event = parseBookingEvent(serverEvent);
+        if (event) void applyBookingEvent(queryClient, event);
+      },
+      // Events sent while the stream was down are lost; refetch instead.
+      onOpen: (reconnected) => {
+        if (reconnected) {
+          void queryClient.invalidateQueries({queryKey: ["deskAvailability"]});
+          void queryClient.invalidateQueries({queryKey: ["desks"]});
+        }
+      },
+      onRefused: (status) => {
+        if (status === 401) logout();
+      },
+    });
+  }, [accessToken, isOnline, queryClient, logout]);
+}
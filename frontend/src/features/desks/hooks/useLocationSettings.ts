@@ -0,0 +1,40 @@
+import React from "react";
+import {useLocationsQuery} from "@/features/desks/api/locations";
+import {usePreferences} from "@/features/preferences/usePreferences";
+import {DEFAULT_WORKING_HOURS, type WorkingHours} from "@/features/desks/utils/workingHours";
+import {browserTimeZone} from "@/features/desks/utils/timeZone";
+
+/**
+ * Resolves per-location office settings for desks.
+ *
+ * - `hoursFor`: the user's own working hours if they set them, otherwise the
+ *   location's configured hours, otherwise the default.
+ * - `timeZoneFor`: the location's office timezone, falling back to the
+ *   browser's for locations without one.
+ *
+ * `isLoading` is true until the location settings have arrived, so callers
+ * can hold off requesting availability for the wrong window.
+ */
+export function useLocationSettings() {
+  const {preferences} = usePreferences();
+  const {data: locations, isLoading} = useLocationsQuery();
+  const override = preferences.workingHours;
+
+  const settingsFor = React.useCallback(
+    (location: string | null) => locations?.find((candidate) => candidate.name === location),
+    [locations],
+  );
+
+  const hoursFor = React.useCallback(
+    (location: string | null): WorkingHours =>
+      override ?? settingsFor(location)?.workingHours ?? DEFAULT_WORKING_HOURS,
+    [override, settingsFor],
+  );
+
+  const timeZoneFor = React.useCallback(
+    (location: string | null): string => settingsFor(location)?.timeZone ?? browserTimeZone(),
+    [settingsFor],
+  );
+
+  return {hoursFor, timeZoneFor, isLoading};
+}
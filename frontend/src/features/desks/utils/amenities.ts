@@ -0,0 +1,27 @@
+import type {MessageKey} from "@/lib/i18n/i18n";
+
+/** Equipment and surroundings a desk can have, in display order. */
+export const AMENITIES = ["dualMonitor", "standingDesk", "dockingStation", "quietZone"] as const;
+
+export type Amenity = (typeof AMENITIES)[number];
+
+export const AMENITY_LABELS: Record<Amenity, MessageKey> = {
+  dualMonitor: "amenity.dualMonitor",
+  standingDesk: "amenity.standingDesk",
+  dockingStation: "amenity.dockingStation",
+  quietZone: "amenity.quietZone",
+};
+
+export function isAmenity(value: string): value is Amenity {
+  return (AMENITIES as readonly string[]).includes(value);
+}
+
+/** Whether a desk with `amenities` has every one in `required`. */
+export function hasAmenities(amenities: Amenity[], required: Amenity[]): boolean {
+  return required.every((amenity) => amenities.includes(amenity));
+}
+
+/** Unique known amenities in display order, whatever order they came in. */
+export function normalizeAmenities(values: string[]): Amenity[] {
+  return AMENITIES.filter((amenity) => values.includes(amenity));
+}
@@ -0,0 +1,64 @@
+export type TimeRange = {
+  startAt: string;
+  endAt: string;
+};
+
+export const SLOT_MINUTES = 30;
+
+/** "00:00", "00:30", … "23:30" — the start times a slot can have. */
+export const SLOT_START_TIMES = Array.from({length: (24 * 60) / SLOT_MINUTES}, (_, index) => {
+  const minutes = index * SLOT_MINUTES;
+  const hours = `${Math.floor(minutes / 60)}`.padStart(2, "0");
+  return `${hours}:${`${minutes % 60}`.padStart(2, "0")}`;
+});
+
+/** Parses "HH:mm" into hours and minutes. */
+export function parseTimeOfDay(value: string): { hours: number; minutes: number } {
+  const [hours, minutes] = value.split(":").map(Number);
+  return {hours: hours ?? 0, minutes: minutes ?? 0};
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/** Midnight on the Monday of the week containing `date`. */
+export function startOfWeek(date: Date): Date {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+export function atTimeOfDay(date: Date, hours: number, minutes = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, 0, 0);
+}
+
+export function toLocalDateTimeString(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  const year = date.getFullYear();
+  const month = pad(date.getMonth() + 1); // 1-based
+  const day = pad(date.getDate());
+  const hours = pad(date.getHours());
+  const minutes = pad(date.getMinutes());
+  const seconds = pad(date.getSeconds());
+
+  // Local datetime without timezone/offset, matches Micronaut LocalDateTime
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+}
+
+/** "YYYY-MM-DD", the fixed format `<input type="date">` values use in every locale. */
+export function toDateInputValue(date: Date): string {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/** The local midnight of a "YYYY-MM-DD" date input value. */
+export function fromDateInputValue(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
@@ -0,0 +1,68 @@
+import {describe, expect, it} from "vitest";
+import {DESK_NAME_MAX_LENGTH} from "@/features/desks/utils/deskName";
+import {createTestDesk} from "@/test-utils/desks";
+import {parseCsv, parseDeskCsv} from "./deskCsv";
+
+const existingDesks = [createTestDesk()];
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes and CRLF line endings", () => {
+    expect(parseCsv("name,location\r\n\"Desk, corner\",\"The \"\"Loft\"\"\"\r\n")).toEqual([
+      ["name", "location"],
+      ["Desk, corner", "The \"Loft\""],
+    ]);
+  });
+});
+
+describe("parseDeskCsv", () => {
+  it("reads desks by header name, in any column order", () => {
+    const result = parseDeskCsv("Location,X,Y,Name\n2nd Floor,10,20,Desk C\n\n", existingDesks);
+
+    expect(result).toEqual({
+      ok: true,
+      rows: [
+        {
+          line: 2,
+          input: {name: "Desk C", location: "2nd Floor", position: {x: 10, y: 20}},
+          errors: [],
+        },
+      ],
+    });
+  });
+
+  it("flags missing, long and taken names, bad positions and duplicates row by row", () => {
+    const result = parseDeskCsv(
+      [
+        "name,location,x,y",
+        "desk a,1st floor,,",
+        ",2nd Floor,,",
+        `${"D".repeat(DESK_NAME_MAX_LENGTH + 1)},2nd Floor,,`,
+        "Desk D,2nd Floor,50,",
+        "Desk E,,,",
+        "Desk E,,,",
+      ].join("\n"),
+      existingDesks,
+    );
+
+    expect(result.ok && result.rows.map((row) => row.errors.map((error) => error.key))).toEqual([
+      ["createDesk.errors.nameTaken"],
+      ["createDesk.errors.nameRequired"],
+      ["validation.maxLength"],
+      ["createDesk.errors.position"],
+      [],
+      ["deskCsv.errors.duplicate"],
+    ]);
+  });
+
+  it("rejects files without a name column or without rows", () => {
+    expect(parseDeskCsv("location\n1st Floor", [])).toEqual({
+      ok: false,
+      error: {key: "deskCsv.errors.missingNameColumn"},
+    });
+    expect(parseDeskCsv("name\n", [])).toEqual({
+      ok: false,
+      error: {key: "deskCsv.errors.noRows"},
+    });
+    expect(parseDeskCsv("", [])).toEqual({ok: false, error: {key: "deskCsv.errors.empty"}});
+  });
+});
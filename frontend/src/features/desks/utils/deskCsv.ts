@@ -0,0 +1,131 @@
+import type {CreateDeskInput, Desk} from "@/features/desks/api/desks";
+import {deskKey, deskNameRules} from "@/features/desks/utils/deskName";
+import {parseDeskPosition} from "@/features/desks/utils/deskPosition";
+import {validateForm} from "@/lib/forms/validation";
+import type {Message} from "@/lib/i18n/i18n";
+
+/** One data row of an imported file, with everything wrong with it. */
+export type DeskCsvRow = {
+  /** Row number in the file, counting the header as row 1. */
+  line: number;
+  input: CreateDeskInput;
+  errors: Message[];
+};
+
+export type DeskCsvParseResult =
+  | { ok: true; rows: DeskCsvRow[] }
+  | { ok: false; error: Message };
+
+const COLUMNS = ["name", "location", "x", "y"] as const;
+
+type Column = (typeof COLUMNS)[number];
+
+/**
+ * Splits CSV text into records of fields. Handles quoted fields with commas,
+ * doubled quotes and line breaks, and both LF and CRLF line endings.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === "\"" && text[index + 1] === "\"") {
+        field += "\"";
+        index++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Reads desks from a CSV file with a header row. `name` is required;
+ * `location`, `x` and `y` are optional. Rows are checked against each other
+ * and against the desks that already exist, so the preview can show every
+ * problem before anything is created.
+ */
+export function parseDeskCsv(text: string, existingDesks: Desk[]): DeskCsvParseResult {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header || header.every((cell) => !cell.trim())) {
+    return {ok: false, error: {key: "deskCsv.errors.empty"}};
+  }
+
+  const columnIndex = new Map<Column, number>();
+  header.forEach((cell, index) => {
+    const column = cell.trim().toLowerCase() as Column;
+    if (COLUMNS.includes(column) && !columnIndex.has(column)) {
+      columnIndex.set(column, index);
+    }
+  });
+  if (!columnIndex.has("name")) {
+    return {ok: false, error: {key: "deskCsv.errors.missingNameColumn"}};
+  }
+
+  const nameRules = deskNameRules(existingDesks);
+  // Names taken by earlier rows of the same file.
+  const seen = new Set<string>();
+  const rows: DeskCsvRow[] = [];
+
+  records.forEach((record, index) => {
+    if (record.every((cell) => !cell.trim())) return;
+
+    const cell = (column: Column) => {
+      const columnAt = columnIndex.get(column);
+      return columnAt == null ? "" : (record[columnAt] ?? "").trim();
+    };
+    const name = cell("name");
+    const location = cell("location") || null;
+    const position = parseDeskPosition(cell("x"), cell("y"));
+    const errors: Message[] = [];
+
+    const nameError = validateForm({name, location}, {name: nameRules}).name;
+    if (nameError) {
+      errors.push(nameError);
+    } else if (seen.has(deskKey(name, location))) {
+      errors.push({key: "deskCsv.errors.duplicate", params: {name}});
+    }
+    if (position === undefined) {
+      errors.push({key: "createDesk.errors.position"});
+    }
+    if (name) seen.add(deskKey(name, location));
+
+    rows.push({
+      // +2: the header is row 1 and rows are 1-based.
+      line: index + 2,
+      input: {name, location, position: position ?? null},
+      errors,
+    });
+  });
+
+  if (rows.length === 0) {
+    return {ok: false, error: {key: "deskCsv.errors.noRows"}};
+  }
+  return {ok: true, rows};
+}
@@ -0,0 +1,154 @@
+import type {Desk} from "@/features/desks/api/desks";
+import {
+  type Amenity,
+  hasAmenities,
+  isAmenity,
+  normalizeAmenities,
+} from "@/features/desks/utils/amenities";
+import {validateWorkingHours, type WorkingHours} from "@/features/desks/utils/workingHours";
+
+export type DeskSortField = "id" | "name" | "location";
+
+export type DeskSort = {
+  field: DeskSortField;
+  direction: "asc" | "desc";
+};
+
+/** "now" or a "yyyy-MM-dd" date. */
+export type AvailabilityFilter = "now" | string;
+
+export type DeskFilters = {
+  query: string;
+  location: string | null;
+  sort: DeskSort;
+  available: AvailabilityFilter | null;
+  /**
+   * With a date, only desks free for this whole time range count as
+   * available, rather than those with any free slot that day.
+   */
+  timeRange: WorkingHours | null;
+  /** Desks must have every one of these. */
+  amenities: Amenity[];
+};
+
+/** Location filter value that matches desks without a location. */
+export const NO_LOCATION = "(none)";
+
+const SORT_FIELDS: DeskSortField[] = ["id", "name", "location"];
+
+const DEFAULT_SORT: DeskSort = {field: "id", direction: "asc"};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseSort(value: string | null): DeskSort {
+  if (!value) return DEFAULT_SORT;
+  const direction = value.startsWith("-") ? "desc" : "asc";
+  const field = value.replace(/^-/, "") as DeskSortField;
+  return SORT_FIELDS.includes(field) ? {field, direction} : DEFAULT_SORT;
+}
+
+function serializeSort(sort: DeskSort): string | null {
+  if (sort.field === DEFAULT_SORT.field && sort.direction === DEFAULT_SORT.direction) {
+    return null;
+  }
+  return sort.direction === "desc" ? `-${sort.field}` : sort.field;
+}
+
+function parseAvailable(value: string | null): AvailabilityFilter | null {
+  if (value === "now") return value;
+  return value && DATE_PATTERN.test(value) ? value : null;
+}
+
+/** "HH:mm-HH:mm", e.g. "09:00-12:00". */
+function parseTimeRange(value: string | null): WorkingHours | null {
+  const [start, end] = value?.split("-") ?? [];
+  if (!start || !end) return null;
+  const range = {start, end};
+  return validateWorkingHours(range) ? null : range;
+}
+
+function parseAmenities(value: string | null): Amenity[] {
+  return normalizeAmenities(value?.split(",").filter(isAmenity) ?? []);
+}
+
+export function parseDeskFilters(params: URLSearchParams): DeskFilters {
+  const available = parseAvailable(params.get("available"));
+  return {
+    query: params.get("q") ?? "",
+    location: params.get("location"),
+    sort: parseSort(params.get("sort")),
+    available,
+    // A time range only narrows down a date.
+    timeRange:
+      available && available !== "now" ? parseTimeRange(params.get("time")) : null,
+    amenities: parseAmenities(params.get("amenities")),
+  };
+}
+
+/**
+ * Writes the filters into `params`, leaving unrelated params alone and
+ * dropping defaults so URLs stay short.
+ */
+export function applyDeskFilters(
+  params: URLSearchParams,
+  filters: DeskFilters,
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const entries: [string, string | null][] = [
+    // Kept untrimmed so the search box doesn't eat spaces mid-typing.
+    ["q", filters.query || null],
+    ["location", filters.location],
+    ["sort", serializeSort(filters.sort)],
+    ["available", filters.available],
+    [
+      "time",
+      filters.available && filters.available !== "now" && filters.timeRange
+        ? `${filters.timeRange.start}-${filters.timeRange.end}`
+        : null,
+    ],
+    ["amenities", filters.amenities.join(",") || null],
+  ];
+
+  for (const [key, value] of entries) {
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  }
+  return next;
+}
+
+export function matchesDeskFilters(desk: Desk, filters: DeskFilters): boolean {
+  const query = filters.query.trim().toLowerCase();
+  if (query) {
+    const haystack = [String(desk.id), desk.name, desk.location ?? ""]
+      .join(" ")
+      .toLowerCase();
+    if (!haystack.includes(query)) return false;
+  }
+
+  if (!hasAmenities(desk.amenities, filters.amenities)) return false;
+
+  if (filters.location === NO_LOCATION) return desk.location == null;
+  if (filters.location) return desk.location === filters.location;
+  return true;
+}
+
+export function sortDesks(desks: Desk[], sort: DeskSort): Desk[] {
+  const factor = sort.direction === "asc" ? 1 : -1;
+
+  return [...desks].sort((a, b) => {
+    if (sort.field === "id") return (a.id - b.id) * factor;
+    const left = a[sort.field] ?? "";
+    const right = b[sort.field] ?? "";
+    // Desks without a location sort last in either direction.
+    if (!left !== !right) return left ? -1 : 1;
+    return left.localeCompare(right, undefined, {numeric: true}) * factor;
+  });
+}
+
+export function toggleSort(current: DeskSort, field: DeskSortField): DeskSort {
+  if (current.field !== field) return {field, direction: "asc"};
+  return {field, direction: current.direction === "asc" ? "desc" : "asc"};
+}
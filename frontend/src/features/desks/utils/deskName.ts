@@ -0,0 +1,33 @@
+import {maxLength, type Rule} from "@/lib/forms/validation";
+
+export const DESK_NAME_MAX_LENGTH = 50;
+
+/** A desk's name and location, which together tell desks apart. */
+type NamedDesk = {
+  name: string;
+  location: string | null;
+};
+
+/** Desks are the same desk when name and location match, ignoring case. */
+export function deskKey(name: string, location: string | null): string {
+  return `${name.toLowerCase()}\u0000${(location ?? "").toLowerCase()}`;
+}
+
+/**
+ * The rules for a desk's name wherever one is created or renamed: required,
+ * not too long and not yet taken at its location by one of `existingDesks`.
+ */
+export function deskNameRules(
+  existingDesks: NamedDesk[],
+): Rule<string, { location: string | null }>[] {
+  // Says which field is missing, since CSV previews show it away from any input.
+  const nameRequired: Rule<string> = (name) =>
+    name.trim() ? null : {key: "createDesk.errors.nameRequired"};
+  const takenKeys = new Set(existingDesks.map((desk) => deskKey(desk.name, desk.location)));
+  const uniqueName: Rule<string, { location: string | null }> = (name, values) =>
+    takenKeys.has(deskKey(name.trim(), values.location?.trim() || null))
+      ? {key: "createDesk.errors.nameTaken", params: {name: name.trim()}}
+      : null;
+
+  return [nameRequired, maxLength(DESK_NAME_MAX_LENGTH), uniqueName];
+}
@@ -0,0 +1,22 @@
+import type {DeskPosition} from "@/features/desks/api/desks";
+
+/** A floor-plan coordinate: null when blank, NaN unless a number from 0 to 100. */
+function parseCoordinate(value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100 ? parsed : NaN;
+}
+
+/**
+ * Reads a position typed as two coordinates: null when both are blank,
+ * undefined when only one is given or either is out of range.
+ */
+export function parseDeskPosition(x: string, y: string): DeskPosition | null | undefined {
+  const parsedX = parseCoordinate(x);
+  const parsedY = parseCoordinate(y);
+  if (Number.isNaN(parsedX) || Number.isNaN(parsedY)) return undefined;
+  if (parsedX == null || parsedY == null) {
+    return parsedX == null && parsedY == null ? null : undefined;
+  }
+  return {x: parsedX, y: parsedY};
+}
@@ -0,0 +1,38 @@
+import {describe, expect, it} from "vitest";
+import {expandRecurrence, validateRecurrence} from "./recurrence";
+
+// Monday 5 January 2099, local time.
+const startDate = new Date(2099, 0, 5);
+const now = new Date(2099, 0, 1);
+
+describe("expandRecurrence", () => {
+  it("lists every matching weekday for the number of weeks", () => {
+    const occurrences = expandRecurrence(
+      {weekdays: [2, 4], startTime: "09:00", endTime: "17:00", startDate, weeks: 2},
+      now,
+    );
+
+    expect(occurrences.map(({startAt, endAt}) => [startAt, endAt])).toEqual([
+      ["2099-01-06T09:00:00", "2099-01-06T17:00:00"],
+      ["2099-01-08T09:00:00", "2099-01-08T17:00:00"],
+      ["2099-01-13T09:00:00", "2099-01-13T17:00:00"],
+      ["2099-01-15T09:00:00", "2099-01-15T17:00:00"],
+    ]);
+  });
+
+  it("skips occurrences that have already started", () => {
+    const occurrences = expandRecurrence(
+      {weekdays: [1], startTime: "09:00", endTime: "10:00", startDate, weeks: 2},
+      new Date(2099, 0, 5, 9, 30),
+    );
+
+    expect(occurrences.map(({startAt}) => startAt)).toEqual(["2099-01-12T09:00:00"]);
+  });
+
+  it("returns nothing for an invalid pattern", () => {
+    const recurrence = {weekdays: [], startTime: "09:00", endTime: "17:00", startDate, weeks: 2};
+
+    expect(validateRecurrence(recurrence)).toEqual({key: "recurrence.errors.noWeekdays"});
+    expect(expandRecurrence(recurrence, now)).toEqual([]);
+  });
+});
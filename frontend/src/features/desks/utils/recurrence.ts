@@ -0,0 +1,78 @@
+import {
+  addDays,
+  atTimeOfDay,
+  parseTimeOfDay,
+  type TimeRange,
+  toLocalDateTimeString,
+} from "@/features/desks/utils/dateTime";
+import type {Message} from "@/lib/i18n/i18n";
+
+/**
+ * A weekly booking pattern, e.g. every Tuesday and Thursday 09:00–17:00 for
+ * the next 8 weeks. Weekdays use Date#getDay numbering (0 = Sunday).
+ */
+export type Recurrence = {
+  weekdays: number[];
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm"
+  startDate: Date;
+  weeks: number;
+};
+
+export type Occurrence = TimeRange & {
+  date: Date;
+};
+
+export const MAX_RECURRENCE_WEEKS = 12;
+
+/** Weekdays in the order they are offered, Monday first. */
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+export function validateRecurrence(recurrence: Recurrence): Message | null {
+  if (recurrence.weekdays.length === 0) {
+    return {key: "recurrence.errors.noWeekdays"};
+  }
+  if (recurrence.startTime >= recurrence.endTime) {
+    return {key: "recurrence.errors.endBeforeStart"};
+  }
+  if (
+    !Number.isInteger(recurrence.weeks) ||
+    recurrence.weeks < 1 ||
+    recurrence.weeks > MAX_RECURRENCE_WEEKS
+  ) {
+    return {key: "recurrence.errors.weeks", params: {max: MAX_RECURRENCE_WEEKS}};
+  }
+  return null;
+}
+
+/**
+ * Every occurrence from the start date (inclusive) for the given number of
+ * weeks, skipping occurrences that have already started.
+ */
+export function expandRecurrence(
+  recurrence: Recurrence,
+  now: Date = new Date(),
+): Occurrence[] {
+  if (validateRecurrence(recurrence)) return [];
+
+  const start = parseTimeOfDay(recurrence.startTime);
+  const end = parseTimeOfDay(recurrence.endTime);
+  const nowString = toLocalDateTimeString(now);
+  const occurrences: Occurrence[] = [];
+
+  for (let offset = 0; offset < recurrence.weeks * 7; offset++) {
+    const date = addDays(recurrence.startDate, offset);
+    if (!recurrence.weekdays.includes(date.getDay())) continue;
+
+    const startAt = toLocalDateTimeString(atTimeOfDay(date, start.hours, start.minutes));
+    if (startAt < nowString) continue;
+
+    occurrences.push({
+      date,
+      startAt,
+      endAt: toLocalDateTimeString(atTimeOfDay(date, end.hours, end.minutes)),
+    });
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,28 @@
+import {describe, expect, it} from "vitest";
+import type {AvailabilitySlot} from "@/features/desks/api/deskBookings";
+import {findRangeConflict, rangeBounds} from "./slotSelection";
+
+const slots: AvailabilitySlot[] = [
+  {startAt: "2099-01-05T09:00:00", endAt: "2099-01-05T09:30:00", status: "AVAILABLE"},
+  {startAt: "2099-01-05T09:30:00", endAt: "2099-01-05T10:00:00", status: "AVAILABLE"},
+  {startAt: "2099-01-05T10:00:00", endAt: "2099-01-05T10:30:00", status: "BOOKED"},
+];
+
+describe("rangeBounds", () => {
+  it("runs from the first slot's start to the last slot's end", () => {
+    expect(rangeBounds(slots, {start: 0, end: 1})).toEqual({
+      startAt: "2099-01-05T09:00:00",
+      endAt: "2099-01-05T10:00:00",
+    });
+  });
+
+  it("is null for a range that no longer fits in the slots", () => {
+    expect(rangeBounds(slots.slice(0, 1), {start: 0, end: 1})).toBeNull();
+  });
+});
+
+describe("findRangeConflict", () => {
+  it("reports the first booked slot in the range", () => {
+    expect(findRangeConflict(slots, {start: 1, end: 2})).toEqual({reason: "booked", slot: slots[2]});
+  });
+});
@@ -0,0 +1,59 @@
+import type {AvailabilitySlot} from "@/features/desks/api/deskBookings";
+
+/** Inclusive range of slot indices, always with start <= end. */
+export type SlotRange = {
+  start: number;
+  end: number;
+};
+
+export type SlotRangeConflict =
+  | { reason: "booked"; slot: AvailabilitySlot }
+  | { reason: "gap"; slot: AvailabilitySlot };
+
+export function isSlotAvailable(slot: AvailabilitySlot): boolean {
+  return String(slot.status).toUpperCase() === "AVAILABLE";
+}
+
+export function rangeBetween(a: number, b: number): SlotRange {
+  return a <= b ? {start: a, end: b} : {start: b, end: a};
+}
+
+export function isInRange(range: SlotRange | null, index: number): boolean {
+  return !!range && index >= range.start && index <= range.end;
+}
+
+/**
+ * Returns the first reason the range can't be booked as one continuous
+ * booking: a slot that is already booked, or a slot that doesn't start where
+ * the previous one ended.
+ */
+export function findRangeConflict(
+  slots: AvailabilitySlot[],
+  range: SlotRange,
+): SlotRangeConflict | null {
+  for (let i = range.start; i <= range.end; i++) {
+    const slot = slots[i];
+    if (!isSlotAvailable(slot)) {
+      return {reason: "booked", slot};
+    }
+    if (i > range.start && slots[i - 1].endAt !== slot.startAt) {
+      return {reason: "gap", slot};
+    }
+  }
+  return null;
+}
+
+/**
+ * When the range starts and ends, or null when it no longer fits in `slots`,
+ * e.g. after a refetch returned fewer slots.
+ */
+export function rangeBounds(
+  slots: AvailabilitySlot[],
+  range: SlotRange,
+): { startAt: string; endAt: string } | null {
+  if (range.start < 0 || range.end >= slots.length) return null;
+  return {
+    startAt: slots[range.start].startAt,
+    endAt: slots[range.end].endAt,
+  };
+}
@@ -0,0 +1,76 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {
+  browserTimeZone,
+  convertDateTimeString,
+  fromZonedDateTimeString,
+  nowInTimeZone,
+  toZonedDateTimeString,
+  viewerTimeRange,
+} from "./timeZone";
+import {toLocalDateTimeString} from "./dateTime";
+
+// In 2026 the UK changes clocks on 29 March and 25 October, the US on
+// 8 March and 1 November.
+describe("timeZone", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs the tests in UTC", () => {
+    expect(browserTimeZone()).toBe("UTC");
+  });
+
+  it("converts office times to instants on either side of a DST change", () => {
+    expect(fromZonedDateTimeString("2026-03-28T09:00:00", "Europe/London").toISOString())
+      .toBe("2026-03-28T09:00:00.000Z");
+    expect(fromZonedDateTimeString("2026-03-30T09:00:00", "Europe/London").toISOString())
+      .toBe("2026-03-30T08:00:00.000Z");
+    expect(toZonedDateTimeString(new Date("2026-03-30T08:00:00Z"), "Europe/London"))
+      .toBe("2026-03-30T09:00:00");
+  });
+
+  it("moves skipped times forward and picks the earlier of repeated times", () => {
+    // 01:30 doesn't exist on 29 March: clocks jump from 01:00 to 02:00.
+    expect(fromZonedDateTimeString("2026-03-29T01:30:00", "Europe/London").toISOString())
+      .toBe("2026-03-29T01:30:00.000Z");
+    // 01:30 happens twice on 25 October, first in BST.
+    expect(fromZonedDateTimeString("2026-10-25T01:30:00", "Europe/London").toISOString())
+      .toBe("2026-10-25T00:30:00.000Z");
+  });
+
+  it("accounts for offices whose DST changes fall on different dates", () => {
+    // New York is already on summer time; London isn't yet.
+    expect(convertDateTimeString("2026-03-20T09:00:00", "Europe/London", "America/New_York"))
+      .toBe("2026-03-20T05:00:00");
+    expect(convertDateTimeString("2026-04-20T09:00:00", "Europe/London", "America/New_York"))
+      .toBe("2026-04-20T04:00:00");
+    expect(
+      viewerTimeRange(
+        {startAt: "2026-03-20T09:00:00", endAt: "2026-03-20T09:30:00"},
+        "Europe/London",
+        "America/New_York",
+      ),
+    ).toEqual({startAt: "2026-03-20T05:00:00", endAt: "2026-03-20T05:30:00"});
+  });
+
+  it("hides the local time hint when both zones agree", () => {
+    expect(
+      viewerTimeRange(
+        {startAt: "2026-01-20T09:00:00", endAt: "2026-01-20T09:30:00"},
+        "Europe/London",
+        "UTC",
+      ),
+    ).toBeNull();
+  });
+
+  it("reads the current office time from the clock", () => {
+    vi.useFakeTimers({toFake: ["Date"]});
+    vi.setSystemTime(new Date("2026-10-25T00:30:00Z"));
+
+    expect(toLocalDateTimeString(nowInTimeZone("Europe/London"))).toBe("2026-10-25T01:30:00");
+
+    vi.setSystemTime(new Date("2026-10-25T01:30:00Z"));
+    expect(toLocalDateTimeString(nowInTimeZone("Europe/London"))).toBe("2026-10-25T01:30:00");
+    expect(toLocalDateTimeString(nowInTimeZone("America/New_York"))).toBe("2026-10-24T21:30:00");
+  });
+});
@@ -0,0 +1,179 @@
+import type {TimeRange} from "@/features/desks/utils/dateTime";
+
+/*
+ * Booking times travel as offset-less local datetimes ("YYYY-MM-DDTHH:mm:ss")
+ * in the office's own time. These helpers convert between that office time
+ * and real instants using the IANA zone database that ships with Intl, so
+ * the browser's timezone never leaks into what gets booked.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+type DateTimeFields = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+function zonedFields(instant: Date, timeZone: string): DateTimeFields {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function parseLocalDateTime(value: string): DateTimeFields {
+  const [date, time = "00:00:00"] = value.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute, second = 0] = time.split(":").map(Number);
+  return {year, month, day, hour, minute, second};
+}
+
+function fieldsToUtcMs(fields: DateTimeFields): number {
+  return Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second,
+  );
+}
+
+function formatFields(fields: DateTimeFields): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${fields.year}-${pad(fields.month)}-${pad(fields.day)}` +
+    `T${pad(fields.hour)}:${pad(fields.minute)}:${pad(fields.second)}`;
+}
+
+/** The timezone the browser runs in, e.g. "Europe/Berlin". */
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** How far `timeZone` is ahead of UTC at `instant`, in milliseconds. */
+export function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return fieldsToUtcMs(zonedFields(instant, timeZone)) - wholeSeconds;
+}
+
+/** The wall-clock time in `timeZone` at `instant`, as a local datetime string. */
+export function toZonedDateTimeString(instant: Date, timeZone: string): string {
+  return formatFields(zonedFields(instant, timeZone));
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to. Times skipped by a
+ * DST change resolve to the same distance past the change (01:30 becomes
+ * 02:30 when clocks jump from 01:00 to 02:00); times that occur twice
+ * resolve to the earlier one.
+ */
+export function fromZonedDateTimeString(value: string, timeZone: string): Date {
+  const fields = parseLocalDateTime(value);
+  const wallClock = formatFields(fields);
+  const wallClockMs = fieldsToUtcMs(fields);
+
+  // Try the offsets in force a day either side; around a DST change they
+  // differ, and a time that occurs twice round-trips with both.
+  const dayMs = 24 * 60 * 60 * 1000;
+  const offsetBefore = timeZoneOffsetMs(new Date(wallClockMs - dayMs), timeZone);
+  const offsetAfter = timeZoneOffsetMs(new Date(wallClockMs + dayMs), timeZone);
+
+  const candidates = [wallClockMs - offsetBefore, wallClockMs - offsetAfter]
+    .filter((ms) => toZonedDateTimeString(new Date(ms), timeZone) === wallClock)
+    .sort((x, y) => x - y);
+
+  if (candidates.length > 0) return new Date(candidates[0]);
+  // Skipped by a spring-forward change: apply the offset from before it.
+  return new Date(wallClockMs - offsetBefore);
+}
+
+/** Converts a wall-clock time from one timezone to another. */
+export function convertDateTimeString(
+  value: string,
+  fromTimeZone: string,
+  toTimeZone: string,
+): string {
+  return toZonedDateTimeString(fromZonedDateTimeString(value, fromTimeZone), toTimeZone);
+}
+
+/**
+ * A Date whose local fields show the current wall-clock time in `timeZone`,
+ * for use with the calendar helpers in dateTime.ts.
+ */
+export function nowInTimeZone(timeZone: string, now: Date = new Date()): Date {
+  const fields = zonedFields(now, timeZone);
+  return new Date(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second,
+  );
+}
+
+/** Whether two timezones show the same wall-clock time at `instant`. */
+export function isSameWallClock(a: string, b: string, instant: Date = new Date()): boolean {
+  return timeZoneOffsetMs(instant, a) === timeZoneOffsetMs(instant, b);
+}
+
+/**
+ * An office-time range converted to the viewer's own time, or null when both
+ * zones agree at that time.
+ */
+export function viewerTimeRange(
+  range: TimeRange,
+  officeTimeZone: string,
+  viewerTimeZone: string = browserTimeZone(),
+): TimeRange | null {
+  const start = fromZonedDateTimeString(range.startAt, officeTimeZone);
+  if (isSameWallClock(officeTimeZone, viewerTimeZone, start)) return null;
+
+  return {
+    startAt: toZonedDateTimeString(start, viewerTimeZone),
+    endAt: convertDateTimeString(range.endAt, officeTimeZone, viewerTimeZone),
+  };
+}
+
+/** Short name of the zone at `instant` in `locale`, e.g. "GMT", "BST" or "GMT+1". */
+export function timeZoneAbbreviation(
+  locale: string,
+  timeZone: string,
+  instant: Date = new Date(),
+): string {
+  const part = new Intl.DateTimeFormat(locale, {timeZone, timeZoneName: "short"})
+    .formatToParts(instant)
+    .find((candidate) => candidate.type === "timeZoneName");
+  return part?.value ?? timeZone;
+}
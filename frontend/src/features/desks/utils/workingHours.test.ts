@@ -0,0 +1,22 @@
+import {describe, expect, it} from "vitest";
+import {validateWorkingHours} from "./workingHours";
+
+describe("validateWorkingHours", () => {
+  it("accepts a day that ends at midnight", () => {
+    expect(validateWorkingHours({start: "08:30", end: "24:00"})).toBeNull();
+  });
+
+  it.each([
+    {start: "09:00", end: "24:30"},
+    {start: "24:00", end: "24:00"},
+    {start: "9:00", end: "17:00"},
+  ])("rejects $start–$end as malformed", (hours) => {
+    expect(validateWorkingHours(hours)).toEqual({key: "workingHours.errors.format"});
+  });
+
+  it("rejects an end that isn't after the start", () => {
+    expect(validateWorkingHours({start: "17:00", end: "09:00"})).toEqual({
+      key: "workingHours.errors.endBeforeStart",
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  atTimeOfDay,
+  parseTimeOfDay,
+  SLOT_START_TIMES,
+  type TimeRange,
+  toLocalDateTimeString,
+} from "@/features/desks/utils/dateTime";
+import {formatTimeRange} from "@/lib/i18n/format";
+import type {Message} from "@/lib/i18n/i18n";
+
+/** Opening hours as "HH:mm" times; `end` may be "24:00" for midnight. */
+export type WorkingHours = {
+  start: string;
+  end: string;
+};
+
+/** Used for locations without configured hours. */
+export const DEFAULT_WORKING_HOURS: WorkingHours = {start: "09:00", end: "17:00"};
+
+/** Times a working day can end at: every slot boundary after 00:00, up to midnight. */
+export const SLOT_END_TIMES = [...SLOT_START_TIMES.slice(1), "24:00"];
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+export function validateWorkingHours(hours: WorkingHours): Message | null {
+  // Only the end may be midnight at the end of the day.
+  if (!TIME_PATTERN.test(hours.start) || hours.start === "24:00" || !TIME_PATTERN.test(hours.end)) {
+    return {key: "workingHours.errors.format"};
+  }
+  if (hours.end <= hours.start) {
+    return {key: "workingHours.errors.endBeforeStart"};
+  }
+  return null;
+}
+
+/** The working hours on `date` as local datetime strings. */
+export function workingDayRange(date: Date, hours: WorkingHours): TimeRange {
+  const start = parseTimeOfDay(hours.start);
+  const end = parseTimeOfDay(hours.end);
+  return {
+    startAt: toLocalDateTimeString(atTimeOfDay(date, start.hours, start.minutes)),
+    // "24:00" rolls over to midnight of the next day.
+    endAt: toLocalDateTimeString(atTimeOfDay(date, end.hours, end.minutes)),
+  };
+}
+
+/** Slot start times ("HH:mm") that fall within the working hours. */
+export function workingSlotStartTimes(hours: WorkingHours): string[] {
+  return SLOT_START_TIMES.filter((time) => time >= hours.start && time < hours.end);
+}
+
+/** The earliest start and latest end across several locations' hours. */
+export function spanWorkingHours(hoursList: WorkingHours[]): WorkingHours {
+  if (hoursList.length === 0) return DEFAULT_WORKING_HOURS;
+  return hoursList.reduce((span, hours) => ({
+    start: hours.start < span.start ? hours.start : span.start,
+    end: hours.end > span.end ? hours.end : span.end,
+  }));
+}
+
+export function formatWorkingHours(locale: string, hours: WorkingHours): string {
+  return formatTimeRange(locale, {startAt: hours.start, endAt: hours.end});
+}
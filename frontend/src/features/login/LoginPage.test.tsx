@@ -1,6 +1,8 @@
 import {describe, expect, it, vi} from "vitest";
 import {screen, waitFor} from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
 
 import {renderWithProviders} from "@/test-utils/renderWithProviders";
 import LoginPage from "./LoginPage.tsx";
@@ -47,4 +49,51 @@ describe("LoginPage", () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  it("keeps log in disabled until the form is valid and shows a failed login as a whole", async () => {
+    const user = userEvent.setup();
+
+    renderWithProviders(<LoginPage/>, {
+      initialEntries: ["/login"],
+    });
+
+    const submitButton = screen.getByRole("button", {name: /log in/i});
+    expect(submitButton).toBeDisabled();
+    expect(screen.getByRole("link", {name: /forgot password/i}))
+      .toHaveAttribute("href", "/forgot-password");
+
+    await user.type(screen.getByLabelText(/email/i), "test@example.com");
+    expect(submitButton).toBeDisabled();
+    await user.type(screen.getByLabelText(/password/i), "wrong");
+    expect(submitButton).toBeEnabled();
+
+    await user.click(submitButton);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Invalid credentials");
+    expect(screen.getByLabelText(/password/i)).not.toHaveAttribute("aria-invalid");
+  });
+
+  it("logs in people who signed up without a name", async () => {
+    server.use(
+      http.post("*/users/login", () =>
+        HttpResponse.json({
+          token: "fake-jwt-token",
+          id: 4,
+          email: "noname@example.com",
+          fullName: null,
+          role: "member",
+        }),
+      ),
+    );
+    const user = userEvent.setup();
+
+    renderWithProviders(<LoginPage/>, {initialEntries: ["/login"]});
+
+    await user.type(screen.getByLabelText(/email/i), "noname@example.com");
+    await user.type(screen.getByLabelText(/password/i), "Password123!");
+    await user.click(screen.getByRole("button", {name: /log in/i}));
+
+    expect(await screen.findByText(/login successful/i)).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+});
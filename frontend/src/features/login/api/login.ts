@@ -1,55 +1,41 @@
 import {useMutation} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {type Infer, nullable, number, object, optional, string} from "@/lib/decode";
 
 export type LoginRequest = {
   email: string;
   password: string;
 };
 
-export type LoginResponse = {
-  id: number;
-  token: string;
-  email: string;
-  fullName: string;
-};
-
-type ApiError = {
-  message?: string;
-};
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "";
-
-export async function login(data: LoginRequest): Promise<LoginResponse> {
-  const response = await fetch(`${API_BASE_URL}/users/login`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(data),
-  });
-
-  if (!response.ok) {
-    let errorBody: ApiError | undefined;
-    try {
-      errorBody = (await response.json()) as ApiError;
-    } catch {
-      // ignore parse error; we'll fall back to generic message
-    }
-
-    const message =
-      errorBody?.message ||
-      (response.status === 401
-        ? "Invalid email or password."
-        : "Failed to log in.");
-
-    throw new Error(message);
-  }
-
-  return (await response.json()) as LoginResponse;
-}
+const loginResponseDecoder = object({
+  id: number,
+  token: string,
+  email: string,
+  /** Null for people who signed up without a name. */
+  fullName: nullable(string),
+  /** Not sent by every server version; the token's claims are the fallback. */
+  role: optional(string),
+});
+
+export type LoginResponse = Infer<typeof loginResponseDecoder>;
+
+export const loginEndpoint = defineEndpoint<LoginRequest, LoginResponse>({
+  method: "POST",
+  path: () => "/users/login",
+  body: (input) => input,
+  auth: false,
+  response: loginResponseDecoder,
+  errorMessages: {
+    401: "login.errors.invalidCredentials",
+    default: "login.errors.failed",
+  },
+});
 
 export function useLoginMutation() {
-  return useMutation<LoginResponse, Error, LoginRequest>({
+  const {request} = useApiClient();
+
+  return useMutation<LoginResponse, ApiError, LoginRequest>({
     mutationKey: ["login"],
-    mutationFn: login,
+    mutationFn: (input) => request(loginEndpoint, input),
   });
-}
\ No newline at end of file
+}
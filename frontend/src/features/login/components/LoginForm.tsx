@@ -1,45 +1,71 @@
 import React, {type FormEvent, useState} from "react";
-import {Link, useNavigate} from "react-router-dom";
+import {Link, type Location, useLocation, useNavigate} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
 import {useLoginMutation} from "@/features/login/api/login.ts";
-import {useAuth} from "@/features/auth/AuthContext";
+import {useAuth} from "@/features/auth/useAuth";
+import {resolveRole} from "@/features/auth/roles";
+import {useForm} from "@/lib/forms/useForm";
+import {emailFormat, required} from "@/lib/forms/validation";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const inputStyle: React.CSSProperties = {width: "100%", padding: "0.5rem", boxSizing: "border-box"};
 
 export const LoginForm: React.FC = () => {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
+  // No strength rules here: accounts made before them still have to log in.
+  const form = useForm({
+    initialValues: {email: "", password: ""},
+    rules: {
+      email: [required(), emailFormat()],
+      password: [required()],
+    },
+  });
+  const [serverError, setServerError] = useState<string | null>(null);
 
   const navigate = useNavigate();
-  const {login} = useAuth();
+  // Set by RequireAuth, e.g. for a desk's check-in page opened from its QR code.
+  const from = (useLocation().state as { from?: Location } | null)?.from;
+  const {login, sessionExpired} = useAuth();
+  const {t} = useI18n();
 
   const {
     mutate: submitLogin,
     isPending,
-    isError,
     isSuccess,
-    error,
     data: loggedInUser,
   } = useLoginMutation();
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (!form.isValid) return;
+    setServerError(null);
 
+    const {email, password} = form.values;
     submitLogin(
       {
         email: email.trim(),
         password,
       },
       {
+        onError: (error) => {
+          if (!form.showServerErrors(error)) setServerError(error.message);
+        },
         onSuccess: (data) => {
           login({
             user: {
               id: data.id,
               email: data.email,
-              fullName: data.fullName
+              fullName: data.fullName,
+              role: resolveRole(data.role, data.token),
             },
             accessToken: data.token,
           });
 
-          // Redirect somewhere after login:
-          navigate("/dashboard", {replace: true});
+          // Back to the page that asked for a login, or the dashboard.
+          navigate(from ? `${from.pathname}${from.search}${from.hash}` : "/dashboard", {
+            replace: true,
+          });
         },
       },
     );
@@ -57,72 +83,72 @@ export const LoginForm: React.FC = () => {
       }}
     >
       <h1 style={{marginBottom: "1.5rem", fontSize: "1.5rem"}}>
-        Log in
+        {t("login.title")}
       </h1>
 
-      <form onSubmit={handleSubmit}>
-        <div style={{marginBottom: "1rem"}}>
-          <label
-            htmlFor="email"
-            style={{display: "block", marginBottom: "0.25rem"}}
-          >
-            Email
-          </label>
+      {sessionExpired && (
+        <p role="status" style={{marginBottom: "1rem", color: "#92400e"}}>
+          {t("login.sessionExpired")}
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} noValidate>
+        <FormField label={t("auth.email")} error={form.errorFor("email")} style={{marginBottom: "1rem"}}>
           <input
             id="email"
             type="email"
+            autoComplete="email"
             required
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            style={{width: "100%", padding: "0.5rem", boxSizing: "border-box"}}
+            {...form.inputProps("email")}
+            style={inputStyle}
           />
-        </div>
+        </FormField>
 
-        <div style={{marginBottom: "1rem"}}>
-          <label
-            htmlFor="password"
-            style={{display: "block", marginBottom: "0.25rem"}}
-          >
-            Password
-          </label>
+        <FormField
+          label={t("auth.password")}
+          error={form.errorFor("password")}
+          style={{marginBottom: "1rem"}}
+        >
           <input
             id="password"
             type="password"
+            autoComplete="current-password"
             required
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            style={{width: "100%", padding: "0.5rem", boxSizing: "border-box"}}
+            {...form.inputProps("password")}
+            style={inputStyle}
           />
-        </div>
+        </FormField>
 
-        <button
+        <p style={{margin: "-0.5rem 0 1rem", fontSize: "0.9rem"}}>
+          <Link to="/forgot-password">{t("login.forgotPassword")}</Link>
+        </p>
+
+        <Button
           type="submit"
-          disabled={isPending}
-          style={{
-            padding: "0.5rem 1rem",
-            cursor: isPending ? "default" : "pointer",
-            marginRight: "0.75rem",
-          }}
+          variant="primary"
+          size="lg"
+          disabled={!form.isValid || isPending}
+          style={{marginRight: "0.75rem"}}
         >
-          {isPending ? "Logging in..." : "Log in"}
-        </button>
+          {isPending ? t("login.submitting") : t("login.submit")}
+        </Button>
 
         <span style={{fontSize: "0.9rem"}}>
-                    Need an account?{" "}
-          <Link to="/signup">Sign up</Link>
+                    {t("login.needAccount")}{" "}
+          <Link to="/signup">{t("login.signUp")}</Link>
                 </span>
       </form>
 
-      {isError && (
-        <p style={{marginTop: "1rem", color: "red"}}>
-          {(error as Error).message}
-        </p>
+      {serverError && (
+        <Alert tone="error" style={{marginTop: "1rem"}}>
+          {serverError}
+        </Alert>
       )}
 
       {isSuccess && loggedInUser && (
         <div style={{marginTop: "1.5rem", fontSize: "0.9rem"}}>
-          <p>Login successful.</p>
-          <p>Email: {loggedInUser.email ?? loggedInUser.email}</p>
+          <p>{t("login.success")}</p>
+          <p>{t("auth.emailValue", {email: loggedInUser.email})}</p>
         </div>
       )}
     </div>
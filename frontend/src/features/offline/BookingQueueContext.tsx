@@ -0,0 +1,152 @@
+import React, {type ReactNode, useCallback, useEffect, useMemo, useRef, useState} from "react";
+import {useMutation, useQueryClient} from "@tanstack/react-query";
+import {useAuth} from "@/features/auth/useAuth";
+import {deskBookingEndpoints} from "@/features/desks/api/deskBookings";
+import {
+  createQueuedBooking,
+  type QueuedBooking,
+  type QueuedBookingInput,
+  readBookingQueue,
+  type ReplayResult,
+  writeBookingQueue,
+} from "@/features/offline/bookingQueue";
+import {BookingQueueContext, type BookingQueueContextValue} from "@/features/offline/useBookingQueue";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {ApiError, UnexpectedResponseError, useApiClient} from "@/lib/apiClient";
+
+type ReplayInput = {
+  userId: number | null;
+  pending: QueuedBooking[];
+};
+
+/**
+ * Bookings made offline, persisted per user in localStorage and sent in
+ * order whenever the app comes back online.
+ */
+export const BookingQueueProvider: React.FC<{ children: ReactNode }> = ({children}) => {
+  const {user} = useAuth();
+  const userId = user?.id ?? null;
+  const {request, isAuthenticated} = useApiClient();
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+
+  const [state, setState] = useState(() => ({
+    userId,
+    queue: readBookingQueue(userId),
+  }));
+
+  // Reload when a different user signs in.
+  let current = state;
+  if (state.userId !== userId) {
+    current = {userId, queue: readBookingQueue(userId)};
+    setState(current);
+  }
+  const {queue} = current;
+
+  const [results, setResults] = useState<ReplayResult[]>([]);
+
+  const updateQueue = useCallback((update: (queue: QueuedBooking[]) => QueuedBooking[]) => {
+    setState((previous) => {
+      const next = update(previous.queue);
+      writeBookingQueue(previous.userId, next);
+      return {...previous, queue: next};
+    });
+  }, []);
+
+  // Each queued booking is sent in turn. Conflicts and other API errors are
+  // final and reported; a network error means we're not really back, and a
+  // 401 means the session ended, so the rest stay queued for the next
+  // attempt. A response we can't read still means the server accepted the
+  // booking.
+  const replayMutation = useMutation<ReplayResult[], Error, ReplayInput>({
+    mutationFn: async ({pending}) => {
+      const replayed: ReplayResult[] = [];
+      for (const booking of pending) {
+        try {
+          await request(deskBookingEndpoints.create, {
+            deskId: booking.deskId,
+            startAt: booking.startAt,
+            endAt: booking.endAt,
+          });
+          replayed.push({booking, status: "booked"});
+        } catch (err) {
+          if (err instanceof UnexpectedResponseError) {
+            replayed.push({booking, status: "booked"});
+            continue;
+          }
+          if (!(err instanceof ApiError) || err.status === 401) break;
+          replayed.push({
+            booking,
+            status: err.status === 409 ? "conflict" : "failed",
+            error: err,
+          });
+        }
+      }
+      return replayed;
+    },
+    // Bookings are always sent, even if React Query thinks we're offline.
+    networkMode: "always",
+    onSuccess: (replayed, {userId: sentFor}) => {
+      if (replayed.length === 0) return;
+      // A 401 signs the user out mid-replay, so update the queue of whoever
+      // sent it rather than whoever is signed in now.
+      const sent = new Set(replayed.map((result) => result.booking.id));
+      const remaining = readBookingQueue(sentFor).filter((booking) => !sent.has(booking.id));
+      writeBookingQueue(sentFor, remaining);
+      setState((previous) => (previous.userId === sentFor ? {...previous, queue: remaining} : previous));
+      setResults((previous) => [...previous, ...replayed]);
+      return Promise.all([
+        queryClient.invalidateQueries({queryKey: ["deskAvailability"]}),
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+      ]);
+    },
+  });
+  const {mutate: replay} = replayMutation;
+
+  // Guards against sending the same queue twice, e.g. when an effect re-runs
+  // before the first attempt has finished.
+  const isSendingRef = useRef(false);
+
+  const sendNow = useCallback(() => {
+    const pending = readBookingQueue(userId);
+    if (isSendingRef.current || pending.length === 0) return;
+    isSendingRef.current = true;
+    replay({userId, pending}, {
+      onSettled: () => {
+        isSendingRef.current = false;
+      },
+    });
+  }, [userId, replay]);
+
+  // Send on every reconnect, and on startup for bookings left from last time.
+  useEffect(() => {
+    if (isOnline && isAuthenticated) sendNow();
+  }, [isOnline, isAuthenticated, sendNow]);
+
+  const enqueue = useCallback(
+    (booking: QueuedBookingInput) => {
+      updateQueue((previous) => [...previous, createQueuedBooking(booking)]);
+    },
+    [updateQueue],
+  );
+
+  const dismissResults = useCallback(() => setResults([]), []);
+
+  const value = useMemo<BookingQueueContextValue>(
+    () => ({
+      queue,
+      results,
+      isSending: replayMutation.isPending,
+      enqueue,
+      sendNow,
+      dismissResults,
+    }),
+    [queue, results, replayMutation.isPending, enqueue, sendNow, dismissResults],
+  );
+
+  return (
+    <BookingQueueContext.Provider value={value}>
+      {children}
+    </BookingQueueContext.Provider>
+  );
+};
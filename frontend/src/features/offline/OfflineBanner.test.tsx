@@ -0,0 +1,156 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {screen, waitFor, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {http, HttpResponse} from "msw";
+import {DeskBookingModal} from "@/features/desks/components/DeskBookingModal";
+import {createTestDesk} from "@/test-utils/desks";
+import {server} from "@/test-utils/msw/server";
+import {goOffline, goOnline} from "@/test-utils/network";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {OfflineBanner} from "./OfflineBanner";
+
+const desk = createTestDesk();
+
+const QUEUE_STORAGE_KEY = "bookingQueue:1";
+
+const initialAuth = {
+  user: {id: 1, email: "test@example.com", fullName: "Test User"},
+  accessToken: "abc123",
+};
+
+describe("OfflineBanner", () => {
+  let user: UserEvent;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+  });
+
+  afterEach(() => {
+    window.localStorage.removeItem(QUEUE_STORAGE_KEY);
+  });
+
+  it("queues a booking made offline and sends it on reconnect", async () => {
+    const onClose = vi.fn();
+    renderWithProviders(
+      <>
+        <OfflineBanner/>
+        <DeskBookingModal desk={desk} isOpen onClose={onClose}/>
+      </>,
+      {initialAuth},
+    );
+    const [firstSlot] = await screen.findAllByRole("option", {name: /available$/i});
+
+    goOffline();
+
+    expect(await screen.findByText(/you're offline/i)).toBeInTheDocument();
+    expect(screen.getByText(/offline: showing data saved/i)).toBeInTheDocument();
+
+    await user.click(firstSlot);
+    await user.click(
+      screen.getByRole("button", {name: /^book 9:00 AM – 9:30 AM when back online$/i}),
+    );
+
+    expect(onClose).toHaveBeenCalled();
+    expect(await screen.findByText("1 booking waiting to be sent.")).toBeInTheDocument();
+    expect(JSON.parse(window.localStorage.getItem(QUEUE_STORAGE_KEY) ?? "[]")).toHaveLength(1);
+
+    goOnline();
+
+    const results = await screen.findByRole("list", {name: /queued bookings/i});
+    expect(
+      within(results).getByText(/^booked desk a on .*, 9:00 AM – 9:30 AM\.$/i),
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/waiting to be sent/i)).not.toBeInTheDocument();
+    expect(window.localStorage.getItem(QUEUE_STORAGE_KEY)).toBeNull();
+  });
+
+  it("closes the modal when the server accepts a booking with an unreadable reply", async () => {
+    server.use(
+      http.post("*/desks/:deskId/bookings", () => new HttpResponse("<html>", {status: 200})),
+    );
+    const onClose = vi.fn();
+    renderWithProviders(<DeskBookingModal desk={desk} isOpen onClose={onClose}/>, {initialAuth});
+
+    await user.click((await screen.findAllByRole("option", {name: /available$/i}))[0]);
+    await user.click(screen.getByRole("button", {name: /^book 9:00 AM – 9:30 AM$/i}));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    expect(window.localStorage.getItem(QUEUE_STORAGE_KEY)).toBeNull();
+  });
+
+  it.each([
+    ["a reply missing its fields", () => HttpResponse.json({}, {status: 201})],
+    ["a reply that isn't JSON", () => new HttpResponse("<html>", {status: 200})],
+  ])("counts a queued booking the server accepted with %s as booked", async (_reply, resolver) => {
+    server.use(http.post("*/desks/:deskId/bookings", resolver));
+    window.localStorage.setItem(
+      QUEUE_STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: "queued-1",
+          deskId: 1,
+          deskName: "Desk A",
+          startAt: "2099-01-05T09:00:00",
+          endAt: "2099-01-05T09:30:00",
+          queuedAt: 0,
+        },
+      ]),
+    );
+    renderWithProviders(<OfflineBanner/>, {initialAuth});
+
+    const results = await screen.findByRole("list", {name: /queued bookings/i});
+    expect(
+      within(results).getByText(/^booked desk a on .*, 9:00 AM – 9:30 AM\.$/i),
+    ).toBeInTheDocument();
+    expect(window.localStorage.getItem(QUEUE_STORAGE_KEY)).toBeNull();
+  });
+
+  it("keeps queued bookings until the user signs in again after a 401", async () => {
+    server.use(
+      http.post("*/desks/:deskId/bookings", () => new HttpResponse(null, {status: 401})),
+    );
+    const queued = [
+      {
+        id: "queued-1",
+        deskId: 1,
+        deskName: "Desk A",
+        startAt: "2099-01-05T09:00:00",
+        endAt: "2099-01-05T09:30:00",
+        queuedAt: 0,
+      },
+    ];
+    window.localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queued));
+    renderWithProviders(<OfflineBanner/>, {initialAuth});
+
+    await waitFor(() => expect(window.localStorage.getItem("auth")).toBeNull());
+    expect(screen.queryByRole("list", {name: /queued bookings/i})).not.toBeInTheDocument();
+    expect(JSON.parse(window.localStorage.getItem(QUEUE_STORAGE_KEY) ?? "[]")).toEqual(queued);
+  });
+
+  it("reports queued bookings that were taken in the meantime", async () => {
+    // The mock API always has the 12:00 slot booked by someone else.
+    window.localStorage.setItem(
+      QUEUE_STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: "queued-1",
+          deskId: 1,
+          deskName: "Desk A",
+          startAt: "2099-01-05T12:00:00",
+          endAt: "2099-01-05T12:30:00",
+          queuedAt: 0,
+        },
+      ]),
+    );
+    renderWithProviders(<OfflineBanner/>, {initialAuth});
+
+    const alert = await screen.findByRole("alert");
+    expect(alert).toHaveTextContent(
+      /desk a on .*, 12:00 PM – 12:30 PM was booked by someone else while you were offline/i,
+    );
+
+    await user.click(within(alert).getByRole("button", {name: /dismiss/i}));
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+import React from "react";
+import {Button} from "@/components/ui/Button";
+import {theme} from "@/components/ui/theme";
+import {useBookingQueue} from "@/features/offline/useBookingQueue";
+import type {ReplayResult} from "@/features/offline/bookingQueue";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+/** Connection state, bookings waiting to be sent and how the sent ones went. */
+export const OfflineBanner: React.FC = () => {
+  const {t, formatDate, formatTimeRange} = useI18n();
+  const isOnline = useOnlineStatus();
+  const {queue, results, isSending, sendNow, dismissResults} = useBookingQueue();
+
+  if (isOnline && queue.length === 0 && results.length === 0) return null;
+
+  const describe = (result: ReplayResult) => {
+    const params = {
+      name: result.booking.deskName,
+      date: formatDate(result.booking.startAt),
+      time: formatTimeRange(result.booking),
+    };
+    if (result.status === "booked") return t("offline.replay.booked", params);
+    if (result.status === "conflict") return t("offline.replay.conflict", params);
+    return t("offline.replay.failed", {...params, message: result.error.message});
+  };
+
+  return (
+    <div
+      style={{
+        padding: "0.5rem 1rem",
+        borderBottom: "1px solid #fcd34d",
+        backgroundColor: "#fffbeb",
+        fontSize: "0.9rem",
+      }}
+    >
+      <div role="status" style={{display: "flex", alignItems: "center", gap: "0.75rem"}}>
+        {!isOnline && <strong>{t("offline.offline")}</strong>}
+        {isSending ? (
+          <span>{t("offline.sending")}</span>
+        ) : (
+          queue.length > 0 && <span>{t("offline.queued", {count: queue.length})}</span>
+        )}
+        {isOnline && queue.length > 0 && !isSending && (
+          <Button onClick={sendNow}>{t("offline.sendNow")}</Button>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div
+          role="alert"
+          style={{display: "flex", alignItems: "flex-start", gap: "0.75rem", marginTop: "0.4rem"}}
+        >
+          <ul aria-label={t("offline.replay.title")} style={{margin: 0, paddingLeft: "1.25rem"}}>
+            {results.map((result) => (
+              <li
+                key={result.booking.id}
+                style={{color: result.status === "booked" ? undefined : theme.color.danger}}
+              >
+                {describe(result)}
+              </li>
+            ))}
+          </ul>
+          <Button onClick={dismissResults} style={{marginLeft: "auto"}}>
+            {t("common.dismiss")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
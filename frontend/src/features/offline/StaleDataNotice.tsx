@@ -0,0 +1,38 @@
+import React from "react";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type StaleDataNoticeProps = {
+  /** When the data shown was last fetched, in epoch milliseconds. */
+  updatedAt: number;
+  /** The last refresh failed, so the data may be out of date even online. */
+  refreshFailed?: boolean;
+};
+
+/** Marks data as saved rather than live while offline or after a failed refresh. */
+export const StaleDataNotice: React.FC<StaleDataNoticeProps> = ({updatedAt, refreshFailed}) => {
+  const {t, formatDate, formatTime} = useI18n();
+  const isOnline = useOnlineStatus();
+
+  if (updatedAt === 0 || (isOnline && !refreshFailed)) return null;
+
+  const savedAt = new Date(updatedAt);
+  const params = {date: formatDate(savedAt), time: formatTime(savedAt)};
+
+  return (
+    <p
+      role="status"
+      style={{
+        display: "inline-block",
+        padding: "0.3rem 0.6rem",
+        margin: "0 0 0.75rem",
+        fontSize: "0.85rem",
+        backgroundColor: "#fef3c7",
+        border: "1px solid #fcd34d",
+        borderRadius: "4px",
+      }}
+    >
+      {isOnline ? t("offline.refreshFailed", params) : t("offline.staleData", params)}
+    </p>
+  );
+};
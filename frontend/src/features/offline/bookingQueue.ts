@@ -0,0 +1,49 @@
+import type {CreateBookingInput} from "@/features/desks/api/deskBookings";
+
+/** A booking made without a connection, waiting to be sent. */
+export type QueuedBooking = CreateBookingInput & {
+  /** Client-side id, so a sent booking is never sent again. */
+  id: string;
+  /** The desk's name when it was booked, for reporting the outcome. */
+  deskName: string;
+  queuedAt: number;
+};
+
+export type QueuedBookingInput = Omit<QueuedBooking, "id" | "queuedAt">;
+
+export type ReplayResult =
+  | { booking: QueuedBooking; status: "booked" }
+  | { booking: QueuedBooking; status: "conflict" | "failed"; error: Error };
+
+function storageKey(userId: number): string {
+  return `bookingQueue:${userId}`;
+}
+
+/** The user's queued bookings, oldest first. */
+export function readBookingQueue(userId: number | null): QueuedBooking[] {
+  if (userId == null) return [];
+
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    return raw ? (JSON.parse(raw) as QueuedBooking[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeBookingQueue(userId: number | null, queue: QueuedBooking[]): void {
+  if (userId == null) return;
+
+  if (queue.length === 0) {
+    window.localStorage.removeItem(storageKey(userId));
+  } else {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(queue));
+  }
+}
+
+export function createQueuedBooking(
+  input: QueuedBookingInput,
+  now: number = Date.now(),
+): QueuedBooking {
+  return {...input, id: crypto.randomUUID(), queuedAt: now};
+}
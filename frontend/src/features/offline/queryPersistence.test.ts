@@ -0,0 +1,46 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {QueryClient} from "@tanstack/react-query";
+import {
+  QUERY_CACHE_MAX_AGE_MS,
+  QUERY_CACHE_STORAGE_KEY,
+  restoreQueryCache,
+  saveQueryCache,
+} from "./queryPersistence";
+
+const now = Date.UTC(2099, 0, 5, 9, 0);
+
+describe("query cache persistence", () => {
+  beforeEach(() => {
+    window.localStorage.removeItem(QUERY_CACHE_STORAGE_KEY);
+  });
+
+  it("restores desk, location and availability queries but nothing personal", () => {
+    const source = new QueryClient();
+    source.setQueryData(["desks"], [{id: 1, name: "Desk A"}], {updatedAt: now - 1000});
+    source.setQueryData(["deskAvailability", 1, "start", "end"], []);
+    source.setQueryData(["myBookings"], [{id: 9}]);
+    saveQueryCache(source, window.localStorage, now);
+
+    const target = new QueryClient();
+    expect(restoreQueryCache(target, window.localStorage, now)).toBe(true);
+
+    expect(target.getQueryData(["desks"])).toEqual([{id: 1, name: "Desk A"}]);
+    // The restored data keeps its age, so it's refetched as soon as possible.
+    expect(target.getQueryState(["desks"])?.dataUpdatedAt).toBe(now - 1000);
+    expect(target.getQueryData(["deskAvailability", 1, "start", "end"])).toEqual([]);
+    expect(target.getQueryData(["myBookings"])).toBeUndefined();
+  });
+
+  it("drops a saved cache that is too old", () => {
+    const source = new QueryClient();
+    source.setQueryData(["desks"], [{id: 1, name: "Desk A"}]);
+    saveQueryCache(source, window.localStorage, now);
+
+    const target = new QueryClient();
+    expect(restoreQueryCache(target, window.localStorage, now + QUERY_CACHE_MAX_AGE_MS + 1))
+      .toBe(false);
+
+    expect(target.getQueryData(["desks"])).toBeUndefined();
+    expect(window.localStorage.getItem(QUERY_CACHE_STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  type DehydratedState,
+  dehydrate,
+  hydrate,
+  type Query,
+  type QueryClient,
+} from "@tanstack/react-query";
+
+/*
+ * Keeps a copy of the desk, location and availability queries in
+ * localStorage, so the dashboard can still show them when the network is
+ * gone. Restored queries keep their original update time and are refetched
+ * as soon as the app is back online.
+ */
+
+export const QUERY_CACHE_STORAGE_KEY = "queryCache";
+
+/** Saved data older than this is dropped instead of shown. */
+export const QUERY_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Bump when the shape of a saved query's data changes.
+const CACHE_VERSION = 2;
+
+const PERSISTED_QUERIES = new Set(["desks", "locations", "deskAvailability"]);
+
+// Queries settle in bursts (the dashboard loads one availability per desk).
+const SAVE_DELAY_MS = 1000;
+
+type PersistedQueryCache = {
+  version: number;
+  savedAt: number;
+  state: DehydratedState;
+};
+
+function shouldPersist(query: Query): boolean {
+  // Keep data whose last refetch failed: that's exactly what offline needs.
+  return query.state.data !== undefined && PERSISTED_QUERIES.has(String(query.queryKey[0]));
+}
+
+export function saveQueryCache(
+  queryClient: QueryClient,
+  storage: Storage = window.localStorage,
+  now: number = Date.now(),
+): void {
+  const cache: PersistedQueryCache = {
+    version: CACHE_VERSION,
+    savedAt: now,
+    state: dehydrate(queryClient, {shouldDehydrateQuery: shouldPersist}),
+  };
+  try {
+    storage.setItem(QUERY_CACHE_STORAGE_KEY, JSON.stringify(cache));
+  } catch {
+    // Storage is full or blocked; the app works without the offline copy.
+  }
+}
+
+/** Loads saved queries into `queryClient`; returns whether there were any. */
+export function restoreQueryCache(
+  queryClient: QueryClient,
+  storage: Storage = window.localStorage,
+  now: number = Date.now(),
+): boolean {
+  let cache: PersistedQueryCache;
+  try {
+    const raw = storage.getItem(QUERY_CACHE_STORAGE_KEY);
+    if (!raw) return false;
+    cache = JSON.parse(raw) as PersistedQueryCache;
+  } catch {
+    return false;
+  }
+
+  if (cache.version !== CACHE_VERSION || now - cache.savedAt > QUERY_CACHE_MAX_AGE_MS) {
+    storage.removeItem(QUERY_CACHE_STORAGE_KEY);
+    return false;
+  }
+  hydrate(queryClient, cache.state);
+  return cache.state.queries.length > 0;
+}
+
+export function clearQueryCache(storage: Storage = window.localStorage): void {
+  storage.removeItem(QUERY_CACHE_STORAGE_KEY);
+}
+
+/** Saves the cache shortly after queries change. Returns a function that stops. */
+export function persistQueryCache(
+  queryClient: QueryClient,
+  storage: Storage = window.localStorage,
+): () => void {
+  let timer: number | undefined;
+  const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(() => saveQueryCache(queryClient, storage), SAVE_DELAY_MS);
+  });
+
+  return () => {
+    window.clearTimeout(timer);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Registers the service worker in public/sw.js, which caches the app shell
+ * so the app still opens without a connection. Only production builds use
+ * it; in development it would serve stale modules over Vite's.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(() => {
+      // Without it the app still works, just not offline.
+    });
+  });
+}
@@ -0,0 +1,24 @@
+import {createContext, useContext} from "react";
+import type {QueuedBooking, QueuedBookingInput, ReplayResult} from "@/features/offline/bookingQueue";
+
+export type BookingQueueContextValue = {
+  /** Bookings waiting for a connection, oldest first. */
+  queue: QueuedBooking[];
+  /** Outcomes of queued bookings sent since the user last dismissed them. */
+  results: ReplayResult[];
+  isSending: boolean;
+  enqueue: (booking: QueuedBookingInput) => void;
+  /** Tries the queue again without waiting for the next reconnect. */
+  sendNow: () => void;
+  dismissResults: () => void;
+};
+
+export const BookingQueueContext = createContext<BookingQueueContextValue | undefined>(undefined);
+
+export const useBookingQueue = (): BookingQueueContextValue => {
+  const ctx = useContext(BookingQueueContext);
+  if (!ctx) {
+    throw new Error("useBookingQueue must be used within a BookingQueueProvider");
+  }
+  return ctx;
+};
@@ -0,0 +1,13 @@
+import {useSyncExternalStore} from "react";
+import {onlineManager} from "@tanstack/react-query";
+
+/**
+ * Whether the app is online, as React Query sees it: queries and mutations
+ * pause while this is false and resume when it turns true.
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline(),
+  );
+}
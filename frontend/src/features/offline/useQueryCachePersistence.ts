@@ -0,0 +1,21 @@
+import {useEffect} from "react";
+import {useQueryClient} from "@tanstack/react-query";
+import {useAuth} from "@/features/auth/useAuth";
+import {clearQueryCache, persistQueryCache} from "@/features/offline/queryPersistence";
+
+/**
+ * Saves cached desk data for offline use while someone is signed in, and
+ * forgets it when they sign out.
+ */
+export function useQueryCachePersistence() {
+  const {isAuthenticated} = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      clearQueryCache();
+      return;
+    }
+    return persistQueryCache(queryClient);
+  }, [isAuthenticated, queryClient]);
+}
@@ -0,0 +1,24 @@
+import {describe, expect, it} from "vitest";
+import {screen} from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import ForgotPasswordPage from "./ForgotPasswordPage";
+
+describe("ForgotPasswordPage", () => {
+  it("sends a reset link without saying whether the account exists", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<ForgotPasswordPage/>, {initialEntries: ["/forgot-password"]});
+
+    const submitButton = screen.getByRole("button", {name: /send reset link/i});
+    expect(submitButton).toBeDisabled();
+
+    await user.type(screen.getByLabelText(/email/i), "nobody@example.com");
+    await user.click(submitButton);
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "If there's an account for nobody@example.com, a reset link is on its way.",
+    );
+    expect(screen.queryByLabelText(/email/i)).not.toBeInTheDocument();
+    expect(screen.getByRole("link", {name: /back to log in/i})).toHaveAttribute("href", "/login");
+  });
+});
@@ -0,0 +1,15 @@
+import React from "react";
+import ForgotPasswordForm from "@/features/passwordReset/components/ForgotPasswordForm.tsx";
+import "@/features/signup/SignupPage.css";
+
+export const ForgotPasswordPage: React.FC = () => {
+    return (
+        <div className="signup-page">
+            <div className="signup-page__content">
+                <ForgotPasswordForm />
+            </div>
+        </div>
+    );
+};
+
+export default ForgotPasswordPage;
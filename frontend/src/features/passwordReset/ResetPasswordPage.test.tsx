@@ -0,0 +1,79 @@
+import {describe, expect, it} from "vitest";
+import {screen, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import ResetPasswordPage from "./ResetPasswordPage";
+
+const renderPage = (search: string) =>
+  renderWithProviders(<ResetPasswordPage/>, {initialEntries: [`/reset-password${search}`]});
+
+async function setNewPassword(user: UserEvent, password: string, confirmation = password) {
+  await user.type(screen.getByLabelText(/^new password$/i), password);
+  await user.type(screen.getByLabelText(/^confirm new password$/i), confirmation);
+  await user.click(screen.getByRole("button", {name: /set new password/i}));
+}
+
+describe("ResetPasswordPage", () => {
+  it("sets the new password once; the same link can't be used again", async () => {
+    const user = userEvent.setup();
+    const {unmount} = renderPage("?token=valid-reset-token");
+
+    await setNewPassword(user, "Password123!");
+
+    const success = await screen.findByRole("status");
+    expect(success).toHaveTextContent(/your password has been changed/i);
+    expect(within(success).getByRole("link", {name: /log in/i})).toHaveAttribute("href", "/login");
+    unmount();
+
+    renderPage("?token=valid-reset-token");
+    await setNewPassword(user, "Another456!");
+
+    const alert = await screen.findByRole("alert");
+    expect(alert).toHaveTextContent("Reset link has already been used");
+    expect(within(alert).getByRole("link", {name: /request a new link/i}))
+      .toHaveAttribute("href", "/forgot-password");
+    expect(screen.queryByLabelText(/^new password$/i)).not.toBeInTheDocument();
+  });
+
+  it("offers a new link when the link has expired", async () => {
+    const user = userEvent.setup();
+    renderPage("?token=expired-reset-token");
+
+    await setNewPassword(user, "Password123!");
+
+    const alert = await screen.findByRole("alert");
+    expect(alert).toHaveTextContent("Reset link has expired");
+    expect(within(alert).getByRole("link", {name: /request a new link/i})).toBeInTheDocument();
+  });
+
+  it("offers a new link straight away when the link has no token", () => {
+    renderPage("");
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/this reset link is incomplete/i);
+    expect(screen.queryByLabelText(/^new password$/i)).not.toBeInTheDocument();
+  });
+
+  it("rates the new password and checks the confirmation matches", async () => {
+    const user = userEvent.setup();
+    renderPage("?token=valid-reset-token");
+
+    const submitButton = screen.getByRole("button", {name: /set new password/i});
+    const passwordInput = screen.getByLabelText(/^new password$/i);
+    const confirmInput = screen.getByLabelText(/^confirm new password$/i);
+
+    await user.type(passwordInput, "password");
+    expect(passwordInput).toHaveAccessibleDescription("Password strength: weak");
+    await user.type(passwordInput, "1");
+    expect(passwordInput).toHaveAccessibleDescription("Password strength: fair");
+
+    await user.type(confirmInput, "password2");
+    await user.tab();
+    expect(confirmInput).toHaveAccessibleDescription("The passwords don't match.");
+    expect(submitButton).toBeDisabled();
+
+    await user.clear(confirmInput);
+    await user.type(confirmInput, "password1");
+    expect(confirmInput).not.toHaveAttribute("aria-invalid");
+    expect(submitButton).toBeEnabled();
+  });
+});
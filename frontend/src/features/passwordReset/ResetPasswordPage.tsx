@@ -0,0 +1,15 @@
+import React from "react";
+import ResetPasswordForm from "@/features/passwordReset/components/ResetPasswordForm.tsx";
+import "@/features/signup/SignupPage.css";
+
+export const ResetPasswordPage: React.FC = () => {
+    return (
+        <div className="signup-page">
+            <div className="signup-page__content">
+                <ResetPasswordForm />
+            </div>
+        </div>
+    );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,57 @@
+import {useMutation} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+
+export type RequestPasswordResetInput = {
+  email: string;
+};
+
+export type ResetPasswordInput = {
+  /** From the `token` query parameter of the emailed link. */
+  token: string;
+  password: string;
+};
+
+export const passwordResetEndpoints = {
+  // Answers the same whether or not the email has an account, so the form
+  // can't be used to find out who has one.
+  request: defineEndpoint<RequestPasswordResetInput, void>({
+    method: "POST",
+    path: () => "/users/password-reset",
+    body: (input) => input,
+    auth: false,
+    errorMessages: {
+      default: "passwordReset.errors.requestFailed",
+    },
+  }),
+  reset: defineEndpoint<ResetPasswordInput, void>({
+    method: "POST",
+    path: () => "/users/password-reset/confirm",
+    body: (input) => input,
+    auth: false,
+    errorMessages: {
+      404: "passwordReset.errors.invalidLink",
+      409: "passwordReset.errors.linkUsed",
+      410: "passwordReset.errors.linkExpired",
+      default: "passwordReset.errors.resetFailed",
+    },
+  }),
+};
+
+/** Statuses for links that can't be used (again); the user needs a new one. */
+export const UNUSABLE_LINK_STATUSES = [404, 409, 410];
+
+export function useRequestPasswordResetMutation() {
+  const {request} = useApiClient();
+
+  return useMutation<void, ApiError, RequestPasswordResetInput>({
+    mutationFn: (input) => request(passwordResetEndpoints.request, input),
+  });
+}
+
+export function useResetPasswordMutation() {
+  const {request} = useApiClient();
+
+  return useMutation<void, ApiError, ResetPasswordInput>({
+    mutationFn: (input) => request(passwordResetEndpoints.reset, input),
+  });
+}
@@ -0,0 +1,99 @@
+import React, {type FormEvent, useState} from "react";
+import {Link} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {useRequestPasswordResetMutation} from "@/features/passwordReset/api/passwordReset";
+import {useForm} from "@/lib/forms/useForm";
+import {emailFormat, required} from "@/lib/forms/validation";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const inputStyle: React.CSSProperties = {width: "100%", padding: "0.5rem", boxSizing: "border-box"};
+
+export const ForgotPasswordForm: React.FC = () => {
+  const form = useForm({
+    initialValues: {email: ""},
+    rules: {
+      email: [required(), emailFormat()],
+    },
+  });
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {t} = useI18n();
+  const {mutate: requestReset, isPending} = useRequestPasswordResetMutation();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!form.isValid) return;
+    setServerError(null);
+
+    const email = form.values.email.trim();
+    requestReset(
+      {email},
+      {
+        onError: (error) => {
+          if (!form.showServerErrors(error)) setServerError(error.message);
+        },
+        onSuccess: () => setSentTo(email),
+      },
+    );
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: "400px",
+        margin: "3rem auto",
+        padding: "2rem",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        fontFamily: "sans-serif",
+      }}
+    >
+      <h1 style={{marginBottom: "1.5rem", fontSize: "1.5rem"}}>
+        {t("passwordReset.forgotTitle")}
+      </h1>
+
+      {sentTo ? (
+        <Alert tone="success">{t("passwordReset.linkSent", {email: sentTo})}</Alert>
+      ) : (
+        <form onSubmit={handleSubmit} noValidate>
+          <p style={{marginTop: 0, fontSize: "0.9rem"}}>{t("passwordReset.forgotIntro")}</p>
+
+          <FormField label={t("auth.email")} error={form.errorFor("email")} style={{marginBottom: "1rem"}}>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              required
+              {...form.inputProps("email")}
+              style={inputStyle}
+            />
+          </FormField>
+
+          <Button
+            type="submit"
+            variant="primary"
+            size="lg"
+            disabled={!form.isValid || isPending}
+          >
+            {isPending ? t("passwordReset.sending") : t("passwordReset.sendLink")}
+          </Button>
+        </form>
+      )}
+
+      {serverError && (
+        <Alert tone="error" style={{marginTop: "1rem"}}>
+          {serverError}
+        </Alert>
+      )}
+
+      <span style={{display: "block", marginTop: "1rem", fontSize: "0.9rem"}}>
+        <Link to="/login">{t("passwordReset.backToLogin")}</Link>
+      </span>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -0,0 +1,151 @@
+import React, {type FormEvent, useState} from "react";
+import {Link, useSearchParams} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {
+  UNUSABLE_LINK_STATUSES,
+  useResetPasswordMutation,
+} from "@/features/passwordReset/api/passwordReset";
+import {PasswordStrengthMeter} from "@/features/signup/components/PasswordStrengthMeter";
+import {useForm} from "@/lib/forms/useForm";
+import {required, strongPassword} from "@/lib/forms/validation";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const inputStyle: React.CSSProperties = {width: "100%", padding: "0.5rem", boxSizing: "border-box"};
+
+/** Where the emailed link leads: sets a new password with the link's token. */
+export const ResetPasswordForm: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  const form = useForm({
+    initialValues: {password: "", confirmPassword: ""},
+    rules: {
+      password: [required(), strongPassword()],
+      confirmPassword: [
+        required(),
+        (value, values) =>
+          value === values.password ? null : {key: "passwordReset.errors.mismatch"},
+      ],
+    },
+  });
+  const [serverError, setServerError] = useState<string | null>(null);
+  // Set when the server says the link can't be used (any more).
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const {t} = useI18n();
+  const {mutate: resetPassword, isPending, isSuccess} = useResetPasswordMutation();
+
+  // Without a usable link there's no point in the form; offer a new link instead.
+  const unusableLinkMessage = token ? linkError : t("passwordReset.errors.missingToken");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!token || !form.isValid) return;
+    setServerError(null);
+
+    resetPassword(
+      {token, password: form.values.password},
+      {
+        onError: (error) => {
+          if (UNUSABLE_LINK_STATUSES.includes(error.status)) {
+            setLinkError(error.message);
+          } else if (!form.showServerErrors(error)) {
+            setServerError(error.message);
+          }
+        },
+      },
+    );
+  };
+
+  const renderContent = () => {
+    if (isSuccess) {
+      return (
+        <Alert tone="success">
+          {t("passwordReset.success")}{" "}
+          <Link to="/login">{t("passwordReset.logIn")}</Link>
+        </Alert>
+      );
+    }
+
+    if (unusableLinkMessage) {
+      return (
+        <Alert tone="error">
+          {unusableLinkMessage}{" "}
+          <Link to="/forgot-password">{t("passwordReset.requestNewLink")}</Link>
+        </Alert>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} noValidate>
+        <FormField
+          label={t("passwordReset.newPassword")}
+          hint={<PasswordStrengthMeter password={form.values.password}/>}
+          error={form.errorFor("password")}
+          style={{marginBottom: "1rem"}}
+        >
+          <input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            required
+            {...form.inputProps("password")}
+            style={inputStyle}
+          />
+        </FormField>
+
+        <FormField
+          label={t("passwordReset.confirmPassword")}
+          error={form.errorFor("confirmPassword")}
+          style={{marginBottom: "1rem"}}
+        >
+          <input
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            required
+            {...form.inputProps("confirmPassword")}
+            style={inputStyle}
+          />
+        </FormField>
+
+        <Button
+          type="submit"
+          variant="primary"
+          size="lg"
+          disabled={!form.isValid || isPending}
+        >
+          {isPending ? t("passwordReset.submitting") : t("passwordReset.submit")}
+        </Button>
+
+        {serverError && (
+          <Alert tone="error" style={{marginTop: "1rem"}}>
+            {serverError}
+          </Alert>
+        )}
+      </form>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: "400px",
+        margin: "3rem auto",
+        padding: "2rem",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        fontFamily: "sans-serif",
+      }}
+    >
+      <h1 style={{marginBottom: "1.5rem", fontSize: "1.5rem"}}>
+        {t("passwordReset.resetTitle")}
+      </h1>
+      {renderContent()}
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
@@ -0,0 +1,71 @@
+import React, {type ReactNode, useCallback, useMemo, useState} from "react";
+import {useAuth} from "@/features/auth/useAuth";
+import {
+  type Preferences,
+  PreferencesContext,
+  type PreferencesContextValue,
+} from "@/features/preferences/usePreferences";
+
+const DEFAULT_PREFERENCES: Preferences = {
+  workingHours: null,
+  language: null,
+};
+
+function storageKey(userId: number): string {
+  return `preferences:${userId}`;
+}
+
+function readPreferences(userId: number | null): Preferences {
+  if (userId == null) return DEFAULT_PREFERENCES;
+
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    if (!raw) return DEFAULT_PREFERENCES;
+    return {...DEFAULT_PREFERENCES, ...(JSON.parse(raw) as Partial<Preferences>)};
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/** Per-user settings, persisted in localStorage under the signed-in user's id. */
+export const PreferencesProvider: React.FC<{ children: ReactNode }> = ({children}) => {
+  const {user} = useAuth();
+  const userId = user?.id ?? null;
+
+  const [state, setState] = useState(() => ({
+    userId,
+    preferences: readPreferences(userId),
+  }));
+
+  // Reload when a different user signs in.
+  let current = state;
+  if (state.userId !== userId) {
+    current = {userId, preferences: readPreferences(userId)};
+    setState(current);
+  }
+  const {preferences} = current;
+
+  const updatePreferences = useCallback(
+    (update: Partial<Preferences>) => {
+      setState((previous) => {
+        const next = {...previous.preferences, ...update};
+        if (previous.userId != null) {
+          window.localStorage.setItem(storageKey(previous.userId), JSON.stringify(next));
+        }
+        return {...previous, preferences: next};
+      });
+    },
+    [],
+  );
+
+  const value = useMemo<PreferencesContextValue>(
+    () => ({preferences, updatePreferences}),
+    [preferences, updatePreferences],
+  );
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
@@ -0,0 +1,65 @@
+import {afterEach, describe, expect, it} from "vitest";
+import {screen} from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import SettingsPage from "./SettingsPage";
+
+describe("SettingsPage", () => {
+  afterEach(() => {
+    window.localStorage.removeItem("preferences:1");
+  });
+
+  const renderPage = () =>
+    renderWithProviders(<SettingsPage/>, {
+      initialEntries: ["/settings"],
+      initialAuth: {
+        user: {
+          id: 1,
+          email: "test@example.com",
+          fullName: "Test User",
+        },
+        accessToken: "abc123",
+      },
+    });
+
+  it("saves the user's own working hours", async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    await user.click(screen.getByRole("checkbox", {name: /use my own working hours/i}));
+    await user.selectOptions(screen.getByLabelText(/^from$/i), "07:00");
+    await user.selectOptions(screen.getByLabelText(/^to$/i), "15:30");
+    await user.click(screen.getByRole("button", {name: /save/i}));
+
+    expect(screen.getByRole("status")).toHaveTextContent(/settings saved/i);
+    expect(JSON.parse(window.localStorage.getItem("preferences:1")!)).toEqual({
+      language: null,
+      workingHours: {start: "07:00", end: "15:30"},
+    });
+  });
+
+  it("rejects a working day that ends before it starts", async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    await user.click(screen.getByRole("checkbox", {name: /use my own working hours/i}));
+    await user.selectOptions(screen.getByLabelText(/^from$/i), "18:00");
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/must end after it starts/i);
+    expect(screen.getByRole("button", {name: /save/i})).toBeDisabled();
+  });
+
+  it("switches the app to the chosen language", async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    await user.selectOptions(screen.getByLabelText(/^language$/i), "de");
+    await user.click(screen.getByRole("button", {name: /save/i}));
+
+    expect(screen.getByRole("heading", {name: "Einstellungen"})).toBeInTheDocument();
+    expect(screen.getByRole("status")).toHaveTextContent("Einstellungen gespeichert.");
+    // German uses a 24-hour clock.
+    expect(screen.getAllByRole("option", {name: "07:00"})).not.toHaveLength(0);
+    expect(document.documentElement.lang).toBe("de");
+  });
+});
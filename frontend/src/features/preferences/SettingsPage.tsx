@@ -0,0 +1,132 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {usePreferences} from "@/features/preferences/usePreferences";
+import {SLOT_START_TIMES} from "@/features/desks/utils/dateTime";
+import {
+  DEFAULT_WORKING_HOURS,
+  SLOT_END_TIMES,
+  validateWorkingHours,
+  type WorkingHours,
+} from "@/features/desks/utils/workingHours";
+import {type Language, LANGUAGES} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+export const SettingsPage: React.FC = () => {
+  const {preferences, updatePreferences} = usePreferences();
+  const {t, formatTime} = useI18n();
+
+  const [language, setLanguage] = React.useState<Language | null>(preferences.language);
+
+  const [useOwnHours, setUseOwnHours] = React.useState(preferences.workingHours != null);
+  const [hours, setHours] = React.useState<WorkingHours>(
+    preferences.workingHours ?? DEFAULT_WORKING_HOURS,
+  );
+  const [saved, setSaved] = React.useState(false);
+
+  const validationError = useOwnHours ? validateWorkingHours(hours) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+    updatePreferences({language, workingHours: useOwnHours ? hours : null});
+    setSaved(true);
+  };
+
+  const updateHours = (update: Partial<WorkingHours>) => {
+    setHours((current) => ({...current, ...update}));
+    setSaved(false);
+  };
+
+  return (
+    <div style={{padding: "1rem", maxWidth: "600px"}}>
+      <h1 style={{marginBottom: "1rem"}}>{t("settings.title")}</h1>
+
+      <form onSubmit={handleSubmit}>
+        <FormField label={t("settings.language")}>
+          <select
+            id="language"
+            value={language ?? ""}
+            onChange={(e) => {
+              setLanguage((e.target.value || null) as Language | null);
+              setSaved(false);
+            }}
+          >
+            <option value="">{t("settings.languageAuto")}</option>
+            {LANGUAGES.map((option) => (
+              <option key={option.value} value={option.value} lang={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </FormField>
+
+        <h2>{t("settings.workingHours")}</h2>
+        <p style={{fontSize: "0.9rem"}}>{t("settings.workingHoursHelp")}</p>
+
+        <label style={{display: "inline-flex", gap: "0.4rem", marginBottom: "0.75rem"}}>
+          <input
+            type="checkbox"
+            checked={useOwnHours}
+            onChange={(e) => {
+              setUseOwnHours(e.target.checked);
+              setSaved(false);
+            }}
+          />
+          {t("settings.useOwnHours")}
+        </label>
+
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.5rem",
+            marginBottom: "0.75rem",
+            fontSize: "0.9rem",
+          }}
+        >
+          <FormField label={t("settings.from")} inline style={{marginBottom: 0}}>
+            <select
+              id="working-hours-start"
+              value={hours.start}
+              disabled={!useOwnHours}
+              onChange={(e) => updateHours({start: e.target.value})}
+            >
+              {SLOT_START_TIMES.map((time) => (
+                <option key={time} value={time}>
+                  {formatTime(time)}
+                </option>
+              ))}
+            </select>
+          </FormField>
+          <FormField label={t("settings.to")} inline style={{marginBottom: 0}}>
+            <select
+              id="working-hours-end"
+              value={hours.end}
+              disabled={!useOwnHours}
+              onChange={(e) => updateHours({end: e.target.value})}
+            >
+              {SLOT_END_TIMES.map((time) => (
+                <option key={time} value={time}>
+                  {formatTime(time)}
+                </option>
+              ))}
+            </select>
+          </FormField>
+        </div>
+
+        {validationError && <Alert tone="error">{t(validationError)}</Alert>}
+
+        <div style={{display: "flex", alignItems: "center", gap: "0.75rem"}}>
+          <Button type="submit" variant="primary" size="md" disabled={!!validationError}>
+            {t("common.save")}
+          </Button>
+          {saved && <span role="status">{t("settings.saved")}</span>}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SettingsPage;
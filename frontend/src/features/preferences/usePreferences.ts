@@ -0,0 +1,25 @@
+import {createContext, useContext} from "react";
+import type {WorkingHours} from "@/features/desks/utils/workingHours";
+import type {Language} from "@/lib/i18n/i18n";
+
+export type Preferences = {
+  /** Overrides the working hours of every location when set. */
+  workingHours: WorkingHours | null;
+  /** Overrides the language detected from the browser when set. */
+  language: Language | null;
+};
+
+export type PreferencesContextValue = {
+  preferences: Preferences;
+  updatePreferences: (update: Partial<Preferences>) => void;
+};
+
+export const PreferencesContext = createContext<PreferencesContextValue | undefined>(undefined);
+
+export const usePreferences = (): PreferencesContextValue => {
+  const ctx = useContext(PreferencesContext);
+  if (!ctx) {
+    throw new Error("usePreferences must be used within a PreferencesProvider");
+  }
+  return ctx;
+};
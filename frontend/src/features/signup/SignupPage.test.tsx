@@ -1,6 +1,8 @@
 import {waitFor} from "@testing-library/react";
 import {screen} from "@testing-library/dom";
 import userEvent from "@testing-library/user-event";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
 import {renderWithProviders} from "@/test-utils/renderWithProviders";
 import SignupPage from "./SignupPage";
 import {describe, expect, it, vi} from "vitest";
@@ -41,4 +43,66 @@ describe("SignupPage", () => {
       expect(mockNavigate).toHaveBeenCalledWith("/login");
     });
   });
-});
\ No newline at end of file
+
+  it("keeps the form from submitting until it's valid and rates the password", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<SignupPage/>, {initialEntries: ["/signup"]});
+
+    const submitButton = screen.getByRole("button", {name: /sign up/i});
+    expect(submitButton).toBeDisabled();
+
+    const emailInput = screen.getByLabelText(/email/i);
+    await user.type(emailInput, "test@example");
+    await user.tab();
+    expect(emailInput).toHaveAttribute("aria-invalid", "true");
+    expect(emailInput).toHaveAccessibleDescription("Enter a valid email address.");
+    await user.type(emailInput, ".com");
+    expect(emailInput).not.toHaveAttribute("aria-invalid");
+
+    const passwordInput = screen.getByLabelText(/password/i);
+    expect(passwordInput).toHaveAccessibleDescription(/^at least 8 characters/i);
+    await user.type(passwordInput, "password");
+    expect(passwordInput).toHaveAccessibleDescription("Password strength: weak");
+    expect(submitButton).toBeDisabled();
+
+    await user.type(passwordInput, "1");
+    expect(passwordInput).toHaveAccessibleDescription("Password strength: fair");
+    expect(submitButton).toBeEnabled();
+  });
+
+  it("shows the server's field errors next to the matching input", async () => {
+    server.use(
+      http.post("*/users", () =>
+        HttpResponse.json(
+          {
+            message: "Bad Request",
+            _embedded: {
+              errors: [{message: "request.email: domain is not allowed", path: "/email"}],
+            },
+          },
+          {status: 400},
+        ),
+      ),
+    );
+    const user = userEvent.setup();
+    renderWithProviders(<SignupPage/>, {initialEntries: ["/signup"]});
+
+    const emailInput = screen.getByLabelText(/email/i);
+    const submitButton = screen.getByRole("button", {name: /sign up/i});
+    await user.type(emailInput, "someone@blocked.example");
+    await user.type(screen.getByLabelText(/password/i), "Password123!");
+    await user.click(submitButton);
+
+    await waitFor(() => {
+      expect(emailInput).toHaveAccessibleDescription("domain is not allowed");
+    });
+    expect(emailInput).toHaveAttribute("aria-invalid", "true");
+    expect(screen.queryByText("Bad Request")).not.toBeInTheDocument();
+    expect(submitButton).toBeDisabled();
+
+    await user.clear(emailInput);
+    await user.type(emailInput, "someone@example.com");
+    expect(emailInput).not.toHaveAttribute("aria-invalid");
+    expect(submitButton).toBeEnabled();
+  });
+});
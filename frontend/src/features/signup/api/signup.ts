@@ -1,4 +1,6 @@
 import { useMutation } from "@tanstack/react-query";
+import { ApiError, defineEndpoint, useApiClient } from "@/lib/apiClient";
+import { type Infer, nullable, number, object, string } from "@/lib/decode";
 
 export type CreateUserRequest = {
     email: string;
@@ -6,50 +8,31 @@ export type CreateUserRequest = {
     fullName?: string | null;
 };
 
-export type UserResponse = {
-    id: number | null;
-    email: string;
-    fullName: string | null;
-};
-
-type ApiError = {
-    message?: string;
-};
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "";
-
-export async function createUser(data: CreateUserRequest): Promise<UserResponse> {
-    const response = await fetch(`${API_BASE_URL}/users`, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-        let errorBody: ApiError | undefined;
-        try {
-            errorBody = (await response.json()) as ApiError;
-        } catch {
-            // ignore parse error; we'll fall back to generic message
-        }
-
-        const message =
-            errorBody?.message ||
-            (response.status === 409
-                ? "Email is already in use."
-                : "Failed to create user.");
-
-        throw new Error(message);
-    }
-
-    return (await response.json()) as UserResponse;
-}
+const userResponseDecoder = object({
+    id: nullable(number),
+    email: string,
+    fullName: nullable(string),
+});
+
+export type UserResponse = Infer<typeof userResponseDecoder>;
+
+export const signupEndpoint = defineEndpoint<CreateUserRequest, UserResponse>({
+    method: "POST",
+    path: () => "/users",
+    body: (input) => input,
+    auth: false,
+    response: userResponseDecoder,
+    errorMessages: {
+        409: "signup.errors.emailTaken",
+        default: "signup.errors.failed",
+    },
+});
 
 export function useSignupMutation() {
-    return useMutation<UserResponse, Error, CreateUserRequest>({
+    const { request } = useApiClient();
+
+    return useMutation<UserResponse, ApiError, CreateUserRequest>({
         mutationKey: ["signup"],
-        mutationFn: createUser,
+        mutationFn: (input) => request(signupEndpoint, input),
     });
-}
\ No newline at end of file
+}
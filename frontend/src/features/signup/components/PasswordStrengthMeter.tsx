@@ -0,0 +1,36 @@
+import React from "react";
+import {theme} from "@/components/ui/theme";
+import {PASSWORD_MIN_LENGTH, passwordStrength} from "@/lib/forms/validation";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+/**
+ * How strong the password typed so far is, as a bar and in words. Used as the
+ * password field's hint, so screen readers get the words with the field.
+ */
+export const PasswordStrengthMeter: React.FC<{ password: string }> = ({password}) => {
+  const {t} = useI18n();
+
+  if (!password) {
+    return <>{t("signup.passwordHint", {min: PASSWORD_MIN_LENGTH})}</>;
+  }
+
+  const strength = passwordStrength(password);
+  return (
+    <span style={{display: "flex", alignItems: "center", gap: "0.5rem"}}>
+      {/* The text says the same; the bar is only a visual aid. */}
+      <meter
+        aria-hidden="true"
+        min={0}
+        max={4}
+        low={2}
+        high={3}
+        optimum={4}
+        value={strength}
+        style={{width: "6rem"}}
+      />
+      <span style={{color: theme.color.text}}>
+        {t("signup.passwordStrength", {level: t(`signup.passwordStrength.${strength}`)})}
+      </span>
+    </span>
+  );
+};
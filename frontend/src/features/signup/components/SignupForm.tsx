@@ -1,20 +1,34 @@
 import React, {type FormEvent, useEffect, useState} from "react";
 import {useSignupMutation} from "@/features/signup/api/signup.ts";
 import {Link, useNavigate} from "react-router-dom";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {PasswordStrengthMeter} from "@/features/signup/components/PasswordStrengthMeter";
+import {useForm} from "@/lib/forms/useForm";
+import {emailFormat, maxLength, required, strongPassword} from "@/lib/forms/validation";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const inputStyle: React.CSSProperties = {width: "100%", padding: "0.5rem", boxSizing: "border-box"};
 
 export const SignupForm: React.FC = () => {
-  const [email, setEmail] = useState("");
-  const [fullName, setFullName] = useState("");
-  const [password, setPassword] = useState("");
+  const form = useForm({
+    initialValues: {email: "", fullName: "", password: ""},
+    rules: {
+      email: [required(), emailFormat()],
+      fullName: [maxLength(100)],
+      password: [required(), strongPassword()],
+    },
+  });
+  const [serverError, setServerError] = useState<string | null>(null);
 
   const navigate = useNavigate();
+  const {t} = useI18n();
 
   const {
     mutate: submitSignup,
     isPending,
     isSuccess,
-    isError,
-    error,
     data: createdUser,
   } = useSignupMutation();
 
@@ -30,12 +44,22 @@ export const SignupForm: React.FC = () => {
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (!form.isValid) return;
+    setServerError(null);
 
-    submitSignup({
-      email: email.trim(),
-      password,
-      fullName: fullName.trim() || null,
-    });
+    const {email, fullName, password} = form.values;
+    submitSignup(
+      {
+        email: email.trim(),
+        password,
+        fullName: fullName.trim() || null,
+      },
+      {
+        onError: (error) => {
+          if (!form.showServerErrors(error)) setServerError(error.message);
+        },
+      },
+    );
   };
 
   return (
@@ -50,89 +74,78 @@ export const SignupForm: React.FC = () => {
       }}
     >
       <h1 style={{marginBottom: "1.5rem", fontSize: "1.5rem"}}>
-        Sign up
+        {t("signup.title")}
       </h1>
 
-      <form onSubmit={handleSubmit}>
-        <div style={{marginBottom: "1rem"}}>
-          <label
-            htmlFor="email"
-            style={{display: "block", marginBottom: "0.25rem"}}
-          >
-            Email
-          </label>
+      <form onSubmit={handleSubmit} noValidate>
+        <FormField label={t("auth.email")} error={form.errorFor("email")} style={{marginBottom: "1rem"}}>
           <input
             id="email"
             type="email"
+            autoComplete="email"
             required
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            style={{width: "100%", padding: "0.5rem", boxSizing: "border-box"}}
+            {...form.inputProps("email")}
+            style={inputStyle}
           />
-        </div>
+        </FormField>
 
-        <div style={{marginBottom: "1rem"}}>
-          <label
-            htmlFor="fullName"
-            style={{display: "block", marginBottom: "0.25rem"}}
-          >
-            Full name (optional)
-          </label>
+        <FormField
+          label={t("signup.fullName")}
+          error={form.errorFor("fullName")}
+          style={{marginBottom: "1rem"}}
+        >
           <input
             id="fullName"
             type="text"
-            value={fullName}
-            onChange={(e) => setFullName(e.target.value)}
-            style={{width: "100%", padding: "0.5rem", boxSizing: "border-box"}}
+            autoComplete="name"
+            {...form.inputProps("fullName")}
+            style={inputStyle}
           />
-        </div>
+        </FormField>
 
-        <div style={{marginBottom: "1rem"}}>
-          <label
-            htmlFor="password"
-            style={{display: "block", marginBottom: "0.25rem"}}
-          >
-            Password
-          </label>
+        <FormField
+          label={t("auth.password")}
+          hint={<PasswordStrengthMeter password={form.values.password}/>}
+          error={form.errorFor("password")}
+          style={{marginBottom: "1rem"}}
+        >
           <input
             id="password"
             type="password"
+            autoComplete="new-password"
             required
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            style={{width: "100%", padding: "0.5rem", boxSizing: "border-box"}}
+            {...form.inputProps("password")}
+            style={inputStyle}
           />
-        </div>
+        </FormField>
 
-        <button
+        <Button
           type="submit"
-          disabled={isPending}
-          style={{
-            padding: "0.5rem 1rem",
-            cursor: isPending ? "default" : "pointer",
-          }}
+          variant="primary"
+          size="lg"
+          disabled={!form.isValid || isPending}
         >
-          {isPending ? "Signing up..." : "Sign up"}
-        </button>
+          {isPending ? t("signup.submitting") : t("signup.submit")}
+        </Button>
       </form>
 
-      {isError && (
-        <p style={{marginTop: "1rem", color: "red"}}>
-          {(error as Error).message}
-        </p>
+      {serverError && (
+        <Alert tone="error" style={{marginTop: "1rem"}}>
+          {serverError}
+        </Alert>
       )}
 
       {isSuccess && createdUser && (
         <div style={{marginTop: "1.5rem", fontSize: "0.9rem"}}>
-          <p>Account created successfully.</p>
-          <p>Email: {createdUser.email}</p>
+          <p>{t("signup.success")}</p>
+          <p>{t("auth.emailValue", {email: createdUser.email})}</p>
         </div>
       )}
       <span style={{fontSize: "0.9rem"}}>
-        Already have an account? <Link to="/login">Log in</Link>
+        {t("signup.haveAccount")} <Link to="/login">{t("signup.logIn")}</Link>
       </span>
     </div>
   );
 };
 
-export default SignupForm;
\ No newline at end of file
+export default SignupForm;
@@ -0,0 +1,109 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {screen, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import TeamBookingPage from "./TeamBookingPage";
+
+const desk = (id: number, name: string, location: string | null, x: number, y: number) => ({
+  id,
+  name,
+  location,
+  position: {x, y},
+  amenities: [],
+  active: true,
+});
+
+describe("TeamBookingPage", () => {
+  let user: UserEvent;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+    server.use(
+      http.get("*/desks", () =>
+        HttpResponse.json([
+          desk(1, "Desk A", "1st Floor", 20, 30),
+          desk(2, "Desk B", null, 50, 50),
+          desk(3, "Desk C", "1st Floor", 25, 30),
+          desk(4, "Desk D", "1st Floor", 90, 90),
+          desk(5, "Desk E", "Evening Wing", 10, 10),
+          desk(6, "Desk F", "Evening Wing", 90, 90),
+        ]),
+      ),
+    );
+    renderWithProviders(<TeamBookingPage/>, {
+      initialEntries: ["/team-booking"],
+      initialAuth: {
+        user: {id: 1, email: "test@example.com", fullName: "Test User"},
+        accessToken: "abc123",
+      },
+    });
+  });
+
+  // The mock API always has 12:00 booked, so stay clear of it.
+  const pickMorning = async () => {
+    await user.selectOptions(screen.getByLabelText(/^from$/i), "09:00");
+    await user.selectOptions(screen.getByLabelText(/^to$/i), "11:00");
+  };
+
+  it("proposes nearby free desks for the team and books them all", async () => {
+    await user.click(await screen.findByRole("checkbox", {name: "Alice Example"}));
+    await pickMorning();
+
+    expect(
+      await screen.findByRole("radio", {name: "1st Floor: Desk A, Desk C"}),
+    ).toBeChecked();
+    expect(
+      within(screen.getByRole("list", {name: /seating/i}))
+        .getAllByRole("listitem")
+        .map((item) => item.textContent),
+    ).toEqual(["Test User (you): Desk A", "Alice Example: Desk C"]);
+
+    await user.click(screen.getByRole("button", {name: "Book 2 desks"}));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      /^booked 2 of 2 desks for your team on .*, 9:00 AM – 11:00 AM\.$/i,
+    );
+    expect(screen.getByText(/alice example: desk c/i)).toHaveTextContent(/booked$/);
+  });
+
+  it("searches each office during its own working hours by default", async () => {
+    await user.click(await screen.findByRole("checkbox", {name: "Alice Example"}));
+
+    // 1st Floor is open 09:00–17:00, across the booked 12:00 slot.
+    expect(
+      await screen.findByRole("radio", {name: "Evening Wing: Desk E, Desk F"}),
+    ).toBeChecked();
+    expect(screen.queryByRole("radio", {name: /^1st floor/i})).not.toBeInTheDocument();
+    expect(screen.getByText(/, 2:00 PM – 10:00 PM office time$/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", {name: "Book 2 desks"}));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      /^booked 2 of 2 desks for your team on .*, 2:00 PM – 10:00 PM\.$/i,
+    );
+  });
+
+  it("reports seats that could not be booked", async () => {
+    server.use(
+      http.post("*/desks/3/bookings", () =>
+        HttpResponse.json({message: "Desk is already booked"}, {status: 409}),
+      ),
+    );
+
+    await user.click(await screen.findByRole("checkbox", {name: "Alice Example"}));
+    await user.click(screen.getByRole("checkbox", {name: "Bob Example"}));
+    await pickMorning();
+    await screen.findByRole("radio", {name: "1st Floor: Desk A, Desk C, Desk D"});
+    await user.click(screen.getByRole("button", {name: "Book 3 desks"}));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      /^booked 2 of 3 desks for your team/i,
+    );
+    expect(screen.getByText(/alice example: desk c/i)).toHaveTextContent(
+      /failed \(desk is already booked\)$/i,
+    );
+    expect(screen.getByText(/bob example: desk d/i)).toHaveTextContent(/booked$/);
+  });
+});
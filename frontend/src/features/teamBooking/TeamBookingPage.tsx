@@ -0,0 +1,368 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {FormField} from "@/components/ui/FormField";
+import {theme} from "@/components/ui/theme";
+import {useAuth} from "@/features/auth/useAuth";
+import {isDeskActive, useDesksQuery} from "@/features/desks/api/desks";
+import {useDesksAvailability} from "@/features/desks/api/deskBookings";
+import {useLocationSettings} from "@/features/desks/hooks/useLocationSettings";
+import {
+  addDays,
+  fromDateInputValue,
+  SLOT_MINUTES,
+  SLOT_START_TIMES,
+  type TimeRange,
+  toDateInputValue,
+  toLocalDateTimeString,
+} from "@/features/desks/utils/dateTime";
+import {nowInTimeZone} from "@/features/desks/utils/timeZone";
+import {
+  SLOT_END_TIMES,
+  validateWorkingHours,
+  type WorkingHours,
+  workingDayRange,
+} from "@/features/desks/utils/workingHours";
+import {
+  type Teammate,
+  type TeamSeat,
+  type TeamSeatResult,
+  useCreateTeamBookingMutation,
+  useTeammatesQuery,
+} from "@/features/teamBooking/api/teamBookings";
+import {type DeskCluster, proposeDeskClusters} from "@/features/teamBooking/utils/deskClusters";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+const fieldsetStyle: React.CSSProperties = {border: "none", padding: 0, margin: "0 0 0.75rem"};
+
+const legendStyle: React.CSSProperties = {marginBottom: "0.25rem", fontWeight: 600};
+
+function clusterKey(cluster: DeskCluster): string {
+  return cluster.desks.map((desk) => desk.id).join(",");
+}
+
+function displayName(teammate: Teammate): string {
+  return teammate.fullName || teammate.email;
+}
+
+type BookedTeam = {
+  range: TimeRange;
+  results: TeamSeatResult[];
+};
+
+// An empty start or end keeps each office's own opening or closing time.
+const OFFICE_HOURS: WorkingHours = {start: "", end: ""};
+
+/**
+ * The team's window on `date` at one office: `hours` filled in from the
+ * office's working hours, starting no earlier than the current slot in the
+ * office's timezone. Null when nothing of it is left to book.
+ */
+function officeWindow(
+  date: string,
+  hours: WorkingHours,
+  officeHours: WorkingHours,
+  timeZone: string,
+): TimeRange | null {
+  const dayHours = {start: hours.start || officeHours.start, end: hours.end || officeHours.end};
+  if (validateWorkingHours(dayHours)) return null;
+
+  const day = workingDayRange(fromDateInputValue(date), dayHours);
+  const now = nowInTimeZone(timeZone);
+  now.setMinutes(now.getMinutes() - (now.getMinutes() % SLOT_MINUTES), 0, 0);
+  const currentSlot = toLocalDateTimeString(now);
+  const startAt = day.startAt > currentSlot ? day.startAt : currentSlot;
+  return startAt < day.endAt ? {startAt, endAt: day.endAt} : null;
+}
+
+export const TeamBookingPage: React.FC = () => {
+  const {user} = useAuth();
+  const {hoursFor, timeZoneFor, isLoading: isLoadingSettings} = useLocationSettings();
+  const {t, formatTime, formatDate, formatTimeRange} = useI18n();
+  const teammatesQuery = useTeammatesQuery();
+  const {data: desks} = useDesksQuery();
+  const teamBookingMutation = useCreateTeamBookingMutation();
+
+  const [selectedIds, setSelectedIds] = React.useState<number[]>([]);
+  const [date, setDate] = React.useState(() => toDateInputValue(addDays(new Date(), 1)));
+  const [hours, setHours] = React.useState(OFFICE_HOURS);
+  const [chosenKey, setChosenKey] = React.useState<string | null>(null);
+  const [booked, setBooked] = React.useState<BookedTeam | null>(null);
+
+  const teammates = React.useMemo(
+    () => (teammatesQuery.data ?? []).filter((teammate) => teammate.id !== user?.id),
+    [teammatesQuery.data, user?.id],
+  );
+
+  // The organizer always gets the first desk of the cluster.
+  const team = React.useMemo<Teammate[]>(
+    () =>
+      user
+        ? [
+          {id: user.id, email: user.email, fullName: user.fullName},
+          ...teammates.filter((teammate) => selectedIds.includes(teammate.id)),
+        ]
+        : [],
+    [user, teammates, selectedIds],
+  );
+
+  const hoursError = hours.start && hours.end ? validateWorkingHours(hours) : null;
+
+  // Each office is searched during its own working hours, in its own timezone.
+  const rangesByLocation = React.useMemo(() => {
+    const ranges = new Map<string, TimeRange>();
+    if (!date || hoursError || isLoadingSettings) return ranges;
+    for (const desk of desks ?? []) {
+      if (!desk.location || ranges.has(desk.location)) continue;
+      const range = officeWindow(date, hours, hoursFor(desk.location), timeZoneFor(desk.location));
+      if (range) ranges.set(desk.location, range);
+    }
+    return ranges;
+  }, [date, hours, hoursError, isLoadingSettings, desks, hoursFor, timeZoneFor]);
+
+  const candidateDesks = React.useMemo(
+    () => (desks ?? []).filter((desk) => isDeskActive(desk) && desk.location),
+    [desks],
+  );
+  const windows = React.useMemo(
+    () =>
+      team.length > 1
+        ? candidateDesks.flatMap((desk) => {
+          const range = desk.location && rangesByLocation.get(desk.location);
+          return range ? [{deskId: desk.id, ...range}] : [];
+        })
+        : [],
+    [team.length, candidateDesks, rangesByLocation],
+  );
+  const {summaries, isLoading: isChecking, isError: checkFailed} = useDesksAvailability(windows);
+
+  const clusters = React.useMemo(
+    () =>
+      windows.length === 0
+        ? []
+        : proposeDeskClusters(
+          candidateDesks.filter((desk) => summaries.get(desk.id) === "available"),
+          team.length,
+        ),
+    [windows.length, candidateDesks, summaries, team.length],
+  );
+  const chosen = clusters.find((cluster) => clusterKey(cluster) === chosenKey) ?? clusters[0];
+  const range = chosen ? rangesByLocation.get(chosen.location) : undefined;
+  const seats: TeamSeat[] = chosen
+    ? team.map((teammate, index) => ({teammate, desk: chosen.desks[index]}))
+    : [];
+
+  const toggleTeammate = (id: number) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id],
+    );
+  };
+
+  const seatName = (teammate: Teammate) =>
+    teammate.id === user?.id
+      ? t("teamBooking.you", {name: displayName(teammate)})
+      : displayName(teammate);
+
+  const handleBook = async () => {
+    if (!range || seats.length === 0) return;
+    try {
+      setBooked({range, results: await teamBookingMutation.mutateAsync({range, seats})});
+    } catch {
+      // Shown from the mutation's error state.
+    }
+  };
+
+  const handleBookAgain = () => {
+    setBooked(null);
+    setSelectedIds([]);
+    setChosenKey(null);
+    teamBookingMutation.reset();
+  };
+
+  if (booked) {
+    const {range: bookedRange, results} = booked;
+    const bookedCount = results.filter((result) => result.status === "booked").length;
+
+    return (
+      <div style={{padding: "1rem", maxWidth: "800px"}}>
+        <h1 style={{marginBottom: "1rem"}}>{t("teamBooking.title")}</h1>
+        <Alert tone={bookedCount === results.length ? "success" : "info"}>
+          {t("teamBooking.summary", {
+            booked: bookedCount,
+            count: results.length,
+            date: formatDate(bookedRange.startAt),
+            time: formatTimeRange(bookedRange),
+          })}
+        </Alert>
+        <ul style={{paddingLeft: "1.25rem"}}>
+          {results.map((result) => (
+            <li key={result.seat.teammate.id}>
+              {t("teamBooking.seat", {
+                name: seatName(result.seat.teammate),
+                desk: result.seat.desk.name,
+              })}{" "}
+              {result.status === "booked" ? (
+                t("teamBooking.result.booked")
+              ) : (
+                <span style={{color: theme.color.danger}}>
+                  {t("teamBooking.result.failed", {message: result.error.message})}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+        <Button size="md" onClick={handleBookAgain}>
+          {t("teamBooking.bookAgain")}
+        </Button>
+      </div>
+    );
+  }
+
+  const renderProposals = () => {
+    if (team.length < 2) return <p>{t("teamBooking.pickTeammates")}</p>;
+    if (hoursError || !date) return null;
+    if (isLoadingSettings || isChecking) return <p>{t("teamBooking.checking")}</p>;
+    if (checkFailed) return <Alert tone="error">{t("teamBooking.checkFailed")}</Alert>;
+    if (!chosen) return <p>{t("teamBooking.noProposals", {count: team.length})}</p>;
+
+    return (
+      <>
+      <fieldset style={fieldsetStyle}>
+        <legend style={legendStyle}>
+          {t("teamBooking.proposals")}
+        </legend>
+        {clusters.map((cluster) => (
+          <label key={clusterKey(cluster)} style={{display: "flex", gap: "0.4rem"}}>
+            <input
+              type="radio"
+              name="team-desks"
+              checked={cluster === chosen}
+              onChange={() => setChosenKey(clusterKey(cluster))}
+            />
+            {t("teamBooking.proposal", {
+              location: cluster.location,
+              desks: cluster.desks.map((desk) => desk.name).join(", "),
+            })}
+          </label>
+        ))}
+      </fieldset>
+      <ul aria-label={t("teamBooking.seating")} style={{paddingLeft: "1.25rem"}}>
+        {seats.map(({teammate, desk}) => (
+          <li key={teammate.id}>
+            {t("teamBooking.seat", {name: seatName(teammate), desk: desk.name})}
+          </li>
+        ))}
+      </ul>
+      {range && (
+        <p style={{fontSize: "0.9rem"}}>
+          {t("teamBooking.window", {date: formatDate(range.startAt), time: formatTimeRange(range)})}
+        </p>
+      )}
+      </>
+    );
+  };
+
+  return (
+    <div style={{padding: "1rem", maxWidth: "800px"}}>
+      <h1 style={{marginBottom: "1rem"}}>{t("teamBooking.title")}</h1>
+      <p style={{fontSize: "0.9rem"}}>{t("teamBooking.intro")}</p>
+
+      <fieldset style={fieldsetStyle}>
+        <legend style={legendStyle}>
+          {t("teamBooking.teammates")}
+        </legend>
+        {teammatesQuery.isLoading && <p>{t("teamBooking.loadingTeammates")}</p>}
+        {teammatesQuery.isError && (
+          <Alert tone="error">{teammatesQuery.error.message}</Alert>
+        )}
+        {teammatesQuery.isSuccess && teammates.length === 0 && (
+          <p>{t("teamBooking.noTeammates")}</p>
+        )}
+        <div style={{display: "flex", gap: "0.25rem 0.75rem", flexWrap: "wrap"}}>
+          {teammates.map((teammate) => (
+            <label key={teammate.id} style={{display: "inline-flex", gap: "0.3rem"}}>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(teammate.id)}
+                onChange={() => toggleTeammate(teammate.id)}
+              />
+              {displayName(teammate)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          marginBottom: "0.75rem",
+          flexWrap: "wrap",
+        }}
+      >
+        <FormField label={t("teamBooking.date")} inline style={{marginBottom: 0}}>
+          <input
+            id="team-date"
+            type="date"
+            value={date}
+            min={toDateInputValue(new Date())}
+            onChange={(e) => setDate(e.target.value)}
+            style={{padding: "0.25rem 0.4rem"}}
+          />
+        </FormField>
+        <FormField label={t("teamBooking.from")} inline style={{marginBottom: 0}}>
+          <select
+            id="team-start"
+            value={hours.start}
+            onChange={(e) => setHours((current) => ({...current, start: e.target.value}))}
+          >
+            <option value="">{t("teamBooking.officeOpening")}</option>
+            {SLOT_START_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label={t("teamBooking.to")} inline style={{marginBottom: 0}}>
+          <select
+            id="team-end"
+            value={hours.end}
+            onChange={(e) => setHours((current) => ({...current, end: e.target.value}))}
+          >
+            <option value="">{t("teamBooking.officeClosing")}</option>
+            {SLOT_END_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {formatTime(time)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+      </div>
+
+      {hoursError && <Alert tone="error">{t(hoursError)}</Alert>}
+
+      {renderProposals()}
+
+      {teamBookingMutation.isError && (
+        <Alert tone="error">
+          {t("teamBooking.failed", {message: teamBookingMutation.error.message})}
+        </Alert>
+      )}
+
+      <Button
+        variant="primary"
+        size="md"
+        onClick={handleBook}
+        disabled={seats.length === 0 || isChecking || teamBookingMutation.isPending}
+      >
+        {teamBookingMutation.isPending
+          ? t("teamBooking.submitting")
+          : t("teamBooking.book", {count: team.length})}
+      </Button>
+    </div>
+  );
+};
+
+export default TeamBookingPage;
@@ -0,0 +1,140 @@
+import {useMutation, useQuery, useQueryClient} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {array, type Infer, nullable, number, object, string} from "@/lib/decode";
+import {type Booking, deskBookingEndpoints} from "@/features/desks/api/deskBookings";
+import type {Desk} from "@/features/desks/api/desks";
+import type {TimeRange} from "@/features/desks/utils/dateTime";
+
+/** Someone who can be booked in with the team. */
+const teammateDecoder = object({
+  id: number,
+  email: string,
+  fullName: nullable(string),
+});
+
+export type Teammate = Infer<typeof teammateDecoder>;
+
+const bookingGroupMemberDecoder = object({
+  bookingId: number,
+  deskId: number,
+  userId: number,
+  fullName: nullable(string),
+});
+
+export type BookingGroupMember = Infer<typeof bookingGroupMemberDecoder>;
+
+/** Bookings made together for a team, shown to everyone in it. */
+const bookingGroupDecoder = object({
+  id: number,
+  organizerId: number,
+  startAt: string,
+  endAt: string,
+  members: array(bookingGroupMemberDecoder),
+});
+
+export type BookingGroup = Infer<typeof bookingGroupDecoder>;
+
+export type TeamSeat = {
+  teammate: Teammate;
+  desk: Desk;
+};
+
+export type CreateTeamBookingInput = {
+  range: TimeRange;
+  seats: TeamSeat[];
+};
+
+export type TeamSeatResult =
+  | { seat: TeamSeat; status: "booked"; booking: Booking }
+  | { seat: TeamSeat; status: "failed"; error: Error };
+
+export const teamBookingEndpoints = {
+  teammates: defineEndpoint<void, Teammate[]>({
+    method: "GET",
+    path: () => "/users",
+    response: array(teammateDecoder),
+    errorMessages: {
+      401: "teamBooking.errors.teammatesUnauthorized",
+      default: "teamBooking.errors.teammates",
+    },
+  }),
+  createGroup: defineEndpoint<TimeRange, BookingGroup>({
+    method: "POST",
+    path: () => "/booking-groups",
+    body: ({startAt, endAt}) => ({startAt, endAt}),
+    response: bookingGroupDecoder,
+    errorMessages: {
+      401: "teamBooking.errors.createUnauthorized",
+      default: "teamBooking.errors.create",
+    },
+  }),
+  group: defineEndpoint<{ id: number }, BookingGroup>({
+    method: "GET",
+    path: ({id}) => `/booking-groups/${id}`,
+    response: bookingGroupDecoder,
+    errorMessages: {
+      401: "teamBooking.errors.groupUnauthorized",
+      404: "teamBooking.errors.groupNotFound",
+      default: "teamBooking.errors.group",
+    },
+  }),
+};
+
+export function useTeammatesQuery() {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQuery<Teammate[], ApiError>({
+    queryKey: ["teammates"],
+    queryFn: () => request(teamBookingEndpoints.teammates, undefined),
+    enabled: isAuthenticated,
+  });
+}
+
+export function useBookingGroupQuery(id: number | null) {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQuery<BookingGroup, ApiError>({
+    queryKey: ["bookingGroup", id],
+    queryFn: () => request(teamBookingEndpoints.group, {id: id as number}),
+    enabled: isAuthenticated && id != null,
+  });
+}
+
+/**
+ * Creates the group, then books each seat in turn, like a booking series: a
+ * failed seat doesn't stop the rest, and every outcome is reported back.
+ * Only a failure to create the group fails the whole mutation.
+ */
+export function useCreateTeamBookingMutation() {
+  const {request, toError} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<TeamSeatResult[], ApiError, CreateTeamBookingInput>({
+    mutationFn: async ({range, seats}) => {
+      const group = await request(teamBookingEndpoints.createGroup, range);
+      const results: TeamSeatResult[] = [];
+      for (const seat of seats) {
+        try {
+          const booking = await request(deskBookingEndpoints.create, {
+            deskId: seat.desk.id,
+            ...range,
+            userId: seat.teammate.id,
+            groupId: group.id,
+          });
+          results.push({seat, status: "booked", booking});
+        } catch (err) {
+          const error = toError(err);
+          results.push({seat, status: "failed", error});
+        }
+      }
+      return results;
+    },
+    onSuccess: (_results, {seats}) =>
+      Promise.all([
+        ...seats.map(({desk}) =>
+          queryClient.invalidateQueries({queryKey: ["deskAvailability", desk.id]}),
+        ),
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+      ]),
+  });
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {useAuth} from "@/features/auth/useAuth";
+import {useBookingGroupQuery} from "@/features/teamBooking/api/teamBookings";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type TeamBookingDetailsProps = {
+  groupId: number;
+  deskNames: Map<number, string>;
+};
+
+/** A toggle under a booking that lists who else is in its team booking, and where. */
+export const TeamBookingDetails: React.FC<TeamBookingDetailsProps> = ({groupId, deskNames}) => {
+  const {t} = useI18n();
+  const {user} = useAuth();
+  const [isOpen, setIsOpen] = React.useState(false);
+  // Only fetched once opened, so a long list of bookings doesn't load every group.
+  const groupQuery = useBookingGroupQuery(isOpen ? groupId : null);
+  const listId = `team-booking-${groupId}`;
+
+  return (
+    <div style={{fontSize: "0.85rem", marginTop: "0.25rem"}}>
+      <Button
+        variant="link"
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        {t("teamBooking.group")}
+      </Button>
+      {isOpen && (
+        <div id={listId}>
+          {groupQuery.isLoading && <p>{t("teamBooking.groupLoading")}</p>}
+          {groupQuery.isError && (
+            <Alert tone="error">
+              {t("teamBooking.groupFailed", {message: groupQuery.error.message})}
+            </Alert>
+          )}
+          {groupQuery.data && (
+            <ul
+              aria-label={t("teamBooking.seating")}
+              style={{margin: "0.25rem 0 0", paddingLeft: "1.25rem"}}
+            >
+              {groupQuery.data.members.map((member) => {
+                const name = member.fullName ?? `#${member.userId}`;
+                return (
+                  <li key={member.bookingId}>
+                    {t("teamBooking.seat", {
+                      name: member.userId === user?.id ? t("teamBooking.you", {name}) : name,
+                      desk:
+                        deskNames.get(member.deskId) ??
+                        t("myBookings.unknownDesk", {id: member.deskId}),
+                    })}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import {describe, expect, it} from "vitest";
+import type {Desk} from "@/features/desks/api/desks";
+import {createTestDesk} from "@/test-utils/desks";
+import {proposeDeskClusters} from "./deskClusters";
+
+const desk = (
+  id: number,
+  location: string | null,
+  position: Desk["position"] = null,
+): Desk => createTestDesk({id, name: `Desk ${id}`, location, position});
+
+const names = (clusters: ReturnType<typeof proposeDeskClusters>) =>
+  clusters.map((cluster) => [cluster.location, cluster.desks.map((d) => d.name)]);
+
+describe("proposeDeskClusters", () => {
+  it("proposes the tightest groups of desks within one location first", () => {
+    const desks = [
+      desk(1, "North", {x: 10, y: 10}),
+      desk(2, "North", {x: 80, y: 80}),
+      desk(3, "North", {x: 15, y: 10}),
+      desk(4, "South", {x: 50, y: 50}),
+      desk(5, "South", {x: 50, y: 60}),
+      desk(6, "South", {x: 90, y: 10}),
+    ];
+
+    expect(names(proposeDeskClusters(desks, 2, 3))).toEqual([
+      ["North", ["Desk 1", "Desk 3"]],
+      ["South", ["Desk 4", "Desk 5"]],
+      ["South", ["Desk 4", "Desk 6"]],
+    ]);
+  });
+
+  it("only proposes locations with enough free desks, placed ones first", () => {
+    const desks = [
+      desk(1, "North"),
+      desk(2, "North", {x: 10, y: 10}),
+      desk(3, "North", {x: 30, y: 10}),
+      desk(4, "South", {x: 50, y: 50}),
+      desk(5, null),
+      desk(6, null),
+      desk(7, null),
+    ];
+
+    expect(names(proposeDeskClusters(desks, 3))).toEqual([
+      ["North", ["Desk 1", "Desk 2", "Desk 3"]],
+    ]);
+    expect(names(proposeDeskClusters(desks, 2, 1))).toEqual([
+      ["North", ["Desk 2", "Desk 3"]],
+    ]);
+  });
+});
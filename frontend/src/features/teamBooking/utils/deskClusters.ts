@@ -0,0 +1,77 @@
+import type {Desk} from "@/features/desks/api/desks";
+
+/** A set of desks in one location, close enough together for a team. */
+export type DeskCluster = {
+  location: string;
+  desks: Desk[];
+};
+
+// Further apart than any two desks on a floor plan (positions are 0–100%),
+// so desks without a position are only picked when there's nothing closer.
+const UNPLACED_DISTANCE = 150;
+
+function distance(a: Desk, b: Desk): number {
+  if (a.id === b.id) return 0;
+  if (!a.position || !b.position) return UNPLACED_DISTANCE;
+  return Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y);
+}
+
+/** Sum of the distances between every pair of desks; smaller is tighter. */
+function clusterSpread(desks: Desk[]): number {
+  let spread = 0;
+  for (let i = 0; i < desks.length; i++) {
+    for (let j = i + 1; j < desks.length; j++) {
+      spread += distance(desks[i], desks[j]);
+    }
+  }
+  return spread;
+}
+
+function byName(a: Desk, b: Desk): number {
+  return a.name.localeCompare(b.name, undefined, {numeric: true});
+}
+
+/**
+ * Proposes up to `limit` sets of `size` free desks, each within a single
+ * location, tightest first. Every desk seeds a candidate made of itself and
+ * its nearest neighbours. Desks without a location are never proposed, since
+ * there's no telling who they're near.
+ */
+export function proposeDeskClusters(
+  freeDesks: Desk[],
+  size: number,
+  limit = 3,
+): DeskCluster[] {
+  if (size < 1) return [];
+
+  const byLocation = new Map<string, Desk[]>();
+  for (const desk of freeDesks) {
+    if (!desk.location) continue;
+    byLocation.set(desk.location, [...(byLocation.get(desk.location) ?? []), desk]);
+  }
+
+  const candidates = new Map<string, DeskCluster & { spread: number }>();
+  for (const [location, desks] of byLocation) {
+    if (desks.length < size) continue;
+    for (const seed of desks) {
+      const cluster = [...desks]
+        .sort((a, b) => distance(seed, a) - distance(seed, b) || byName(a, b))
+        .slice(0, size)
+        .sort(byName);
+      const key = cluster.map((desk) => desk.id).sort((a, b) => a - b).join(",");
+      if (!candidates.has(key)) {
+        candidates.set(key, {location, desks: cluster, spread: clusterSpread(cluster)});
+      }
+    }
+  }
+
+  return [...candidates.values()]
+    .sort(
+      (a, b) =>
+        a.spread - b.spread ||
+        a.location.localeCompare(b.location) ||
+        byName(a.desks[0], b.desks[0]),
+    )
+    .slice(0, limit)
+    .map(({location, desks}) => ({location, desks}));
+}
@@ -0,0 +1,130 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {screen, within} from "@testing-library/react";
+import userEvent, {type UserEvent} from "@testing-library/user-event";
+import {createTestDesk} from "@/test-utils/desks";
+import {renderWithProviders} from "@/test-utils/renderWithProviders";
+import {DeskBookingModal} from "@/features/desks/components/DeskBookingModal";
+import {toLocalDateTimeString} from "@/features/desks/utils/dateTime";
+import {apiUrl} from "@/lib/apiClient";
+import {WaitlistAlerts} from "./WaitlistAlerts";
+
+const auth = {
+  user: {id: 1, email: "test@example.com", fullName: "Test User"},
+  accessToken: "abc123",
+};
+
+// The mock API seeds a booking of Desk B tomorrow from 10:00 to 12:00.
+const tomorrowAt = (hours: number, minutes = 0) => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const cancelSeededBooking = () =>
+  fetch(apiUrl("/desks/2/bookings/2"), {method: "DELETE"});
+
+describe("WaitlistAlerts", () => {
+  let user: UserEvent;
+
+  beforeEach(() => {
+    user = userEvent.setup();
+  });
+
+  it("offers a waited-for slot once it frees up and books it", async () => {
+    const {queryClient} = renderWithProviders(
+      <>
+      <WaitlistAlerts/>
+      <DeskBookingModal
+        desk={createTestDesk({id: 2, name: "Desk B", location: null, position: null})}
+        isOpen
+        onClose={() => undefined}
+        initialDate={tomorrowAt(0)}
+      />
+      </>,
+      {initialAuth: auth},
+    );
+
+    await user.click(
+      await screen.findByRole("option", {name: "10:00 AM – 10:30 AM Booked"}),
+    );
+    await user.click(
+      screen.getByRole("button", {name: "Join waitlist for 10:00 AM – 10:30 AM"}),
+    );
+    expect(await screen.findByText("On your waitlist")).toBeInTheDocument();
+
+    await cancelSeededBooking();
+    await queryClient.invalidateQueries({queryKey: ["deskAvailability"]});
+
+    const alert = await screen.findByRole("alert", {name: "Waitlist"});
+    expect(alert).toHaveTextContent(/^desk b is free on .*, 10:00 AM – 10:30 AM\./i);
+
+    await user.click(within(alert).getByRole("button", {name: "Book it"}));
+
+    expect(
+      await within(alert).findByRole("list", {name: "Waitlist bookings"}),
+    ).toHaveTextContent(/^booked desk b on .*, 10:00 AM – 10:30 AM from your waitlist\.$/i);
+    expect(within(alert).queryByRole("button", {name: "Book it"})).not.toBeInTheDocument();
+  });
+
+  it("offers a slot again after losing it to someone else once it frees up again", async () => {
+    await fetch(apiUrl("/desks/2/waitlist"), {
+      method: "POST",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify({
+        startAt: toLocalDateTimeString(tomorrowAt(10)),
+        endAt: toLocalDateTimeString(tomorrowAt(10, 30)),
+        autoClaim: false,
+      }),
+    });
+    const {queryClient} = renderWithProviders(<WaitlistAlerts/>, {initialAuth: auth});
+
+    await cancelSeededBooking();
+    await queryClient.invalidateQueries({queryKey: ["deskAvailability"]});
+    const alert = await screen.findByRole("alert", {name: "Waitlist"});
+
+    const response = await fetch(apiUrl("/desks/2/bookings"), {
+      method: "POST",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify({
+        startAt: toLocalDateTimeString(tomorrowAt(10)),
+        endAt: toLocalDateTimeString(tomorrowAt(10, 30)),
+        userId: 2,
+      }),
+    });
+    const {id: otherBookingId} = (await response.json()) as { id: number };
+
+    await user.click(within(alert).getByRole("button", {name: "Book it"}));
+    expect(
+      await within(alert).findByRole("list", {name: "Waitlist bookings"}),
+    ).toHaveTextContent(/someone else/i);
+    expect(within(alert).queryByRole("button", {name: "Book it"})).not.toBeInTheDocument();
+
+    await fetch(apiUrl(`/desks/2/bookings/${otherBookingId}`), {method: "DELETE"});
+    await queryClient.invalidateQueries({queryKey: ["deskAvailability"]});
+
+    expect(await within(alert).findByRole("button", {name: "Book it"})).toBeInTheDocument();
+    expect(within(alert).queryByRole("list", {name: "Waitlist bookings"})).not.toBeInTheDocument();
+  });
+
+  it("claims entries marked for automatic claiming without asking", async () => {
+    await fetch(apiUrl("/desks/2/waitlist"), {
+      method: "POST",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify({
+        startAt: toLocalDateTimeString(tomorrowAt(10)),
+        endAt: toLocalDateTimeString(tomorrowAt(10, 30)),
+        autoClaim: true,
+      }),
+    });
+    const {queryClient} = renderWithProviders(<WaitlistAlerts/>, {initialAuth: auth});
+
+    await cancelSeededBooking();
+    await queryClient.invalidateQueries({queryKey: ["deskAvailability"]});
+
+    expect(
+      await screen.findByRole("list", {name: "Waitlist bookings"}),
+    ).toHaveTextContent(/^booked desk b on .*, 10:00 AM – 10:30 AM from your waitlist\.$/i);
+    expect(screen.queryByRole("button", {name: "Book it"})).not.toBeInTheDocument();
+  });
+});
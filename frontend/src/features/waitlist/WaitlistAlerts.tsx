@@ -0,0 +1,169 @@
+import React from "react";
+import {Button} from "@/components/ui/Button";
+import {theme} from "@/components/ui/theme";
+import {useDesksQuery} from "@/features/desks/api/desks";
+import {useOnlineStatus} from "@/features/offline/useOnlineStatus";
+import {
+  useClaimWaitlistEntryMutation,
+  useWaitlistQuery,
+  type WaitlistEntry,
+} from "@/features/waitlist/api/waitlist";
+import {useWaitlistAvailability} from "@/features/waitlist/hooks/useWaitlistAvailability";
+import {ApiError, toError} from "@/lib/apiClient";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type ClaimResult =
+  | { entry: WaitlistEntry; status: "claimed" }
+  | { entry: WaitlistEntry; status: "taken" | "failed"; error: Error };
+
+const buttonStyle: React.CSSProperties = {padding: "0.2rem 0.6rem"};
+
+// Shared while the waitlist loads, so it isn't a new array on every render.
+const NO_ENTRIES: WaitlistEntry[] = [];
+
+/**
+ * Tells the user when a slot they're waiting for frees up, and books the
+ * ones they asked to have claimed automatically.
+ */
+export const WaitlistAlerts: React.FC = () => {
+  const {t, locale, formatDate, formatTimeRange} = useI18n();
+  const isOnline = useOnlineStatus();
+  const {data: entries = NO_ENTRIES} = useWaitlistQuery();
+  const {data: desks} = useDesksQuery();
+  const availability = useWaitlistAvailability(entries);
+  const claimMutation = useClaimWaitlistEntryMutation();
+
+  const [results, setResults] = React.useState<ClaimResult[]>([]);
+  const [dismissedIds, setDismissedIds] = React.useState<number[]>([]);
+  const [claimingIds, setClaimingIds] = React.useState<number[]>([]);
+  // Entries already claimed automatically, so a refetch doesn't book twice.
+  const autoClaimedRef = React.useRef(new Set<number>());
+  // Entries someone else booked first, and whether their slot has been seen
+  // booked since. Once it has and frees up again, they're offered again.
+  const lostClaimsRef = React.useRef(new Map<number, boolean>());
+
+  const {mutateAsync: claimEntry} = claimMutation;
+  const claim = React.useCallback(
+    async (entry: WaitlistEntry) => {
+      setClaimingIds((current) => [...current, entry.id]);
+      try {
+        await claimEntry(entry);
+        setResults((current) => [...current, {entry, status: "claimed"}]);
+      } catch (err) {
+        const error = toError(err, locale);
+        const status = err instanceof ApiError && err.status === 409 ? "taken" : "failed";
+        if (status === "taken") lostClaimsRef.current.set(entry.id, false);
+        setResults((current) => [...current, {entry, status, error}]);
+      } finally {
+        setClaimingIds((current) => current.filter((id) => id !== entry.id));
+      }
+    },
+    [claimEntry, locale],
+  );
+
+  const freed = React.useMemo(
+    () => entries.filter((entry) => availability.get(entry.id) === "available"),
+    [entries, availability],
+  );
+
+  React.useEffect(() => {
+    const freedIds = new Set(freed.map((entry) => entry.id));
+    const freedAgain: number[] = [];
+    for (const [id, seenBooked] of lostClaimsRef.current) {
+      if (!freedIds.has(id)) {
+        lostClaimsRef.current.set(id, true);
+      } else if (seenBooked) {
+        lostClaimsRef.current.delete(id);
+        autoClaimedRef.current.delete(id);
+        freedAgain.push(id);
+      }
+    }
+    if (freedAgain.length > 0) {
+      setResults((current) => current.filter((result) => !freedAgain.includes(result.entry.id)));
+    }
+
+    if (!isOnline) return;
+    for (const entry of freed) {
+      if (!entry.autoClaim || autoClaimedRef.current.has(entry.id)) continue;
+      autoClaimedRef.current.add(entry.id);
+      void claim(entry);
+    }
+  }, [freed, isOnline, claim]);
+
+  const offers = freed.filter(
+    (entry) =>
+      !entry.autoClaim &&
+      !dismissedIds.includes(entry.id) &&
+      !results.some((result) => result.entry.id === entry.id),
+  );
+
+  if (offers.length === 0 && results.length === 0) return null;
+
+  const describe = (entry: WaitlistEntry) => ({
+    name:
+      desks?.find((desk) => desk.id === entry.deskId)?.name ??
+      t("myBookings.unknownDesk", {id: entry.deskId}),
+    date: formatDate(entry.startAt),
+    time: formatTimeRange(entry),
+  });
+
+  const describeResult = (result: ClaimResult) => {
+    const params = describe(result.entry);
+    if (result.status === "claimed") return t("waitlist.claimed", params);
+    if (result.status === "taken") return t("waitlist.claimTaken", params);
+    return t("waitlist.claimFailed", {...params, message: result.error.message});
+  };
+
+  return (
+    <div
+      role="alert"
+      aria-label={t("waitlist.title")}
+      style={{
+        padding: "0.5rem 1rem",
+        borderBottom: "1px solid #a7f3d0",
+        backgroundColor: "#ecfdf5",
+        fontSize: "0.9rem",
+      }}
+    >
+      {offers.map((entry) => (
+        <div
+          key={entry.id}
+          style={{display: "flex", alignItems: "center", gap: "0.75rem", marginBottom: "0.25rem"}}
+        >
+          <span>{t("waitlist.free", describe(entry))}</span>
+          <Button
+            onClick={() => claim(entry)}
+            style={buttonStyle}
+            disabled={!isOnline || claimingIds.includes(entry.id)}
+          >
+            {claimingIds.includes(entry.id) ? t("waitlist.claiming") : t("waitlist.claim")}
+          </Button>
+          <Button
+            onClick={() => setDismissedIds((current) => [...current, entry.id])}
+            style={buttonStyle}
+          >
+            {t("common.dismiss")}
+          </Button>
+        </div>
+      ))}
+
+      {results.length > 0 && (
+        <div style={{display: "flex", alignItems: "flex-start", gap: "0.75rem"}}>
+          <ul aria-label={t("waitlist.results")} style={{margin: 0, paddingLeft: "1.25rem"}}>
+            {results.map((result, index) => (
+              <li
+                key={`${result.entry.id}-${index}`}
+                style={{color: result.status === "claimed" ? undefined : theme.color.danger}}
+              >
+                {describeResult(result)}
+              </li>
+            ))}
+          </ul>
+          <Button onClick={() => setResults([])} style={{...buttonStyle, marginLeft: "auto"}}>
+            {t("common.dismiss")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
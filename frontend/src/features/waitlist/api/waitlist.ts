@@ -0,0 +1,134 @@
+import {useMutation, useQuery, useQueryClient} from "@tanstack/react-query";
+import {ApiError, defineEndpoint, useApiClient} from "@/lib/apiClient";
+import {array, boolean, type Infer, number, object, string} from "@/lib/decode";
+import {type Booking, deskBookingEndpoints} from "@/features/desks/api/deskBookings";
+
+/** A booked slot the user wants if it frees up. */
+const waitlistEntryDecoder = object({
+  id: number,
+  deskId: number,
+  startAt: string,
+  endAt: string,
+  /** Book the slot as soon as it's seen to be free, without asking. */
+  autoClaim: boolean,
+});
+
+export type WaitlistEntry = Infer<typeof waitlistEntryDecoder>;
+
+export type JoinWaitlistInput = {
+  deskId: number;
+  startAt: string;
+  endAt: string;
+  autoClaim?: boolean;
+};
+
+export type UpdateWaitlistEntryInput = {
+  id: number;
+  autoClaim: boolean;
+};
+
+export const waitlistEndpoints = {
+  mine: defineEndpoint<void, WaitlistEntry[]>({
+    method: "GET",
+    path: () => "/users/me/waitlist",
+    response: array(waitlistEntryDecoder),
+    errorMessages: {
+      401: "waitlist.errors.listUnauthorized",
+      default: "waitlist.errors.list",
+    },
+  }),
+  join: defineEndpoint<JoinWaitlistInput, WaitlistEntry>({
+    method: "POST",
+    path: ({deskId}) => `/desks/${deskId}/waitlist`,
+    body: ({startAt, endAt, autoClaim}) => ({startAt, endAt, autoClaim: autoClaim ?? false}),
+    response: waitlistEntryDecoder,
+    errorMessages: {
+      401: "waitlist.errors.joinUnauthorized",
+      409: "waitlist.errors.alreadyJoined",
+      default: "waitlist.errors.join",
+    },
+  }),
+  update: defineEndpoint<UpdateWaitlistEntryInput, WaitlistEntry>({
+    method: "PATCH",
+    path: ({id}) => `/waitlist/${id}`,
+    body: ({autoClaim}) => ({autoClaim}),
+    response: waitlistEntryDecoder,
+    errorMessages: {
+      401: "waitlist.errors.updateUnauthorized",
+      404: "waitlist.errors.notFound",
+      default: "waitlist.errors.update",
+    },
+  }),
+  leave: defineEndpoint<{ id: number }, void>({
+    method: "DELETE",
+    path: ({id}) => `/waitlist/${id}`,
+    errorMessages: {
+      401: "waitlist.errors.leaveUnauthorized",
+      404: "waitlist.errors.notFound",
+      default: "waitlist.errors.leave",
+    },
+  }),
+};
+
+export function useWaitlistQuery() {
+  const {request, isAuthenticated} = useApiClient();
+
+  return useQuery<WaitlistEntry[], ApiError>({
+    queryKey: ["waitlist"],
+    queryFn: () => request(waitlistEndpoints.mine, undefined),
+    enabled: isAuthenticated,
+  });
+}
+
+export function useJoinWaitlistMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<WaitlistEntry, ApiError, JoinWaitlistInput>({
+    mutationFn: (input) => request(waitlistEndpoints.join, input),
+    onSuccess: () => queryClient.invalidateQueries({queryKey: ["waitlist"]}),
+  });
+}
+
+export function useUpdateWaitlistEntryMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<WaitlistEntry, ApiError, UpdateWaitlistEntryInput>({
+    mutationFn: (input) => request(waitlistEndpoints.update, input),
+    onSuccess: () => queryClient.invalidateQueries({queryKey: ["waitlist"]}),
+  });
+}
+
+export function useLeaveWaitlistMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, ApiError, { id: number }>({
+    mutationFn: (input) => request(waitlistEndpoints.leave, input),
+    onSuccess: () => queryClient.invalidateQueries({queryKey: ["waitlist"]}),
+  });
+}
+
+/**
+ * Books a freed slot and takes it off the waitlist. If someone else books it
+ * first, the entry stays so the user keeps their place.
+ */
+export function useClaimWaitlistEntryMutation() {
+  const {request} = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<Booking, ApiError, WaitlistEntry>({
+    mutationFn: async ({id, deskId, startAt, endAt}) => {
+      const booking = await request(deskBookingEndpoints.create, {deskId, startAt, endAt});
+      await request(waitlistEndpoints.leave, {id});
+      return booking;
+    },
+    onSettled: (_booking, _error, {deskId}) =>
+      Promise.all([
+        queryClient.invalidateQueries({queryKey: ["waitlist"]}),
+        queryClient.invalidateQueries({queryKey: ["deskAvailability", deskId]}),
+        queryClient.invalidateQueries({queryKey: ["myBookings"]}),
+      ]),
+  });
+}
@@ -0,0 +1,131 @@
+import React from "react";
+import {Alert} from "@/components/ui/Alert";
+import {Button} from "@/components/ui/Button";
+import {DataTable, type DataTableColumn} from "@/components/ui/DataTable";
+import {
+  useLeaveWaitlistMutation,
+  useUpdateWaitlistEntryMutation,
+  useWaitlistQuery,
+  type WaitlistEntry,
+} from "@/features/waitlist/api/waitlist";
+import {useWaitlistAvailability} from "@/features/waitlist/hooks/useWaitlistAvailability";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type WaitlistSectionProps = {
+  deskNames: Map<number, string>;
+};
+
+/** The user's waitlist entries, with whether each slot is free yet. */
+export const WaitlistSection: React.FC<WaitlistSectionProps> = ({deskNames}) => {
+  const {t, formatDate, formatTimeRange} = useI18n();
+  const {data: entries = [], isLoading, isError, error} = useWaitlistQuery();
+  const availability = useWaitlistAvailability(entries);
+  const updateMutation = useUpdateWaitlistEntryMutation();
+  const leaveMutation = useLeaveWaitlistMutation();
+  const [actionError, setActionError] = React.useState<string | null>(null);
+
+  const sorted = React.useMemo(
+    () => [...entries].sort((a, b) => a.startAt.localeCompare(b.startAt)),
+    [entries],
+  );
+
+  const labelParams = (entry: WaitlistEntry) => ({
+    name: deskNames.get(entry.deskId) ?? t("myBookings.unknownDesk", {id: entry.deskId}),
+    date: formatDate(entry.startAt),
+    time: formatTimeRange(entry),
+  });
+
+  const handleAutoClaimChange = async (entry: WaitlistEntry, autoClaim: boolean) => {
+    setActionError(null);
+    try {
+      await updateMutation.mutateAsync({id: entry.id, autoClaim});
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setActionError(t("waitlist.updateFailed", {message}));
+    }
+  };
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    setActionError(null);
+    try {
+      await leaveMutation.mutateAsync({id: entry.id});
+    } catch (err) {
+      const message = err instanceof Error ? err.message : t("common.unknownError");
+      setActionError(t("waitlist.updateFailed", {message}));
+    }
+  };
+
+  const columns: DataTableColumn<WaitlistEntry>[] = [
+    {
+      key: "desk",
+      header: t("myBookings.column.desk"),
+      render: (entry) => labelParams(entry).name,
+    },
+    {
+      key: "date",
+      header: t("myBookings.column.date"),
+      render: (entry) => labelParams(entry).date,
+    },
+    {
+      key: "time",
+      header: t("myBookings.column.time"),
+      render: (entry) => labelParams(entry).time,
+    },
+    {
+      key: "status",
+      header: t("waitlist.column.status"),
+      render: (entry) =>
+        availability.get(entry.id) === "available"
+          ? t("waitlist.status.free")
+          : t("waitlist.status.waiting"),
+    },
+    {
+      key: "autoClaim",
+      header: t("waitlist.column.autoClaim"),
+      render: (entry) => (
+        <input
+          type="checkbox"
+          aria-label={t("waitlist.autoClaimFor", labelParams(entry))}
+          checked={entry.autoClaim}
+          onChange={(e) => handleAutoClaimChange(entry, e.target.checked)}
+          disabled={updateMutation.isPending}
+        />
+      ),
+    },
+    {
+      key: "actions",
+      header: t("myBookings.column.actions"),
+      align: "right",
+      render: (entry) => (
+        <Button
+          aria-label={t("waitlist.leaveFor", labelParams(entry))}
+          onClick={() => handleLeave(entry)}
+          disabled={leaveMutation.isPending}
+        >
+          {t("waitlist.leave")}
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <section>
+      <h2>{t("waitlist.title")}</h2>
+
+      {isLoading && <p>{t("waitlist.loading")}</p>}
+      {isError && <Alert tone="error">{error.message}</Alert>}
+      {actionError && <Alert tone="error">{actionError}</Alert>}
+
+      {!isLoading && !isError && sorted.length === 0 && <p>{t("waitlist.empty")}</p>}
+
+      {sorted.length > 0 && (
+        <DataTable
+          columns={columns}
+          rows={sorted}
+          rowKey={(entry) => entry.id}
+          label={t("waitlist.title")}
+        />
+      )}
+    </section>
+  );
+};
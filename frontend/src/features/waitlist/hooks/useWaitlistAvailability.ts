@@ -0,0 +1,38 @@
+import {useCallback} from "react";
+import {useQueries, type UseQueryResult} from "@tanstack/react-query";
+import {
+  type AvailabilitySlot,
+  deskBookingEndpoints,
+  type DeskAvailabilitySummary,
+  summarizeAvailability,
+} from "@/features/desks/api/deskBookings";
+import type {WaitlistEntry} from "@/features/waitlist/api/waitlist";
+import {useApiClient} from "@/lib/apiClient";
+
+/**
+ * Whether each waitlisted slot is free yet, keyed by entry id. Shares its
+ * cache entries with useDeskAvailabilityQuery, so live booking events that
+ * refetch a desk's availability update the waitlist too.
+ */
+export function useWaitlistAvailability(
+  entries: WaitlistEntry[],
+): Map<number, DeskAvailabilitySummary> {
+  const {request, isAuthenticated} = useApiClient();
+  // Stable, so the map only changes when an entry or a query result does.
+  const combine = useCallback(
+    (results: UseQueryResult<AvailabilitySlot[]>[]) =>
+      new Map(
+        results.map((result, index) => [entries[index].id, summarizeAvailability(result.data)]),
+      ),
+    [entries],
+  );
+
+  return useQueries({
+    queries: entries.map(({deskId, startAt, endAt}) => ({
+      queryKey: ["deskAvailability", deskId, startAt, endAt],
+      queryFn: () => request(deskBookingEndpoints.availability, {deskId, startAt, endAt}),
+      enabled: isAuthenticated,
+    })),
+    combine,
+  });
+}
@@ -0,0 +1,159 @@
+import {describe, expect, it, vi} from "vitest";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+import {ApiError, apiRequest, defineEndpoint, toError, UnexpectedResponseError} from "./apiClient";
+import {boolean, number, object} from "./decode";
+
+const getThing = defineEndpoint<{ id: number }, { id: number }>({
+  method: "GET",
+  path: ({id}) => `/things/${id}`,
+  response: object({id: number}),
+  errorMessages: {
+    401: "errors.unauthorized",
+    default: "errors.generic",
+  },
+});
+
+const anonymousThing = defineEndpoint<void, { ok: boolean }>({
+  method: "POST",
+  path: () => "/things/anonymous",
+  auth: false,
+  response: object({ok: boolean}),
+  errorMessages: {default: "errors.generic"},
+});
+
+async function captureError(promise: Promise<unknown>): Promise<ApiError> {
+  try {
+    await promise;
+  } catch (err) {
+    if (err instanceof ApiError) return err;
+    throw err;
+  }
+  throw new Error("Expected the request to fail");
+}
+
+describe("apiRequest", () => {
+  it("sends the bearer token and returns the parsed body", async () => {
+    server.use(
+      http.get("*/things/:id", ({request, params}) => {
+        expect(request.headers.get("Authorization")).toBe("Bearer token-1");
+        return HttpResponse.json({id: Number(params.id)});
+      }),
+    );
+
+    await expect(
+      apiRequest(getThing, {id: 7}, {accessToken: "token-1"}),
+    ).resolves.toEqual({id: 7});
+  });
+
+  it("rejects a body that doesn't match the endpoint's decoder", async () => {
+    server.use(
+      http.get("*/things/:id", () => HttpResponse.json({id: null})),
+    );
+
+    const error = await captureError(
+      apiRequest(getThing, {id: 7}, {accessToken: "token-1"}),
+    );
+
+    expect(error).toBeInstanceOf(UnexpectedResponseError);
+    expect(error.status).toBe(200);
+    expect(error.message).toContain("GET /things/7 $.id: expected a number, got null");
+  });
+
+  it("rejects a success body that isn't JSON", async () => {
+    server.use(
+      http.get("*/things/:id", () => new HttpResponse("<html>", {status: 200})),
+    );
+
+    const error = await captureError(
+      apiRequest(getThing, {id: 7}, {accessToken: "token-1"}),
+    );
+
+    expect(error).toBeInstanceOf(UnexpectedResponseError);
+    expect(error.status).toBe(200);
+    expect(error.message).toContain('GET /things/7 $: expected JSON, got "<html>"');
+  });
+
+  it("keeps the status, server message and field errors", async () => {
+    server.use(
+      http.get("*/things/:id", () =>
+        HttpResponse.json(
+          {
+            message: "Bad Request",
+            _embedded: {
+              errors: [{message: "request.name: must not be blank", path: "/name"}],
+            },
+          },
+          {status: 400},
+        ),
+      ),
+    );
+
+    const error = await captureError(
+      apiRequest(getThing, {id: 1}, {accessToken: "token-1"}),
+    );
+
+    expect(error.status).toBe(400);
+    expect(error.message).toBe("Bad Request");
+    expect(error.serverMessage).toBe("Bad Request");
+    expect(error.fieldErrors).toEqual({name: "must not be blank"});
+  });
+
+  it("falls back to the endpoint message for the status", async () => {
+    server.use(
+      http.get("*/things/:id", () => new HttpResponse(null, {status: 500})),
+    );
+
+    const error = await captureError(
+      apiRequest(getThing, {id: 1}, {accessToken: "token-1"}),
+    );
+
+    expect(error.message).toBe("Something went wrong.");
+    expect(error.serverMessage).toBeNull();
+  });
+
+  it("calls onUnauthorized when an authenticated request returns 401", async () => {
+    server.use(
+      http.get("*/things/:id", () => new HttpResponse(null, {status: 401})),
+    );
+    const onUnauthorized = vi.fn();
+
+    const error = await captureError(
+      apiRequest(getThing, {id: 1}, {accessToken: "expired", onUnauthorized}),
+    );
+
+    expect(error.message).toBe("You are not authorized to do this.");
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not call onUnauthorized for anonymous endpoints", async () => {
+    server.use(
+      http.post("*/things/anonymous", () => new HttpResponse(null, {status: 401})),
+    );
+    const onUnauthorized = vi.fn();
+
+    await captureError(
+      apiRequest(anonymousThing, undefined, {accessToken: null, onUnauthorized}),
+    );
+
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it("rejects authenticated endpoints without a token", async () => {
+    const error = await captureError(
+      apiRequest(getThing, {id: 1}, {accessToken: null}),
+    );
+
+    expect(error.status).toBe(401);
+    expect(error.message).toBe("Not authenticated");
+  });
+});
+
+describe("toError", () => {
+  it("keeps errors and describes anything else in the user's language", () => {
+    const error = new TypeError("Failed to fetch");
+
+    expect(toError(error, "de")).toBe(error);
+    expect(toError("boom", "de").message).toBe("Unbekannter Fehler");
+  });
+});
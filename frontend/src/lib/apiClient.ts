@@ -1,33 +1,232 @@
-import {useAuth} from "@/features/auth/AuthContext";
+import {useCallback} from "react";
+import {useAuth} from "@/features/auth/useAuth";
+import {decode, DecodeError, type Decoder} from "@/lib/decode";
+import {DEFAULT_LANGUAGE, type MessageKey, translate} from "@/lib/i18n/i18n";
+import {useI18n} from "@/lib/i18n/useI18n";
 
-export const useApiClient = () => {
-  const {accessToken, logout} = useAuth();
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "";
 
-  const apiFetch = async <TResponse>(
-    input: RequestInfo | URL,
-    init: RequestInit = {},
-  ): Promise<TResponse> => {
-    const headers = new Headers(init.headers || {});
-    if (accessToken) {
-      headers.set("Authorization", `Bearer ${accessToken}`);
-    }
+/** Full URL of an API path, e.g. "/desks". */
+export function apiUrl(path: string): string {
+  return `${API_BASE_URL}${path}`;
+}
 
-    const res = await fetch(input, {
-      ...init,
-      headers,
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Fallback messages used when the server does not send one, keyed by HTTP
+ * status. `default` covers every status without its own entry. Values are
+ * message keys, translated into the user's language when the request fails.
+ */
+export type ErrorMessages = {
+  default: MessageKey;
+  [status: number]: MessageKey;
+};
+
+export type Endpoint<TInput, TResponse> = {
+  method: HttpMethod;
+  path: (input: TInput) => string;
+  query?: (input: TInput) => Record<string, string>;
+  body?: (input: TInput) => unknown;
+  /** Endpoints are authenticated unless explicitly marked otherwise. */
+  auth?: boolean;
+  errorMessages: ErrorMessages;
+  /** Checks the response body; only endpoints that return nothing go without. */
+  response?: Decoder<TResponse>;
+};
+
+type ResponseDecoder<TResponse> = [TResponse] extends [void]
+  ? { response?: undefined }
+  : { response: Decoder<TResponse> };
+
+export function defineEndpoint<TInput = void, TResponse = void>(
+  endpoint: Endpoint<TInput, TResponse> & ResponseDecoder<TResponse>,
+): Endpoint<TInput, TResponse> {
+  return endpoint;
+}
+
+type ApiErrorOptions = {
+  status: number;
+  message: string;
+  serverMessage?: string | null;
+  fieldErrors?: FieldErrors;
+};
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly serverMessage: string | null;
+  readonly fieldErrors: FieldErrors;
+
+  constructor({status, message, serverMessage, fieldErrors}: ApiErrorOptions) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.serverMessage = serverMessage ?? null;
+    this.fieldErrors = fieldErrors ?? {};
+  }
+}
+
+/**
+ * A successful response whose body isn't what the endpoint's decoder expects,
+ * e.g. after a server change. The message names the request and the field so
+ * it can be reported as it is.
+ */
+export class UnexpectedResponseError extends ApiError {
+  /** Method and path, e.g. "GET /desks". */
+  readonly request: string;
+  readonly problem: DecodeError;
+
+  constructor(request: string, status: number, problem: DecodeError, locale: string) {
+    super({
+      status,
+      message: translate(locale, "errors.unexpectedResponse", {
+        details: `${request} ${problem.message}`,
+      }),
     });
+    this.name = "UnexpectedResponseError";
+    this.request = request;
+    this.problem = problem;
+  }
+}
 
-    if (res.status === 401) {
-      logout();
+type ServerErrorBody = {
+  message?: string;
+  errors?: { field?: string; message?: string }[];
+  _embedded?: {
+    errors?: { message?: string; path?: string }[];
+  };
+};
+
+// Micronaut validation errors arrive as "request.name: must not be blank"
+// with a JSON pointer path such as "/name".
+function parseFieldErrors(body: ServerErrorBody | undefined): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+
+  for (const error of body?.errors ?? []) {
+    if (error.field && error.message) {
+      fieldErrors[error.field] = error.message;
     }
+  }
+
+  for (const error of body?._embedded?.errors ?? []) {
+    const field = error.path?.replace(/^\//, "");
+    if (!field || !error.message) continue;
+    const separator = error.message.indexOf(": ");
+    fieldErrors[field] =
+      separator >= 0 ? error.message.slice(separator + 2) : error.message;
+  }
+
+  return fieldErrors;
+}
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(text || `Request failed with status ${res.status}`);
+async function toApiError(
+  response: Response,
+  errorMessages: ErrorMessages,
+  locale: string,
+): Promise<ApiError> {
+  let errorBody: ServerErrorBody | undefined;
+  try {
+    errorBody = (await response.json()) as ServerErrorBody;
+  } catch {
+    // ignore parse error; we'll fall back to the endpoint's message
+  }
+
+  const serverMessage = errorBody?.message || null;
+  const fallback = translate(locale, errorMessages[response.status] ?? errorMessages.default);
+
+  return new ApiError({
+    status: response.status,
+    message: serverMessage ?? fallback,
+    serverMessage,
+    fieldErrors: parseFieldErrors(errorBody),
+  });
+}
+
+export type RequestContext = {
+  accessToken: string | null;
+  onUnauthorized?: () => void;
+  /** Locale for the fallback error messages; English when omitted. */
+  locale?: string;
+};
+
+export async function apiRequest<TInput, TResponse>(
+  endpoint: Endpoint<TInput, TResponse>,
+  input: TInput,
+  {accessToken, onUnauthorized, locale = DEFAULT_LANGUAGE}: RequestContext,
+): Promise<TResponse> {
+  const requiresAuth = endpoint.auth !== false;
+
+  if (requiresAuth && !accessToken) {
+    throw new ApiError({status: 401, message: translate(locale, "errors.notAuthenticated")});
+  }
+
+  const headers = new Headers({"Content-Type": "application/json"});
+  if (requiresAuth && accessToken) {
+    headers.set("Authorization", `Bearer ${accessToken}`);
+  }
+
+  const path = endpoint.path(input);
+  const query = endpoint.query?.(input);
+  const search = query ? `?${new URLSearchParams(query).toString()}` : "";
+  const body = endpoint.body?.(input);
+
+  const response = await fetch(
+    apiUrl(`${path}${search}`),
+    {
+      method: endpoint.method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+  );
+
+  if (!response.ok) {
+    // A 401 on an anonymous endpoint (e.g. login) means bad credentials,
+    // not an expired session.
+    if (response.status === 401 && requiresAuth) {
+      onUnauthorized?.();
     }
+    throw await toApiError(response, endpoint.errorMessages, locale);
+  }
 
-    return (await res.json()) as TResponse;
-  };
+  const request = `${endpoint.method} ${path}`;
+  const text = await response.text();
+  let responseBody: unknown;
+  try {
+    responseBody = text ? JSON.parse(text) : undefined;
+  } catch {
+    throw new UnexpectedResponseError(request, response.status, new DecodeError("$", "JSON", text), locale);
+  }
+  if (!endpoint.response) return responseBody as TResponse;
+
+  try {
+    return decode(endpoint.response, responseBody);
+  } catch (err) {
+    if (!(err instanceof DecodeError)) throw err;
+    throw new UnexpectedResponseError(request, response.status, err, locale);
+  }
+}
+
+/** `err` itself when it's an Error, otherwise a generic one saying so. */
+export function toError(err: unknown, locale: string): Error {
+  return err instanceof Error ? err : new Error(translate(locale, "common.unknownError"));
+}
+
+export const useApiClient = () => {
+  const {accessToken, logout} = useAuth();
+  const {locale} = useI18n();
+
+  const request = useCallback(
+    <TInput, TResponse>(
+      endpoint: Endpoint<TInput, TResponse>,
+      input: TInput,
+    ): Promise<TResponse> =>
+      apiRequest(endpoint, input, {accessToken, onUnauthorized: logout, locale}),
+    [accessToken, logout, locale],
+  );
+
+  const toLocalizedError = useCallback((err: unknown) => toError(err, locale), [locale]);
 
-  return {apiFetch};
-};
\ No newline at end of file
+  return {request, toError: toLocalizedError, isAuthenticated: !!accessToken};
+};
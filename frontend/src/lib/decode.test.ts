@@ -0,0 +1,34 @@
+import {describe, expect, it} from "vitest";
+import {array, decode, DecodeError, map, nullable, number, object, oneOf, optional, string} from "./decode";
+
+const slot = object({
+  startAt: string,
+  status: oneOf(["AVAILABLE", "BOOKED"]),
+  note: optional(nullable(string)),
+});
+
+describe("decode", () => {
+  it("returns the value with only the listed fields", () => {
+    expect(decode(array(slot), [{startAt: "09:00", status: "BOOKED", extra: 1}])).toEqual([
+      {startAt: "09:00", status: "BOOKED"},
+    ]);
+    expect(decode(slot, {startAt: "09:00", status: "AVAILABLE", note: null})).toEqual({
+      startAt: "09:00",
+      status: "AVAILABLE",
+      note: null,
+    });
+  });
+
+  it("names the path and what it found when something doesn't match", () => {
+    expect(() => decode(array(slot), [{startAt: "09:00", status: "FREE"}])).toThrow(
+      '$[0].status: expected one of AVAILABLE, BOOKED, got "FREE"',
+    );
+    expect(() => decode(object({id: number}), {})).toThrow("$.id: expected a number, got nothing");
+    expect(() => decode(slot, [])).toThrow(DecodeError);
+  });
+
+  it("converts decoded values with map", () => {
+    const known = map(array(string), (values) => values.filter((value) => value !== "new"));
+    expect(decode(known, ["old", "new"])).toEqual(["old"]);
+  });
+});
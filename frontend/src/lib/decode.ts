@@ -0,0 +1,121 @@
+/*
+ * Decoders check JSON from the server against the shape the app expects and
+ * return it typed, so a changed payload fails where it arrives instead of
+ * somewhere in the UI. Response types are derived from them with `Infer`.
+ */
+
+/** Checks `value` and returns it typed, or throws a DecodeError. */
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+/** What didn't match, and where: `path` is like "$[0].id". */
+export class DecodeError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value);
+    super(`${path}: expected ${expected}, got ${received}`);
+    this.name = "DecodeError";
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (typeof value === "object") return "an object";
+  return typeof value === "undefined" ? "nothing" : `${typeof value} ${String(value)}`;
+}
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value !== "string") throw new DecodeError(path, "a string", value);
+  return value;
+};
+
+export const number: Decoder<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new DecodeError(path, "a number", value);
+  }
+  return value;
+};
+
+export const boolean: Decoder<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new DecodeError(path, "true or false", value);
+  return value;
+};
+
+export function oneOf<const T extends readonly string[]>(values: T): Decoder<T[number]> {
+  return (value, path) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      throw new DecodeError(path, `one of ${values.join(", ")}`, value);
+    }
+    return value as T[number];
+  };
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path) => (value === null ? null : decoder(value, path));
+}
+
+/** Decodes the result further, e.g. to drop values this client doesn't know. */
+export function map<T, U>(decoder: Decoder<T>, convert: (value: T) => U): Decoder<U> {
+  return (value, path) => convert(decoder(value, path));
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, "an array", value);
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+  };
+}
+
+type OptionalDecoder<T> = Decoder<T | undefined> & { readonly optional: true };
+
+/** A field older or newer servers may leave out. */
+export function optional<T>(decoder: Decoder<T>): OptionalDecoder<T> {
+  const decodeOptional: Decoder<T | undefined> = (value, path) =>
+    value === undefined ? undefined : decoder(value, path);
+  return Object.assign(decodeOptional, {optional: true as const});
+}
+
+type Shape = Record<string, Decoder<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalDecoder<unknown> ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+// Flattens the intersection so editors show the object type itself.
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** An object with these fields; fields it doesn't list are dropped. */
+export function object<S extends Shape>(shape: S): Decoder<Simplify<ObjectOf<S>>> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new DecodeError(path, "an object", value);
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, decoder] of Object.entries(shape)) {
+      const decoded = decoder(record[key], `${path}.${key}`);
+      if (decoded !== undefined) result[key] = decoded;
+    }
+    return result as Simplify<ObjectOf<S>>;
+  };
+}
+
+/** Runs a decoder on a whole payload, with paths starting at "$". */
+export function decode<T>(decoder: Decoder<T>, value: unknown): T {
+  return decoder(value, "$");
+}
@@ -0,0 +1,94 @@
+import {describe, expect, it, vi} from "vitest";
+import {waitFor} from "@testing-library/react";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+import {
+  backoffDelay,
+  connectEventStream,
+  createEventStreamParser,
+  type ServerSentEvent,
+} from "./eventStream";
+
+const encoder = new TextEncoder();
+
+function eventStreamResponse(body: string | ReadableStream<Uint8Array>) {
+  return new HttpResponse(body, {headers: {"Content-Type": "text/event-stream"}});
+}
+
+describe("createEventStreamParser", () => {
+  it("parses events split across chunks, skipping comments", () => {
+    const events: ServerSentEvent[] = [];
+    const parse = createEventStreamParser((event) => events.push(event));
+
+    parse(": keep-alive\n\nid: 7\nevent: booking.created\nda");
+    parse("ta: {\"a\":\r\ndata: 1}\r\n\r\ndata: plain\n");
+    expect(events).toHaveLength(1);
+    parse("\n");
+
+    expect(events).toEqual([
+      {type: "booking.created", data: "{\"a\":\n1}", id: "7"},
+      {type: "message", data: "plain", id: "7"},
+    ]);
+  });
+});
+
+describe("connectEventStream", () => {
+  it("backs off exponentially up to 30 seconds", () => {
+    expect([0, 1, 2, 5, 10].map(backoffDelay)).toEqual([1000, 2000, 4000, 30_000, 30_000]);
+  });
+
+  it("reconnects after failures and drops, resuming from the last event id", async () => {
+    const lastEventIds: (string | null)[] = [];
+    let attempts = 0;
+    server.use(
+      http.get("*/events/test", ({request}) => {
+        attempts += 1;
+        lastEventIds.push(request.headers.get("Last-Event-ID"));
+        if (attempts === 1) return new HttpResponse(null, {status: 503});
+        const event = `id: ${attempts}\nevent: ping\ndata: {}\n\n`;
+        // The first stream drops after one event; the next one stays open.
+        if (attempts === 2) return eventStreamResponse(event);
+        return eventStreamResponse(
+          new ReadableStream({start: (controller) => controller.enqueue(encoder.encode(event))}),
+        );
+      }),
+    );
+    const onEvent = vi.fn();
+    const onOpen = vi.fn();
+
+    const close = connectEventStream({
+      url: "/events/test",
+      onEvent,
+      onOpen,
+      retryDelay: () => 0,
+    });
+    await waitFor(() => expect(onEvent).toHaveBeenCalledTimes(2));
+    close();
+
+    expect(onOpen.mock.calls).toEqual([[false], [true]]);
+    expect(lastEventIds).toEqual([null, null, "2"]);
+  });
+
+  it("stops when the server refuses the stream", async () => {
+    let attempts = 0;
+    server.use(
+      http.get("*/events/test", () => {
+        attempts += 1;
+        return new HttpResponse(null, {status: 401});
+      }),
+    );
+    const onRefused = vi.fn();
+
+    const close = connectEventStream({
+      url: "/events/test",
+      onEvent: vi.fn(),
+      onRefused,
+      retryDelay: () => 0,
+    });
+    await waitFor(() => expect(onRefused).toHaveBeenCalledWith(401));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    close();
+
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,140 @@
+/*
+ * Server-sent events read over fetch. EventSource can't send an
+ * Authorization header, so the text/event-stream format is parsed here.
+ */
+
+export type ServerSentEvent = {
+  /** The `event:` field, or "message" when the server sent none. */
+  type: string;
+  data: string;
+  id: string | null;
+};
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30_000;
+
+/** Waits 1s, 2s, 4s... between reconnect attempts, up to 30s. */
+export function backoffDelay(attempt: number): number {
+  return Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+}
+
+/**
+ * An incremental parser: feed it text as it arrives and it calls `onEvent`
+ * for each complete event. Lines end in LF or CRLF.
+ */
+export function createEventStreamParser(onEvent: (event: ServerSentEvent) => void) {
+  let buffer = "";
+  let type = "";
+  let data: string[] = [];
+  let lastEventId: string | null = null;
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onEvent({type: type || "message", data: data.join("\n"), id: lastEventId});
+    }
+    type = "";
+    data = [];
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line === "") {
+        dispatch();
+        continue;
+      }
+      // Lines starting with a colon are comments, often used as keep-alives.
+      if (line.startsWith(":")) continue;
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "event") type = value;
+      else if (field === "data") data.push(value);
+      else if (field === "id") lastEventId = value;
+    }
+  };
+}
+
+export type EventStreamOptions = {
+  url: string;
+  headers?: Record<string, string>;
+  onEvent: (event: ServerSentEvent) => void;
+  /** Called each time the stream opens; `reconnected` is false the first time. */
+  onOpen?: (reconnected: boolean) => void;
+  /**
+   * Called when the server refuses the stream (401 or 403). Retrying won't
+   * help, so the stream stops.
+   */
+  onRefused?: (status: number) => void;
+  /** Milliseconds to wait before reconnect attempt `attempt` (0-based). */
+  retryDelay?: (attempt: number) => number;
+};
+
+/**
+ * Opens an event stream and keeps it open: whenever it drops or fails to
+ * connect it is retried with backoff, resuming from the last event id.
+ * Returns a function that closes it for good.
+ */
+export function connectEventStream({
+                                     url,
+                                     headers,
+                                     onEvent,
+                                     onOpen,
+                                     onRefused,
+                                     retryDelay = backoffDelay,
+                                   }: EventStreamOptions): () => void {
+  const controller = new AbortController();
+  let timer: number | undefined;
+  let attempt = 0;
+  let hasOpened = false;
+  let lastEventId: string | null = null;
+
+  const connect = async () => {
+    try {
+      const requestHeaders = new Headers({...headers, Accept: "text/event-stream"});
+      if (lastEventId) requestHeaders.set("Last-Event-ID", lastEventId);
+
+      const response = await fetch(url, {headers: requestHeaders, signal: controller.signal});
+      if (response.status === 401 || response.status === 403) {
+        onRefused?.(response.status);
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with status ${response.status}`);
+      }
+
+      onOpen?.(hasOpened);
+      hasOpened = true;
+      attempt = 0;
+
+      const parse = createEventStreamParser((event) => {
+        if (event.id) lastEventId = event.id;
+        onEvent(event);
+      });
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const {done, value} = await reader.read();
+        if (done) break;
+        parse(decoder.decode(value, {stream: true}));
+      }
+    } catch {
+      // Dropped or never connected; retried below unless we were closed.
+    }
+
+    if (controller.signal.aborted) return;
+    timer = window.setTimeout(connect, retryDelay(attempt));
+    attempt += 1;
+  };
+
+  void connect();
+
+  return () => {
+    controller.abort();
+    window.clearTimeout(timer);
+  };
+}
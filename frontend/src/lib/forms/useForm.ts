@@ -0,0 +1,86 @@
+import React, {useCallback, useState} from "react";
+import {ApiError} from "@/lib/apiClient";
+import {type FormRules, validateForm} from "@/lib/forms/validation";
+import {useI18n} from "@/lib/i18n/useI18n";
+
+type UseFormOptions<TValues> = {
+  initialValues: TValues;
+  rules: FormRules<TValues>;
+};
+
+type StringField<TValues> = {
+  [K in keyof TValues]: TValues[K] extends string ? K : never;
+}[keyof TValues];
+
+/**
+ * Form values checked against declarative rules on every change. A field's
+ * error shows once the user has left it, so nobody is told off mid-typing;
+ * `isValid` covers every field from the start, for disabling submit.
+ *
+ * Field errors from the server (a 400 with per-field messages) show next to
+ * the field with the same name until that field is edited.
+ */
+export function useForm<TValues extends Record<string, unknown>>({
+  initialValues,
+  rules,
+}: UseFormOptions<TValues>) {
+  const {t} = useI18n();
+  const [initial] = useState(initialValues);
+  const [values, setValues] = useState(initialValues);
+  const [touched, setTouched] = useState<Partial<Record<keyof TValues, boolean>>>({});
+  const [serverErrors, setServerErrors] = useState<Partial<Record<keyof TValues, string>>>({});
+
+  const errors = validateForm(values, rules);
+  const isValid =
+    Object.keys(errors).length === 0 && Object.keys(serverErrors).length === 0;
+
+  const setValue = useCallback(<K extends keyof TValues>(field: K, value: TValues[K]) => {
+    setValues((current) => ({...current, [field]: value}));
+    setServerErrors((current) => {
+      if (!(field in current)) return current;
+      const next = {...current};
+      delete next[field];
+      return next;
+    });
+  }, []);
+
+  const touch = useCallback((field: keyof TValues) => {
+    setTouched((current) => (current[field] ? current : {...current, [field]: true}));
+  }, []);
+
+  const errorFor = (field: keyof TValues): string | undefined => {
+    const serverError = serverErrors[field];
+    if (serverError) return serverError;
+    const error = errors[field];
+    return error && touched[field] ? t(error) : undefined;
+  };
+
+  /** Props binding a text input to a field. */
+  const inputProps = (field: StringField<TValues>) => ({
+    name: String(field),
+    value: values[field] as string,
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+      setValue(field, e.target.value as TValues[typeof field]),
+    onBlur: () => touch(field),
+  });
+
+  /**
+   * Shows a failed request's field errors next to their fields. Returns false
+   * when it has none for this form, so the caller shows the error as a whole.
+   */
+  const showServerErrors = (error: unknown): boolean => {
+    if (!(error instanceof ApiError)) return false;
+    const matching = Object.entries(error.fieldErrors).filter(([field]) => field in values);
+    if (matching.length === 0) return false;
+    setServerErrors(Object.fromEntries(matching) as Partial<Record<keyof TValues, string>>);
+    return true;
+  };
+
+  const reset = useCallback(() => {
+    setValues(initial);
+    setTouched({});
+    setServerErrors({});
+  }, [initial]);
+
+  return {values, setValue, touch, errorFor, inputProps, isValid, showServerErrors, reset};
+}
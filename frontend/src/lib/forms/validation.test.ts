@@ -0,0 +1,70 @@
+import {describe, expect, it} from "vitest";
+import {
+  emailFormat,
+  type FormRules,
+  maxLength,
+  numberBetween,
+  passwordStrength,
+  required,
+  strongPassword,
+  validateForm,
+} from "./validation";
+
+type Values = { email: string; nickname: string };
+
+describe("validateForm", () => {
+  const rules: FormRules<Values> = {
+    email: [required(), emailFormat()],
+    nickname: [
+      maxLength(5),
+      (value, values) =>
+        value && values.email.startsWith(value) ? {key: "validation.required"} : null,
+    ],
+  };
+
+  it("reports the first failing rule per field", () => {
+    expect(validateForm({email: "", nickname: "toolong"}, rules)).toEqual({
+      email: {key: "validation.required"},
+      nickname: {key: "validation.maxLength", params: {max: 5}},
+    });
+    expect(validateForm({email: "ana@", nickname: ""}, rules)).toEqual({
+      email: {key: "validation.email"},
+    });
+  });
+
+  it("passes the whole form to rules that compare fields", () => {
+    expect(validateForm({email: "ana@example.com", nickname: "ana"}, rules)).toHaveProperty("nickname");
+    expect(validateForm({email: "ana@example.com", nickname: "bo"}, rules)).toEqual({});
+  });
+});
+
+describe("rules", () => {
+  it("lets blank values through optional rules", () => {
+    expect(emailFormat()("  ", {})).toBeNull();
+    expect(numberBetween(0, 100)("", {})).toBeNull();
+    expect(required()("  ", {})).toEqual({key: "validation.required"});
+  });
+
+  it("checks numbers against their range", () => {
+    expect(numberBetween(0, 100)("42.5", {})).toBeNull();
+    expect(numberBetween(0, 100)("101", {})).toEqual({
+      key: "validation.numberBetween",
+      params: {min: 0, max: 100},
+    });
+    expect(numberBetween(0, 100)("abc", {})).not.toBeNull();
+  });
+
+  it("scores passwords and asks for at least a fair one", () => {
+    expect(passwordStrength("")).toBe(0);
+    expect(passwordStrength("password")).toBe(1);
+    expect(passwordStrength("password1")).toBe(2);
+    expect(passwordStrength("Password123!")).toBe(4);
+
+    expect(strongPassword()("password", {})).toEqual({
+      key: "validation.passwordWeak",
+      params: {min: 8},
+    });
+    expect(strongPassword()("Pass1!", {})).not.toBeNull();
+    expect(strongPassword()("password1", {})).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import type {Message} from "@/lib/i18n/i18n";
+
+/**
+ * Checks one field's value and returns what's wrong with it, or null when it's
+ * fine. Rules get the whole form too, for checks that compare fields.
+ */
+export type Rule<TValue, TValues = unknown> = (value: TValue, values: TValues) => Message | null;
+
+/** Rules per field, checked in order; the first failing rule wins. */
+export type FormRules<TValues> = {
+  [K in keyof TValues]?: Rule<TValues[K], TValues>[];
+};
+
+export type FormErrors<TValues> = Partial<Record<keyof TValues, Message>>;
+
+export function validateForm<TValues>(
+  values: TValues,
+  rules: FormRules<TValues>,
+): FormErrors<TValues> {
+  const errors: FormErrors<TValues> = {};
+  for (const field of Object.keys(rules) as (keyof TValues)[]) {
+    for (const rule of rules[field] ?? []) {
+      const error = rule(values[field], values);
+      if (error) {
+        errors[field] = error;
+        break;
+      }
+    }
+  }
+  return errors;
+}
+
+// Deliberately loose: the server has the final say on what it accepts.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function required(): Rule<string> {
+  return (value) => (value.trim() ? null : {key: "validation.required"});
+}
+
+/** Blank values pass; combine with `required` when the field is needed. */
+export function emailFormat(): Rule<string> {
+  return (value) =>
+    !value.trim() || EMAIL_PATTERN.test(value.trim()) ? null : {key: "validation.email"};
+}
+
+export function maxLength(max: number): Rule<string> {
+  return (value) =>
+    value.trim().length <= max ? null : {key: "validation.maxLength", params: {max}};
+}
+
+/** Blank values pass; anything else has to be a number from min to max. */
+export function numberBetween(min: number, max: number): Rule<string> {
+  return (value) => {
+    if (!value.trim()) return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= min && parsed <= max
+      ? null
+      : {key: "validation.numberBetween", params: {min, max}};
+  };
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+/** 0 (very weak) to 4 (strong). */
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * A rough score for a password: a point each for reaching the minimum length,
+ * a longer length, mixed case, digits and symbols, capped at 4.
+ */
+export function passwordStrength(password: string): PasswordStrength {
+  let score = 0;
+  if (password.length >= PASSWORD_MIN_LENGTH) score++;
+  if (password.length >= 12) score++;
+  if (/[a-z]/.test(password) && /[A-Z]/.test(password)) score++;
+  if (/\d/.test(password)) score++;
+  if (/[^A-Za-z0-9]/.test(password)) score++;
+  return Math.min(score, 4) as PasswordStrength;
+}
+
+/** At least the minimum length and a "fair" strength. */
+export function strongPassword(): Rule<string> {
+  return (value) =>
+    value.length >= PASSWORD_MIN_LENGTH && passwordStrength(value) >= 2
+      ? null
+      : {key: "validation.passwordWeak", params: {min: PASSWORD_MIN_LENGTH}};
+}
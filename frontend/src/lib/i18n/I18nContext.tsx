@@ -0,0 +1,41 @@
+import React, {type ReactNode, useEffect, useMemo} from "react";
+import {usePreferences} from "@/features/preferences/usePreferences";
+import {detectLocale, languageOf, translate} from "@/lib/i18n/i18n";
+import {formatDate, formatTime, formatTimeRange, formatWeekday} from "@/lib/i18n/format";
+import {I18nContext, type I18nContextValue} from "@/lib/i18n/useI18n";
+
+function browserLocales(): readonly string[] {
+  if (typeof navigator === "undefined") return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language];
+}
+
+export const I18nProvider: React.FC<{ children: ReactNode }> = ({children}) => {
+  const {preferences} = usePreferences();
+  const locale = detectLocale(browserLocales(), preferences.language);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      language: languageOf(locale),
+      t: (message, params) =>
+        typeof message === "string"
+          ? translate(locale, message, params)
+          : translate(locale, message.key, message.params),
+      formatTime: (time) => formatTime(locale, time),
+      formatTimeRange: (range) => formatTimeRange(locale, range),
+      formatDate: (date, options) => formatDate(locale, date, options),
+      formatWeekday: (day) => formatWeekday(locale, day),
+    }),
+    [locale],
+  );
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
@@ -0,0 +1,91 @@
+/*
+ * Locale-aware formatting of the app's times and dates.
+ *
+ * Strings ("HH:mm" or "YYYY-MM-DDTHH:mm:ss") are office wall-clock times, so
+ * they are formatted as if in UTC to keep the browser's timezone and DST
+ * rules out of them. Date objects are real instants (or calendar days built
+ * with the helpers in dateTime.ts) and are formatted in the browser's zone.
+ */
+
+export type TimeValue = string | Date;
+
+type TimeRangeValue = {
+  startAt: string;
+  endAt: string;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function cachedFormatter(
+  locale: string,
+  options: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** Whether the locale writes times on a 12-hour clock ("9:00 AM"). */
+export function uses12HourClock(locale: string): boolean {
+  const {hourCycle} = cachedFormatter(locale, {hour: "numeric"}).resolvedOptions();
+  return hourCycle === "h11" || hourCycle === "h12";
+}
+
+function wallClockInstant(value: string): Date {
+  const [date, time] = value.includes("T") ? value.split("T") : ["1970-01-01", value];
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours = 0, minutes = 0] = (time ?? "").split(":").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes));
+}
+
+function calendarDayInstant(value: TimeValue): Date {
+  if (typeof value === "string") {
+    const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day, 12));
+  }
+  return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate(), 12));
+}
+
+/** e.g. "9:00 AM" in en-US, "09:00" in en-GB and de. */
+export function formatTime(locale: string, value: TimeValue): string {
+  const options: Intl.DateTimeFormatOptions = {
+    hour: uses12HourClock(locale) ? "numeric" : "2-digit",
+    minute: "2-digit",
+  };
+  if (typeof value === "string") {
+    return cachedFormatter(locale, {...options, timeZone: "UTC"}).format(wallClockInstant(value));
+  }
+  return cachedFormatter(locale, options).format(value);
+}
+
+export function formatTimeRange(locale: string, range: TimeRangeValue): string {
+  return `${formatTime(locale, range.startAt)} – ${formatTime(locale, range.endAt)}`;
+}
+
+const DATE_LABEL_OPTIONS: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+};
+
+/** e.g. "Mon, Oct 20, 2026" in en-US or "Mo., 20. Okt. 2026" in de. */
+export function formatDate(
+  locale: string,
+  value: TimeValue,
+  options: Intl.DateTimeFormatOptions = DATE_LABEL_OPTIONS,
+): string {
+  return cachedFormatter(locale, {...options, timeZone: "UTC"}).format(calendarDayInstant(value));
+}
+
+/** Short weekday name for a Date#getDay number (0 = Sunday). */
+export function formatWeekday(locale: string, day: number): string {
+  // 4 January 1970 was a Sunday.
+  return cachedFormatter(locale, {weekday: "short", timeZone: "UTC"}).format(
+    new Date(Date.UTC(1970, 0, 4 + day, 12)),
+  );
+}
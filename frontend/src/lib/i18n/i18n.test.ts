@@ -0,0 +1,49 @@
+import {describe, expect, it} from "vitest";
+import {detectLocale, translate} from "./i18n";
+import {formatDate, formatTime, formatTimeRange, formatWeekday} from "./format";
+
+describe("detectLocale", () => {
+  it("uses the first browser locale we have messages for", () => {
+    expect(detectLocale(["fr-FR", "de-AT", "en-US"])).toBe("de-AT");
+    expect(detectLocale(["fr-FR"])).toBe("en");
+  });
+
+  it("prefers the user's chosen language, keeping a matching browser region", () => {
+    expect(detectLocale(["en-GB", "de-CH"], "de")).toBe("de-CH");
+    expect(detectLocale(["en-GB"], "de")).toBe("de");
+  });
+});
+
+describe("translate", () => {
+  it("fills in placeholders", () => {
+    expect(translate("en", "booking.title", {name: "Desk A"})).toBe("Book desk: Desk A");
+    expect(translate("de-AT", "booking.title", {name: "Desk A"})).toBe(
+      "Arbeitsplatz buchen: Desk A",
+    );
+  });
+
+  it("picks the plural form from the count", () => {
+    expect(translate("en", "recurring.summary", {booked: 1, count: 1})).toBe(
+      "Booked 1 of 1 occurrence.",
+    );
+    expect(translate("en", "recurring.summary", {booked: 2, count: 3})).toBe(
+      "Booked 2 of 3 occurrences.",
+    );
+  });
+});
+
+describe("formatting", () => {
+  it("follows the locale's 12- or 24-hour clock", () => {
+    const range = {startAt: "2026-10-20T13:00:00", endAt: "2026-10-20T13:30:00"};
+    expect(formatTimeRange("en-US", range)).toBe("1:00 PM – 1:30 PM");
+    expect(formatTimeRange("en-GB", range)).toBe("13:00 – 13:30");
+    expect(formatTimeRange("de", range)).toBe("13:00 – 13:30");
+    expect(formatTime("de", "09:00")).toBe("09:00");
+  });
+
+  it("formats office dates without shifting the day", () => {
+    expect(formatDate("en-US", "2026-10-20T23:30:00")).toBe("Tue, Oct 20, 2026");
+    expect(formatDate("de", "2026-10-20T00:00:00")).toBe("Di., 20. Okt. 2026");
+    expect(formatWeekday("de", 1)).toBe("Mo");
+  });
+});
@@ -0,0 +1,73 @@
+import {en} from "@/lib/i18n/messages/en";
+import {de} from "@/lib/i18n/messages/de";
+
+export type Language = "en" | "de";
+
+export type MessageKey = keyof typeof en;
+
+export type PluralMessage = { one: string; other: string };
+
+export type Catalog = Record<MessageKey, string | PluralMessage>;
+
+export type MessageParams = Record<string, string | number>;
+
+/** A message to show later, e.g. a validation result turned into text by `t`. */
+export type Message = {
+  key: MessageKey;
+  params?: MessageParams;
+};
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+/** Language names are shown in their own language so users can find theirs. */
+export const LANGUAGES: { value: Language; label: string }[] = [
+  {value: "en", label: "English"},
+  {value: "de", label: "Deutsch"},
+];
+
+const CATALOGS: Record<Language, Catalog> = {en, de};
+
+function baseLanguage(locale: string): string {
+  return locale.split("-")[0].toLowerCase();
+}
+
+function isLanguage(value: string): value is Language {
+  return LANGUAGES.some((language) => language.value === value);
+}
+
+export function languageOf(locale: string): Language {
+  const language = baseLanguage(locale);
+  return isLanguage(language) ? language : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Picks the locale used for messages and formatting: the first browser
+ * locale we have messages for, keeping its region so that e.g. "en-GB" gets
+ * a 24-hour clock. A language chosen by the user overrides the browser.
+ */
+export function detectLocale(
+  browserLocales: readonly string[],
+  override: Language | null = null,
+): string {
+  const match = browserLocales.find((locale) => {
+    const language = baseLanguage(locale);
+    return override ? language === override : isLanguage(language);
+  });
+  return match ?? override ?? DEFAULT_LANGUAGE;
+}
+
+function interpolate(template: string, params: MessageParams | undefined): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+export function translate(locale: string, key: MessageKey, params?: MessageParams): string {
+  const entry = CATALOGS[languageOf(locale)][key] ?? en[key];
+  if (typeof entry === "string") return interpolate(entry, params);
+
+  const count = Number(params?.count ?? 0);
+  const form = new Intl.PluralRules(locale).select(count) === "one" ? entry.one : entry.other;
+  return interpolate(form, params);
+}
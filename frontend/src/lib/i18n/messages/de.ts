@@ -0,0 +1,496 @@
+import type {Catalog} from "@/lib/i18n/i18n";
+
+export const de: Catalog = {
+  "common.cancel": "Abbrechen",
+  "common.close": "Schließen",
+  "common.dismiss": "Ausblenden",
+  "common.done": "Fertig",
+  "common.save": "Speichern",
+  "common.unknownError": "Unbekannter Fehler",
+
+  "errors.generic": "Etwas ist schiefgelaufen.",
+  "errors.notAuthenticated": "Nicht angemeldet",
+  "errors.unauthorized": "Dazu bist du nicht berechtigt.",
+  "errors.unexpectedResponse":
+    "Der Server hat eine Antwort geschickt, die diese App nicht versteht. Bitte melde das: {details}",
+
+  "validation.required": "Dieses Feld ist erforderlich.",
+  "validation.email": "Gib eine gültige E-Mail-Adresse ein.",
+  "validation.maxLength": "Verwende höchstens {max} Zeichen.",
+  "validation.numberBetween": "Gib eine Zahl von {min} bis {max} ein.",
+  "validation.passwordWeak":
+    "Verwende mindestens {min} Zeichen und mische Groß- und Kleinbuchstaben, Zahlen oder Sonderzeichen.",
+
+  "nav.main": "Hauptmenü",
+  "nav.dashboard": "Übersicht",
+  "nav.myBookings": "Meine Buchungen",
+  "nav.teamBooking": "Teambuchung",
+  "nav.settings": "Einstellungen",
+  "nav.manageDesks": "Arbeitsplätze verwalten",
+  "nav.logOut": "Abmelden",
+
+  "auth.email": "E-Mail",
+  "auth.password": "Passwort",
+  "auth.emailValue": "E-Mail: {email}",
+  "auth.forbidden": "Du hast keinen Zugriff auf diese Seite.",
+  "session.expiresAt":
+    "Deine Sitzung läuft um {time} ab. Melde dich erneut an, um ohne Unterbrechung weiterzuarbeiten.",
+  "session.logInAgain": "Erneut anmelden",
+
+  "login.title": "Anmelden",
+  "login.sessionExpired": "Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.",
+  "login.submit": "Anmelden",
+  "login.submitting": "Anmeldung läuft...",
+  "login.needAccount": "Noch kein Konto?",
+  "login.signUp": "Registrieren",
+  "login.success": "Anmeldung erfolgreich.",
+  "login.errors.invalidCredentials": "E-Mail oder Passwort ist falsch.",
+  "login.errors.failed": "Anmeldung fehlgeschlagen.",
+  "login.forgotPassword": "Passwort vergessen?",
+
+  "signup.title": "Registrieren",
+  "signup.fullName": "Vollständiger Name (optional)",
+  "signup.submit": "Registrieren",
+  "signup.submitting": "Registrierung läuft...",
+  "signup.success": "Konto erfolgreich erstellt.",
+  "signup.haveAccount": "Schon ein Konto?",
+  "signup.logIn": "Anmelden",
+  "signup.passwordHint":
+    "Mindestens {min} Zeichen, gemischt aus Groß- und Kleinbuchstaben, Zahlen oder Sonderzeichen.",
+  "signup.passwordStrength": "Passwortstärke: {level}",
+  "signup.passwordStrength.0": "sehr schwach",
+  "signup.passwordStrength.1": "schwach",
+  "signup.passwordStrength.2": "mittel",
+  "signup.passwordStrength.3": "gut",
+  "signup.passwordStrength.4": "stark",
+  "signup.errors.emailTaken": "Diese E-Mail-Adresse wird bereits verwendet.",
+  "signup.errors.failed": "Benutzer konnte nicht erstellt werden.",
+
+  "passwordReset.forgotTitle": "Passwort zurücksetzen",
+  "passwordReset.forgotIntro":
+    "Gib die E-Mail-Adresse deines Kontos ein, dann schicken wir dir einen Link, mit dem du ein neues Passwort wählen kannst.",
+  "passwordReset.sendLink": "Link senden",
+  "passwordReset.sending": "Wird gesendet...",
+  "passwordReset.linkSent":
+    "Falls es ein Konto für {email} gibt, ist ein Link zum Zurücksetzen unterwegs. Er funktioniert einmal und läuft nach einer Stunde ab.",
+  "passwordReset.backToLogin": "Zurück zur Anmeldung",
+  "passwordReset.resetTitle": "Neues Passwort wählen",
+  "passwordReset.newPassword": "Neues Passwort",
+  "passwordReset.confirmPassword": "Neues Passwort bestätigen",
+  "passwordReset.submit": "Passwort speichern",
+  "passwordReset.submitting": "Wird gespeichert...",
+  "passwordReset.success": "Dein Passwort wurde geändert. Du kannst dich jetzt damit anmelden.",
+  "passwordReset.logIn": "Anmelden",
+  "passwordReset.requestNewLink": "Neuen Link anfordern",
+  "passwordReset.errors.mismatch": "Die Passwörter stimmen nicht überein.",
+  "passwordReset.errors.missingToken":
+    "Dieser Link ist unvollständig. Öffne den Link aus der E-Mail erneut oder fordere einen neuen an.",
+  "passwordReset.errors.invalidLink": "Dieser Link zum Zurücksetzen ist ungültig.",
+  "passwordReset.errors.linkUsed": "Dieser Link zum Zurücksetzen wurde bereits verwendet.",
+  "passwordReset.errors.linkExpired": "Dieser Link zum Zurücksetzen ist abgelaufen.",
+  "passwordReset.errors.requestFailed": "Der Link konnte nicht gesendet werden.",
+  "passwordReset.errors.resetFailed": "Das Passwort konnte nicht geändert werden.",
+
+  "desks.errors.listUnauthorized": "Du bist nicht berechtigt, Arbeitsplätze anzusehen.",
+  "desks.errors.list": "Arbeitsplätze konnten nicht geladen werden.",
+  "desks.errors.createUnauthorized": "Du bist nicht berechtigt, Arbeitsplätze anzulegen.",
+  "desks.errors.create": "Arbeitsplatz konnte nicht angelegt werden.",
+  "desks.errors.updateUnauthorized": "Du darfst keine Arbeitsplätze bearbeiten.",
+  "desks.errors.update": "Arbeitsplatz konnte nicht gespeichert werden.",
+  "desks.errors.deleteUnauthorized": "Du darfst keine Arbeitsplätze löschen.",
+  "desks.errors.delete": "Arbeitsplatz konnte nicht gelöscht werden.",
+  "desks.errors.notFound": "Diesen Arbeitsplatz gibt es nicht mehr.",
+  "locations.errors.listUnauthorized": "Du bist nicht berechtigt, Standorte anzusehen.",
+  "locations.errors.list": "Standorte konnten nicht geladen werden.",
+  "availability.errors.unauthorized":
+    "Du bist nicht berechtigt, die Verfügbarkeit von Arbeitsplätzen anzusehen.",
+  "availability.errors.load": "Verfügbarkeit konnte nicht geladen werden.",
+  "bookings.errors.createUnauthorized": "Du bist nicht berechtigt, Buchungen anzulegen.",
+  "bookings.errors.create": "Buchung konnte nicht angelegt werden.",
+  "bookings.errors.listUnauthorized": "Du bist nicht berechtigt, deine Buchungen anzusehen.",
+  "bookings.errors.list": "Deine Buchungen konnten nicht geladen werden.",
+  "bookings.errors.cancelUnauthorized": "Du bist nicht berechtigt, diese Buchung zu stornieren.",
+  "bookings.errors.notFound": "Diese Buchung existiert nicht mehr.",
+  "bookings.errors.cancel": "Buchung konnte nicht storniert werden.",
+  "bookings.errors.deskListUnauthorized": "Du darfst die Buchungen dieses Arbeitsplatzes nicht sehen.",
+  "bookings.errors.deskList": "Die Buchungen des Arbeitsplatzes konnten nicht geladen werden.",
+  "teamBooking.errors.teammatesUnauthorized": "Du bist nicht berechtigt, Teammitglieder anzusehen.",
+  "teamBooking.errors.teammates": "Teammitglieder konnten nicht geladen werden.",
+  "teamBooking.errors.createUnauthorized": "Du bist nicht berechtigt, für ein Team zu buchen.",
+  "teamBooking.errors.create": "Teambuchung konnte nicht angelegt werden.",
+  "teamBooking.errors.groupUnauthorized": "Du darfst diese Teambuchung nicht sehen.",
+  "teamBooking.errors.groupNotFound": "Diese Teambuchung existiert nicht mehr.",
+  "teamBooking.errors.group": "Teambuchung konnte nicht geladen werden.",
+  "waitlist.errors.listUnauthorized": "Du bist nicht berechtigt, deine Warteliste anzusehen.",
+  "waitlist.errors.list": "Deine Warteliste konnte nicht geladen werden.",
+  "waitlist.errors.joinUnauthorized": "Du bist nicht berechtigt, dich auf Wartelisten einzutragen.",
+  "waitlist.errors.alreadyJoined": "Du stehst für diese Zeit bereits auf der Warteliste.",
+  "waitlist.errors.join": "Eintrag auf die Warteliste fehlgeschlagen.",
+  "waitlist.errors.updateUnauthorized": "Du darfst diesen Wartelisteneintrag nicht ändern.",
+  "waitlist.errors.update": "Wartelisteneintrag konnte nicht geändert werden.",
+  "waitlist.errors.leaveUnauthorized": "Du darfst diesen Wartelisteneintrag nicht entfernen.",
+  "waitlist.errors.leave": "Wartelisteneintrag konnte nicht entfernt werden.",
+  "waitlist.errors.notFound": "Dieser Wartelisteneintrag existiert nicht mehr.",
+  "checkIn.errors.unauthorized": "Du bist nicht berechtigt, einzuchecken.",
+  "checkIn.errors.noBooking": "Du hast gerade keine Buchung für diesen Arbeitsplatz, für die du einchecken kannst.",
+  "checkIn.errors.released": "Diese Buchung wurde freigegeben, weil der Check-in geschlossen ist.",
+  "checkIn.errors.checkIn": "Check-in fehlgeschlagen.",
+
+  "dashboard.title": "Übersicht",
+  "dashboard.loading": "Arbeitsplätze werden geladen...",
+  "dashboard.loadFailed": "Arbeitsplätze konnten nicht geladen werden.",
+  "dashboard.noDesks": "Keine Arbeitsplätze gefunden.",
+  "dashboard.noMatches": "Keine Arbeitsplätze entsprechen deinen Filtern.",
+  "dashboard.checkingAvailability": "Verfügbarkeit wird geprüft...",
+  "dashboard.view": "Ansicht",
+  "dashboard.view.table": "Tabelle",
+  "dashboard.view.floorPlan": "Grundriss",
+  "dashboard.view.week": "Woche",
+  "dashboard.column.id": "ID",
+  "dashboard.column.name": "Name",
+  "dashboard.column.location": "Standort",
+  "dashboard.column.amenities": "Ausstattung",
+  "dashboard.column.actions": "Aktionen",
+  "dashboard.book": "Buchen",
+
+  "createDesk.open": "Arbeitsplatz anlegen",
+  "createDesk.title": "Arbeitsplatz anlegen",
+  "createDesk.name": "Name",
+  "createDesk.location": "Standort (optional)",
+  "createDesk.position": "Position im Grundriss (optional, 0–100)",
+  "createDesk.x": "X",
+  "createDesk.y": "Y",
+  "createDesk.amenities": "Ausstattung",
+  "createDesk.submit": "Arbeitsplatz anlegen",
+  "createDesk.submitting": "Wird angelegt...",
+  "createDesk.errors.nameRequired": "Bitte gib einen Namen ein.",
+  "createDesk.errors.position":
+    "Für die Position im Grundriss werden X und Y zwischen 0 und 100 benötigt.",
+  "createDesk.errors.nameTaken": "An diesem Ort gibt es schon einen Arbeitsplatz namens {name}.",
+  "createDesk.errors.positionPair": "Gib X und Y an oder keins von beiden.",
+  "createDesk.errors.failed": "Arbeitsplatz konnte nicht angelegt werden: {message}",
+
+  "filters.search": "Suche",
+  "filters.searchPlaceholder": "Name, ID oder Standort",
+  "filters.location": "Standort",
+  "filters.allLocations": "Alle Standorte",
+  "filters.noLocation": "Ohne Standort",
+  "filters.availability": "Verfügbarkeit",
+  "filters.any": "Beliebig",
+  "filters.availableNow": "Jetzt frei",
+  "filters.freeOnDate": "Frei am Datum",
+  "filters.from": "Von",
+  "filters.until": "Bis",
+  "filters.allDay": "Ganztägig",
+  "filters.amenities": "Muss haben",
+  "filters.clear": "Filter zurücksetzen",
+
+  "amenities.title": "Ausstattung",
+  "amenity.dualMonitor": "Zwei Monitore",
+  "amenity.standingDesk": "Stehgestell",
+  "amenity.dockingStation": "Dockingstation",
+  "amenity.quietZone": "Ruhezone",
+
+  "booking.title": "Arbeitsplatz buchen: {name}",
+  "booking.type": "Buchungsart",
+  "booking.single": "Einzelbuchung",
+  "booking.repeat": "Wiederholen",
+  "booking.date": "Datum:",
+  "booking.startingDate": "Ab:",
+  "booking.showingHours": "Verfügbarkeit {hours} {timeZone}",
+  "booking.showLocalTime": "Meine Ortszeit anzeigen",
+  "booking.localTimeHint": "{time} deine Zeit",
+  "booking.loading": "Verfügbarkeit wird geladen...",
+  "booking.loadFailed": "Verfügbarkeit konnte nicht geladen werden: {message}",
+  "booking.noData": "Für diesen Zeitraum liegen keine Verfügbarkeitsdaten vor.",
+  "booking.slotsOn": "Zeiträume am {date}",
+  "booking.announce.loaded": {
+    one: "{count} von {total} Zeiträumen ist am {date} frei.",
+    other: "{count} von {total} Zeiträumen sind am {date} frei.",
+  },
+  "booking.status.available": "Frei",
+  "booking.status.booked": "Gebucht",
+  "booking.slot.selected": "Ausgewählt",
+  "booking.slot.selectedRange": "{time} ausgewählt.",
+  "booking.slot.joinWaitlistFor": "Auf die Warteliste für {time}",
+  "booking.slot.joinedWaitlist": "{time} steht jetzt auf deiner Warteliste.",
+  "booking.slot.onWaitlist": "Auf deiner Warteliste",
+  "booking.instructions":
+    "Klicke auf einen Start- und einen End-Zeitraum oder ziehe über mehrere Zeiträume, um einen zusammenhängenden Zeitraum auszuwählen. Mit der Tastatur bewegst du dich mit den Pfeiltasten, wählst mit der Leertaste aus und erweiterst die Auswahl mit Umschalt und den Pfeiltasten.",
+  "booking.conflict.booked":
+    "{time} ist bereits gebucht. Wähle aufeinanderfolgende freie Zeiträume.",
+  "booking.conflict.taken":
+    "{time} wurde gerade von jemand anderem gebucht. Wähle eine andere Zeit.",
+  "booking.conflict.gap":
+    "Vor {time} gibt es eine Lücke. Wähle aufeinanderfolgende freie Zeiträume.",
+  "booking.failed": "Buchung konnte nicht angelegt werden: {message}",
+  "booking.clearSelection": "Auswahl aufheben",
+  "booking.submit": "Buchen",
+  "booking.submitRange": "{time} buchen",
+  "booking.submitting": "Wird gebucht...",
+  "booking.submitOffline": "{time} buchen, sobald du wieder online bist",
+  "booking.booked": "{name} gebucht am {date}, {time}.",
+  "booking.addToCalendar": "Zum Kalender hinzufügen",
+
+  "recurring.repeatOn": "Wiederholen am",
+  "recurring.from": "Von",
+  "recurring.to": "bis",
+  "recurring.for": "für",
+  "recurring.weeksStarting": "Wochen, ab {date}",
+  "recurring.noOccurrences": "Keine kommenden Termine passen zu diesem Muster.",
+  "recurring.occurrences": "Termine",
+  "recurring.column.date": "Datum",
+  "recurring.column.time": "Zeit",
+  "recurring.column.status": "Status",
+  "recurring.checking": "Wird geprüft...",
+  "recurring.available": "Frei",
+  "recurring.conflict": "Konflikt: {reason}",
+  "recurring.reason.checkFailed": "Verfügbarkeit konnte nicht geprüft werden",
+  "recurring.reason.noData": "Keine Verfügbarkeitsdaten",
+  "recurring.reason.booked": "{time} ist gebucht",
+  "recurring.reason.gap": "Lücke vor {time}",
+  "recurring.failed": "Serie konnte nicht gebucht werden: {message}",
+  "recurring.abort": "Abbrechen",
+  "recurring.bookAll": "Alle {count} buchen",
+  "recurring.bookSkipping": "{count} buchen, {skipped} mit Konflikten überspringen",
+  "recurring.summary": {
+    one: "{booked} von {count} Termin gebucht.",
+    other: "{booked} von {count} Terminen gebucht.",
+  },
+  "recurring.summarySkipped": {
+    one: "{booked} von {count} Termin gebucht; {skipped} mit Konflikten übersprungen.",
+    other: "{booked} von {count} Terminen gebucht; {skipped} mit Konflikten übersprungen.",
+  },
+  "recurring.result": "{date}, {time}:",
+  "recurring.result.booked": "gebucht",
+  "recurring.result.failed": "fehlgeschlagen ({message})",
+  "recurrence.errors.noWeekdays": "Wähle mindestens einen Wochentag.",
+  "recurrence.errors.endBeforeStart": "Die Endzeit muss nach der Startzeit liegen.",
+  "recurrence.errors.weeks": "Wiederhole für 1 bis {max} Wochen.",
+
+  "floorPlan.date": "Datum:",
+  "floorPlan.time": "Uhrzeit:",
+  "floorPlan.officeTime": "in der Ortszeit des jeweiligen Büros",
+  "floorPlan.unassigned": "Nicht zugeordnet",
+  "floorPlan.label": "Grundriss: {location}",
+  "floorPlan.desk": "{name}, {status}",
+  "floorPlan.deskTitle": "{name} ({status})",
+  "floorPlan.status.available": "frei",
+  "floorPlan.status.booked": "gebucht",
+  "floorPlan.status.unknown": "Verfügbarkeit unbekannt",
+
+  "weekGrid.previous": "Vorherige Woche",
+  "weekGrid.current": "Diese Woche",
+  "weekGrid.next": "Nächste Woche",
+  "weekGrid.weekOf": "Woche vom {date}",
+  "weekGrid.columns": "Spalten",
+  "weekGrid.days": "Tage",
+  "weekGrid.halfHours": "Halbe Stunden",
+  "weekGrid.loading": "Verfügbarkeit wird geladen...",
+  "weekGrid.desk": "Arbeitsplatz",
+  "weekGrid.cell": "{desk}, {label}: {status}",
+  "weekGrid.cellTitle": "{label}: {status}",
+  "weekGrid.status.available": "frei",
+  "weekGrid.status.partial": "teilweise frei",
+  "weekGrid.status.booked": "gebucht",
+  "weekGrid.status.unknown": "Verfügbarkeit unbekannt",
+  "weekGrid.status.closed": "außerhalb der Arbeitszeit",
+  "weekGrid.short.available": "Frei",
+  "weekGrid.short.partial": "Teils",
+  "weekGrid.short.booked": "Voll",
+  "weekGrid.short.unknown": "?",
+  "weekGrid.short.closed": "Zu",
+
+  "deskAdmin.title": "Arbeitsplätze verwalten",
+  "deskAdmin.printQrCodes": "Check-in-QR-Codes drucken",
+  "deskAdmin.column.status": "Status",
+  "deskAdmin.active": "Aktiv",
+  "deskAdmin.inactive": "Inaktiv",
+  "deskAdmin.edit": "Bearbeiten",
+  "deskAdmin.editDesk": "{name} bearbeiten",
+  "deskAdmin.deactivate": "Deaktivieren",
+  "deskAdmin.deactivateDesk": "{name} deaktivieren",
+  "deskAdmin.reactivate": "Reaktivieren",
+  "deskAdmin.reactivateDesk": "{name} reaktivieren",
+  "deskAdmin.delete": "Löschen",
+  "deskAdmin.deleteDesk": "{name} löschen",
+  "deskAdmin.saving": "Wird gespeichert...",
+  "deskAdmin.saveFailed": "Arbeitsplatz konnte nicht gespeichert werden: {message}",
+  "deskAdmin.confirmDelete": "{name} löschen? Das kann nicht rückgängig gemacht werden.",
+  "deskAdmin.checkingBookings": "Anstehende Buchungen werden geprüft...",
+  "deskAdmin.bookingsCheckFailed": "Anstehende Buchungen konnten nicht geprüft werden: {message}",
+  "deskAdmin.deleteWarning": {
+    one: "{name} hat {count} anstehende Buchung. Beim Löschen wird sie storniert.",
+    other: "{name} hat {count} anstehende Buchungen. Beim Löschen werden sie storniert.",
+  },
+  "deskAdmin.confirmDeleteButton": "Arbeitsplatz löschen",
+  "deskAdmin.deleting": "Wird gelöscht...",
+  "deskAdmin.deleteFailed": "Arbeitsplatz konnte nicht gelöscht werden: {message}",
+
+  "deskCsv.title": "Arbeitsplätze aus CSV importieren",
+  "deskCsv.help":
+    "Die erste Zeile benennt die Spalten: name (Pflicht), location sowie x und y für die Position im Grundriss (0–100).",
+  "deskCsv.file": "CSV-Datei",
+  "deskCsv.readFailed": "Die Datei konnte nicht gelesen werden.",
+  "deskCsv.preview": "Importvorschau",
+  "deskCsv.column.row": "Zeile",
+  "deskCsv.column.position": "Position",
+  "deskCsv.column.status": "Status",
+  "deskCsv.ready": "Bereit",
+  "deskCsv.import": {
+    one: "{count} Arbeitsplatz importieren",
+    other: "{count} Arbeitsplätze importieren",
+  },
+  "deskCsv.importSkipping": "{count} importieren, {skipped} fehlerhafte überspringen",
+  "deskCsv.importing": "Wird importiert...",
+  "deskCsv.clear": "Verwerfen",
+  "deskCsv.summary": {
+    one: "{created} von {count} Arbeitsplatz angelegt.",
+    other: "{created} von {count} Arbeitsplätzen angelegt.",
+  },
+  "deskCsv.failed": "{name}: {message}",
+  "deskCsv.errors.empty": "Die Datei ist leer.",
+  "deskCsv.errors.missingNameColumn": "Die erste Zeile muss die Spalten benennen, darunter \"name\".",
+  "deskCsv.errors.noRows": "Die Datei enthält keine Arbeitsplätze.",
+  "deskCsv.errors.duplicate": "Am selben Standort gibt es schon einen Arbeitsplatz namens {name}.",
+
+  "myBookings.title": "Meine Buchungen",
+  "myBookings.loading": "Buchungen werden geladen...",
+  "myBookings.loadFailed": "Buchungen konnten nicht geladen werden.",
+  "myBookings.upcoming": "Anstehend",
+  "myBookings.past": "Vergangen",
+  "myBookings.noUpcoming": "Du hast keine anstehenden Buchungen.",
+  "myBookings.noPast": "Du hast keine vergangenen Buchungen.",
+  "myBookings.column.desk": "Arbeitsplatz",
+  "myBookings.column.date": "Datum",
+  "myBookings.column.time": "Zeit",
+  "myBookings.column.actions": "Aktionen",
+  "myBookings.unknownDesk": "Arbeitsplatz #{id}",
+  "myBookings.cancelling": "Wird storniert...",
+  "myBookings.cancelFailed": "Buchung konnte nicht storniert werden: {message}",
+  "myBookings.addAllToCalendar": "Anstehende Buchungen zum Kalender hinzufügen",
+  "myBookings.checkIn": "Einchecken",
+  "myBookings.checkInFor": "Bei {name} einchecken",
+  "myBookings.checkInBy": "Einchecken bis {time}",
+  "myBookings.checkedIn": "Eingecheckt",
+  "myBookings.released": "Freigegeben: nicht eingecheckt",
+  "myBookings.checkInFailed": "Check-in fehlgeschlagen: {message}",
+
+  "waitlist.title": "Warteliste",
+  "waitlist.loading": "Warteliste wird geladen...",
+  "waitlist.empty": "Du wartest auf keine Arbeitsplätze.",
+  "waitlist.column.status": "Status",
+  "waitlist.column.autoClaim": "Automatisch buchen",
+  "waitlist.status.waiting": "Wartend",
+  "waitlist.status.free": "Jetzt frei",
+  "waitlist.autoClaimFor": "{name} am {date}, {time} automatisch buchen",
+  "waitlist.leave": "Entfernen",
+  "waitlist.leaveFor": "Wartelisteneintrag für {name} am {date}, {time} entfernen",
+  "waitlist.joinFailed": "Eintrag auf die Warteliste fehlgeschlagen: {message}",
+  "waitlist.updateFailed": "Warteliste konnte nicht geändert werden: {message}",
+  "waitlist.free": "{name} ist am {date}, {time} frei.",
+  "waitlist.claim": "Jetzt buchen",
+  "waitlist.claiming": "Wird gebucht...",
+  "waitlist.results": "Buchungen von der Warteliste",
+  "waitlist.claimed": "{name} am {date}, {time} von deiner Warteliste gebucht.",
+  "waitlist.claimTaken":
+    "{name} am {date}, {time} wurde zuerst von jemand anderem gebucht. Du bleibst auf der Warteliste.",
+  "waitlist.claimFailed": "{name} am {date}, {time} konnte nicht gebucht werden: {message}",
+
+  "checkIn.title": "Check-in bei {name}",
+  "checkIn.loading": "Deine Buchung wird geladen...",
+  "checkIn.loadFailed": "Deine Buchung konnte nicht geladen werden.",
+  "checkIn.unknownDesk": "Diesen Arbeitsplatz gibt es nicht.",
+  "checkIn.noBooking": "Du hast gerade keine Buchung für {name}.",
+  "checkIn.findDesk": "Arbeitsplatz finden",
+  "checkIn.booking": "Deine Buchung: {date}, {time}.",
+  "checkIn.deadline": "Checke bis {deadline} ein, sonst wird der Arbeitsplatz für andere freigegeben.",
+  "checkIn.checkIn": "Einchecken",
+  "checkIn.checkingIn": "Wird eingecheckt...",
+  "checkIn.checkedIn": "Du bist bis {time} bei {name} eingecheckt.",
+  "checkIn.released":
+    "Deine Buchung für {time} wurde freigegeben, weil du nicht bis {deadline} eingecheckt hast.",
+  "checkIn.bookAgain": "Erneut einen Arbeitsplatz buchen",
+  "checkIn.failed": "Check-in fehlgeschlagen: {message}",
+  "checkIn.offline": "Du bist offline. Checke ein, sobald du wieder online bist.",
+
+  "qrSheet.title": "QR-Codes der Arbeitsplätze",
+  "qrSheet.hint": "Drucke diese Seite aus und klebe jeden Code an seinen Arbeitsplatz. Wer den Code scannt, checkt für seine Buchung ein.",
+  "qrSheet.print": "Drucken",
+  "qrSheet.codeFor": "Check-in-QR-Code für {name}",
+  "qrSheet.scanToCheckIn": "Zum Einchecken scannen",
+
+  "teamBooking.title": "Teambuchung",
+  "teamBooking.intro":
+    "Wähle deine Teammitglieder und einen Tag und bekomme nahe beieinander liegende Arbeitsplätze, die für euch alle frei sind.",
+  "teamBooking.teammates": "Teammitglieder",
+  "teamBooking.loadingTeammates": "Teammitglieder werden geladen...",
+  "teamBooking.noTeammates": "Es gibt noch niemanden, für den du buchen kannst.",
+  "teamBooking.date": "Datum",
+  "teamBooking.from": "Von",
+  "teamBooking.to": "bis",
+  "teamBooking.officeOpening": "Öffnungszeit des Büros",
+  "teamBooking.officeClosing": "Schließzeit des Büros",
+  "teamBooking.pickTeammates": "Wähle mindestens ein Teammitglied, um Arbeitsplätze zu finden.",
+  "teamBooking.checking": "Freie Arbeitsplätze werden gesucht...",
+  "teamBooking.checkFailed":
+    "Es konnte nicht geprüft werden, welche Arbeitsplätze frei sind. Versuch es später noch einmal.",
+  "teamBooking.noProposals": {
+    one: "Kein Standort hat {count} freien Arbeitsplatz zu dieser Zeit.",
+    other: "Kein Standort hat {count} freie Arbeitsplätze zusammen zu dieser Zeit.",
+  },
+  "teamBooking.proposals": "Vorgeschlagene Arbeitsplätze",
+  "teamBooking.proposal": "{location}: {desks}",
+  "teamBooking.seating": "Sitzordnung",
+  "teamBooking.you": "{name} (du)",
+  "teamBooking.seat": "{name}: {desk}",
+  "teamBooking.window": "{date}, {time} Ortszeit des Büros",
+  "teamBooking.book": {
+    one: "{count} Arbeitsplatz buchen",
+    other: "{count} Arbeitsplätze buchen",
+  },
+  "teamBooking.submitting": "Wird gebucht...",
+  "teamBooking.failed": "Buchung für dein Team fehlgeschlagen: {message}",
+  "teamBooking.summary": {
+    one: "{booked} von {count} Arbeitsplatz für dein Team gebucht: {date}, {time}.",
+    other: "{booked} von {count} Arbeitsplätzen für dein Team gebucht: {date}, {time}.",
+  },
+  "teamBooking.result.booked": "gebucht",
+  "teamBooking.result.failed": "fehlgeschlagen ({message})",
+  "teamBooking.bookAgain": "Erneut buchen",
+  "teamBooking.group": "Teambuchung",
+  "teamBooking.groupLoading": "Team wird geladen...",
+  "teamBooking.groupFailed": "Team konnte nicht geladen werden: {message}",
+
+  "offline.offline":
+    "Du bist offline. Deine Buchungen werden gesendet, sobald du wieder verbunden bist.",
+  "offline.queued": {
+    one: "{count} Buchung wartet auf den Versand.",
+    other: "{count} Buchungen warten auf den Versand.",
+  },
+  "offline.sending": "Gespeicherte Buchungen werden gesendet...",
+  "offline.sendNow": "Jetzt senden",
+  "offline.staleData": "Offline: Daten vom {date}, {time}.",
+  "offline.refreshFailed": "Aktualisierung fehlgeschlagen: Daten vom {date}, {time}.",
+  "offline.replay.title": "Gespeicherte Buchungen",
+  "offline.replay.booked": "{name} gebucht am {date}, {time}.",
+  "offline.replay.conflict":
+    "{name} am {date}, {time} wurde von jemand anderem gebucht, während du offline warst.",
+  "offline.replay.failed": "{name} am {date}, {time} konnte nicht gebucht werden: {message}",
+
+  "calendar.summary": "Arbeitsplatzbuchung: {name}",
+  "calendar.description": "{name}, gebucht mit Seatly.",
+
+  "settings.title": "Einstellungen",
+  "settings.language": "Sprache",
+  "settings.languageAuto": "Browser-Einstellung",
+  "settings.workingHours": "Arbeitszeiten",
+  "settings.workingHoursHelp":
+    "Die Verfügbarkeit wird für die Arbeitszeiten des jeweiligen Büros angezeigt. Wenn du andere Zeiten arbeitest, etwa in der Spätschicht, kannst du hier deine eigenen festlegen.",
+  "settings.useOwnHours": "Eigene Arbeitszeiten verwenden",
+  "settings.from": "Von",
+  "settings.to": "bis",
+  "settings.saved": "Einstellungen gespeichert.",
+  "workingHours.errors.format": "Gib die Zeiten im Format HH:mm ein.",
+  "workingHours.errors.endBeforeStart": "Der Arbeitstag muss nach seinem Beginn enden.",
+};
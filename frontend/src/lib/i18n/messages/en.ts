@@ -0,0 +1,492 @@
+/**
+ * English messages, the source catalog: every other language must translate
+ * each key. `{name}` placeholders are filled from the params passed to `t`;
+ * entries with `one`/`other` forms are chosen by the `count` param.
+ */
+export const en = {
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.dismiss": "Dismiss",
+  "common.done": "Done",
+  "common.save": "Save",
+  "common.unknownError": "Unknown error",
+
+  "errors.generic": "Something went wrong.",
+  "errors.notAuthenticated": "Not authenticated",
+  "errors.unauthorized": "You are not authorized to do this.",
+  "errors.unexpectedResponse":
+    "The server sent a response this app doesn't understand. Please report this: {details}",
+
+  "validation.required": "This field is required.",
+  "validation.email": "Enter a valid email address.",
+  "validation.maxLength": "Use at most {max} characters.",
+  "validation.numberBetween": "Enter a number from {min} to {max}.",
+  "validation.passwordWeak":
+    "Use at least {min} characters and mix upper- and lowercase letters, numbers or symbols.",
+
+  "nav.main": "Main",
+  "nav.dashboard": "Dashboard",
+  "nav.myBookings": "My bookings",
+  "nav.teamBooking": "Team booking",
+  "nav.settings": "Settings",
+  "nav.manageDesks": "Manage desks",
+  "nav.logOut": "Log out",
+
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.emailValue": "Email: {email}",
+  "auth.forbidden": "You don't have access to this page.",
+  "session.expiresAt":
+    "Your session expires at {time}. Log in again to keep working without interruptions.",
+  "session.logInAgain": "Log in again",
+
+  "login.title": "Log in",
+  "login.sessionExpired": "Your session has expired. Please log in again.",
+  "login.submit": "Log in",
+  "login.submitting": "Logging in...",
+  "login.needAccount": "Need an account?",
+  "login.signUp": "Sign up",
+  "login.success": "Login successful.",
+  "login.errors.invalidCredentials": "Invalid email or password.",
+  "login.errors.failed": "Failed to log in.",
+  "login.forgotPassword": "Forgot password?",
+
+  "signup.title": "Sign up",
+  "signup.fullName": "Full name (optional)",
+  "signup.submit": "Sign up",
+  "signup.submitting": "Signing up...",
+  "signup.success": "Account created successfully.",
+  "signup.haveAccount": "Already have an account?",
+  "signup.logIn": "Log in",
+  "signup.passwordHint":
+    "At least {min} characters, mixing upper- and lowercase letters, numbers or symbols.",
+  "signup.passwordStrength": "Password strength: {level}",
+  "signup.passwordStrength.0": "very weak",
+  "signup.passwordStrength.1": "weak",
+  "signup.passwordStrength.2": "fair",
+  "signup.passwordStrength.3": "good",
+  "signup.passwordStrength.4": "strong",
+  "signup.errors.emailTaken": "Email is already in use.",
+  "signup.errors.failed": "Failed to create user.",
+
+  "passwordReset.forgotTitle": "Reset your password",
+  "passwordReset.forgotIntro":
+    "Enter your account's email and we'll send you a link to choose a new password.",
+  "passwordReset.sendLink": "Send reset link",
+  "passwordReset.sending": "Sending...",
+  "passwordReset.linkSent":
+    "If there's an account for {email}, a reset link is on its way. It works once and expires after an hour.",
+  "passwordReset.backToLogin": "Back to log in",
+  "passwordReset.resetTitle": "Choose a new password",
+  "passwordReset.newPassword": "New password",
+  "passwordReset.confirmPassword": "Confirm new password",
+  "passwordReset.submit": "Set new password",
+  "passwordReset.submitting": "Saving...",
+  "passwordReset.success": "Your password has been changed. You can log in with it now.",
+  "passwordReset.logIn": "Log in",
+  "passwordReset.requestNewLink": "Request a new link",
+  "passwordReset.errors.mismatch": "The passwords don't match.",
+  "passwordReset.errors.missingToken":
+    "This reset link is incomplete. Open the link from the email again, or request a new one.",
+  "passwordReset.errors.invalidLink": "This reset link isn't valid.",
+  "passwordReset.errors.linkUsed": "This reset link has already been used.",
+  "passwordReset.errors.linkExpired": "This reset link has expired.",
+  "passwordReset.errors.requestFailed": "Failed to send the reset link.",
+  "passwordReset.errors.resetFailed": "Failed to change the password.",
+
+  "desks.errors.listUnauthorized": "You are not authorized to view desks.",
+  "desks.errors.list": "Failed to load desks.",
+  "desks.errors.createUnauthorized": "You are not authorized to create desks.",
+  "desks.errors.create": "Failed to create desk.",
+  "desks.errors.updateUnauthorized": "You are not authorized to edit desks.",
+  "desks.errors.update": "Failed to update desk.",
+  "desks.errors.deleteUnauthorized": "You are not authorized to delete desks.",
+  "desks.errors.delete": "Failed to delete desk.",
+  "desks.errors.notFound": "This desk no longer exists.",
+  "locations.errors.listUnauthorized": "You are not authorized to view locations.",
+  "locations.errors.list": "Failed to load locations.",
+  "availability.errors.unauthorized": "You are not authorized to view desk availability.",
+  "availability.errors.load": "Failed to load desk availability.",
+  "bookings.errors.createUnauthorized": "You are not authorized to create bookings.",
+  "bookings.errors.create": "Failed to create booking.",
+  "bookings.errors.listUnauthorized": "You are not authorized to view your bookings.",
+  "bookings.errors.list": "Failed to load your bookings.",
+  "bookings.errors.cancelUnauthorized": "You are not authorized to cancel this booking.",
+  "bookings.errors.notFound": "This booking no longer exists.",
+  "bookings.errors.cancel": "Failed to cancel booking.",
+  "bookings.errors.deskListUnauthorized": "You are not authorized to view this desk's bookings.",
+  "bookings.errors.deskList": "Failed to load the desk's bookings.",
+  "teamBooking.errors.teammatesUnauthorized": "You are not authorized to view teammates.",
+  "teamBooking.errors.teammates": "Failed to load teammates.",
+  "teamBooking.errors.createUnauthorized": "You are not authorized to book for a team.",
+  "teamBooking.errors.create": "Failed to create the team booking.",
+  "teamBooking.errors.groupUnauthorized": "You are not authorized to view this team booking.",
+  "teamBooking.errors.groupNotFound": "This team booking no longer exists.",
+  "teamBooking.errors.group": "Failed to load the team booking.",
+  "waitlist.errors.listUnauthorized": "You are not authorized to view your waitlist.",
+  "waitlist.errors.list": "Failed to load your waitlist.",
+  "waitlist.errors.joinUnauthorized": "You are not authorized to join waitlists.",
+  "waitlist.errors.alreadyJoined": "You are already on the waitlist for this time.",
+  "waitlist.errors.join": "Failed to join the waitlist.",
+  "waitlist.errors.updateUnauthorized": "You are not authorized to change this waitlist entry.",
+  "waitlist.errors.update": "Failed to update the waitlist entry.",
+  "waitlist.errors.leaveUnauthorized": "You are not authorized to leave this waitlist.",
+  "waitlist.errors.leave": "Failed to leave the waitlist.",
+  "waitlist.errors.notFound": "This waitlist entry no longer exists.",
+  "checkIn.errors.unauthorized": "You are not authorized to check in.",
+  "checkIn.errors.noBooking": "You have no booking to check in to at this desk right now.",
+  "checkIn.errors.released": "This booking was released because check-in closed.",
+  "checkIn.errors.checkIn": "Failed to check in.",
+
+  "dashboard.title": "Dashboard",
+  "dashboard.loading": "Loading desks...",
+  "dashboard.loadFailed": "Failed to load desks.",
+  "dashboard.noDesks": "No desks found.",
+  "dashboard.noMatches": "No desks match your filters.",
+  "dashboard.checkingAvailability": "Checking availability...",
+  "dashboard.view": "Dashboard view",
+  "dashboard.view.table": "Table",
+  "dashboard.view.floorPlan": "Floor plan",
+  "dashboard.view.week": "Week",
+  "dashboard.column.id": "ID",
+  "dashboard.column.name": "Name",
+  "dashboard.column.location": "Location",
+  "dashboard.column.amenities": "Amenities",
+  "dashboard.column.actions": "Actions",
+  "dashboard.book": "Book",
+
+  "createDesk.open": "Create desk",
+  "createDesk.title": "Create desk",
+  "createDesk.name": "Name",
+  "createDesk.location": "Location (optional)",
+  "createDesk.position": "Floor-plan position (optional, 0–100)",
+  "createDesk.x": "X",
+  "createDesk.y": "Y",
+  "createDesk.amenities": "Amenities",
+  "createDesk.submit": "Create desk",
+  "createDesk.submitting": "Creating...",
+  "createDesk.errors.nameRequired": "Name is required.",
+  "createDesk.errors.position": "Floor-plan position needs both X and Y between 0 and 100.",
+  "createDesk.errors.nameTaken": "A desk called {name} already exists at this location.",
+  "createDesk.errors.positionPair": "Enter both X and Y, or neither.",
+  "createDesk.errors.failed": "Could not create desk: {message}",
+
+  "filters.search": "Search",
+  "filters.searchPlaceholder": "Name, ID or location",
+  "filters.location": "Location",
+  "filters.allLocations": "All locations",
+  "filters.noLocation": "No location",
+  "filters.availability": "Availability",
+  "filters.any": "Any",
+  "filters.availableNow": "Available now",
+  "filters.freeOnDate": "Free on date",
+  "filters.from": "From",
+  "filters.until": "Until",
+  "filters.allDay": "All day",
+  "filters.amenities": "Must have",
+  "filters.clear": "Clear filters",
+
+  "amenities.title": "Amenities",
+  "amenity.dualMonitor": "Dual monitor",
+  "amenity.standingDesk": "Standing frame",
+  "amenity.dockingStation": "Docking station",
+  "amenity.quietZone": "Quiet zone",
+
+  "booking.title": "Book desk: {name}",
+  "booking.type": "Booking type",
+  "booking.single": "Single booking",
+  "booking.repeat": "Repeat",
+  "booking.date": "Date:",
+  "booking.startingDate": "Starting:",
+  "booking.showingHours": "Showing availability {hours} {timeZone}",
+  "booking.showLocalTime": "Show my local time",
+  "booking.localTimeHint": "{time} your time",
+  "booking.loading": "Loading availability...",
+  "booking.loadFailed": "Failed to load availability: {message}",
+  "booking.noData": "No availability data for this period.",
+  "booking.slotsOn": "Time slots on {date}",
+  "booking.announce.loaded": {
+    one: "{count} of {total} time slots is free on {date}.",
+    other: "{count} of {total} time slots are free on {date}.",
+  },
+  "booking.status.available": "Available",
+  "booking.status.booked": "Booked",
+  "booking.slot.selected": "Selected",
+  "booking.slot.selectedRange": "Selected {time}.",
+  "booking.slot.joinWaitlistFor": "Join waitlist for {time}",
+  "booking.slot.joinedWaitlist": "Added {time} to your waitlist.",
+  "booking.slot.onWaitlist": "On your waitlist",
+  "booking.instructions":
+    "Click a start and an end slot, or drag across slots, to select a continuous time range. With the keyboard, use the arrow keys to move, Space to select and Shift with the arrow keys to extend the selection.",
+  "booking.conflict.booked": "{time} is already booked. Choose consecutive available slots.",
+  "booking.conflict.taken": "{time} was just booked by someone else. Choose another time.",
+  "booking.conflict.gap": "There is a gap before {time}. Choose consecutive available slots.",
+  "booking.failed": "Could not create booking: {message}",
+  "booking.clearSelection": "Clear selection",
+  "booking.submit": "Book",
+  "booking.submitRange": "Book {time}",
+  "booking.submitting": "Booking...",
+  "booking.submitOffline": "Book {time} when back online",
+  "booking.booked": "Booked {name} on {date}, {time}.",
+  "booking.addToCalendar": "Add to calendar",
+
+  "recurring.repeatOn": "Repeat on",
+  "recurring.from": "From",
+  "recurring.to": "to",
+  "recurring.for": "for",
+  "recurring.weeksStarting": "weeks, starting {date}",
+  "recurring.noOccurrences": "No upcoming occurrences match this pattern.",
+  "recurring.occurrences": "Occurrences",
+  "recurring.column.date": "Date",
+  "recurring.column.time": "Time",
+  "recurring.column.status": "Status",
+  "recurring.checking": "Checking...",
+  "recurring.available": "Available",
+  "recurring.conflict": "Conflict: {reason}",
+  "recurring.reason.checkFailed": "Could not check availability",
+  "recurring.reason.noData": "No availability data",
+  "recurring.reason.booked": "{time} is booked",
+  "recurring.reason.gap": "Gap before {time}",
+  "recurring.failed": "Could not book the series: {message}",
+  "recurring.abort": "Abort",
+  "recurring.bookAll": "Book all {count}",
+  "recurring.bookSkipping": "Book {count}, skip {skipped} with conflicts",
+  "recurring.summary": {
+    one: "Booked {booked} of {count} occurrence.",
+    other: "Booked {booked} of {count} occurrences.",
+  },
+  "recurring.summarySkipped": {
+    one: "Booked {booked} of {count} occurrence; skipped {skipped} with conflicts.",
+    other: "Booked {booked} of {count} occurrences; skipped {skipped} with conflicts.",
+  },
+  "recurring.result": "{date}, {time}:",
+  "recurring.result.booked": "booked",
+  "recurring.result.failed": "failed ({message})",
+  "recurrence.errors.noWeekdays": "Choose at least one weekday.",
+  "recurrence.errors.endBeforeStart": "The end time must be after the start time.",
+  "recurrence.errors.weeks": "Repeat for between 1 and {max} weeks.",
+
+  "floorPlan.date": "Date:",
+  "floorPlan.time": "Time:",
+  "floorPlan.officeTime": "in each office's local time",
+  "floorPlan.unassigned": "Unassigned",
+  "floorPlan.label": "Floor plan: {location}",
+  "floorPlan.desk": "{name}, {status}",
+  "floorPlan.deskTitle": "{name} ({status})",
+  "floorPlan.status.available": "available",
+  "floorPlan.status.booked": "booked",
+  "floorPlan.status.unknown": "availability unknown",
+
+  "weekGrid.previous": "Previous week",
+  "weekGrid.current": "This week",
+  "weekGrid.next": "Next week",
+  "weekGrid.weekOf": "Week of {date}",
+  "weekGrid.columns": "Columns",
+  "weekGrid.days": "Days",
+  "weekGrid.halfHours": "Half hours",
+  "weekGrid.loading": "Loading availability...",
+  "weekGrid.desk": "Desk",
+  "weekGrid.cell": "{desk}, {label}: {status}",
+  "weekGrid.cellTitle": "{label}: {status}",
+  "weekGrid.status.available": "available",
+  "weekGrid.status.partial": "partly available",
+  "weekGrid.status.booked": "booked",
+  "weekGrid.status.unknown": "availability unknown",
+  "weekGrid.status.closed": "outside working hours",
+  "weekGrid.short.available": "Free",
+  "weekGrid.short.partial": "Partly",
+  "weekGrid.short.booked": "Full",
+  "weekGrid.short.unknown": "?",
+  "weekGrid.short.closed": "Closed",
+
+  "deskAdmin.title": "Manage desks",
+  "deskAdmin.printQrCodes": "Print check-in QR codes",
+  "deskAdmin.column.status": "Status",
+  "deskAdmin.active": "Active",
+  "deskAdmin.inactive": "Inactive",
+  "deskAdmin.edit": "Edit",
+  "deskAdmin.editDesk": "Edit {name}",
+  "deskAdmin.deactivate": "Deactivate",
+  "deskAdmin.deactivateDesk": "Deactivate {name}",
+  "deskAdmin.reactivate": "Reactivate",
+  "deskAdmin.reactivateDesk": "Reactivate {name}",
+  "deskAdmin.delete": "Delete",
+  "deskAdmin.deleteDesk": "Delete {name}",
+  "deskAdmin.saving": "Saving...",
+  "deskAdmin.saveFailed": "Could not save desk: {message}",
+  "deskAdmin.confirmDelete": "Delete {name}? This can't be undone.",
+  "deskAdmin.checkingBookings": "Checking upcoming bookings...",
+  "deskAdmin.bookingsCheckFailed": "Could not check upcoming bookings: {message}",
+  "deskAdmin.deleteWarning": {
+    one: "{name} has {count} upcoming booking. Deleting the desk cancels it.",
+    other: "{name} has {count} upcoming bookings. Deleting the desk cancels them.",
+  },
+  "deskAdmin.confirmDeleteButton": "Delete desk",
+  "deskAdmin.deleting": "Deleting...",
+  "deskAdmin.deleteFailed": "Could not delete desk: {message}",
+
+  "deskCsv.title": "Import desks from CSV",
+  "deskCsv.help":
+    "The first row names the columns: name (required), location, and x and y for the floor-plan position (0–100).",
+  "deskCsv.file": "CSV file",
+  "deskCsv.readFailed": "Could not read the file.",
+  "deskCsv.preview": "Import preview",
+  "deskCsv.column.row": "Row",
+  "deskCsv.column.position": "Position",
+  "deskCsv.column.status": "Status",
+  "deskCsv.ready": "Ready",
+  "deskCsv.import": {
+    one: "Import {count} desk",
+    other: "Import {count} desks",
+  },
+  "deskCsv.importSkipping": "Import {count}, skip {skipped} with errors",
+  "deskCsv.importing": "Importing...",
+  "deskCsv.clear": "Clear",
+  "deskCsv.summary": {
+    one: "Created {created} of {count} desk.",
+    other: "Created {created} of {count} desks.",
+  },
+  "deskCsv.failed": "{name}: {message}",
+  "deskCsv.errors.empty": "The file is empty.",
+  "deskCsv.errors.missingNameColumn": "The first row must name the columns, including \"name\".",
+  "deskCsv.errors.noRows": "The file has no desks in it.",
+  "deskCsv.errors.duplicate": "A desk called {name} already exists at this location.",
+
+  "myBookings.title": "My bookings",
+  "myBookings.loading": "Loading bookings...",
+  "myBookings.loadFailed": "Failed to load bookings.",
+  "myBookings.upcoming": "Upcoming",
+  "myBookings.past": "Past",
+  "myBookings.noUpcoming": "You have no upcoming bookings.",
+  "myBookings.noPast": "You have no past bookings.",
+  "myBookings.column.desk": "Desk",
+  "myBookings.column.date": "Date",
+  "myBookings.column.time": "Time",
+  "myBookings.column.actions": "Actions",
+  "myBookings.unknownDesk": "Desk #{id}",
+  "myBookings.cancelling": "Cancelling...",
+  "myBookings.cancelFailed": "Could not cancel booking: {message}",
+  "myBookings.addAllToCalendar": "Add upcoming bookings to calendar",
+  "myBookings.checkIn": "Check in",
+  "myBookings.checkInFor": "Check in to {name}",
+  "myBookings.checkInBy": "Check in by {time}",
+  "myBookings.checkedIn": "Checked in",
+  "myBookings.released": "Released: not checked in",
+  "myBookings.checkInFailed": "Could not check in: {message}",
+
+  "waitlist.title": "Waitlist",
+  "waitlist.loading": "Loading waitlist...",
+  "waitlist.empty": "You are not waiting for any desks.",
+  "waitlist.column.status": "Status",
+  "waitlist.column.autoClaim": "Claim automatically",
+  "waitlist.status.waiting": "Waiting",
+  "waitlist.status.free": "Free now",
+  "waitlist.autoClaimFor": "Claim {name} on {date}, {time} automatically",
+  "waitlist.leave": "Leave",
+  "waitlist.leaveFor": "Leave the waitlist for {name} on {date}, {time}",
+  "waitlist.joinFailed": "Could not join the waitlist: {message}",
+  "waitlist.updateFailed": "Could not update the waitlist: {message}",
+  "waitlist.free": "{name} is free on {date}, {time}.",
+  "waitlist.claim": "Book it",
+  "waitlist.claiming": "Booking...",
+  "waitlist.results": "Waitlist bookings",
+  "waitlist.claimed": "Booked {name} on {date}, {time} from your waitlist.",
+  "waitlist.claimTaken":
+    "{name} on {date}, {time} was booked by someone else first. You are still on the waitlist.",
+  "waitlist.claimFailed": "Could not book {name} on {date}, {time}: {message}",
+
+  "checkIn.title": "Check in to {name}",
+  "checkIn.loading": "Loading your booking...",
+  "checkIn.loadFailed": "Failed to load your booking.",
+  "checkIn.unknownDesk": "This desk does not exist.",
+  "checkIn.noBooking": "You have no booking for {name} right now.",
+  "checkIn.findDesk": "Find a desk",
+  "checkIn.booking": "Your booking: {date}, {time}.",
+  "checkIn.deadline": "Check in by {deadline} or the desk is released for others.",
+  "checkIn.checkIn": "Check in",
+  "checkIn.checkingIn": "Checking in...",
+  "checkIn.checkedIn": "You are checked in at {name} until {time}.",
+  "checkIn.released":
+    "Your booking for {time} was released because you did not check in by {deadline}.",
+  "checkIn.bookAgain": "Book a desk again",
+  "checkIn.failed": "Could not check in: {message}",
+  "checkIn.offline": "You are offline. Check in once you are back online.",
+
+  "qrSheet.title": "Desk QR codes",
+  "qrSheet.hint": "Print this sheet and stick each code on its desk. Scanning a code checks in to the booking.",
+  "qrSheet.print": "Print",
+  "qrSheet.codeFor": "Check-in QR code for {name}",
+  "qrSheet.scanToCheckIn": "Scan to check in",
+
+  "teamBooking.title": "Team booking",
+  "teamBooking.intro":
+    "Pick your teammates and a day, and get desks near each other that are free for all of you.",
+  "teamBooking.teammates": "Teammates",
+  "teamBooking.loadingTeammates": "Loading teammates...",
+  "teamBooking.noTeammates": "There is nobody else to book for yet.",
+  "teamBooking.date": "Date",
+  "teamBooking.from": "From",
+  "teamBooking.to": "to",
+  "teamBooking.officeOpening": "Office opening",
+  "teamBooking.officeClosing": "Office closing",
+  "teamBooking.pickTeammates": "Pick at least one teammate to find desks.",
+  "teamBooking.checking": "Finding free desks...",
+  "teamBooking.checkFailed": "Could not check which desks are free. Try again later.",
+  "teamBooking.noProposals": {
+    one: "No location has {count} free desk for this time.",
+    other: "No location has {count} free desks together for this time.",
+  },
+  "teamBooking.proposals": "Suggested desks",
+  "teamBooking.proposal": "{location}: {desks}",
+  "teamBooking.seating": "Seating",
+  "teamBooking.you": "{name} (you)",
+  "teamBooking.seat": "{name}: {desk}",
+  "teamBooking.window": "{date}, {time} office time",
+  "teamBooking.book": {
+    one: "Book {count} desk",
+    other: "Book {count} desks",
+  },
+  "teamBooking.submitting": "Booking...",
+  "teamBooking.failed": "Could not book for your team: {message}",
+  "teamBooking.summary": {
+    one: "Booked {booked} of {count} desk for your team on {date}, {time}.",
+    other: "Booked {booked} of {count} desks for your team on {date}, {time}.",
+  },
+  "teamBooking.result.booked": "booked",
+  "teamBooking.result.failed": "failed ({message})",
+  "teamBooking.bookAgain": "Book again",
+  "teamBooking.group": "Team booking",
+  "teamBooking.groupLoading": "Loading team...",
+  "teamBooking.groupFailed": "Could not load the team: {message}",
+
+  "offline.offline": "You're offline. Bookings you make will be sent when you reconnect.",
+  "offline.queued": {
+    one: "{count} booking waiting to be sent.",
+    other: "{count} bookings waiting to be sent.",
+  },
+  "offline.sending": "Sending queued bookings...",
+  "offline.sendNow": "Send now",
+  "offline.staleData": "Offline: showing data saved {date}, {time}.",
+  "offline.refreshFailed": "Could not refresh: showing data saved {date}, {time}.",
+  "offline.replay.title": "Queued bookings",
+  "offline.replay.booked": "Booked {name} on {date}, {time}.",
+  "offline.replay.conflict":
+    "{name} on {date}, {time} was booked by someone else while you were offline.",
+  "offline.replay.failed": "Could not book {name} on {date}, {time}: {message}",
+
+  "calendar.summary": "Desk booking: {name}",
+  "calendar.description": "{name}, booked with Seatly.",
+
+  "settings.title": "Settings",
+  "settings.language": "Language",
+  "settings.languageAuto": "Browser default",
+  "settings.workingHours": "Working hours",
+  "settings.workingHoursHelp":
+    "Desk availability is shown for each office's working hours. If you work different hours, such as an evening shift, set your own here.",
+  "settings.useOwnHours": "Use my own working hours",
+  "settings.from": "From",
+  "settings.to": "to",
+  "settings.saved": "Settings saved.",
+  "workingHours.errors.format": "Enter times as HH:mm.",
+  "workingHours.errors.endBeforeStart": "The working day must end after it starts.",
+} as const;
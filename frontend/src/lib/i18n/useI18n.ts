@@ -0,0 +1,24 @@
+import {createContext, useContext} from "react";
+import type {TimeValue} from "@/lib/i18n/format";
+import type {Language, Message, MessageKey, MessageParams} from "@/lib/i18n/i18n";
+
+export type I18nContextValue = {
+  /** BCP 47 locale used for formatting, e.g. "en-GB" or "de". */
+  locale: string;
+  language: Language;
+  t: (message: MessageKey | Message, params?: MessageParams) => string;
+  formatTime: (value: TimeValue) => string;
+  formatTimeRange: (range: { startAt: string; endAt: string }) => string;
+  formatDate: (value: TimeValue, options?: Intl.DateTimeFormatOptions) => string;
+  formatWeekday: (day: number) => string;
+};
+
+export const I18nContext = createContext<I18nContextValue | undefined>(undefined);
+
+export const useI18n = (): I18nContextValue => {
+  const ctx = useContext(I18nContext);
+  if (!ctx) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return ctx;
+};
@@ -1,18 +1,43 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import {BrowserRouter} from "react-router-dom";
-import {QueryClient, QueryClientProvider} from "@tanstack/react-query";
+import {onlineManager, QueryClient, QueryClientProvider} from "@tanstack/react-query";
 import App from "@/app/App.tsx";
 import {AuthProvider} from "@/features/auth/AuthContext";
+import {PreferencesProvider} from "@/features/preferences/PreferencesContext";
+import {I18nProvider} from "@/lib/i18n/I18nContext";
+import {BookingQueueProvider} from "@/features/offline/BookingQueueContext";
+import {QUERY_CACHE_MAX_AGE_MS, restoreQueryCache} from "@/features/offline/queryPersistence";
+import {registerServiceWorker} from "@/features/offline/serviceWorker";
+import {LiveAnnouncerProvider} from "@/components/ui/LiveAnnouncer";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    // Keep unused queries around as long as they're kept offline.
+    queries: {gcTime: QUERY_CACHE_MAX_AGE_MS},
+  },
+});
+
+// React Query assumes it starts online; opening the app offline should pause
+// queries on the saved data instead of failing them.
+onlineManager.setOnline(navigator.onLine);
+restoreQueryCache(queryClient);
+registerServiceWorker();
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
       <BrowserRouter>
         <AuthProvider>
-          <App/>
+          <PreferencesProvider>
+            <I18nProvider>
+              <BookingQueueProvider>
+                <LiveAnnouncerProvider>
+                  <App/>
+                </LiveAnnouncerProvider>
+              </BookingQueueProvider>
+            </I18nProvider>
+          </PreferencesProvider>
         </AuthProvider>
       </BrowserRouter>
     </QueryClientProvider>
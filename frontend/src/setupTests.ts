@@ -1,9 +1,15 @@
 import '@testing-library/jest-dom';
 import {afterAll, afterEach, beforeAll} from 'vitest';
+import {onlineManager} from '@tanstack/react-query';
 import {server} from './test-utils/msw/server';
+import {resetMockData} from './test-utils/msw/handlers';
 
 beforeAll(() => server.listen({onUnhandledRequest: 'error'}));
 
-afterEach(() => server.resetHandlers());
+afterEach(() => {
+  server.resetHandlers();
+  resetMockData();
+  onlineManager.setOnline(true);
+});
 
 afterAll(() => server.close());
\ No newline at end of file
@@ -0,0 +1,15 @@
+import axe from "axe-core";
+
+/**
+ * Runs axe over an element and returns its violations as readable lines, so
+ * a failing `expect(...).toEqual([])` says what's wrong and where. Colour
+ * contrast is left out: jsdom doesn't lay out or paint anything.
+ */
+export async function axeViolations(context: Element = document.body): Promise<string[]> {
+  const {violations} = await axe.run(context, {
+    rules: {"color-contrast": {enabled: false}},
+  });
+  return violations.flatMap((violation) =>
+    violation.nodes.map((node) => `${violation.id}: ${violation.help} (${node.target.join(" ")})`),
+  );
+}
@@ -0,0 +1,14 @@
+import type {Desk} from "@/features/desks/api/desks";
+
+/** Desk A from the mock API's seed data, with `overrides` applied, for tests only. */
+export function createTestDesk(overrides: Partial<Desk> = {}): Desk {
+  return {
+    id: 1,
+    name: "Desk A",
+    location: "1st Floor",
+    position: {x: 20, y: 30},
+    amenities: ["dualMonitor", "dockingStation"],
+    active: true,
+    ...overrides,
+  };
+}
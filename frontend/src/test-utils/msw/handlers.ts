@@ -11,10 +11,23 @@ type LoginRequest = {
   password: string;
 };
 
+type PasswordResetRequest = {
+  token: string;
+  password: string;
+};
+
+type DeskPosition = {
+  x: number;
+  y: number;
+};
+
 type DeskResponse = {
   id: number;
   name: string;
   location: string | null;
+  position: DeskPosition | null;
+  amenities: string[];
+  active: boolean;
 };
 
 type AvailabilityStatus = "AVAILABLE" | "BOOKED";
@@ -31,22 +44,220 @@ type BookingResponse = {
   userId: number;
   startAt: string;
   endAt: string;
+  groupId?: number;
+  checkedInAt?: string;
 };
 
-const desks: DeskResponse[] = [
+type WaitlistEntryResponse = {
+  id: number;
+  deskId: number;
+  startAt: string;
+  endAt: string;
+  autoClaim: boolean;
+};
+
+type BookingGroupResponse = {
+  id: number;
+  organizerId: number;
+  startAt: string;
+  endAt: string;
+};
+
+// Everyone who can be booked in with the test user's team.
+const users = [
+  {id: 1, email: "test@example.com", fullName: "Test User"},
+  {id: 2, email: "alice@example.com", fullName: "Alice Example"},
+  {id: 3, email: "bob@example.com", fullName: "Bob Example"},
+];
+
+const seedDesks = (): DeskResponse[] => [
   {
     id: 1,
     name: "Desk A",
     location: "1st Floor",
+    position: {x: 20, y: 30},
+    amenities: ["dualMonitor", "dockingStation"],
+    active: true,
   },
   {
     id: 2,
     name: "Desk B",
     location: null,
+    position: null,
+    amenities: ["standingDesk", "quietZone"],
+    active: true,
+  },
+];
+
+type LocationResponse = {
+  name: string;
+  workingHours: { start: string; end: string };
+  timeZone: string;
+};
+
+const locations: LocationResponse[] = [
+  {name: "1st Floor", workingHours: {start: "09:00", end: "17:00"}, timeZone: "UTC"},
+  {name: "Evening Wing", workingHours: {start: "14:00", end: "22:00"}, timeZone: "UTC"},
+  {name: "New York", workingHours: {start: "09:00", end: "17:00"}, timeZone: "America/New_York"},
+];
+
+// Reset links as the server has issued them. Each works once, until it expires.
+type ResetToken = {
+  token: string;
+  email: string;
+  expiresAt: number;
+  usedAt: number | null;
+};
+
+const RESET_TOKEN_MINUTES = 60;
+
+const seedResetTokens = (): ResetToken[] => [
+  {
+    token: "valid-reset-token",
+    email: "test@example.com",
+    expiresAt: Date.now() + RESET_TOKEN_MINUTES * 60_000,
+    usedAt: null,
+  },
+  {
+    token: "expired-reset-token",
+    email: "test@example.com",
+    expiresAt: Date.now() - 60_000,
+    usedAt: null,
   },
 ];
 
-let bookingIdCounter = 1;
+const SLOT_MINUTES = 30;
+
+// The slot starting at this time is always booked by someone else.
+const PREBOOKED_SLOT_TIME = "12:00";
+
+// Check-in opens this long before a booking starts; bookings nobody checks
+// in to stop holding the desk this long after they start.
+const CHECK_IN_OPENS_MINUTES = 15;
+const CHECK_IN_GRACE_MINUTES = 15;
+
+function toLocalDateTimeString(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function shiftMinutes(value: string, minutes: number): string {
+  return toLocalDateTimeString(new Date(new Date(value).getTime() + minutes * 60_000));
+}
+
+function isReleased(booking: BookingResponse, now: string): boolean {
+  return !booking.checkedInAt && shiftMinutes(booking.startAt, CHECK_IN_GRACE_MINUTES) <= now;
+}
+
+function atTime(daysFromToday: number, hours: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  date.setHours(hours, 0, 0, 0);
+  return toLocalDateTimeString(date);
+}
+
+// The signed-in test user (id 1) has one past and one upcoming booking.
+const seedBookings = (): BookingResponse[] => [
+  {
+    id: 1,
+    deskId: 1,
+    userId: 1,
+    startAt: atTime(-1, 9),
+    endAt: atTime(-1, 12),
+    checkedInAt: atTime(-1, 9),
+  },
+  {id: 2, deskId: 2, userId: 1, startAt: atTime(1, 10), endAt: atTime(1, 12)},
+];
+
+const desks = seedDesks();
+const bookings = seedBookings();
+const bookingGroups: BookingGroupResponse[] = [];
+const waitlist: WaitlistEntryResponse[] = [];
+const resetTokens = seedResetTokens();
+
+let waitlistIdCounter = 1;
+
+let bookingIdCounter = bookings.length + 1;
+
+// Open /events/bookings streams; every event is written to all of them.
+const eventStreams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+let eventIdCounter = 1;
+const encoder = new TextEncoder();
+
+/**
+ * Sends a server-sent event to every open booking event stream, as the
+ * server does when bookings or desks change. Tests call it directly to
+ * stand in for other people's changes.
+ */
+export function emitMockEvent(type: string, payload: unknown) {
+  const message = encoder.encode(
+    `id: ${eventIdCounter++}\nevent: ${type}\ndata: ${JSON.stringify(payload)}\n\n`,
+  );
+  for (const stream of eventStreams) {
+    try {
+      stream.enqueue(message);
+    } catch {
+      eventStreams.delete(stream);
+    }
+  }
+}
+
+/** How many clients are listening for events, so tests can wait for one. */
+export function openEventStreamCount(): number {
+  return eventStreams.size;
+}
+
+/** Restores the in-memory data so every test starts from the same seed. */
+export function resetMockData() {
+  desks.splice(0, desks.length, ...seedDesks());
+  bookings.splice(0, bookings.length, ...seedBookings());
+  bookingIdCounter = bookings.length + 1;
+  bookingGroups.splice(0, bookingGroups.length);
+  waitlist.splice(0, waitlist.length);
+  waitlistIdCounter = 1;
+  resetTokens.splice(0, resetTokens.length, ...seedResetTokens());
+  eventStreams.clear();
+  eventIdCounter = 1;
+}
+
+function overlaps(
+  a: { startAt: string; endAt: string },
+  b: { startAt: string; endAt: string },
+): boolean {
+  return a.startAt < b.endAt && b.startAt < a.endAt;
+}
+
+function buildAvailability(
+  deskId: number,
+  startAt: string,
+  endAt: string,
+): AvailabilityResponse[] {
+  const slots: AvailabilityResponse[] = [];
+  const end = new Date(endAt);
+  const now = toLocalDateTimeString(new Date());
+
+  for (
+    let cursor = new Date(startAt);
+    cursor < end;
+    cursor = new Date(cursor.getTime() + SLOT_MINUTES * 60_000)
+  ) {
+    const slot = {
+      startAt: toLocalDateTimeString(cursor),
+      endAt: toLocalDateTimeString(new Date(cursor.getTime() + SLOT_MINUTES * 60_000)),
+    };
+    const isBooked =
+      slot.startAt.slice(11, 16) === PREBOOKED_SLOT_TIME ||
+      bookings.some(
+        (booking) =>
+          booking.deskId === deskId && overlaps(booking, slot) && !isReleased(booking, now),
+      );
+
+    slots.push({...slot, status: isBooked ? "BOOKED" : "AVAILABLE"});
+  }
+
+  return slots;
+}
 
 export const handlers = [
   http.post("*/users", async ({request}) => {
@@ -85,6 +296,7 @@ export const handlers = [
         id: 1,
         email: body.email,
         fullName: "Test User",
+        role: "member",
       });
     }
 
@@ -94,12 +306,62 @@ export const handlers = [
     );
   }),
 
+  http.post("*/users/password-reset", async ({request}) => {
+    const {email} = (await request.json()) as { email?: string };
+
+    if (users.some((user) => user.email === email)) {
+      resetTokens.push({
+        token: `reset-token-${resetTokens.length + 1}`,
+        email: email as string,
+        expiresAt: Date.now() + RESET_TOKEN_MINUTES * 60_000,
+        usedAt: null,
+      });
+    }
+
+    // Unknown emails get the same answer, so accounts can't be discovered.
+    return new HttpResponse(null, {status: 202});
+  }),
+
+  http.post("*/users/password-reset/confirm", async ({request}) => {
+    const body = (await request.json()) as PasswordResetRequest;
+    const resetToken = resetTokens.find(({token}) => token === body.token);
+
+    if (!resetToken) {
+      return HttpResponse.json({message: "Reset link not found"}, {status: 404});
+    }
+    if (resetToken.usedAt != null) {
+      return HttpResponse.json({message: "Reset link has already been used"}, {status: 409});
+    }
+    if (resetToken.expiresAt <= Date.now()) {
+      return HttpResponse.json({message: "Reset link has expired"}, {status: 410});
+    }
+    if (!body.password || body.password.length < 8) {
+      return HttpResponse.json(
+        {
+          message: "Bad Request",
+          _embedded: {
+            errors: [{message: "request.password: must be at least 8 characters", path: "/password"}],
+          },
+        },
+        {status: 400},
+      );
+    }
+
+    resetToken.usedAt = Date.now();
+    return new HttpResponse(null, {status: 204});
+  }),
+
   http.get("*/desks", () => {
     return HttpResponse.json(desks);
   }),
 
   http.post("*/desks", async ({request}) => {
-    const body = (await request.json()) as { name?: string; location?: string | null };
+    const body = (await request.json()) as {
+      name?: string;
+      location?: string | null;
+      position?: DeskPosition | null;
+      amenities?: string[];
+    };
 
     const name = body.name?.trim();
     if (!name) {
@@ -116,14 +378,93 @@ export const handlers = [
       id: nextId,
       name,
       location: body.location ?? null,
+      position: body.position ?? null,
+      amenities: body.amenities ?? [],
+      active: true,
     };
 
     desks.push(newDesk);
+    emitMockEvent("desk.created", {deskId: newDesk.id});
 
     return HttpResponse.json(newDesk, {status: 201});
   }),
 
-  http.get("*/desks/:deskId/availability", ({request}) => {
+  http.patch("*/desks/:deskId", async ({params, request}) => {
+    const desk = desks.find((candidate) => candidate.id === Number(params.deskId));
+    if (!desk) {
+      return HttpResponse.json(
+        {message: "Desk not found"},
+        {status: 404},
+      );
+    }
+
+    const body = (await request.json()) as Partial<Pick<DeskResponse, "name" | "location" | "amenities" | "active">>;
+    if (body.name !== undefined && !body.name.trim()) {
+      return HttpResponse.json(
+        {message: "Name is required"},
+        {status: 400},
+      );
+    }
+
+    Object.assign(desk, body);
+    emitMockEvent("desk.updated", {deskId: desk.id});
+
+    return HttpResponse.json(desk);
+  }),
+
+  http.delete("*/desks/:deskId", ({params}) => {
+    const deskId = Number(params.deskId);
+    const index = desks.findIndex((desk) => desk.id === deskId);
+    if (index === -1) {
+      return HttpResponse.json(
+        {message: "Desk not found"},
+        {status: 404},
+      );
+    }
+
+    desks.splice(index, 1);
+    // Deleting a desk cancels its bookings.
+    bookings.splice(0, bookings.length, ...bookings.filter((booking) => booking.deskId !== deskId));
+    emitMockEvent("desk.deleted", {deskId});
+
+    return new HttpResponse(null, {status: 204});
+  }),
+
+  http.get("*/desks/:deskId/bookings", ({params, request}) => {
+    const from = new URL(request.url).searchParams.get("from") ?? "";
+    return HttpResponse.json(
+      bookings.filter(
+        (booking) => booking.deskId === Number(params.deskId) && booking.endAt > from,
+      ),
+    );
+  }),
+
+  http.get("*/events/bookings", ({request}) => {
+    let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController;
+        eventStreams.add(streamController);
+        streamController.enqueue(encoder.encode(": connected\n\n"));
+      },
+      cancel() {
+        if (controller) eventStreams.delete(controller);
+      },
+    });
+    request.signal.addEventListener("abort", () => {
+      if (controller) eventStreams.delete(controller);
+    });
+
+    return new HttpResponse(stream, {
+      headers: {"Content-Type": "text/event-stream"},
+    });
+  }),
+
+  http.get("*/locations", () => {
+    return HttpResponse.json(locations);
+  }),
+
+  http.get("*/desks/:deskId/availability", ({params, request}) => {
     const url = new URL(request.url);
     const startAt = url.searchParams.get("startAt");
     const endAt = url.searchParams.get("endAt");
@@ -135,18 +476,7 @@ export const handlers = [
       );
     }
 
-    const availability: AvailabilityResponse[] = [
-      {
-        startAt,
-        endAt,
-        status: "AVAILABLE",
-      },
-      {
-        startAt,
-        endAt,
-        status: "BOOKED",
-      },
-    ];
+    const availability = buildAvailability(Number(params.deskId), startAt, endAt);
 
     return HttpResponse.json(availability, {status: 200});
   }),
@@ -160,7 +490,12 @@ export const handlers = [
       );
     }
 
-    const body = (await request.json()) as { startAt?: string; endAt?: string };
+    const body = (await request.json()) as {
+      startAt?: string;
+      endAt?: string;
+      userId?: number;
+      groupId?: number;
+    };
 
     if (!body.startAt || !body.endAt) {
       return HttpResponse.json(
@@ -172,11 +507,184 @@ export const handlers = [
     const response: BookingResponse = {
       id: bookingIdCounter++,
       deskId: Number(deskId),
-      userId: 1,
+      userId: body.userId ?? 1,
       startAt: body.startAt,
       endAt: body.endAt,
+      ...(body.groupId !== undefined && {groupId: body.groupId}),
     };
 
+    const requested = buildAvailability(response.deskId, response.startAt, response.endAt);
+    if (requested.some((slot) => slot.status === "BOOKED")) {
+      return HttpResponse.json(
+        {message: "Desk is already booked for the selected time"},
+        {status: 409},
+      );
+    }
+
+    bookings.push(response);
+    emitMockEvent("booking.created", {booking: response});
+
     return HttpResponse.json(response, {status: 201});
   }),
+
+  http.get("*/users", () => {
+    return HttpResponse.json(users);
+  }),
+
+  http.post("*/booking-groups", async ({request}) => {
+    const body = (await request.json()) as { startAt?: string; endAt?: string };
+    if (!body.startAt || !body.endAt) {
+      return HttpResponse.json(
+        {message: "startAt and endAt are required"},
+        {status: 400},
+      );
+    }
+
+    const group: BookingGroupResponse = {
+      id: bookingGroups.length + 1,
+      organizerId: 1,
+      startAt: body.startAt,
+      endAt: body.endAt,
+    };
+    bookingGroups.push(group);
+
+    return HttpResponse.json({...group, members: []}, {status: 201});
+  }),
+
+  http.get("*/booking-groups/:groupId", ({params}) => {
+    const group = bookingGroups.find((candidate) => candidate.id === Number(params.groupId));
+    if (!group) {
+      return HttpResponse.json(
+        {message: "Booking group not found"},
+        {status: 404},
+      );
+    }
+
+    const members = bookings
+      .filter((booking) => booking.groupId === group.id)
+      .map((booking) => ({
+        bookingId: booking.id,
+        deskId: booking.deskId,
+        userId: booking.userId,
+        fullName: users.find((user) => user.id === booking.userId)?.fullName ?? null,
+      }));
+
+    return HttpResponse.json({...group, members});
+  }),
+
+  http.get("*/users/me/waitlist", () => {
+    return HttpResponse.json(waitlist);
+  }),
+
+  http.post("*/desks/:deskId/waitlist", async ({params, request}) => {
+    const body = (await request.json()) as {
+      startAt?: string;
+      endAt?: string;
+      autoClaim?: boolean;
+    };
+    if (!body.startAt || !body.endAt) {
+      return HttpResponse.json(
+        {message: "startAt and endAt are required"},
+        {status: 400},
+      );
+    }
+
+    const deskId = Number(params.deskId);
+    const requested = {startAt: body.startAt, endAt: body.endAt};
+    if (waitlist.some((entry) => entry.deskId === deskId && overlaps(entry, requested))) {
+      return HttpResponse.json(
+        {message: "Already on the waitlist"},
+        {status: 409},
+      );
+    }
+
+    const entry: WaitlistEntryResponse = {
+      id: waitlistIdCounter++,
+      deskId,
+      ...requested,
+      autoClaim: body.autoClaim ?? false,
+    };
+    waitlist.push(entry);
+
+    return HttpResponse.json(entry, {status: 201});
+  }),
+
+  http.patch("*/waitlist/:entryId", async ({params, request}) => {
+    const entry = waitlist.find((candidate) => candidate.id === Number(params.entryId));
+    if (!entry) {
+      return HttpResponse.json(
+        {message: "Waitlist entry not found"},
+        {status: 404},
+      );
+    }
+
+    const body = (await request.json()) as { autoClaim?: boolean };
+    if (body.autoClaim !== undefined) entry.autoClaim = body.autoClaim;
+
+    return HttpResponse.json(entry);
+  }),
+
+  http.delete("*/waitlist/:entryId", ({params}) => {
+    const index = waitlist.findIndex((entry) => entry.id === Number(params.entryId));
+    if (index === -1) {
+      return HttpResponse.json(
+        {message: "Waitlist entry not found"},
+        {status: 404},
+      );
+    }
+
+    waitlist.splice(index, 1);
+    return new HttpResponse(null, {status: 204});
+  }),
+
+  http.get("*/users/me/bookings", () => {
+    return HttpResponse.json(bookings.filter((booking) => booking.userId === 1));
+  }),
+
+  http.post("*/desks/:deskId/checkin", ({params}) => {
+    const now = toLocalDateTimeString(new Date());
+    const booking = bookings.find(
+      (candidate) =>
+        candidate.deskId === Number(params.deskId) &&
+        candidate.userId === 1 &&
+        shiftMinutes(candidate.startAt, -CHECK_IN_OPENS_MINUTES) <= now &&
+        now < candidate.endAt,
+    );
+
+    if (!booking) {
+      return HttpResponse.json(
+        {message: "No booking to check in to"},
+        {status: 404},
+      );
+    }
+    if (isReleased(booking, now)) {
+      return HttpResponse.json(
+        {message: "Booking was released"},
+        {status: 409},
+      );
+    }
+
+    booking.checkedInAt ??= now;
+    return HttpResponse.json(booking);
+  }),
+
+  http.delete("*/desks/:deskId/bookings/:bookingId", ({params}) => {
+    const index = bookings.findIndex(
+      (booking) =>
+        booking.id === Number(params.bookingId) &&
+        booking.deskId === Number(params.deskId),
+    );
+
+    if (index === -1) {
+      return HttpResponse.json(
+        {message: "Booking not found"},
+        {status: 404},
+      );
+    }
+
+    const [cancelled] = bookings.splice(index, 1);
+    emitMockEvent("booking.cancelled", {booking: cancelled});
+
+    return new HttpResponse(null, {status: 204});
+  }),
 ];
\ No newline at end of file
@@ -0,0 +1,19 @@
+import {act} from "@testing-library/react";
+import {onlineManager} from "@tanstack/react-query";
+import {http, HttpResponse} from "msw";
+import {server} from "@/test-utils/msw/server";
+
+/**
+ * Simulates losing the connection: the app sees itself as offline and any
+ * request that still goes out fails like it would without a network.
+ */
+export function goOffline() {
+  server.use(http.all("*", () => HttpResponse.error()));
+  act(() => onlineManager.setOnline(false));
+}
+
+/** Reconnects: requests reach the mock API again and paused queries resume. */
+export function goOnline() {
+  server.resetHandlers();
+  act(() => onlineManager.setOnline(true));
+}
@@ -3,11 +3,18 @@ import {render} from "@testing-library/react";
 import {MemoryRouter, type MemoryRouterProps} from "react-router-dom";
 import {QueryClient, QueryClientProvider} from "@tanstack/react-query";
 import {AuthProvider} from "@/features/auth/AuthContext";
+import type {Role} from "@/features/auth/roles";
+import {PreferencesProvider} from "@/features/preferences/PreferencesContext";
+import {I18nProvider} from "@/lib/i18n/I18nContext";
+import {BookingQueueProvider} from "@/features/offline/BookingQueueContext";
+import {LiveAnnouncerProvider} from "@/components/ui/LiveAnnouncer";
 
 type User = {
   id: number;
   email: string;
   fullName: string;
+  /** Left out, the role is read from the token like for older stored sessions. */
+  role?: Role;
 };
 
 type AuthData = {
@@ -52,7 +59,15 @@ export function renderWithProviders(
       <QueryClientProvider client={queryClient}>
         <MemoryRouter initialEntries={initialEntries}>
           <AuthProvider>
-            {children}
+            <PreferencesProvider>
+              <I18nProvider>
+                <BookingQueueProvider>
+                  <LiveAnnouncerProvider>
+                    {children}
+                  </LiveAnnouncerProvider>
+                </BookingQueueProvider>
+              </I18nProvider>
+            </PreferencesProvider>
           </AuthProvider>
         </MemoryRouter>
       </QueryClientProvider>
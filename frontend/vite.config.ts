@@ -14,5 +14,7 @@ export default defineConfig({
     globals: true,
     setupFiles: "./src/setupTests.ts",
     css: true,
+    // Pin the browser timezone so time conversions behave the same everywhere.
+    env: {TZ: "UTC"},
   },
 });
\ No newline at end of file